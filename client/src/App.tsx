@@ -15,6 +15,7 @@ import Engagement from "@/pages/Engagement";
 import Billing from "@/pages/Billing";
 import UploadPage from "@/pages/Upload";
 import LibraryPage from "@/pages/Library";
+import UploadDetailPage from "@/pages/UploadDetail";
 import AccountsPage from "@/pages/Accounts";
 import NotFound from "@/pages/not-found";
 
@@ -43,6 +44,7 @@ function Router() {
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/upload" component={UploadPage} />
       <Route path="/library" component={LibraryPage} />
+      <Route path="/library/:id" component={UploadDetailPage} />
       <Route path="/accounts" component={AccountsPage} />
       <Route path="/scheduling" component={Scheduling} />
       <Route path="/analytics" component={Analytics} />
@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Eye, Save } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface CaptionStyle {
+  fontFamily: string;
+  fontSize: number;
+  bold: boolean;
+  uppercase: boolean;
+  textColor: string;
+  highlightColor: string;
+  outlineColor: string;
+  outlineWidth: number;
+  shadowColor: string;
+  shadowDepth: number;
+  position: 'top' | 'middle' | 'bottom';
+  marginVertical: number;
+  karaoke: boolean;
+}
+
+interface CaptionPreset {
+  name: string;
+  style: CaptionStyle;
+  builtIn?: boolean;
+}
+
+interface CaptionStylePickerProps {
+  value: CaptionStyle | null;
+  onChange: (style: CaptionStyle) => void;
+}
+
+export default function CaptionStylePicker({ value, onChange }: CaptionStylePickerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedPreset, setSelectedPreset] = useState<string>('');
+  const [presetName, setPresetName] = useState('');
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  const { data: workspaces } = useQuery<Array<{ id: string; name: string }>>({
+    queryKey: ['/api/workspaces'],
+  });
+  const workspaceId = workspaces?.[0]?.id;
+
+  const { data: presets = [] } = useQuery<CaptionPreset[]>({
+    queryKey: ['/api/captions/presets', workspaceId],
+    queryFn: async () => {
+      const params = workspaceId ? `?workspaceId=${workspaceId}` : '';
+      const response = await fetch(`/api/captions/presets${params}`);
+      if (!response.ok) throw new Error('Failed to fetch caption presets');
+      return response.json();
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (style: CaptionStyle) => {
+      const response = await fetch('/api/captions/preview', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ style }),
+      });
+      if (!response.ok) throw new Error('Failed to render preview');
+      return URL.createObjectURL(await response.blob());
+    },
+    onSuccess: (url) => {
+      setPreviewUrl((previous) => {
+        if (previous) URL.revokeObjectURL(previous);
+        return url;
+      });
+    },
+  });
+
+  const savePresetMutation = useMutation({
+    mutationFn: async () => {
+      const custom = presets.filter((preset) => !preset.builtIn && preset.name !== presetName.trim());
+      return apiRequest(`/api/workspaces/${workspaceId}/caption-presets`, 'PUT', {
+        presets: [...custom, { name: presetName.trim(), style: value }],
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/captions/presets', workspaceId] });
+      setSelectedPreset(presetName.trim());
+      toast({ title: "Caption preset saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save preset", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Start from the first preset so shorts always get a caption style
+  useEffect(() => {
+    if (!value && presets.length) {
+      setSelectedPreset(presets[0].name);
+      onChange(presets[0].style);
+      previewMutation.mutate(presets[0].style);
+    }
+  }, [presets, value]);
+
+  const selectPreset = (name: string) => {
+    const preset = presets.find((p) => p.name === name);
+    if (!preset) return;
+    setSelectedPreset(name);
+    onChange(preset.style);
+    previewMutation.mutate(preset.style);
+  };
+
+  const update = (changes: Partial<CaptionStyle>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  if (!value) {
+    return <div className="h-24 bg-gray-200 rounded animate-pulse"></div>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="space-y-4">
+        <div>
+          <Label>Preset</Label>
+          <Select value={selectedPreset} onValueChange={selectPreset}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a preset" />
+            </SelectTrigger>
+            <SelectContent>
+              {presets.map((preset) => (
+                <SelectItem key={preset.name} value={preset.name}>
+                  {preset.name}{preset.builtIn ? '' : ' (workspace)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {([
+            ['textColor', 'Text'],
+            ['highlightColor', 'Highlight'],
+            ['outlineColor', 'Outline'],
+            ['shadowColor', 'Shadow'],
+          ] as const).map(([key, label]) => (
+            <div key={key}>
+              <Label>{label} colour</Label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={value[key].slice(0, 7)}
+                  onChange={(e) => update({ [key]: e.target.value.toUpperCase() + value[key].slice(7) })}
+                  className="h-9 w-12 rounded border"
+                />
+                <Input value={value[key]} onChange={(e) => update({ [key]: e.target.value })} className="font-mono" />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label>Font</Label>
+            <Input value={value.fontFamily} onChange={(e) => update({ fontFamily: e.target.value })} />
+          </div>
+          <div>
+            <Label>Font size</Label>
+            <Input type="number" value={value.fontSize} onChange={(e) => update({ fontSize: Number(e.target.value) })} />
+          </div>
+          <div>
+            <Label>Outline width</Label>
+            <Input type="number" value={value.outlineWidth} onChange={(e) => update({ outlineWidth: Number(e.target.value) })} />
+          </div>
+          <div>
+            <Label>Shadow depth</Label>
+            <Input type="number" value={value.shadowDepth} onChange={(e) => update({ shadowDepth: Number(e.target.value) })} />
+          </div>
+          <div>
+            <Label>Position</Label>
+            <Select value={value.position} onValueChange={(position) => update({ position: position as CaptionStyle['position'] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="top">Top</SelectItem>
+                <SelectItem value="middle">Middle</SelectItem>
+                <SelectItem value="bottom">Bottom</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Edge margin</Label>
+            <Input type="number" value={value.marginVertical} onChange={(e) => update({ marginVertical: Number(e.target.value) })} />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-6">
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={value.karaoke} onCheckedChange={(karaoke) => update({ karaoke })} />
+            Word highlight
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={value.bold} onCheckedChange={(bold) => update({ bold })} />
+            Bold
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={value.uppercase} onCheckedChange={(uppercase) => update({ uppercase })} />
+            Uppercase
+          </label>
+        </div>
+
+        {workspaceId && (
+          <div className="flex gap-2">
+            <Input placeholder="Preset name" value={presetName} onChange={(e) => setPresetName(e.target.value)} />
+            <Button
+              variant="outline"
+              onClick={() => savePresetMutation.mutate()}
+              disabled={!presetName.trim() || savePresetMutation.isPending}
+            >
+              <Save className="h-4 w-4 mr-1" />
+              Save Preset
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col items-center gap-3">
+        <div className="w-[270px] h-[480px] rounded-lg overflow-hidden bg-slate-800 flex items-center justify-center">
+          {previewUrl ? (
+            <img src={previewUrl} alt="Caption preview" className="w-full h-full object-cover" />
+          ) : (
+            <span className="text-sm text-slate-400">No preview yet</span>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={() => previewMutation.mutate(value)} disabled={previewMutation.isPending}>
+          <Eye className="h-4 w-4 mr-1" />
+          {previewMutation.isPending ? 'Rendering...' : 'Preview'}
+        </Button>
+      </div>
+    </div>
+  );
+}
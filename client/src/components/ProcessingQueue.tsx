@@ -18,6 +18,7 @@ export default function ProcessingQueue() {
 
   const getStatusIcon = (status: string) => {
     switch (status) {
+      case 'preprocessing':
       case 'transcribing':
         return <Mic className="w-4 h-4 text-blue-500" />;
       case 'segmenting':
@@ -37,6 +38,8 @@ export default function ProcessingQueue() {
     switch (status) {
       case 'uploaded':
         return 'Queued...';
+      case 'preprocessing':
+        return 'Cleaning up audio...';
       case 'transcribing':
         return 'Transcribing...';
       case 'segmenting':
@@ -56,6 +59,8 @@ export default function ProcessingQueue() {
     switch (status) {
       case 'uploaded':
         return 10;
+      case 'preprocessing':
+        return 20;
       case 'transcribing':
         return 30;
       case 'segmenting':
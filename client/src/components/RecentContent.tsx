@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -27,6 +28,7 @@ export default function RecentContent() {
           Completed
         </Badge>;
       case 'processing':
+      case 'preprocessing':
       case 'transcribing':
       case 'segmenting':
         return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
@@ -123,7 +125,9 @@ export default function RecentContent() {
                 
                 <div className="flex-1">
                   <h4 className="font-medium text-slate-900 mb-1">
-                    {upload.originalName}
+                    <Link href={`/library/${upload.id}`} className="hover:text-primary">
+                      {upload.originalName}
+                    </Link>
                   </h4>
                   <p className="text-sm text-slate-500 mb-2">
                     {upload.status === 'completed' 
@@ -0,0 +1,281 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowDown, ArrowUp, Combine, Save, Scissors, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Segment {
+  id: string;
+  title: string;
+  summary: string | null;
+  startTime: string;
+  endTime: string;
+  transcript: string | null;
+  order: number;
+}
+
+interface Waveform {
+  duration: number;
+  peaks: number[];
+}
+
+interface SegmentEditorProps {
+  uploadId: string;
+}
+
+const TIMELINE_HEIGHT = 96;
+
+export default function SegmentEditor({ uploadId }: SegmentEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [draft, setDraft] = useState({ title: "", summary: "", startTime: "", endTime: "" });
+
+  const segmentsKey = ['/api/uploads', uploadId, 'segments'];
+
+  const { data: segments = [], isLoading } = useQuery<Segment[]>({
+    queryKey: segmentsKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/uploads/${uploadId}/segments`);
+      if (!response.ok) throw new Error('Failed to fetch segments');
+      return response.json();
+    },
+  });
+
+  const { data: waveform } = useQuery<Waveform>({
+    queryKey: ['/api/uploads', uploadId, 'waveform'],
+    queryFn: async () => {
+      const response = await fetch(`/api/uploads/${uploadId}/waveform`);
+      if (!response.ok) throw new Error('Failed to fetch waveform');
+      return response.json();
+    },
+    staleTime: Infinity,
+  });
+
+  const selected = segments.find((segment) => segment.id === selectedId) || null;
+
+  useEffect(() => {
+    if (selected) {
+      setDraft({
+        title: selected.title,
+        summary: selected.summary || "",
+        startTime: parseFloat(selected.startTime).toFixed(2),
+        endTime: parseFloat(selected.endTime).toFixed(2),
+      });
+    }
+  }, [selected?.id, selected?.startTime, selected?.endTime, selected?.title, selected?.summary]);
+
+  const onEdited = (message: string) => ({
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: segmentsKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/uploads', uploadId, 'social-posts'] });
+      toast({ title: message, description: "Clips and social posts are being regenerated." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Edit failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async () => apiRequest(`/api/segments/${selectedId}`, 'PATCH', {
+      title: draft.title,
+      summary: draft.summary,
+      startTime: parseFloat(draft.startTime),
+      endTime: parseFloat(draft.endTime),
+    }),
+    ...onEdited("Segment updated"),
+  });
+
+  const splitMutation = useMutation({
+    mutationFn: async (at: number) => apiRequest(`/api/segments/${selectedId}/split`, 'POST', { at }),
+    ...onEdited("Segment split"),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async (segmentId: string) => apiRequest(`/api/segments/${selectedId}/merge`, 'POST', { segmentId }),
+    ...onEdited("Segments merged"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => apiRequest(`/api/segments/${selectedId}`, 'DELETE'),
+    onSuccess: () => {
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: segmentsKey });
+      toast({ title: "Segment deleted" });
+    },
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (segmentIds: string[]) => apiRequest(`/api/uploads/${uploadId}/segments/order`, 'PUT', { segmentIds }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: segmentsKey }),
+  });
+
+  const duration = waveform?.duration
+    || Math.max(0, ...segments.map((segment) => parseFloat(segment.endTime)));
+
+  const toPercent = (seconds: number) => (duration ? (seconds / duration) * 100 : 0);
+
+  const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = (seconds % 60).toFixed(1);
+    return `${minutes}:${remainingSeconds.padStart(4, '0')}`;
+  };
+
+  const handleTimelineClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const time = ((e.clientX - rect.left) / rect.width) * duration;
+    setCursor(time);
+
+    const hit = segments.find((segment) =>
+      time >= parseFloat(segment.startTime) && time <= parseFloat(segment.endTime)
+    );
+    if (hit) setSelectedId(hit.id);
+  };
+
+  const move = (direction: -1 | 1) => {
+    const ids = segments.map((segment) => segment.id);
+    const index = ids.indexOf(selectedId!);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const nextByTime = selected
+    ? [...segments]
+        .filter((segment) => parseFloat(segment.startTime) >= parseFloat(selected.endTime))
+        .sort((a, b) => parseFloat(a.startTime) - parseFloat(b.startTime))[0]
+    : undefined;
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Segments</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-24 bg-gray-200 rounded animate-pulse"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Segments</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div
+          className="relative w-full bg-slate-900 rounded cursor-crosshair overflow-hidden"
+          style={{ height: TIMELINE_HEIGHT }}
+          onClick={handleTimelineClick}
+        >
+          {waveform && (
+            <svg className="absolute inset-0 w-full h-full" viewBox={`0 0 ${waveform.peaks.length} 100`} preserveAspectRatio="none">
+              {waveform.peaks.map((peak, i) => (
+                <rect key={i} x={i} y={50 - peak * 50} width={1} height={Math.max(1, peak * 100)} fill="#94a3b8" />
+              ))}
+            </svg>
+          )}
+          {segments.map((segment) => (
+            <div
+              key={segment.id}
+              className={`absolute top-0 bottom-0 border-x-2 ${
+                segment.id === selectedId ? 'bg-blue-500/40 border-blue-400' : 'bg-emerald-500/20 border-emerald-400/60'
+              }`}
+              style={{
+                left: `${toPercent(parseFloat(segment.startTime))}%`,
+                width: `${toPercent(parseFloat(segment.endTime) - parseFloat(segment.startTime))}%`,
+              }}
+              title={segment.title}
+            >
+              <span className="absolute top-1 left-1 text-[10px] text-white truncate max-w-full">{segment.order}</span>
+            </div>
+          ))}
+          {cursor !== null && (
+            <div className="absolute top-0 bottom-0 w-px bg-red-500" style={{ left: `${toPercent(cursor)}%` }} />
+          )}
+        </div>
+        <div className="flex justify-between text-xs text-slate-400">
+          <span>0:00.0</span>
+          {cursor !== null && <span className="text-red-500">Cursor {formatTime(cursor)}</span>}
+          <span>{formatTime(duration)}</span>
+        </div>
+
+        <div className="space-y-1">
+          {segments.map((segment) => (
+            <button
+              key={segment.id}
+              className={`w-full text-left px-3 py-2 rounded text-sm ${
+                segment.id === selectedId ? 'bg-blue-50 text-blue-900' : 'hover:bg-slate-50'
+              }`}
+              onClick={() => setSelectedId(segment.id)}
+            >
+              <span className="font-medium">{segment.order}. {segment.title}</span>
+              <span className="ml-2 text-slate-400">
+                {formatTime(parseFloat(segment.startTime))} - {formatTime(parseFloat(segment.endTime))}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {selected && (
+          <div className="border-t pt-4 space-y-3">
+            <Input value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} placeholder="Title" />
+            <Textarea value={draft.summary} onChange={(e) => setDraft({ ...draft, summary: e.target.value })} placeholder="Summary" rows={2} />
+            <div className="flex items-center space-x-2">
+              <Input type="number" step="0.1" value={draft.startTime} onChange={(e) => setDraft({ ...draft, startTime: e.target.value })} />
+              <Button variant="outline" size="sm" disabled={cursor === null} onClick={() => setDraft({ ...draft, startTime: cursor!.toFixed(2) })}>
+                Start at cursor
+              </Button>
+              <Input type="number" step="0.1" value={draft.endTime} onChange={(e) => setDraft({ ...draft, endTime: e.target.value })} />
+              <Button variant="outline" size="sm" disabled={cursor === null} onClick={() => setDraft({ ...draft, endTime: cursor!.toFixed(2) })}>
+                End at cursor
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" onClick={() => updateMutation.mutate()} disabled={updateMutation.isPending}>
+                <Save className="w-4 h-4 mr-1" />
+                Save
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={cursor === null || splitMutation.isPending}
+                onClick={() => splitMutation.mutate(cursor!)}
+              >
+                <Scissors className="w-4 h-4 mr-1" />
+                Split at cursor
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!nextByTime || mergeMutation.isPending}
+                onClick={() => nextByTime && mergeMutation.mutate(nextByTime.id)}
+              >
+                <Combine className="w-4 h-4 mr-1" />
+                Merge with next
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => move(-1)} disabled={selected.order === 1}>
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => move(1)} disabled={selected.order === segments.length}>
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="destructive" onClick={() => deleteMutation.mutate()} disabled={deleteMutation.isPending}>
+                <Trash2 className="w-4 h-4 mr-1" />
+                Delete
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Users } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Speaker {
+  label: string;
+  name: string | null;
+  talkTime: number;
+}
+
+interface SpeakerManagerProps {
+  uploadId: string;
+}
+
+export default function SpeakerManager({ uploadId }: SpeakerManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  const { data, isLoading } = useQuery<{ speakers: Speaker[] }>({
+    queryKey: ['/api/uploads', uploadId, 'speakers'],
+    queryFn: async () => {
+      const response = await fetch(`/api/uploads/${uploadId}/speakers`);
+      if (!response.ok) throw new Error('Failed to fetch speakers');
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    if (data?.speakers) {
+      setNames(Object.fromEntries(data.speakers.map((speaker) => [speaker.label, speaker.name || ""])));
+    }
+  }, [data]);
+
+  const renameMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest(`/api/uploads/${uploadId}/speakers`, 'PUT', { names });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/uploads', uploadId, 'speakers'] });
+      toast({ title: "Speaker names saved" });
+    },
+    onError: () => {
+      toast({ title: "Failed to save speaker names", variant: "destructive" });
+    },
+  });
+
+  const formatTalkTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = Math.floor(seconds % 60);
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  };
+
+  const speakers = data?.speakers || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Users className="w-5 h-5 mr-2" />
+          Speakers
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse space-y-3">
+            {[1, 2].map((i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : speakers.length === 0 ? (
+          <p className="text-gray-500">No speakers were detected for this upload.</p>
+        ) : (
+          <div className="space-y-3">
+            {speakers.map((speaker) => (
+              <div key={speaker.label} className="flex items-center space-x-3">
+                <span className="w-24 text-sm font-medium text-slate-600">Speaker {speaker.label}</span>
+                <Input
+                  value={names[speaker.label] ?? ""}
+                  placeholder={`Speaker ${speaker.label}`}
+                  onChange={(e) => setNames({ ...names, [speaker.label]: e.target.value })}
+                />
+                <span className="w-16 text-right text-xs text-slate-400">{formatTalkTime(speaker.talkTime)}</span>
+              </div>
+            ))}
+            <div className="flex justify-end">
+              <Button onClick={() => renameMutation.mutate()} disabled={renameMutation.isPending}>
+                {renameMutation.isPending ? "Saving..." : "Save Names"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { FileText } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface TranscriptWord {
+  index: number;
+  word: string;
+  start: number;
+  end: number;
+  speaker?: string;
+}
+
+interface TranscriptData {
+  id: string;
+  text: string;
+  words: TranscriptWord[];
+}
+
+interface TranscriptEditorProps {
+  uploadId: string;
+}
+
+export default function TranscriptEditor({ uploadId }: TranscriptEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [corrections, setCorrections] = useState<Record<number, string>>({});
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editedText, setEditedText] = useState<string | null>(null);
+
+  const transcriptKey = ['/api/uploads', uploadId, 'transcript'];
+
+  const { data: transcript, isLoading } = useQuery<TranscriptData>({
+    queryKey: transcriptKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/uploads/${uploadId}/transcript`);
+      if (!response.ok) throw new Error('Failed to fetch transcript');
+      return response.json();
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (transcript?.words.length) {
+        return apiRequest(`/api/uploads/${uploadId}/transcript`, 'PATCH', {
+          corrections: Object.entries(corrections).map(([index, word]) => ({ index: Number(index), word })),
+        });
+      }
+      return apiRequest(`/api/uploads/${uploadId}/transcript`, 'PATCH', { text: editedText });
+    },
+    onSuccess: (result: { updatedSegments: number }) => {
+      setCorrections({});
+      setEditedText(null);
+      queryClient.invalidateQueries({ queryKey: transcriptKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/uploads', uploadId, 'segments'] });
+      toast({
+        title: "Transcript saved",
+        description: result.updatedSegments
+          ? `${result.updatedSegments} segments updated; their clips and captions are being regenerated.`
+          : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save transcript", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = Math.floor(seconds % 60);
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  };
+
+  const pendingCount = Object.keys(corrections).length;
+  const hasChanges = transcript?.words.length ? pendingCount > 0 : editedText !== null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <FileText className="w-5 h-5 mr-2" />
+            Transcript
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            {pendingCount > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => setCorrections({})}>
+                Discard {pendingCount} {pendingCount === 1 ? 'change' : 'changes'}
+              </Button>
+            )}
+            <Button size="sm" onClick={() => saveMutation.mutate()} disabled={!hasChanges || saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save Corrections"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse h-32 bg-gray-200 rounded"></div>
+        ) : !transcript ? (
+          <p className="text-gray-500">No transcript available yet.</p>
+        ) : transcript.words.length === 0 ? (
+          <Textarea
+            value={editedText ?? transcript.text}
+            onChange={(e) => setEditedText(e.target.value)}
+            rows={12}
+          />
+        ) : (
+          <div className="max-h-96 overflow-y-auto leading-8 text-sm">
+            <p className="text-xs text-slate-400 mb-2">Click a word to correct it. Clear a word to remove it.</p>
+            {transcript.words.map((word) => {
+              const corrected = corrections[word.index];
+
+              if (editingIndex === word.index) {
+                return (
+                  <Input
+                    key={word.index}
+                    autoFocus
+                    className="inline-block w-40 h-7 mx-1"
+                    defaultValue={corrected ?? word.word.trim()}
+                    onBlur={(e) => {
+                      const value = e.target.value.trim();
+                      const next = { ...corrections };
+                      if (value === word.word.trim()) {
+                        delete next[word.index];
+                      } else {
+                        next[word.index] = value;
+                      }
+                      setCorrections(next);
+                      setEditingIndex(null);
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                      if (e.key === 'Escape') setEditingIndex(null);
+                    }}
+                  />
+                );
+              }
+
+              return (
+                <span
+                  key={word.index}
+                  title={`${formatTime(word.start)}${word.speaker ? ` · Speaker ${word.speaker}` : ''}`}
+                  className={`cursor-pointer rounded px-0.5 hover:bg-blue-50 ${
+                    corrected !== undefined ? 'bg-yellow-100 text-yellow-900' : ''
+                  } ${corrected === '' ? 'line-through' : ''}`}
+                  onClick={() => setEditingIndex(word.index)}
+                >
+                  {corrected || word.word.trim()}{' '}
+                </span>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,17 +7,20 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { CloudUpload, FileText, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { CloudUpload, FileText, Link2, X } from "lucide-react";
 
 interface UploadModalProps {
   isOpen: boolean;
   onClose: () => void;
   onUpload: (file: File) => void;
+  onImportUrl: (url: string) => void;
   isUploading: boolean;
 }
 
-export default function UploadModal({ isOpen, onClose, onUpload, isUploading }: UploadModalProps) {
+export default function UploadModal({ isOpen, onClose, onUpload, onImportUrl, isUploading }: UploadModalProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [importUrl, setImportUrl] = useState("");
   const [dragActive, setDragActive] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -42,9 +45,16 @@ export default function UploadModal({ isOpen, onClose, onUpload, isUploading }:
   };
 
   const handleFileSelect = (file: File) => {
-    const allowedTypes = ['video/mp4', 'video/quicktime', 'audio/mpeg', 'audio/wav'];
-    if (!allowedTypes.includes(file.type)) {
-      alert('Please select a valid file type (MP4, MOV, MP3, WAV)');
+    const allowedTypes = [
+      'video/mp4', 'video/quicktime', 'audio/mpeg', 'audio/wav', 'audio/mp4', 'audio/x-m4a', 'audio/flac', 'audio/x-flac',
+      'text/plain', 'text/markdown', 'application/rtf', 'text/rtf',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    ];
+    // Browsers often report no type for Markdown files
+    const documentExtensions = ['.txt', '.md', '.markdown', '.rtf', '.docx'];
+    const isDocument = documentExtensions.some(ext => file.name.toLowerCase().endsWith(ext));
+    if (!allowedTypes.includes(file.type) && !isDocument) {
+      alert('Please select a valid file type (MP4, MOV, MP3, WAV, M4A, FLAC, TXT, MD, RTF, DOCX)');
       return;
     }
 
@@ -76,9 +86,16 @@ export default function UploadModal({ isOpen, onClose, onUpload, isUploading }:
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  const handleImportClick = () => {
+    if (importUrl.trim()) {
+      onImportUrl(importUrl.trim());
+    }
+  };
+
   const handleClose = () => {
     if (!isUploading) {
       setSelectedFile(null);
+      setImportUrl("");
       onClose();
     }
   };
@@ -118,7 +135,7 @@ export default function UploadModal({ isOpen, onClose, onUpload, isUploading }:
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".mp4,.mov,.mp3,.wav,video/mp4,video/quicktime,audio/mpeg,audio/wav"
+                accept=".mp4,.mov,.mp3,.wav,.m4a,.flac,.txt,.md,.markdown,.rtf,.docx,video/mp4,video/quicktime,audio/mpeg,audio/wav,audio/mp4,audio/x-m4a,audio/flac"
                 onChange={handleFileInputChange}
                 className="hidden"
               />
@@ -164,8 +181,35 @@ export default function UploadModal({ isOpen, onClose, onUpload, isUploading }:
             </div>
           )}
 
+          {!selectedFile && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-700">Or import from a link</label>
+              <div className="flex space-x-2">
+                <div className="relative flex-1">
+                  <Link2 className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                  <Input
+                    type="url"
+                    placeholder="https://example.com/episode.mp3"
+                    value={importUrl}
+                    onChange={(e) => setImportUrl(e.target.value)}
+                    disabled={isUploading}
+                    className="pl-9"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={handleImportClick}
+                  disabled={!importUrl.trim() || isUploading}
+                >
+                  Import
+                </Button>
+              </div>
+            </div>
+          )}
+
           <div className="text-sm text-slate-500 space-y-1">
-            <p>• Supported formats: MP4, MOV, MP3, WAV</p>
+            <p>• Supported formats: MP4, MOV, MP3, WAV, M4A, FLAC</p>
+            <p>• Documents (TXT, MD, RTF, DOCX) skip transcription and media clips</p>
             <p>• Maximum file size: 500MB</p>
             <p>• Processing time: 2-5 minutes average</p>
           </div>
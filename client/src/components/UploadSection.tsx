@@ -58,6 +58,24 @@ export default function UploadSection() {
     },
   });
 
+  const importMutation = useMutation({
+    mutationFn: async (url: string) => apiRequest('/api/uploads/import', 'POST', { url }),
+    onSuccess: () => {
+      toast({
+        title: "Import Started",
+        description: "The file is downloading and will appear in your uploads when it is ready.",
+      });
+      setShowModal(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import Failed",
+        description: error.message || "Could not import from that link.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleFileUpload = (file: File) => {
     const formData = new FormData();
     formData.append('file', file);
@@ -117,7 +135,8 @@ export default function UploadSection() {
         isOpen={showModal}
         onClose={() => setShowModal(false)}
         onUpload={handleFileUpload}
-        isUploading={uploadMutation.isPending}
+        onImportUrl={(url) => importMutation.mutate(url)}
+        isUploading={uploadMutation.isPending || importMutation.isPending}
       />
     </>
   );
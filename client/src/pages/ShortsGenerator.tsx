@@ -1,24 +1,41 @@
 import { useState } from 'react';
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
 import { Navigation } from '@/components/Navigation';
+import CaptionStylePicker, { type CaptionStyle } from '@/components/CaptionStylePicker';
 import { apiRequest } from '@/lib/queryClient';
 import { Video, Download, Clock, FileVideo, Settings } from 'lucide-react';
 
 interface ShortsResult {
+  clipId: string;
   segmentId: string;
-  outputPath: string;
+  status: string;
+  outputPath: string | null;
   duration: number;
   size: number;
   format: string;
   resolution: string;
+  layout?: string;
+  removedSeconds?: number;
+  error?: string;
 }
 
+interface ShortsStatus {
+  status: 'none' | 'processing' | 'completed';
+  progress: number;
+  totalShorts: number;
+  completedShorts: number;
+  results: ShortsResult[];
+}
+
+type ReframeLayout = 'auto' | 'track' | 'split' | 'blur' | 'center';
+
 interface ShortsConfig {
   width: number;
   height: number;
@@ -27,9 +44,13 @@ interface ShortsConfig {
     fontcolor: string;
     fontfamily: string;
   };
+  captionStyle: CaptionStyle | null;
+  reframe: ReframeLayout;
+  tighten: boolean; // Cut filler words and long pauses
 }
 
 export default function ShortsGenerator() {
+  const queryClient = useQueryClient();
   const [selectedUpload, setSelectedUpload] = useState<string>('');
   const [shortsConfig, setShortsConfig] = useState<ShortsConfig>({
     width: 1080,
@@ -38,7 +59,10 @@ export default function ShortsGenerator() {
       fontsize: 48,
       fontcolor: 'white',
       fontfamily: 'Arial'
-    }
+    },
+    captionStyle: null,
+    reframe: 'auto',
+    tighten: false
   });
 
   const { data: uploads } = useQuery({
@@ -54,15 +78,20 @@ export default function ShortsGenerator() {
     queryKey: ['/api/scheduling/verticals'],
   });
 
+  // Shorts are rendered by the processing pipeline and on request; poll
+  // while any are still rendering
+  const { data: shortsStatus } = useQuery<ShortsStatus>({
+    queryKey: [`/api/shorts/${selectedUpload}/status`],
+    enabled: !!selectedUpload,
+    refetchInterval: (query) => (query.state.data?.status === 'processing' ? 3000 : false),
+  });
+
   const generateShortsMutation = useMutation({
     mutationFn: async (uploadId: string) => {
-      return apiRequest(`/api/shorts/generate/${uploadId}`, {
-        method: 'POST',
-        body: JSON.stringify({ config: shortsConfig }),
-      });
+      return apiRequest(`/api/shorts/generate/${uploadId}`, 'POST', { config: shortsConfig });
     },
     onSuccess: () => {
-      console.log('Shorts generation started successfully');
+      queryClient.invalidateQueries({ queryKey: [`/api/shorts/${selectedUpload}/status`] });
     },
   });
 
@@ -162,13 +191,57 @@ export default function ShortsGenerator() {
               <p className="text-xs text-muted-foreground">9:16 aspect ratio optimized</p>
             </div>
             <div>
-              <label className="text-sm font-medium">Subtitle Font Size</label>
-              <p className="text-lg">{shortsConfig.subtitleStyle.fontsize}px</p>
+              <label className="text-sm font-medium">Caption Font Size</label>
+              <p className="text-lg">{shortsConfig.captionStyle?.fontSize ?? shortsConfig.subtitleStyle.fontsize}px</p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Framing</label>
+              <Select
+                value={shortsConfig.reframe}
+                onValueChange={(reframe) => setShortsConfig((config) => ({ ...config, reframe: reframe as ReframeLayout }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Automatic</SelectItem>
+                  <SelectItem value="track">Follow speaker</SelectItem>
+                  <SelectItem value="split">Split screen</SelectItem>
+                  <SelectItem value="blur">Letterbox with blur</SelectItem>
+                  <SelectItem value="center">Centre crop</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">How landscape footage is fitted to the vertical frame</p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Tighten</label>
+              <div className="flex items-center gap-2 h-10">
+                <Switch
+                  checked={shortsConfig.tighten}
+                  onCheckedChange={(tighten) => setShortsConfig((config) => ({ ...config, tighten }))}
+                />
+                <span className="text-sm">{shortsConfig.tighten ? 'On' : 'Off'}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">Remove "um"s, "uh"s and long pauses</p>
             </div>
           </div>
         </CardContent>
       </Card>
 
+      {/* Caption Style */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Caption Style</CardTitle>
+          <CardDescription>Word-by-word highlighted captions, saved as presets for your workspace</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CaptionStylePicker
+            value={shortsConfig.captionStyle}
+            onChange={(captionStyle) => setShortsConfig((config) => ({ ...config, captionStyle }))}
+          />
+        </CardContent>
+      </Card>
+
       {/* Queue Management Dashboard */}
       <Card>
         <CardHeader>
@@ -274,8 +347,8 @@ export default function ShortsGenerator() {
         </Card>
       )}
 
-      {/* Demo Results */}
-      {generateShortsMutation.isSuccess && (
+      {/* Rendered Shorts */}
+      {shortsStatus && shortsStatus.totalShorts > 0 && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -286,18 +359,26 @@ export default function ShortsGenerator() {
           <CardContent>
             <div className="space-y-4">
               <div className="flex items-center gap-4">
-                <Badge variant="default">Completed</Badge>
+                <Badge variant={shortsStatus.status === 'completed' ? 'default' : 'secondary'} className="capitalize">
+                  {shortsStatus.status}
+                </Badge>
                 <span className="text-sm text-muted-foreground">
-                  {generateShortsMutation.data?.totalShorts || 0} shorts generated
+                  {shortsStatus.completedShorts} of {shortsStatus.totalShorts} shorts rendered
                 </span>
               </div>
+              {shortsStatus.status === 'processing' && <Progress value={shortsStatus.progress} />}
               
               <div className="grid gap-3">
-                {generateShortsMutation.data?.results?.map((result: ShortsResult, index: number) => (
-                  <div key={result.segmentId} className="p-4 border rounded-lg">
+                {shortsStatus.results.map((result, index) => (
+                  <div key={result.clipId} className="p-4 border rounded-lg">
                     <div className="flex items-center justify-between mb-2">
                       <h4 className="font-medium">Short #{index + 1}</h4>
-                      <Badge variant="outline">{result.resolution}</Badge>
+                      <div className="flex gap-2">
+                        {result.status !== 'completed' && <Badge variant="secondary" className="capitalize">{result.status}</Badge>}
+                        {result.layout && <Badge variant="secondary" className="capitalize">{result.layout}</Badge>}
+                        {!!result.removedSeconds && <Badge variant="secondary">-{result.removedSeconds.toFixed(1)}s</Badge>}
+                        <Badge variant="outline">{result.resolution}</Badge>
+                      </div>
                     </div>
                     <div className="grid grid-cols-3 gap-4 text-sm">
                       <div>
@@ -313,6 +394,12 @@ export default function ShortsGenerator() {
                         <p className="font-mono uppercase">{result.format}</p>
                       </div>
                     </div>
+                    {result.status === 'completed' && (
+                      <video src={`/api/clips/${result.clipId}/file`} controls preload="metadata" className="mt-3 w-48 rounded" />
+                    )}
+                    {result.status === 'failed' && (
+                      <p className="mt-3 text-sm text-red-600">Render failed{result.error ? `: ${result.error}` : ''}</p>
+                    )}
                     <div className="mt-3 flex gap-2">
                       <Button 
                         size="sm" 
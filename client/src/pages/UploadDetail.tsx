@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import Sidebar from "@/components/Sidebar";
+import { Navigation } from "@/components/Navigation";
+import SpeakerManager from "@/components/SpeakerManager";
+import SegmentEditor from "@/components/SegmentEditor";
+import TranscriptEditor from "@/components/TranscriptEditor";
+import SocialContent from "@/components/SocialContent";
+
+interface UploadDetailPageProps {
+  params: { id: string };
+}
+
+export default function UploadDetailPage({ params }: UploadDetailPageProps) {
+  const { data: upload, isLoading } = useQuery<any>({
+    queryKey: [`/api/uploads/${params.id}`],
+  });
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-slate-50">
+      <Sidebar />
+      <div className="flex-1 overflow-y-auto p-6">
+        <Navigation title={upload?.originalName || "Upload"} />
+        {isLoading ? (
+          <div className="mt-6 h-24 bg-slate-200 rounded animate-pulse"></div>
+        ) : !upload ? (
+          <p className="mt-6 text-slate-500">Upload not found</p>
+        ) : (
+          <div className="mt-6 space-y-6">
+            {upload.transcript && <TranscriptEditor uploadId={upload.id} />}
+            {upload.transcript && <SpeakerManager uploadId={upload.id} />}
+            {upload.segments?.length > 0 && <SegmentEditor uploadId={upload.id} />}
+            <SocialContent uploadId={upload.id} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
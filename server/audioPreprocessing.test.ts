@@ -0,0 +1,210 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import fs from "fs/promises";
+import type { Upload } from "@shared/schema";
+
+const state = vi.hoisted(() => ({
+  asset: null as any,
+  settings: {} as any,
+  stored: [] as Array<{ filePath: string; options: any }>,
+  removed: [] as string[],
+  runs: [] as Array<{ input: string; filters: string[]; output: string }>,
+  inputLufs: "-31.20",
+}));
+
+// First passes print loudnorm's statistics; second passes write a file
+vi.mock("fluent-ffmpeg", () => {
+  const ffmpeg: any = (input: string) => {
+    const run = { input, filters: [] as string[], output: "", format: "" };
+    const handlers: Record<string, (...args: any[]) => void> = {};
+    const command: any = new Proxy({}, {
+      get: (_target, name: string) => {
+        if (name === "audioFilters") return (filters: string[]) => { run.filters = filters; return command; };
+        if (name === "format") return (format: string) => { run.format = format; return command; };
+        if (name === "output") return (output: string) => { run.output = output; return command; };
+        if (name === "on") return (event: string, handler: (...args: any[]) => void) => { handlers[event] = handler; return command; };
+        if (name === "run") return () => {
+          state.runs.push(run);
+          if (run.format === "null") {
+            const stats = { input_i: state.inputLufs, input_tp: "-4.10", input_lra: "6.00", input_thresh: "-41.50", target_offset: "0.30" };
+            handlers.end(null, `[Parsed_loudnorm_0]\n${JSON.stringify(stats)}\n`);
+          } else {
+            fs.writeFile(run.output, "normalized").then(() => handlers.end());
+          }
+        };
+        return () => command;
+      },
+    });
+    return command;
+  };
+  ffmpeg.setFfmpegPath = () => {};
+  return { default: ffmpeg };
+});
+vi.mock("@ffmpeg-installer/ffmpeg", () => ({ default: { path: "ffmpeg" } }));
+vi.mock("./storage", () => ({
+  storage: {
+    getDerivedAsset: vi.fn(async () => state.asset),
+    upsertDerivedAsset: vi.fn(async (asset: any) => { state.asset = { id: "asset-1", ...asset }; return state.asset; }),
+    deleteDerivedAsset: vi.fn(async () => { state.asset = null; }),
+  },
+}));
+vi.mock("./userManagementService", () => ({
+  userManagementService: {
+    getWorkspace: vi.fn(async () => ({ settings: { audioPreprocessing: state.settings } })),
+  },
+}));
+vi.mock("./blobStore", () => ({
+  resolveLocalPath: vi.fn(async (pathOrRef: string) => pathOrRef.replace("blob:", "/blobs/")),
+  storeFile: vi.fn(async (filePath: string, options: any) => {
+    state.stored.push({ filePath, options });
+    await fs.unlink(filePath);
+    return { ref: `blob:normalized-${state.stored.length}${options.extension}`, size: 10 };
+  }),
+  removeStoredFile: vi.fn(async (filePath: string) => {
+    // The row must already point elsewhere, or the file is still referenced
+    expect(state.asset?.filePath).not.toBe(filePath);
+    state.removed.push(filePath);
+    return true;
+  }),
+}));
+
+const { DEFAULT_AUDIO_PREPROCESSING, getProcessedMedia, normalizeAudioPreprocessingSettings, preprocessUploadAudio } = await import("./audioPreprocessing");
+
+const upload = {
+  id: "u1",
+  workspaceId: "ws1",
+  filePath: "blob:source.mp4",
+  mimeType: "video/mp4",
+  originalName: "talk.mp4",
+  sourceDeletedAt: null,
+} as Upload;
+
+beforeEach(() => {
+  state.asset = null;
+  state.settings = { enabled: true, platform: "youtube", denoise: false };
+  state.stored = [];
+  state.removed = [];
+  state.runs = [];
+  state.inputLufs = "-31.20";
+});
+
+describe("normalizeAudioPreprocessingSettings", () => {
+  it("applies an update on top of the current settings", () => {
+    expect(normalizeAudioPreprocessingSettings({ enabled: true })).toEqual({ ...DEFAULT_AUDIO_PREPROCESSING, enabled: true });
+    expect(normalizeAudioPreprocessingSettings({ platform: "broadcast" }, { enabled: true, platform: "youtube", denoise: false }))
+      .toEqual({ enabled: true, platform: "broadcast", denoise: false });
+  });
+
+  it("rejects malformed updates", () => {
+    expect(normalizeAudioPreprocessingSettings(null)).toBeNull();
+    expect(normalizeAudioPreprocessingSettings({ enabled: "yes" })).toBeNull();
+    expect(normalizeAudioPreprocessingSettings({ denoise: 1 })).toBeNull();
+    expect(normalizeAudioPreprocessingSettings({ platform: "myspace" })).toBeNull();
+  });
+});
+
+describe("preprocessUploadAudio", () => {
+  it("stores the normalized copy in the blob store and records its ref", async () => {
+    await preprocessUploadAudio(upload);
+
+    expect(state.runs.map(run => run.input)).toEqual(["/blobs/source.mp4", "/blobs/source.mp4"]);
+    expect(state.stored).toEqual([{ filePath: state.runs[1].output, options: { contentType: "video/mp4", extension: ".mp4" } }]);
+    expect(state.runs[1].output).not.toContain("uploads");
+    await expect(fs.access(state.runs[1].output)).rejects.toThrow();
+    expect(state.asset).toMatchObject({ kind: "normalized_media", filePath: "blob:normalized-1.mp4", fileSize: 10 });
+    expect(JSON.parse(state.asset.metadata)).toEqual({
+      platform: "youtube", targetLufs: -14, denoise: false, measuredLufs: -31.2, measuredTruePeak: -4.1,
+    });
+  });
+
+  it("frees the previous copy only after the row points at the new one", async () => {
+    state.asset = { filePath: "blob:old.mp4", metadata: JSON.stringify({ targetLufs: -23, denoise: false }) };
+
+    await preprocessUploadAudio(upload);
+
+    expect(state.asset.filePath).toBe("blob:normalized-1.mp4");
+    expect(state.removed).toEqual(["blob:old.mp4"]);
+  });
+
+  it("drops the row before the file when preprocessing is turned off", async () => {
+    state.settings = { enabled: false };
+    state.asset = { filePath: "blob:old.mp4", metadata: null };
+
+    await preprocessUploadAudio(upload);
+
+    expect(state.asset).toBeNull();
+    expect(state.removed).toEqual(["blob:old.mp4"]);
+    expect(state.runs).toEqual([]);
+  });
+});
+
+describe("preprocessUploadAudio reruns", () => {
+  const current = { filePath: "blob:current.mp4", metadata: JSON.stringify({ platform: "youtube", targetLufs: -14, denoise: false }) };
+
+  it("keeps a copy made with the same target and denoising", async () => {
+    state.asset = current;
+
+    await preprocessUploadAudio(upload);
+
+    expect(state.runs).toEqual([]);
+    expect(state.asset).toBe(current);
+  });
+
+  it("redoes the copy when forced, or when the target or denoising changed", async () => {
+    for (const change of [() => {}, () => { state.settings.platform = "broadcast"; }, () => { state.settings.denoise = true; }]) {
+      state.asset = current;
+      state.runs = [];
+      state.settings = { enabled: true, platform: "youtube", denoise: false };
+      change();
+
+      await preprocessUploadAudio(upload, { force: state.settings.platform === "youtube" && !state.settings.denoise });
+
+      expect(state.runs).toHaveLength(2);
+    }
+    expect(state.runs[0].filters.slice(0, 2)).toEqual(["highpass=f=80", "afftdn=nf=-25"]);
+  });
+
+  it("counts apple_podcasts as a different target from youtube", async () => {
+    state.asset = current;
+    state.settings.platform = "apple_podcasts";
+
+    await preprocessUploadAudio(upload);
+
+    expect(JSON.parse(state.asset.metadata).targetLufs).toBe(-16);
+  });
+
+  it("falls back to the original for silent media", async () => {
+    state.asset = current;
+    state.inputLufs = "-inf";
+
+    await preprocessUploadAudio(upload, { force: true });
+
+    expect(state.runs).toHaveLength(1); // Measured, never written
+    expect(state.asset).toBeNull();
+    expect(state.removed).toEqual(["blob:current.mp4"]);
+  });
+
+  it("leaves uploads outside a workspace alone", async () => {
+    await preprocessUploadAudio({ ...upload, workspaceId: null });
+
+    expect(state.runs).toEqual([]);
+    expect(state.asset).toBeNull();
+  });
+});
+
+describe("getProcessedMedia", () => {
+  it("reads the normalized copy through the blob store with its loudness", async () => {
+    await preprocessUploadAudio(upload);
+    vi.spyOn(fs, "access").mockResolvedValueOnce(undefined);
+
+    const media = await getProcessedMedia(upload);
+
+    expect(media.filePath).toBe("/blobs/normalized-1.mp4");
+    expect(media.normalized?.targetLufs).toBe(-14);
+  });
+
+  it("falls back to the source when the copy cannot be read", async () => {
+    state.asset = { filePath: "blob:missing.mp4", metadata: null };
+
+    expect(await getProcessedMedia(upload)).toEqual({ filePath: "/blobs/source.mp4", normalized: null });
+  });
+});
@@ -0,0 +1,270 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import type { Upload } from '@shared/schema';
+import { storage } from './storage';
+import { parseJsonColumn } from './transcriptData';
+import { isAudioOnly } from './audiogram';
+import { removeStoredFile, resolveLocalPath, storeFile } from './blobStore';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+export const NORMALIZED_MEDIA = 'normalized_media';
+
+// Integrated loudness each platform normalizes playback to
+export const LOUDNESS_TARGETS = {
+  youtube: -14,
+  tiktok: -14,
+  instagram: -14,
+  spotify: -14,
+  apple_podcasts: -16,
+  broadcast: -23,
+} as const;
+
+export type LoudnessPlatform = keyof typeof LOUDNESS_TARGETS;
+
+export interface AudioPreprocessingSettings {
+  enabled: boolean;
+  platform: LoudnessPlatform;
+  denoise: boolean; // High-pass rumble filter and FFT denoiser before normalizing
+}
+
+export const DEFAULT_AUDIO_PREPROCESSING: AudioPreprocessingSettings = {
+  enabled: false,
+  platform: 'youtube',
+  denoise: true,
+};
+
+const TRUE_PEAK = -1.5;
+const LOUDNESS_RANGE = 11;
+
+// What loudnorm measured on the first pass
+interface LoudnessMeasurement {
+  input_i: string;
+  input_tp: string;
+  input_lra: string;
+  input_thresh: string;
+  target_offset: string;
+}
+
+// Stored in derived_assets.metadata for normalized media
+export interface NormalizedMediaMetadata {
+  platform: LoudnessPlatform;
+  targetLufs: number;
+  denoise: boolean;
+  measuredLufs: number;
+  measuredTruePeak: number;
+}
+
+export function isLoudnessPlatform(value: unknown): value is LoudnessPlatform {
+  return typeof value === 'string' && value in LOUDNESS_TARGETS;
+}
+
+// Validates a settings update, returning null when it is malformed
+export function normalizeAudioPreprocessingSettings(
+  input: any,
+  current: AudioPreprocessingSettings = DEFAULT_AUDIO_PREPROCESSING
+): AudioPreprocessingSettings | null {
+  if (!input || typeof input !== 'object') return null;
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') return null;
+  if (input.denoise !== undefined && typeof input.denoise !== 'boolean') return null;
+  if (input.platform !== undefined && !isLoudnessPlatform(input.platform)) return null;
+
+  return {
+    enabled: input.enabled ?? current.enabled,
+    platform: input.platform ?? current.platform,
+    denoise: input.denoise ?? current.denoise,
+  };
+}
+
+export async function getAudioPreprocessingSettings(workspaceId?: string | null): Promise<AudioPreprocessingSettings> {
+  if (!workspaceId) return DEFAULT_AUDIO_PREPROCESSING;
+
+  const { userManagementService } = await import('./userManagementService');
+  const workspace = await userManagementService.getWorkspace(workspaceId);
+  return { ...DEFAULT_AUDIO_PREPROCESSING, ...workspace?.settings.audioPreprocessing };
+}
+
+// The file transcription and rendering should read: the normalized copy
+// when preprocessing produced one, otherwise the original upload
+export async function getProcessedMediaPath(upload: Upload): Promise<string> {
+  return (await getProcessedMedia(upload)).filePath;
+}
+
+// As above, with the loudness the file was normalized to, if it was
+export async function getProcessedMedia(upload: Upload): Promise<{
+  filePath: string;
+  normalized: NormalizedMediaMetadata | null;
+}> {
+  const asset = await storage.getDerivedAsset(upload.id, NORMALIZED_MEDIA);
+  if (!asset) return { filePath: await getSourcePath(upload), normalized: null };
+
+  try {
+    const filePath = await resolveLocalPath(asset.filePath);
+    await fs.access(filePath);
+    return { filePath, normalized: parseJsonColumn<NormalizedMediaMetadata>(asset.metadata) };
+  } catch {
+    console.warn(`[AudioPreprocessing] Normalized media for upload ${upload.id} is missing, using the original`);
+    return { filePath: await getSourcePath(upload), normalized: null };
+  }
+}
+
+// The original upload on local disk
+export async function getSourcePath(upload: Upload): Promise<string> {
+  if (upload.sourceDeletedAt) {
+    throw new Error('Source media was removed by the workspace retention policy');
+  }
+  return resolveLocalPath(upload.filePath);
+}
+
+// Pipeline stage: denoises and loudness-normalizes the upload's audio into
+// a derived asset. Disabled workspaces get any earlier asset removed so
+// later stages fall back to the original. The workspace platform sets the
+// level of this one shared copy; renders aimed at a platform with another
+// level are corrected when they are encoded (see renderTargets).
+export async function preprocessUploadAudio(upload: Upload, options: { force?: boolean } = {}): Promise<void> {
+  const settings = await getAudioPreprocessingSettings(upload.workspaceId);
+  const existing = await storage.getDerivedAsset(upload.id, NORMALIZED_MEDIA);
+
+  if (!settings.enabled) {
+    if (existing) {
+      await removeNormalizedMedia(upload.id, existing.filePath);
+    }
+    console.log(`[AudioPreprocessing] Preprocessing disabled, skipping upload ${upload.id}`);
+    return;
+  }
+
+  const targetLufs = LOUDNESS_TARGETS[settings.platform];
+  if (existing && !options.force) {
+    const metadata = parseJsonColumn<NormalizedMediaMetadata>(existing.metadata);
+    if (metadata?.targetLufs === targetLufs && metadata.denoise === settings.denoise) {
+      console.log(`[AudioPreprocessing] Normalized media already exists for upload ${upload.id}`);
+      return;
+    }
+  }
+
+  const audioOnly = isAudioOnly(upload);
+  const extension = audioOnly ? '.m4a' : upload.mimeType === 'video/quicktime' ? '.mov' : '.mp4';
+  const outputPath = path.join(os.tmpdir(), `normalized_${upload.id}_${crypto.randomBytes(4).toString('hex')}${extension}`);
+
+  console.log(`[AudioPreprocessing] Normalizing upload ${upload.id} to ${targetLufs} LUFS (${settings.platform})`);
+  const preFilters = settings.denoise ? ['highpass=f=80', 'afftdn=nf=-25'] : [];
+  const sourcePath = await getSourcePath(upload);
+  const measured = await measureLoudness(sourcePath, preFilters, targetLufs);
+
+  // Digital silence measures as -inf, which there is no gain to correct from
+  if (!Number.isFinite(parseFloat(measured.input_i))) {
+    if (existing) {
+      await removeNormalizedMedia(upload.id, existing.filePath);
+    }
+    console.log(`[AudioPreprocessing] Upload ${upload.id} is silent, using the original`);
+    return;
+  }
+
+  const mimeType = audioOnly ? 'audio/mp4' : upload.mimeType;
+  try {
+    await applyLoudness(sourcePath, outputPath, preFilters, targetLufs, measured, audioOnly);
+  } catch (error) {
+    await fs.unlink(outputPath).catch(() => {});
+    throw error;
+  }
+  const stored = await storeFile(outputPath, { contentType: mimeType, extension });
+
+  await storage.upsertDerivedAsset({
+    uploadId: upload.id,
+    kind: NORMALIZED_MEDIA,
+    filePath: stored.ref,
+    fileSize: stored.size,
+    mimeType,
+    metadata: JSON.stringify({
+      platform: settings.platform,
+      targetLufs,
+      denoise: settings.denoise,
+      measuredLufs: parseFloat(measured.input_i),
+      measuredTruePeak: parseFloat(measured.input_tp),
+    } satisfies NormalizedMediaMetadata),
+  });
+
+  // The row now points at the new file, so the old one is free unless shared
+  if (existing && existing.filePath !== stored.ref) {
+    await removeStoredFile(existing.filePath);
+  }
+  console.log(`[AudioPreprocessing] Upload ${upload.id} measured ${measured.input_i} LUFS, normalized to ${targetLufs}`);
+}
+
+async function removeNormalizedMedia(uploadId: string, filePath: string): Promise<void> {
+  await storage.deleteDerivedAsset(uploadId, NORMALIZED_MEDIA);
+  await removeStoredFile(filePath);
+}
+
+export function loudnormFilter(targetLufs: number): string {
+  return `loudnorm=I=${targetLufs}:TP=${TRUE_PEAK}:LRA=${LOUDNESS_RANGE}`;
+}
+
+// First loudnorm pass: analyses the whole file and prints its loudness
+// statistics as JSON at the end of the log
+function measureLoudness(inputPath: string, preFilters: string[], targetLufs: number): Promise<LoudnessMeasurement> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(inputPath)
+      .noVideo()
+      .audioFilters([...preFilters, `${loudnormFilter(targetLufs)}:print_format=json`])
+      .format('null')
+      .output('-')
+      .on('end', (_stdout: string | null, stderr: string | null) => {
+        const match = stderr?.match(/\{[^{}]*"input_i"[^{}]*\}/);
+        if (!match) {
+          reject(new Error('Loudness measurement produced no statistics'));
+          return;
+        }
+        resolve(JSON.parse(match[0]) as LoudnessMeasurement);
+      })
+      .on('error', (error: Error) => reject(error))
+      .run();
+  });
+}
+
+// Second pass: applies the correction using the measured values, which
+// lets loudnorm use a single linear gain instead of dynamic compression
+function applyLoudness(
+  inputPath: string,
+  outputPath: string,
+  preFilters: string[],
+  targetLufs: number,
+  measured: LoudnessMeasurement,
+  audioOnly: boolean
+): Promise<void> {
+  const loudnorm = [
+    loudnormFilter(targetLufs),
+    `measured_I=${measured.input_i}`,
+    `measured_TP=${measured.input_tp}`,
+    `measured_LRA=${measured.input_lra}`,
+    `measured_thresh=${measured.input_thresh}`,
+    `offset=${measured.target_offset}`,
+    'linear=true',
+  ].join(':');
+
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg(inputPath)
+      .audioFilters([...preFilters, loudnorm])
+      .audioCodec('aac')
+      .audioBitrate('192k')
+      // loudnorm upsamples to 192kHz internally
+      .audioFrequency(48000);
+
+    if (audioOnly) {
+      command.noVideo().format('ipod');
+    } else {
+      // Only the audio changes, so the picture is copied untouched
+      command.outputOptions(['-map 0:v:0', '-map 0:a:0', '-c:v copy', '-movflags +faststart']);
+    }
+
+    command
+      .output(outputPath)
+      .on('end', () => resolve())
+      .on('error', (error: Error) => reject(error))
+      .run();
+  });
+}
@@ -0,0 +1,38 @@
+import path from 'path';
+import type { Upload } from '@shared/schema';
+import type { AudiogramConfig } from './shortsGenerator';
+import { isHexColor, resolveBrandAsset } from './branding';
+
+const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.m4a', '.flac'];
+
+// Whether an upload has no picture, going by its MIME type and, for
+// undetected types, its file name
+export function isAudioOnly(upload: Pick<Upload, 'mimeType' | 'originalName'>): boolean {
+  if (upload.mimeType.startsWith('audio/')) return true;
+  if (upload.mimeType.startsWith('video/')) return false;
+  return AUDIO_EXTENSIONS.includes(path.extname(upload.originalName).toLowerCase());
+}
+
+// Audiogram look from the workspace branding: the logo as cover art, the
+// primary colour for the waveform and the secondary colour as background
+export async function getAudiogramConfig(workspaceId?: string | null): Promise<AudiogramConfig> {
+  const config: AudiogramConfig = {
+    visualization: 'waveform',
+    backgroundColor: '#1F2937',
+    waveColor: '#3B82F6',
+    textColor: '#FFFFFF',
+  };
+  if (!workspaceId) return config;
+
+  const { userManagementService } = await import('./userManagementService');
+  const branding = (await userManagementService.getWorkspace(workspaceId))?.brandingConfig;
+  if (!branding) return config;
+
+  // Checked again here: these values go straight into the ffmpeg command
+  return {
+    ...config,
+    backgroundColor: isHexColor(branding.secondaryColor) ? branding.secondaryColor : config.backgroundColor,
+    waveColor: isHexColor(branding.primaryColor) ? branding.primaryColor : config.waveColor,
+    coverImagePath: await resolveBrandAsset(branding.logo),
+  };
+}
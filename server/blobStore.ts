@@ -0,0 +1,520 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { storage } from './storage';
+import type { GeneratedFile, InsertGeneratedFile } from '@shared/schema';
+
+// Files in the store are addressed by the SHA-256 of their content, plus the
+// original extension so tools that go by file name still recognise them.
+// Database columns that used to hold a local path hold `blob:<key>` instead.
+export const BLOB_REF_PREFIX = 'blob:';
+
+const BLOB_KEY_PATTERN = /^[0-9a-f]{64}(\.[a-z0-9]{1,8})?$/;
+const DEFAULT_SIGNED_URL_SECONDS = 60 * 60;
+const MAX_SIGNED_URL_SECONDS = 7 * 24 * 60 * 60; // S3 presigned URL limit
+
+export interface StoredBlob {
+  key: string;
+  ref: string; // Value to store in the database
+  sha256: string;
+  size: number;
+  contentType: string;
+  deduplicated: boolean; // The content was already in the store
+}
+
+export interface PutOptions {
+  contentType?: string;
+  extension?: string; // e.g. ".mp4"
+}
+
+export interface SignedUrlOptions {
+  expiresInSeconds?: number;
+  downloadName?: string; // Served as an attachment under this name
+  contentType?: string;
+}
+
+export interface BlobStore {
+  readonly name: 'local' | 's3';
+  putFile(filePath: string, options?: PutOptions): Promise<StoredBlob>;
+  putBuffer(buffer: Buffer, options?: PutOptions): Promise<StoredBlob>;
+  exists(key: string): Promise<boolean>;
+  openReadStream(key: string): Promise<Readable>;
+  // A path on local disk that ffmpeg and friends can read
+  getLocalPath(key: string): Promise<string>;
+  getSignedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+  delete(key: string): Promise<void>;
+}
+
+export function isBlobRef(value: string | null | undefined): value is string {
+  return !!value && value.startsWith(BLOB_REF_PREFIX);
+}
+
+export function isValidBlobKey(key: string): boolean {
+  return BLOB_KEY_PATTERN.test(key);
+}
+
+export function blobKeyFromRef(ref: string): string {
+  const key = ref.slice(BLOB_REF_PREFIX.length);
+  if (!isBlobRef(ref) || !isValidBlobKey(key)) {
+    throw new Error(`Invalid blob reference ${ref}`);
+  }
+  return key;
+}
+
+function buildKey(sha256: string, extension?: string): string {
+  const ext = (extension || '').toLowerCase();
+  return /^\.[a-z0-9]{1,8}$/.test(ext) ? `${sha256}${ext}` : sha256;
+}
+
+function toStoredBlob(key: string, sha256: string, size: number, contentType: string, deduplicated: boolean): StoredBlob {
+  return { key, ref: `${BLOB_REF_PREFIX}${key}`, sha256, size, contentType, deduplicated };
+}
+
+async function hashFile(filePath: string): Promise<{ sha256: string; size: number }> {
+  const hash = crypto.createHash('sha256');
+  let size = 0;
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+    size += (chunk as Buffer).length;
+  }
+  return { sha256: hash.digest('hex'), size };
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function clampExpiry(seconds: number | undefined): number {
+  return Math.max(1, Math.min(MAX_SIGNED_URL_SECONDS, Math.round(seconds ?? DEFAULT_SIGNED_URL_SECONDS)));
+}
+
+// Writes through a temporary name so readers never see a partial blob
+async function writeAtomically(destination: string, write: (tempPath: string) => Promise<void>): Promise<void> {
+  await fsp.mkdir(path.dirname(destination), { recursive: true });
+  const tempPath = `${destination}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await write(tempPath);
+    await fsp.rename(tempPath, destination);
+  } catch (error) {
+    await fsp.unlink(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
+// Blobs under a directory on this machine. Signed URLs point at
+// /api/blobs/:key and carry an HMAC of the key, expiry and response headers.
+export class LocalBlobStore implements BlobStore {
+  readonly name = 'local' as const;
+
+  constructor(private rootDir: string, private signingSecret: string) {}
+
+  private pathFor(key: string): string {
+    if (!isValidBlobKey(key)) throw new Error(`Invalid blob key ${key}`);
+    return path.join(this.rootDir, key.slice(0, 2), key.slice(2, 4), key);
+  }
+
+  async putFile(filePath: string, options: PutOptions = {}): Promise<StoredBlob> {
+    const { sha256, size } = await hashFile(filePath);
+    const key = buildKey(sha256, options.extension);
+    const contentType = options.contentType || 'application/octet-stream';
+
+    if (await this.exists(key)) {
+      return toStoredBlob(key, sha256, size, contentType, true);
+    }
+    await writeAtomically(this.pathFor(key), tempPath => fsp.copyFile(filePath, tempPath));
+    return toStoredBlob(key, sha256, size, contentType, false);
+  }
+
+  async putBuffer(buffer: Buffer, options: PutOptions = {}): Promise<StoredBlob> {
+    const sha256 = sha256Hex(buffer);
+    const key = buildKey(sha256, options.extension);
+    const contentType = options.contentType || 'application/octet-stream';
+
+    if (await this.exists(key)) {
+      return toStoredBlob(key, sha256, buffer.length, contentType, true);
+    }
+    await writeAtomically(this.pathFor(key), tempPath => fsp.writeFile(tempPath, buffer));
+    return toStoredBlob(key, sha256, buffer.length, contentType, false);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fsp.access(this.pathFor(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async openReadStream(key: string): Promise<Readable> {
+    return fs.createReadStream(await this.getLocalPath(key));
+  }
+
+  async getLocalPath(key: string): Promise<string> {
+    const filePath = this.pathFor(key);
+    await fsp.access(filePath);
+    return filePath;
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    this.pathFor(key); // Validates the key
+    const params = new URLSearchParams({
+      expires: String(Math.floor(Date.now() / 1000) + clampExpiry(options.expiresInSeconds)),
+    });
+    if (options.downloadName) params.set('name', options.downloadName);
+    if (options.contentType) params.set('type', options.contentType);
+    params.set('signature', this.sign(key, params));
+    return `/api/blobs/${key}?${params}`;
+  }
+
+  // Checks the query string of a URL from getSignedUrl
+  verifySignedUrl(key: string, query: Record<string, unknown>): boolean {
+    const params = new URLSearchParams();
+    for (const name of ['expires', 'name', 'type']) {
+      if (typeof query[name] === 'string') params.set(name, query[name] as string);
+    }
+    const expires = Number(params.get('expires'));
+    if (!isValidBlobKey(key) || !Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+    if (typeof query.signature !== 'string') return false;
+
+    const expected = Buffer.from(this.sign(key, params));
+    const actual = Buffer.from(query.signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  private sign(key: string, params: URLSearchParams): string {
+    const payload = [key, params.get('expires'), params.get('name') ?? '', params.get('type') ?? ''].join('\n');
+    return crypto.createHmac('sha256', this.signingSecret).update(payload).digest('hex');
+  }
+
+  async delete(key: string): Promise<void> {
+    await fsp.unlink(this.pathFor(key)).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== 'ENOENT') throw error;
+    });
+  }
+}
+
+export interface S3BlobStoreConfig {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com or http://localhost:9000 for MinIO
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean; // MinIO and most S3-compatible servers need path-style URLs
+  cacheDir: string; // Local copies for getLocalPath
+}
+
+// S3 or any S3-compatible service, spoken to directly over HTTP with
+// Signature Version 4 so no SDK is needed
+export class S3BlobStore implements BlobStore {
+  readonly name = 's3' as const;
+
+  constructor(private config: S3BlobStoreConfig) {}
+
+  private objectKey(key: string): string {
+    if (!isValidBlobKey(key)) throw new Error(`Invalid blob key ${key}`);
+    return `blobs/${key.slice(0, 2)}/${key}`;
+  }
+
+  private objectUrl(key: string): URL {
+    const endpoint = new URL(this.config.endpoint);
+    const objectPath = `/${this.objectKey(key)}`;
+    if (this.config.forcePathStyle) {
+      return new URL(`${endpoint.origin}/${encodeRfc3986(this.config.bucket)}${objectPath}`);
+    }
+    return new URL(`${endpoint.protocol}//${this.config.bucket}.${endpoint.host}${objectPath}`);
+  }
+
+  private async request(
+    method: string,
+    key: string,
+    options: { headers?: Record<string, string>; body?: Buffer | ReadableStream; payloadHash?: string } = {}
+  ): Promise<Response> {
+    const url = this.objectUrl(key);
+    const headers = signS3Request(this.config, {
+      method,
+      url,
+      headers: options.headers ?? {},
+      payloadHash: options.payloadHash ?? 'UNSIGNED-PAYLOAD',
+    });
+
+    return fetch(url, {
+      method,
+      headers,
+      body: options.body,
+      ...(options.body instanceof ReadableStream ? { duplex: 'half' } : {}),
+    } as RequestInit);
+  }
+
+  async putFile(filePath: string, options: PutOptions = {}): Promise<StoredBlob> {
+    const { sha256, size } = await hashFile(filePath);
+    const key = buildKey(sha256, options.extension);
+    const contentType = options.contentType || 'application/octet-stream';
+
+    if (await this.exists(key)) {
+      return toStoredBlob(key, sha256, size, contentType, true);
+    }
+
+    // The payload hash is the content hash, so S3 verifies the upload too
+    const response = await this.request('PUT', key, {
+      headers: { 'content-type': contentType, 'content-length': String(size) },
+      body: Readable.toWeb(fs.createReadStream(filePath)) as ReadableStream,
+      payloadHash: sha256,
+    });
+    await assertOk(response, `upload ${key}`);
+    return toStoredBlob(key, sha256, size, contentType, false);
+  }
+
+  async putBuffer(buffer: Buffer, options: PutOptions = {}): Promise<StoredBlob> {
+    const sha256 = sha256Hex(buffer);
+    const key = buildKey(sha256, options.extension);
+    const contentType = options.contentType || 'application/octet-stream';
+
+    if (await this.exists(key)) {
+      return toStoredBlob(key, sha256, buffer.length, contentType, true);
+    }
+
+    const response = await this.request('PUT', key, {
+      headers: { 'content-type': contentType },
+      body: buffer,
+      payloadHash: sha256,
+    });
+    await assertOk(response, `upload ${key}`);
+    return toStoredBlob(key, sha256, buffer.length, contentType, false);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this.request('HEAD', key);
+    if (response.status === 404) return false;
+    await assertOk(response, `check ${key}`);
+    return true;
+  }
+
+  async openReadStream(key: string): Promise<Readable> {
+    const response = await this.request('GET', key);
+    await assertOk(response, `download ${key}`);
+    return Readable.fromWeb(response.body as WebReadableStream<Uint8Array>);
+  }
+
+  // Downloads into the cache on first use; blobs never change, so a cached
+  // copy stays valid
+  async getLocalPath(key: string): Promise<string> {
+    const cachedPath = path.join(this.config.cacheDir, key.slice(0, 2), key);
+    try {
+      await fsp.access(cachedPath);
+      return cachedPath;
+    } catch {
+      // Not cached yet
+    }
+
+    const source = await this.openReadStream(key);
+    await writeAtomically(cachedPath, tempPath => pipeline(source, fs.createWriteStream(tempPath)));
+    return cachedPath;
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    const url = this.objectUrl(key);
+    if (options.downloadName) {
+      url.searchParams.set('response-content-disposition', contentDisposition(options.downloadName));
+    }
+    if (options.contentType) {
+      url.searchParams.set('response-content-type', options.contentType);
+    }
+    return presignS3Url(this.config, url, clampExpiry(options.expiresInSeconds)).toString();
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (response.status !== 404) {
+      await assertOk(response, `delete ${key}`);
+    }
+  }
+}
+
+async function assertOk(response: Response, action: string): Promise<void> {
+  if (response.ok) return;
+  const body = await response.text().catch(() => '');
+  const code = body.match(/<Code>([^<]+)<\/Code>/)?.[1];
+  throw new Error(`S3 ${action} failed: HTTP ${response.status}${code ? ` ${code}` : ''}`);
+}
+
+export function contentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeRfc3986(fileName)}`;
+}
+
+// --- Signature Version 4 ---
+
+type S3Credentials = Pick<S3BlobStoreConfig, 'region' | 'accessKeyId' | 'secretAccessKey'>;
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function amzDates(now: Date): { amzDate: string; dateStamp: string } {
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  return { amzDate, dateStamp: amzDate.slice(0, 8) };
+}
+
+function canonicalQuery(url: URL): string {
+  return [...url.searchParams.entries()]
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+    .sort(([a, aValue], [b, bValue]) => (a < b ? -1 : a > b ? 1 : aValue < bValue ? -1 : aValue > bValue ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+}
+
+// S3 paths are signed as sent, without the double encoding other services use
+function canonicalPath(url: URL): string {
+  return url.pathname.split('/').map(segment => encodeRfc3986(decodeURIComponent(segment))).join('/');
+}
+
+function signature(credentials: S3Credentials, dateStamp: string, stringToSign: string): string {
+  const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), credentials.region), 's3'), 'aws4_request');
+  return crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+}
+
+function stringToSign(amzDate: string, scope: string, canonicalRequest: string): string {
+  return ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+}
+
+// Headers for a request signed with the Authorization header
+export function signS3Request(
+  credentials: S3Credentials,
+  request: { method: string; url: URL; headers: Record<string, string>; payloadHash: string },
+  now: Date = new Date()
+): Record<string, string> {
+  const { amzDate, dateStamp } = amzDates(now);
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(request.headers).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+    host: request.url.host,
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': request.payloadHash,
+  };
+
+  const names = Object.keys(headers).sort();
+  const signedHeaders = names.join(';');
+  const canonicalRequest = [
+    request.method,
+    canonicalPath(request.url),
+    canonicalQuery(request.url),
+    names.map(name => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${credentials.region}/s3/aws4_request`;
+  const sig = signature(credentials, dateStamp, stringToSign(amzDate, scope, canonicalRequest));
+  headers.authorization = `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${sig}`;
+
+  // fetch sets the host header itself
+  delete headers.host;
+  return headers;
+}
+
+// A presigned GET URL, authorised by its query string
+export function presignS3Url(credentials: S3Credentials, url: URL, expiresInSeconds: number, now: Date = new Date()): URL {
+  const { amzDate, dateStamp } = amzDates(now);
+  const scope = `${dateStamp}/${credentials.region}/s3/aws4_request`;
+  const signed = new URL(url);
+
+  signed.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+  signed.searchParams.set('X-Amz-Credential', `${credentials.accessKeyId}/${scope}`);
+  signed.searchParams.set('X-Amz-Date', amzDate);
+  signed.searchParams.set('X-Amz-Expires', String(expiresInSeconds));
+  signed.searchParams.set('X-Amz-SignedHeaders', 'host');
+
+  const canonicalRequest = [
+    'GET',
+    canonicalPath(signed),
+    canonicalQuery(signed),
+    `host:${signed.host}\n`,
+    'host',
+    'UNSIGNED-PAYLOAD',
+  ].join('\n');
+
+  signed.searchParams.set('X-Amz-Signature', signature(credentials, dateStamp, stringToSign(amzDate, scope, canonicalRequest)));
+  return signed;
+}
+
+// --- Configuration ---
+
+// BLOB_STORE=s3 selects S3 (S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY,
+// optional S3_ENDPOINT, S3_REGION, S3_FORCE_PATH_STYLE); anything else keeps
+// blobs under BLOB_STORE_DIR on local disk
+export function createBlobStore(env: NodeJS.ProcessEnv = process.env): BlobStore {
+  if (env.BLOB_STORE === 's3') {
+    const missing = ['S3_BUCKET', 'S3_ACCESS_KEY_ID', 'S3_SECRET_ACCESS_KEY'].filter(name => !env[name]);
+    if (missing.length) {
+      throw new Error(`BLOB_STORE=s3 needs ${missing.join(', ')}`);
+    }
+    const region = env.S3_REGION || 'us-east-1';
+    return new S3BlobStore({
+      endpoint: env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      region,
+      bucket: env.S3_BUCKET!,
+      accessKeyId: env.S3_ACCESS_KEY_ID!,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY!,
+      // A custom endpoint is usually MinIO or similar
+      forcePathStyle: env.S3_FORCE_PATH_STYLE ? env.S3_FORCE_PATH_STYLE === 'true' : !!env.S3_ENDPOINT,
+      cacheDir: env.BLOB_CACHE_DIR || './storage/cache',
+    });
+  }
+
+  let secret = env.BLOB_SIGNING_SECRET || env.SESSION_SECRET;
+  if (!secret) {
+    console.warn('[BlobStore] No BLOB_SIGNING_SECRET or SESSION_SECRET set; signed URLs will not survive a restart');
+    secret = crypto.randomBytes(32).toString('hex');
+  }
+  return new LocalBlobStore(env.BLOB_STORE_DIR || './storage/blobs', secret);
+}
+
+export const blobStore = createBlobStore();
+
+// --- Helpers for columns holding either a local path or a blob ref ---
+
+// A local path for a stored file, fetching it from the store if needed
+export async function resolveLocalPath(pathOrRef: string): Promise<string> {
+  return isBlobRef(pathOrRef) ? blobStore.getLocalPath(blobKeyFromRef(pathOrRef)) : pathOrRef;
+}
+
+// Moves a local file into the store and returns the blob to reference
+export async function storeFile(
+  filePath: string,
+  options: PutOptions & { keepSource?: boolean } = {}
+): Promise<StoredBlob> {
+  const stored = await blobStore.putFile(filePath, options);
+  if (!options.keepSource) {
+    await fsp.unlink(filePath).catch(() => {});
+  }
+  return stored;
+}
+
+// Stores a file generated for a user, such as a report or graphic, and
+// records it so the blob is kept and counted like any other file
+export async function saveGeneratedFile(
+  buffer: Buffer,
+  file: Omit<InsertGeneratedFile, 'filePath' | 'fileSize'>
+): Promise<GeneratedFile> {
+  const stored = await blobStore.putBuffer(buffer, { contentType: file.mimeType, extension: path.extname(file.fileName) });
+  return storage.createGeneratedFile({ ...file, filePath: stored.ref, fileSize: stored.size });
+}
+
+// Deletes a file once no record references it. Deduplicated blobs can be
+// shared, so callers update or delete their own row first.
+export async function removeStoredFile(pathOrRef: string): Promise<boolean> {
+  if (await storage.countFileReferences(pathOrRef) > 0) {
+    return false;
+  }
+  if (isBlobRef(pathOrRef)) {
+    await blobStore.delete(blobKeyFromRef(pathOrRef));
+  } else {
+    await fsp.unlink(pathOrRef).catch(() => {});
+  }
+  return true;
+}
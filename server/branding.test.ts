@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const state = vi.hoisted(() => ({ files: [] as any[] }));
+
+vi.mock("./storage", () => ({
+  storage: {
+    getGeneratedFileByPath: vi.fn(async (kind: string, filePath: string) =>
+      state.files.find(file => file.kind === kind && file.filePath === filePath) || null),
+  },
+}));
+vi.mock("./blobStore", () => ({
+  isBlobRef: (value: string | null | undefined) => !!value && value.startsWith("blob:"),
+  resolveLocalPath: vi.fn(async (ref: string) => `/blobs/${ref.slice(5)}`),
+  storeFile: vi.fn(),
+}));
+
+const { DEFAULT_BRANDING, isHexColor, normalizeBrandingConfig, resolveBrandAsset } = await import("./branding");
+
+const logoRef = `blob:${"a".repeat(64)}.png`;
+
+beforeEach(() => {
+  state.files = [{
+    kind: "brand_asset",
+    filePath: logoRef,
+    metadata: JSON.stringify({ workspaceId: "ws1", asset: "logo" }),
+  }];
+});
+
+describe("isHexColor", () => {
+  it("accepts only #RRGGBB and #RRGGBBAA", () => {
+    expect(isHexColor("#1F2937")).toBe(true);
+    expect(isHexColor("#1f293780")).toBe(true);
+    expect(isHexColor("#fff")).toBe(false);
+    expect(isHexColor("red")).toBe(false);
+    expect(isHexColor("red[x];movie=/etc/passwd")).toBe(false);
+    expect(isHexColor("#1F2937:s=1x1")).toBe(false);
+    expect(isHexColor(0x1f2937)).toBe(false);
+  });
+});
+
+describe("normalizeBrandingConfig", () => {
+  it("keeps valid colours and an uploaded logo of the workspace", async () => {
+    const result = await normalizeBrandingConfig({ primaryColor: "#FF0000", logo: logoRef }, DEFAULT_BRANDING, "ws1");
+
+    expect(result).toEqual({ branding: { ...DEFAULT_BRANDING, primaryColor: "#FF0000", logo: logoRef } });
+  });
+
+  it("rejects colours that would escape the filter argument", async () => {
+    const result = await normalizeBrandingConfig({ secondaryColor: "red[x];movie=/etc/passwd" }, DEFAULT_BRANDING, "ws1");
+
+    expect(result).toEqual({ error: "secondaryColor must be a #RRGGBB or #RRGGBBAA colour" });
+  });
+
+  it("rejects logos that are URLs, paths or another workspace's asset", async () => {
+    for (const logo of ["http://169.254.169.254/latest/meta-data", "/etc/passwd", logoRef]) {
+      const result = await normalizeBrandingConfig({ logo }, DEFAULT_BRANDING, logo === logoRef ? "ws2" : "ws1");
+      expect(result).toEqual({ error: "logo must be a ref returned by the workspace brand asset upload" });
+    }
+  });
+
+  it("clears the logo when it is set to null", async () => {
+    const result = await normalizeBrandingConfig({ logo: null }, { ...DEFAULT_BRANDING, logo: logoRef }, "ws1");
+
+    expect(result).toEqual({ branding: DEFAULT_BRANDING });
+  });
+});
+
+describe("resolveBrandAsset", () => {
+  it("only resolves blob refs", async () => {
+    expect(await resolveBrandAsset(logoRef)).toBe(`/blobs/${"a".repeat(64)}.png`);
+    expect(await resolveBrandAsset("https://example.com/logo.png")).toBeUndefined();
+    expect(await resolveBrandAsset("/etc/passwd")).toBeUndefined();
+    expect(await resolveBrandAsset(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,108 @@
+import path from 'path';
+import { storage } from './storage';
+import { isBlobRef, resolveLocalPath, storeFile } from './blobStore';
+import { parseJsonColumn } from './transcriptData';
+
+// Workspace branding ends up inside ffmpeg filtergraphs and inputs, so
+// colours are limited to plain hex and images to files uploaded through
+// the brand asset endpoint, never a URL or a path on this machine.
+
+export interface BrandingConfig {
+  logo?: string; // Blob ref of an uploaded brand asset
+  primaryColor: string;
+  secondaryColor: string;
+  fontFamily: string;
+}
+
+export const DEFAULT_BRANDING: BrandingConfig = {
+  primaryColor: '#3B82F6',
+  secondaryColor: '#1F2937',
+  fontFamily: 'Inter, sans-serif',
+};
+
+export const BRAND_ASSET_KIND = 'brand_asset';
+
+export const BRAND_ASSET_TYPES = {
+  logo: ['image/png', 'image/jpeg'],
+  bumper: ['video/mp4', 'video/quicktime', 'video/webm'], // Intro/outro videos
+} as const;
+export type BrandAssetType = keyof typeof BRAND_ASSET_TYPES;
+
+export interface BrandAssetMetadata {
+  workspaceId: string;
+  asset: BrandAssetType;
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}([0-9a-f]{2})?$/i;
+
+// #RRGGBB or #RRGGBBAA, the only colour forms passed to ffmpeg
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR.test(value);
+}
+
+export function isBrandAssetType(value: unknown): value is BrandAssetType {
+  return typeof value === 'string' && value in BRAND_ASSET_TYPES;
+}
+
+// Validates branding from a request on top of the current values. Returns
+// an error message instead when a colour or the logo is not acceptable.
+export async function normalizeBrandingConfig(
+  input: unknown,
+  current: BrandingConfig,
+  workspaceId: string | null
+): Promise<{ branding: BrandingConfig } | { error: string }> {
+  if (!input || typeof input !== 'object') {
+    return { error: 'brandingConfig must be an object' };
+  }
+  const branding = { ...current, ...(input as Partial<BrandingConfig>) };
+
+  for (const key of ['primaryColor', 'secondaryColor'] as const) {
+    if (!isHexColor(branding[key])) {
+      return { error: `${key} must be a #RRGGBB or #RRGGBBAA colour` };
+    }
+  }
+  if (typeof branding.fontFamily !== 'string' || !branding.fontFamily.trim()) {
+    return { error: 'fontFamily must be a non-empty string' };
+  }
+
+  if (branding.logo === null || branding.logo === '') {
+    delete branding.logo;
+  } else if (branding.logo !== undefined && !(await isWorkspaceBrandAsset(branding.logo, workspaceId, 'logo'))) {
+    return { error: 'logo must be a ref returned by the workspace brand asset upload' };
+  }
+
+  return { branding };
+}
+
+// Whether `ref` was uploaded as a brand asset of this type for the workspace
+export async function isWorkspaceBrandAsset(ref: unknown, workspaceId: string | null, asset: BrandAssetType): Promise<boolean> {
+  if (typeof ref !== 'string' || !isBlobRef(ref) || !workspaceId) return false;
+  const file = await storage.getGeneratedFileByPath(BRAND_ASSET_KIND, ref);
+  const metadata = file && parseJsonColumn<BrandAssetMetadata>(file.metadata);
+  return metadata?.workspaceId === workspaceId && metadata.asset === asset;
+}
+
+// Moves an uploaded file into the store and records it against the workspace
+export async function saveBrandAsset(
+  filePath: string,
+  file: { userId: string; workspaceId: string; asset: BrandAssetType; fileName: string; mimeType: string }
+): Promise<string> {
+  const stored = await storeFile(filePath, { contentType: file.mimeType, extension: path.extname(file.fileName) });
+  await storage.createGeneratedFile({
+    userId: file.userId,
+    kind: BRAND_ASSET_KIND,
+    fileName: file.fileName,
+    filePath: stored.ref,
+    fileSize: stored.size,
+    mimeType: file.mimeType,
+    metadata: JSON.stringify({ workspaceId: file.workspaceId, asset: file.asset } satisfies BrandAssetMetadata),
+  });
+  return stored.ref;
+}
+
+// A local path for a brand asset, or undefined for anything that is not a
+// blob ref or can no longer be read
+export async function resolveBrandAsset(ref: string | null | undefined): Promise<string | undefined> {
+  if (!isBlobRef(ref)) return undefined;
+  return resolveLocalPath(ref).catch(() => undefined);
+}
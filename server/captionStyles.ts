@@ -0,0 +1,170 @@
+export type CaptionPosition = 'top' | 'middle' | 'bottom';
+
+export interface CaptionStyle {
+  fontFamily: string;
+  fontSize: number; // In pixels at the output resolution
+  bold: boolean;
+  uppercase: boolean;
+  textColor: string; // Hex, e.g. #FFFFFF or #FFFFFFCC with alpha
+  highlightColor: string; // Colour of the word being spoken
+  outlineColor: string;
+  outlineWidth: number;
+  shadowColor: string;
+  shadowDepth: number;
+  position: CaptionPosition;
+  marginVertical: number; // Distance from the top or bottom edge in pixels
+  karaoke: boolean; // Highlight each word as it is spoken
+}
+
+export interface CaptionPreset {
+  name: string;
+  style: CaptionStyle;
+  builtIn?: boolean;
+}
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  fontFamily: 'Arial',
+  fontSize: 64,
+  bold: true,
+  uppercase: false,
+  textColor: '#FFFFFF',
+  highlightColor: '#FFD400',
+  outlineColor: '#000000',
+  outlineWidth: 4,
+  shadowColor: '#00000080',
+  shadowDepth: 2,
+  position: 'bottom',
+  marginVertical: 320,
+  karaoke: true,
+};
+
+export const BUILT_IN_CAPTION_PRESETS: CaptionPreset[] = [
+  { name: 'Classic', builtIn: true, style: DEFAULT_CAPTION_STYLE },
+  {
+    name: 'Bold Pop',
+    builtIn: true,
+    style: {
+      ...DEFAULT_CAPTION_STYLE,
+      fontSize: 80,
+      uppercase: true,
+      highlightColor: '#3CFF6E',
+      outlineWidth: 6,
+      position: 'middle',
+      marginVertical: 0,
+    },
+  },
+  {
+    name: 'Minimal',
+    builtIn: true,
+    style: {
+      ...DEFAULT_CAPTION_STYLE,
+      fontSize: 52,
+      bold: false,
+      highlightColor: '#FFFFFF',
+      outlineWidth: 2,
+      shadowDepth: 0,
+      karaoke: false,
+    },
+  },
+  {
+    name: 'Neon',
+    builtIn: true,
+    style: {
+      ...DEFAULT_CAPTION_STYLE,
+      textColor: '#E0E0FF',
+      highlightColor: '#FF2BD6',
+      outlineColor: '#2B00FF',
+      outlineWidth: 3,
+      shadowColor: '#FF2BD6A0',
+      shadowDepth: 4,
+      position: 'top',
+      marginVertical: 260,
+    },
+  },
+];
+
+const NAMED_COLORS: Record<string, string> = {
+  white: '#FFFFFF',
+  black: '#000000',
+  red: '#FF0000',
+  green: '#00FF00',
+  blue: '#0000FF',
+  yellow: '#FFFF00',
+};
+
+// Parses #RGB, #RRGGBB, #RRGGBBAA, a named colour, or ffmpeg's `color@opacity`
+// into RGBA components
+export function parseColor(input: string): { r: number; g: number; b: number; a: number } | null {
+  const [colorPart, opacityPart] = input.trim().split('@');
+  let hex = NAMED_COLORS[colorPart.toLowerCase()] || colorPart;
+
+  if (!/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) {
+    return null;
+  }
+
+  hex = hex.slice(1);
+  if (hex.length === 3) {
+    hex = hex.split('').map(c => c + c).join('');
+  }
+
+  let a = hex.length === 8 ? parseInt(hex.slice(6, 8), 16) : 255;
+  if (opacityPart !== undefined) {
+    const opacity = parseFloat(opacityPart);
+    if (Number.isNaN(opacity)) return null;
+    a = Math.round(Math.min(1, Math.max(0, opacity)) * 255);
+  }
+
+  return {
+    r: parseInt(hex.slice(0, 2), 16),
+    g: parseInt(hex.slice(2, 4), 16),
+    b: parseInt(hex.slice(4, 6), 16),
+    a,
+  };
+}
+
+// ASS colours are &HAABBGGRR with alpha inverted (00 is opaque)
+export function toASSColor(input: string): string {
+  const color = parseColor(input) || { r: 255, g: 255, b: 255, a: 255 };
+  const hex = (value: number) => value.toString(16).padStart(2, '0').toUpperCase();
+  return `&H${hex(255 - color.a)}${hex(color.b)}${hex(color.g)}${hex(color.r)}`;
+}
+
+// Validates a user-supplied style, filling gaps from the default. Returns
+// null when a field has the wrong type or an unreadable colour.
+export function normalizeCaptionStyle(input: unknown): CaptionStyle | null {
+  if (!input || typeof input !== 'object') return null;
+  const style = { ...DEFAULT_CAPTION_STYLE, ...(input as Partial<CaptionStyle>) };
+
+  const colors = [style.textColor, style.highlightColor, style.outlineColor, style.shadowColor];
+  if (colors.some(color => typeof color !== 'string' || !parseColor(color))) return null;
+
+  const numbers = [style.fontSize, style.outlineWidth, style.shadowDepth, style.marginVertical];
+  if (numbers.some(value => typeof value !== 'number' || !Number.isFinite(value) || value < 0)) return null;
+
+  if (!['top', 'middle', 'bottom'].includes(style.position)) return null;
+  if (typeof style.fontFamily !== 'string' || !style.fontFamily.trim()) return null;
+
+  return {
+    fontFamily: style.fontFamily.trim(),
+    fontSize: Math.min(style.fontSize, 200),
+    bold: !!style.bold,
+    uppercase: !!style.uppercase,
+    textColor: style.textColor,
+    highlightColor: style.highlightColor,
+    outlineColor: style.outlineColor,
+    outlineWidth: Math.min(style.outlineWidth, 20),
+    shadowColor: style.shadowColor,
+    shadowDepth: Math.min(style.shadowDepth, 20),
+    position: style.position,
+    marginVertical: style.marginVertical,
+    karaoke: !!style.karaoke,
+  };
+}
+
+export async function getWorkspaceCaptionPresets(workspaceId?: string | null): Promise<CaptionPreset[]> {
+  if (!workspaceId) return BUILT_IN_CAPTION_PRESETS;
+
+  const { userManagementService } = await import('./userManagementService');
+  const workspace = await userManagementService.getWorkspace(workspaceId);
+  return [...BUILT_IN_CAPTION_PRESETS, ...(workspace?.settings.captionPresets || [])];
+}
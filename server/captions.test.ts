@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CAPTION_STYLE } from "./captionStyles";
+import { buildCaptionCues, formatASS, formatASSTime, formatSRT, formatSRTTime, wrapLines } from "./captions";
+
+// Words spoken back to back, `seconds` each, starting at `from`
+function spoken(text: string, from = 0, seconds = 0.3) {
+  return text.split(" ").map((word, i) => ({ word, start: from + i * seconds, end: from + (i + 1) * seconds }));
+}
+
+const resolution = { width: 1080, height: 1920 };
+const plain = { ...DEFAULT_CAPTION_STYLE, karaoke: false };
+
+function dialogues(ass: string): string[] {
+  return ass.split("\n").filter(line => line.startsWith("Dialogue:"));
+}
+
+describe("buildCaptionCues", () => {
+  it("breaks at sentence ends and times cues from the words", () => {
+    const cues = buildCaptionCues(spoken("We shipped it. Then everyone left."), 0, 10);
+
+    expect(cues.map(cue => cue.lines)).toEqual([["We shipped it."], ["Then everyone left."]]);
+    expect(cues[0].start).toBe(0);
+    expect(cues[1].start).toBeCloseTo(0.9);
+  });
+
+  it("holds short cues long enough to read without overlapping the next", () => {
+    const cues = buildCaptionCues([...spoken("Yes.", 0, 0.2), ...spoken("Absolutely right.", 0.5)], 0, 10);
+
+    expect(cues[0].end).toBeCloseTo(0.5); // Reading time is 0.8s, but the next cue starts
+    expect(cues[1].end).toBeCloseTo(1.5); // 17 characters at 17 a second
+  });
+
+  it("starts a new cue after a long pause", () => {
+    const cues = buildCaptionCues([...spoken("so anyway", 0), ...spoken("where was I", 3)], 0, 10);
+
+    expect(cues.map(cue => cue.lines.join(" "))).toEqual(["so anyway", "where was I"]);
+  });
+
+  it("wraps long cues onto two lines and never beyond", () => {
+    const text = "the quick brown fox jumps over the lazy dog while the cat watches from the warm windowsill nearby";
+    const cues = buildCaptionCues(spoken(text, 0, 0.2), 0, 30);
+
+    for (const cue of cues) {
+      expect(cue.lines.length).toBeLessThanOrEqual(2);
+      expect(cue.lines.every(line => line.length <= 32)).toBe(true);
+    }
+    expect(cues.map(cue => cue.lines.join(" ")).join(" ")).toBe(text);
+  });
+
+  it("keeps words inside the window, relative to its start", () => {
+    const cues = buildCaptionCues([...spoken("before.", 8), ...spoken("inside words.", 10), ...spoken("after.", 12)], 10, 12);
+
+    expect(cues).toHaveLength(1);
+    expect(cues[0].words.map(word => word.word)).toEqual(["inside", "words."]);
+    expect(cues[0].words[1].start).toBeCloseTo(0.3);
+  });
+});
+
+describe("wrapLines", () => {
+  it("balances two lines and prefers breaking after punctuation", () => {
+    expect(wrapLines("one two three four five six seven".split(" "), 20)).toEqual(["one two three four", "five six seven"]);
+    expect(wrapLines("okay then, we ship the app".split(" "), 20)).toEqual(["okay then,", "we ship the app"]);
+  });
+
+  it("leaves short text and single long words on one line", () => {
+    expect(wrapLines(["short", "text"], 20)).toEqual(["short text"]);
+    expect(wrapLines(["supercalifragilisticexpialidocious"], 20)).toEqual(["supercalifragilisticexpialidocious"]);
+  });
+});
+
+describe("subtitle times", () => {
+  it("formats SRT and ASS timestamps", () => {
+    expect(formatSRTTime(3723.4567)).toBe("01:02:03,457");
+    expect(formatASSTime(3723.4567)).toBe("1:02:03.46");
+    expect(formatASSTime(0)).toBe("0:00:00.00");
+  });
+
+  it("numbers SRT cues", () => {
+    const srt = formatSRT([{ start: 0, end: 1.5, lines: ["Hello", "there"], words: [] }]);
+    expect(srt).toBe("1\n00:00:00,000 --> 00:00:01,500\nHello\nthere\n");
+  });
+});
+
+describe("formatASS", () => {
+  const cue = { start: 1, end: 2.5, lines: ["first line", "second line"], words: spoken("first line second line", 1) };
+
+  it("writes the style from the caption settings", () => {
+    const ass = formatASS([cue], { ...plain, position: "top", marginVertical: 200, textColor: "#FFFFFF80" }, resolution);
+
+    expect(ass).toContain("PlayResX: 1080\nPlayResY: 1920");
+    expect(ass).toContain("Style: Caption,Arial,64,&H7FFFFFFF,&H0000D4FF,&H00000000,&H7F000000,-1,0,0,0,100,100,0,0,1,4,2,8,60,60,200,1");
+  });
+
+  it("joins lines with ASS line breaks", () => {
+    expect(dialogues(formatASS([cue], plain, resolution))).toEqual([
+      "Dialogue: 0,0:00:01.00,0:00:02.50,Caption,,0,0,0,,first line\\Nsecond line",
+    ]);
+  });
+
+  it("strips braces and backslashes so text cannot inject override tags", () => {
+    const unsafe = { ...cue, lines: ["{\\pos(0,0)}hi \\N there"], words: spoken("{\\pos(0,0)}hi \\N there", 1) };
+
+    expect(dialogues(formatASS([unsafe], plain, resolution))[0]).toMatch(/,,pos\(0,0\)hi N there$/);
+    expect(dialogues(formatASS([unsafe], DEFAULT_CAPTION_STYLE, resolution))[0]).not.toMatch(/\{\\pos|\\N/);
+  });
+
+  it("uppercases when the style asks for it", () => {
+    expect(dialogues(formatASS([cue], { ...plain, uppercase: true }, resolution))[0]).toMatch(/FIRST LINE\\NSECOND LINE$/);
+  });
+
+  it("highlights each word for as long as it is spoken, holding through pauses", () => {
+    const paused = { start: 0.5, end: 3, lines: ["so we", "waited"], words: [...spoken("so we", 1), { word: "waited", start: 2, end: 2.4 }] };
+
+    expect(dialogues(formatASS([paused], DEFAULT_CAPTION_STYLE, resolution))[0]).toMatch(
+      /,,\{\\k50\}\{\\k30\}so \{\\k70\}we\\N\{\\k100\}waited$/
+    );
+    // Karaoke fills from the secondary colour, so the text colour goes there
+    expect(formatASS([paused], DEFAULT_CAPTION_STYLE, resolution)).toContain("Style: Caption,Arial,64,&H0000D4FF,&H00FFFFFF,");
+  });
+
+  it("breaks karaoke lines after the right word when a word holds a space", () => {
+    const words = [
+      { word: "New York", start: 0, end: 0.5 },
+      { word: "in", start: 0.5, end: 0.7 },
+      { word: "spring", start: 0.7, end: 1 },
+      { word: "is", start: 1, end: 1.2 },
+      { word: "lovely", start: 1.2, end: 1.6 },
+    ];
+    const cues = buildCaptionCues(words, 0, 10, { maxCharsPerLine: 20 });
+
+    expect(cues[0].lines).toEqual(["New York in", "spring is lovely"]);
+    expect(dialogues(formatASS(cues, DEFAULT_CAPTION_STYLE, resolution))[0]).toMatch(
+      /\{\\k50\}New York \{\\k20\}in\\N\{\\k30\}spring \{\\k20\}is \{\\k\d+\}lovely$/
+    );
+  });
+});
@@ -0,0 +1,268 @@
+import type { TranscriptWord } from './transcriptData';
+import { toASSColor, type CaptionStyle } from './captionStyles';
+
+export interface CaptionCue {
+  start: number; // Seconds from the start of the clip
+  end: number;
+  lines: string[];
+  words: TranscriptWord[]; // Clip-relative word timings, used for karaoke styling
+}
+
+export interface CaptionOptions {
+  maxCharsPerLine: number;
+  maxLines: number;
+  maxCharsPerSecond: number; // Reading speed; short cues are held longer to meet it
+  minCueSeconds: number;
+  maxCueSeconds: number;
+  maxGapSeconds: number; // A pause longer than this always starts a new cue
+}
+
+// Defaults follow common subtitle guidelines for mobile viewing
+const DEFAULT_OPTIONS: CaptionOptions = {
+  maxCharsPerLine: 32,
+  maxLines: 2,
+  maxCharsPerSecond: 17,
+  minCueSeconds: 0.8,
+  maxCueSeconds: 5,
+  maxGapSeconds: 1,
+};
+
+const SENTENCE_END = /[.!?]["')\]]*$/;
+const CLAUSE_END = /[,;:]["')\]]*$/;
+
+// Builds caption cues from the words spoken inside [windowStart, windowEnd).
+// Cues break at sentence ends, at clause punctuation once reasonably full,
+// on long pauses, and whenever the text or duration limits would be exceeded.
+export function buildCaptionCues(
+  words: TranscriptWord[],
+  windowStart: number,
+  windowEnd: number,
+  options: Partial<CaptionOptions> = {}
+): CaptionCue[] {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const maxChars = opts.maxCharsPerLine * opts.maxLines;
+  const clipDuration = windowEnd - windowStart;
+
+  const clipWords = words
+    .filter(word => {
+      const midpoint = (word.start + word.end) / 2;
+      return midpoint >= windowStart && midpoint < windowEnd;
+    })
+    .map(word => ({
+      ...word,
+      word: word.word.trim(),
+      start: Math.max(0, word.start - windowStart),
+      end: Math.min(clipDuration, word.end - windowStart),
+    }))
+    .filter(word => word.word);
+
+  const groups: TranscriptWord[][] = [];
+  let current: TranscriptWord[] = [];
+
+  const flush = () => {
+    if (current.length) groups.push(current);
+    current = [];
+  };
+
+  for (const word of clipWords) {
+    if (current.length) {
+      const previous = current[current.length - 1];
+      const length = textLength([...current, word]);
+      const duration = word.end - current[0].start;
+
+      if (
+        length > maxChars ||
+        duration > opts.maxCueSeconds ||
+        word.start - previous.end > opts.maxGapSeconds ||
+        !fitsInLines([...current, word].map(w => w.word), opts.maxCharsPerLine, opts.maxLines)
+      ) {
+        flush();
+      }
+    }
+
+    current.push(word);
+
+    if (SENTENCE_END.test(word.word)) {
+      flush();
+    } else if (CLAUSE_END.test(word.word) && textLength(current) >= maxChars / 2) {
+      flush();
+    }
+  }
+  flush();
+
+  return groups.map((group, index) => {
+    const text = group.map(word => word.word).join(' ');
+    const start = group[0].start;
+    const spokenEnd = group[group.length - 1].end;
+
+    // Hold the cue long enough to read, without running into the next one
+    const nextStart = index + 1 < groups.length ? groups[index + 1][0].start : clipDuration;
+    const readingEnd = start + Math.max(opts.minCueSeconds, text.length / opts.maxCharsPerSecond);
+    const end = Math.min(Math.max(spokenEnd, readingEnd), nextStart, clipDuration);
+
+    return {
+      start,
+      end: Math.max(end, spokenEnd),
+      lines: wrapLines(group.map(word => word.word), opts.maxCharsPerLine),
+      words: group,
+    };
+  });
+}
+
+export function formatSRT(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, index) => `${index + 1}\n${formatSRTTime(cue.start)} --> ${formatSRTTime(cue.end)}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+}
+
+export function formatSRTTime(seconds: number): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const milliseconds = totalMs % 1000;
+
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')},${milliseconds.toString().padStart(3, '0')}`;
+}
+
+const ASS_ALIGNMENT = { bottom: 2, middle: 5, top: 8 }; // Numpad positions
+
+// Renders cues as an ASS script. With karaoke enabled every word starts in
+// the text colour and switches to the highlight colour while it is spoken.
+export function formatASS(
+  cues: CaptionCue[],
+  style: CaptionStyle,
+  resolution: { width: number; height: number }
+): string {
+  // \k fills from SecondaryColour to PrimaryColour, so karaoke swaps them
+  const primary = style.karaoke ? style.highlightColor : style.textColor;
+  const secondary = style.karaoke ? style.textColor : style.highlightColor;
+
+  const header = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${resolution.width}`,
+    `PlayResY: ${resolution.height}`,
+    'WrapStyle: 2',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    [
+      'Style: Caption',
+      style.fontFamily,
+      style.fontSize,
+      toASSColor(primary),
+      toASSColor(secondary),
+      toASSColor(style.outlineColor),
+      toASSColor(style.shadowColor),
+      style.bold ? -1 : 0,
+      0, 0, 0, 100, 100, 0, 0,
+      1, // Outline and drop shadow
+      style.outlineWidth,
+      style.shadowDepth,
+      ASS_ALIGNMENT[style.position],
+      60, 60,
+      style.position === 'middle' ? 0 : style.marginVertical,
+      1,
+    ].join(','),
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  const events = cues.map(cue => {
+    const text = style.karaoke ? karaokeText(cue, style) : cue.lines.map(line => escapeASS(transform(line, style))).join('\\N');
+    return `Dialogue: 0,${formatASSTime(cue.start)},${formatASSTime(cue.end)},Caption,,0,0,0,,${text}`;
+  });
+
+  return [...header, ...events, ''].join('\n');
+}
+
+// Per-word \k tags in centiseconds. Pauses are folded into the preceding
+// word so the highlight stays on it until the next word begins.
+function karaokeText(cue: CaptionCue, style: CaptionStyle): string {
+  // Lines are the cue's words joined by spaces, so a line ends once the
+  // words taken add up to its length. Counting spaces instead would go
+  // wrong for words that contain one, such as "New York".
+  const lineBreaks = new Set<number>();
+  let taken = 0;
+  for (const line of cue.lines.slice(0, -1)) {
+    let length = -1;
+    while (taken < cue.words.length && length < line.length) {
+      length += cue.words[taken].word.length + 1;
+      taken++;
+    }
+    lineBreaks.add(taken);
+  }
+
+  let text = '';
+  const lead = Math.round((cue.words[0].start - cue.start) * 100);
+  if (lead > 0) text += `{\\k${lead}}`;
+
+  cue.words.forEach((word, index) => {
+    const next = cue.words[index + 1];
+    const until = next ? next.start : cue.end;
+    const duration = Math.max(1, Math.round((until - word.start) * 100));
+    const separator = index === 0 ? '' : lineBreaks.has(index) ? '\\N' : ' ';
+    text += `${separator}{\\k${duration}}${escapeASS(transform(word.word, style))}`;
+  });
+
+  return text;
+}
+
+function transform(text: string, style: CaptionStyle): string {
+  return style.uppercase ? text.toUpperCase() : text;
+}
+
+// Braces start override blocks in ASS
+function escapeASS(text: string): string {
+  return text.replace(/[{}]/g, '').replace(/\\/g, '');
+}
+
+export function formatASSTime(seconds: number): string {
+  const totalCs = Math.round(seconds * 100);
+  const hours = Math.floor(totalCs / 360000);
+  const minutes = Math.floor((totalCs % 360000) / 6000);
+  const secs = Math.floor((totalCs % 6000) / 100);
+  const centiseconds = totalCs % 100;
+
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${centiseconds.toString().padStart(2, '0')}`;
+}
+
+// Balances words over as few lines as possible, preferring a break after
+// punctuation when two lines are needed
+export function wrapLines(tokens: string[], maxCharsPerLine: number): string[] {
+  const text = tokens.join(' ');
+  if (text.length <= maxCharsPerLine || tokens.length < 2) return [text];
+
+  let bestSplit = 1;
+  let bestScore = Infinity;
+
+  for (let split = 1; split < tokens.length; split++) {
+    const first = tokens.slice(0, split).join(' ');
+    const second = tokens.slice(split).join(' ');
+    const overflow = Math.max(0, first.length - maxCharsPerLine) + Math.max(0, second.length - maxCharsPerLine);
+    const imbalance = Math.abs(first.length - second.length);
+    const punctuationBonus = /[,.;:!?]$/.test(tokens[split - 1]) ? maxCharsPerLine / 4 : 0;
+    const score = overflow * 100 + imbalance - punctuationBonus;
+
+    if (score < bestScore) {
+      bestScore = score;
+      bestSplit = split;
+    }
+  }
+
+  const first = tokens.slice(0, bestSplit);
+  const rest = tokens.slice(bestSplit);
+  return [first.join(' '), ...wrapLines(rest, maxCharsPerLine)];
+}
+
+function fitsInLines(tokens: string[], maxCharsPerLine: number, maxLines: number): boolean {
+  const lines = wrapLines(tokens, maxCharsPerLine);
+  return lines.length <= maxLines && lines.every(line => line.length <= maxCharsPerLine);
+}
+
+function textLength(words: TranscriptWord[]): number {
+  return words.map(word => word.word).join(' ').length;
+}
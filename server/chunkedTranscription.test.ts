@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { planChunks, stitchTranscripts } from "./chunkedTranscription";
+
+describe("stitchTranscripts", () => {
+  const chunks = [
+    { index: 0, start: 0, end: 10 },
+    { index: 1, start: 10, end: 20 },
+  ];
+
+  it("offsets times and namespaces speakers per chunk", () => {
+    const result = stitchTranscripts(chunks, [
+      {
+        text: "Hello there.",
+        words: [{ word: "Hello", start: 1, end: 2, speaker: "A" }, { word: "there.", start: 2, end: 3, speaker: "B" }],
+        speakers: [{ speaker: "A", start: 1, end: 2 }, { speaker: "B", start: 2, end: 3 }],
+      },
+      {
+        text: "Welcome back.",
+        words: [{ word: "Welcome", start: 0.5, end: 1, speaker: "A" }, { word: "back.", start: 1, end: 1.5, speaker: "A" }],
+        speakers: [{ speaker: "A", start: 0.5, end: 1.5 }],
+      },
+    ], 20);
+
+    expect(result.text).toBe("Hello there. Welcome back.");
+    expect(result.words).toEqual([
+      { word: "Hello", start: 1, end: 2, speaker: "A (part 1)" },
+      { word: "there.", start: 2, end: 3, speaker: "B (part 1)" },
+      { word: "Welcome", start: 10.5, end: 11, speaker: "A (part 2)" },
+      { word: "back.", start: 11, end: 11.5, speaker: "A (part 2)" },
+    ]);
+    expect(result.speakers?.map(turn => turn.speaker)).toEqual(["A (part 1)", "B (part 1)", "A (part 2)"]);
+  });
+
+  it("keeps labels as-is for a single chunk", () => {
+    const result = stitchTranscripts([{ index: 0, start: 0, end: 5 }], [
+      { text: "Hi.", words: [{ word: "Hi.", start: 0, end: 1, speaker: "A" }], speakers: [{ speaker: "A", start: 0, end: 1 }] },
+    ], 5);
+
+    expect(result.words?.[0].speaker).toBe("A");
+    expect(result.speakers?.[0].speaker).toBe("A");
+  });
+
+  it("leaves words without speakers unlabelled", () => {
+    const result = stitchTranscripts(chunks, [
+      { text: "One", words: [{ word: "One", start: 0, end: 1 }] },
+      { text: "Two", words: [{ word: "Two", start: 0, end: 1 }] },
+    ], 20);
+
+    expect(result.words).toEqual([
+      { word: "One", start: 0, end: 1 },
+      { word: "Two", start: 10, end: 11 },
+    ]);
+    expect(result.speakers).toBeUndefined();
+  });
+});
+
+describe("planChunks", () => {
+  it("cuts at the latest silence within the limit", () => {
+    const chunks = planChunks(25, [{ start: 4, end: 5 }, { start: 8, end: 9 }], 10, 2);
+    expect(chunks[0]).toEqual({ index: 0, start: 0, end: 8.5 });
+    expect(chunks.at(-1)?.end).toBe(25);
+  });
+});
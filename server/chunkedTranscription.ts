@@ -0,0 +1,208 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { TranscriptionResult } from './openai';
+import type { TranscriptionProvider, TranscriptionOptions } from './transcriptionProviders';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+interface Silence {
+  start: number;
+  end: number;
+}
+
+export interface AudioChunk {
+  index: number;
+  start: number;
+  end: number;
+}
+
+const MAX_CHUNK_SECONDS = parseInt(process.env.TRANSCRIPTION_CHUNK_SECONDS || '600'); // 10 minutes
+const MIN_CHUNK_SECONDS = 60;
+const CHUNK_CONCURRENCY = parseInt(process.env.TRANSCRIPTION_CHUNK_CONCURRENCY || '3');
+const SILENCE_NOISE_DB = -35;
+const SILENCE_MIN_SECONDS = 0.5;
+
+// Splits long media on silence, transcribes the pieces in parallel and
+// stitches the text and word timestamps back onto the original timeline
+export async function transcribeInChunks(
+  audioFilePath: string,
+  provider: TranscriptionProvider,
+  options: TranscriptionOptions = {}
+): Promise<TranscriptionResult> {
+  const duration = await probeDuration(audioFilePath);
+  const silences = await detectSilences(audioFilePath);
+  const chunks = planChunks(duration, silences);
+
+  console.log(`[ChunkedTranscription] Splitting ${path.basename(audioFilePath)} (${Math.round(duration)}s) into ${chunks.length} chunks`);
+
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'transcribe-chunks-'));
+
+  try {
+    const results = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk) => {
+      const chunkPath = path.join(workDir, `chunk_${chunk.index}.mp3`);
+      await extractChunk(audioFilePath, chunk, chunkPath);
+
+      const result = await provider.transcribe(chunkPath, options);
+      console.log(`[ChunkedTranscription] Transcribed chunk ${chunk.index + 1}/${chunks.length}`);
+
+      await fs.promises.unlink(chunkPath).catch(() => {});
+      return result;
+    });
+
+    return stitchTranscripts(chunks, results, duration);
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+export function stitchTranscripts(
+  chunks: AudioChunk[],
+  results: TranscriptionResult[],
+  duration: number
+): TranscriptionResult {
+  const words: NonNullable<TranscriptionResult['words']> = [];
+  const speakers: NonNullable<TranscriptionResult['speakers']> = [];
+
+  // Each chunk numbers its speakers independently, so "A" in one chunk need
+  // not be "A" in the next. Labels are namespaced per chunk and can be
+  // renamed to the same person afterwards.
+  const label = (speaker: string, chunk: AudioChunk) =>
+    chunks.length > 1 ? chunkSpeakerLabel(speaker, chunk.index) : speaker;
+
+  chunks.forEach((chunk, index) => {
+    for (const word of results[index].words || []) {
+      words.push({
+        ...word,
+        start: word.start + chunk.start,
+        end: word.end + chunk.start,
+        ...(word.speaker ? { speaker: label(word.speaker, chunk) } : {}),
+      });
+    }
+    for (const turn of results[index].speakers || []) {
+      speakers.push({
+        ...turn,
+        speaker: label(turn.speaker, chunk),
+        start: turn.start + chunk.start,
+        end: turn.end + chunk.start,
+      });
+    }
+  });
+
+  return {
+    text: results.map(result => result.text.trim()).filter(Boolean).join(' '),
+    words,
+    speakers: speakers.length ? speakers : undefined,
+    language: results.find(result => result.language)?.language,
+    duration,
+  };
+}
+
+// e.g. "A (part 2)", shown as "Speaker A (part 2)"
+export function chunkSpeakerLabel(speaker: string, chunkIndex: number): string {
+  return `${speaker} (part ${chunkIndex + 1})`;
+}
+
+// Greedily cuts at the latest silence that keeps each chunk under the
+// maximum length, falling back to a hard cut when there is none
+export function planChunks(
+  duration: number,
+  silences: Silence[],
+  maxChunkSeconds: number = MAX_CHUNK_SECONDS,
+  minChunkSeconds: number = MIN_CHUNK_SECONDS
+): AudioChunk[] {
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+
+  while (duration - start > maxChunkSeconds) {
+    const latestEnd = start + maxChunkSeconds;
+    const cut = silences
+      .map(silence => (silence.start + silence.end) / 2)
+      .filter(midpoint => midpoint >= start + minChunkSeconds && midpoint <= latestEnd)
+      .pop();
+
+    const end = cut ?? latestEnd;
+    chunks.push({ index: chunks.length, start, end });
+    start = end;
+  }
+
+  chunks.push({ index: chunks.length, start, end: duration });
+  return chunks;
+}
+
+function probeDuration(filePath: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err: any, metadata: any) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(Number(metadata.format.duration) || 0);
+    });
+  });
+}
+
+function detectSilences(filePath: string): Promise<Silence[]> {
+  return new Promise((resolve, reject) => {
+    const silences: Silence[] = [];
+    let pendingStart: number | null = null;
+
+    ffmpeg(filePath)
+      .noVideo()
+      .audioFilters(`silencedetect=noise=${SILENCE_NOISE_DB}dB:d=${SILENCE_MIN_SECONDS}`)
+      .format('null')
+      .on('stderr', (line: string) => {
+        const startMatch = line.match(/silence_start: (-?[\d.]+)/);
+        if (startMatch) {
+          pendingStart = Math.max(0, parseFloat(startMatch[1]));
+        }
+
+        const endMatch = line.match(/silence_end: ([\d.]+)/);
+        if (endMatch && pendingStart !== null) {
+          silences.push({ start: pendingStart, end: parseFloat(endMatch[1]) });
+          pendingStart = null;
+        }
+      })
+      .on('end', () => resolve(silences))
+      .on('error', (error: Error) => reject(error))
+      .save(os.platform() === 'win32' ? 'NUL' : '/dev/null');
+  });
+}
+
+function extractChunk(inputPath: string, chunk: AudioChunk, outputPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(inputPath)
+      .seekInput(chunk.start)
+      .duration(chunk.end - chunk.start)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(16000)
+      .audioCodec('libmp3lame')
+      .audioBitrate('64k')
+      .format('mp3')
+      .on('end', () => resolve())
+      .on('error', (error: Error) => reject(error))
+      .save(outputPath);
+  });
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const state = vi.hoisted(() => ({
+  clips: [] as any[],
+  deleted: [] as string[],
+  released: [] as string[],
+}));
+
+vi.mock("./storage", () => ({
+  storage: {
+    getClipsBySegmentId: vi.fn(async (segmentId: string) => state.clips.filter(clip => clip.segmentId === segmentId)),
+    getClipsByUploadId: vi.fn(async () => state.clips),
+    deleteClip: vi.fn(async (id: string) => { state.deleted.push(id); }),
+  },
+}));
+vi.mock("./blobStore", () => ({
+  storeFile: vi.fn(),
+  removeStoredFile: vi.fn(async (filePath: string) => {
+    // Rows must be gone before the reference count is checked
+    expect(state.deleted).toContain(state.clips.find(clip => clip.filePath === filePath)?.id);
+    state.released.push(filePath);
+    return true;
+  }),
+}));
+vi.mock("./enhancedQueueSystem", () => ({
+  enhancedQueueSystem: { addJob: vi.fn(), createWorker: vi.fn() },
+}));
+vi.mock("./audioPreprocessing", () => ({ getProcessedMedia: vi.fn() }));
+
+const { clipRenderer } = await import("./clipRenderer");
+
+beforeEach(() => {
+  state.clips = [
+    { id: "c1", segmentId: "s1", filePath: "blob:one.mp4" },
+    { id: "c2", segmentId: "s1", filePath: null },
+    { id: "c3", segmentId: "s2", filePath: "blob:three.mp4" },
+  ];
+  state.deleted = [];
+  state.released = [];
+});
+
+describe("clip removal", () => {
+  it("deletes a segment's clips and releases their files", async () => {
+    await clipRenderer.removeSegmentClips("s1");
+
+    expect(state.deleted).toEqual(["c1", "c2"]);
+    expect(state.released).toEqual(["blob:one.mp4"]);
+  });
+
+  it("deletes every clip of an upload and releases their files", async () => {
+    await clipRenderer.removeUploadClips("u1");
+
+    expect(state.deleted).toEqual(["c1", "c2", "c3"]);
+    expect(state.released).toEqual(["blob:one.mp4", "blob:three.mp4"]);
+  });
+});
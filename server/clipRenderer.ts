@@ -0,0 +1,193 @@
+import type { Job } from 'bullmq';
+import type { Clip, Segment } from '@shared/schema';
+import { enhancedQueueSystem } from './enhancedQueueSystem';
+import { storage } from './storage';
+import { parseJsonColumn } from './transcriptData';
+import { RENDER_TARGETS, type AspectRatio, type RenderTarget } from './renderTargets';
+import type { CaptionStyle } from './captionStyles';
+import type { ReframeLayout } from './reframe';
+import type { TightenOptions } from './tighten';
+import type { IntroOutroConfig } from './introOutro';
+import { getAudiogramConfig, isAudioOnly } from './audiogram';
+import { getProcessedMedia } from './audioPreprocessing';
+import { removeStoredFile, storeFile } from './blobStore';
+
+// Stored in clips.metadata for rendered video clips
+export interface VideoClipMetadata {
+  aspectRatio: AspectRatio;
+  width: number;
+  height: number;
+  resolution: string;
+  reframe: ReframeLayout;
+  platforms: string[];
+  layout?: string; // Layout the reframer settled on
+  duration?: number;
+  size?: number;
+  removedSeconds?: number; // Pauses and fillers cut by tightening
+  error?: string;
+}
+
+interface RenderOptions {
+  captionStyle?: CaptionStyle;
+  tighten?: TightenOptions;
+  introOutro?: IntroOutroConfig;
+}
+
+interface RenderJobData extends RenderOptions {
+  clipId: string;
+}
+
+const RENDER_QUEUE = 'clip-rendering';
+
+export class ClipRenderer {
+  private started = false;
+
+  async start(): Promise<void> {
+    if (this.started) return;
+
+    // Renders are CPU-bound, so run them one at a time
+    await enhancedQueueSystem.createWorker(
+      RENDER_QUEUE,
+      (job: Job<RenderJobData>) => this.render(job.data),
+      { concurrency: 1 }
+    );
+    this.started = true;
+    console.log('[ClipRenderer] Render worker started');
+  }
+
+  // Creates one clip per target and queues the renders. A target replaces
+  // any earlier render of the same shape for the segment.
+  async renderSegment(
+    segment: Segment,
+    targets: RenderTarget[],
+    options: RenderOptions = {}
+  ): Promise<Clip[]> {
+    const created: Clip[] = [];
+
+    for (const target of targets) {
+      const clip = await this.createClip(segment, target);
+      await enhancedQueueSystem.addJob(
+        RENDER_QUEUE,
+        'render-clip',
+        { clipId: clip.id, ...options } satisfies RenderJobData
+      );
+      created.push(clip);
+    }
+
+    return created;
+  }
+
+  // Renders in the caller, for the processing pipeline, which should only
+  // finish once the upload's shorts are playable. Throws if the render fails;
+  // the clip is then left marked as failed.
+  async renderSegmentNow(
+    segment: Segment,
+    target: RenderTarget,
+    options: RenderOptions = {}
+  ): Promise<Clip | null> {
+    const clip = await this.createClip(segment, target);
+    await this.render({ clipId: clip.id, ...options });
+    return storage.getClip(clip.id);
+  }
+
+  private async createClip(segment: Segment, target: RenderTarget): Promise<Clip> {
+    const existing = await storage.getClipsBySegmentId(segment.id);
+    for (const old of existing.filter(clip => clip.type === target.clipType)) {
+      await this.removeClip(old);
+    }
+
+    const metadata: VideoClipMetadata = {
+      aspectRatio: target.aspectRatio,
+      width: target.width,
+      height: target.height,
+      resolution: `${target.width}x${target.height}`,
+      reframe: target.reframe,
+      platforms: target.platforms,
+    };
+
+    return storage.createClip({
+      segmentId: segment.id,
+      type: target.clipType,
+      metadata: JSON.stringify(metadata),
+      status: 'pending',
+    });
+  }
+
+  private async render({ clipId, captionStyle, tighten, introOutro }: RenderJobData): Promise<void> {
+    const clip = await storage.getClip(clipId);
+    const segment = clip ? await storage.getSegment(clip.segmentId) : null;
+    const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
+    if (!clip || !segment || !upload) {
+      console.log(`[ClipRenderer] Clip ${clipId} no longer exists, skipping render`);
+      return;
+    }
+
+    const metadata = parseJsonColumn<VideoClipMetadata>(clip.metadata)!;
+    const target = { ...RENDER_TARGETS[metadata.aspectRatio], reframe: metadata.reframe };
+    await storage.updateClipStatus(clip.id, 'processing');
+
+    try {
+      const { shortsGenerator } = await import('./shortsGenerator');
+      // Audio-only uploads have nothing to crop, so they become audiograms
+      const audiogram = isAudioOnly(upload) ? await getAudiogramConfig(upload.workspaceId) : undefined;
+      // Normalized media is at the workspace platform's level, which need
+      // not be the level of the platforms this target is for
+      const media = await getProcessedMedia(upload);
+      const loudnessLufs = media.normalized && media.normalized.targetLufs !== target.loudnessLufs ? target.loudnessLufs : undefined;
+      const result = await shortsGenerator.generateForTarget(
+        media.filePath,
+        segment,
+        `./uploads/shorts/${upload.id}`,
+        target,
+        { captionStyle, audiogram, tighten, introOutroConfig: introOutro, loudnessLufs }
+      );
+
+      const stored = await storeFile(result.outputPath, { contentType: 'video/mp4', extension: '.mp4' });
+      await storage.updateClip(clip.id, {
+        filePath: stored.ref,
+        fileSize: stored.size,
+        status: 'completed',
+        metadata: JSON.stringify({
+          ...metadata,
+          layout: result.layout,
+          duration: result.duration,
+          size: result.size,
+          removedSeconds: result.removedSeconds,
+        } satisfies VideoClipMetadata),
+      });
+      if (clip.filePath && clip.filePath !== stored.ref) {
+        await removeStoredFile(clip.filePath);
+      }
+      console.log(`[ClipRenderer] Rendered ${metadata.aspectRatio} clip ${clip.id} for segment ${segment.id}`);
+    } catch (error) {
+      const err = error as Error;
+      await storage.updateClip(clip.id, {
+        status: 'failed',
+        metadata: JSON.stringify({ ...metadata, error: err.message } satisfies VideoClipMetadata),
+      });
+      throw err;
+    }
+  }
+
+  // Deletes the segment's clips and whichever of their files nothing else uses
+  async removeSegmentClips(segmentId: string): Promise<void> {
+    for (const clip of await storage.getClipsBySegmentId(segmentId)) {
+      await this.removeClip(clip);
+    }
+  }
+
+  async removeUploadClips(uploadId: string): Promise<void> {
+    for (const clip of await storage.getClipsByUploadId(uploadId)) {
+      await this.removeClip(clip);
+    }
+  }
+
+  async removeClip(clip: Clip): Promise<void> {
+    await storage.deleteClip(clip.id);
+    if (clip.filePath) {
+      await removeStoredFile(clip.filePath);
+    }
+  }
+}
+
+export const clipRenderer = new ClipRenderer();
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Segment } from "@shared/schema";
+
+const openai = vi.hoisted(() => ({ create: vi.fn() }));
+const saved = vi.hoisted(() => [] as Array<{ buffer: Buffer; options: any }>);
+
+vi.mock("openai", () => ({
+  default: class {
+    chat = { completions: { create: openai.create } };
+  },
+}));
+vi.mock("./storage", () => ({
+  storage: { getUpload: vi.fn(async () => ({ id: "u1", userId: "user-1", workspaceId: null })) },
+}));
+vi.mock("./glossary", async importOriginal => ({
+  ...await importOriginal<typeof import("./glossary")>(),
+  getWorkspaceGlossary: vi.fn(async () => []),
+}));
+vi.mock("./thumbnailFrames", () => ({
+  getThumbnailFrames: vi.fn(async () => ({ success: false, error: "Only video uploads have frames to use as thumbnails" })),
+}));
+vi.mock("./blobStore", () => ({
+  resolveLocalPath: vi.fn(),
+  saveGeneratedFile: vi.fn(async (buffer: Buffer, options: any) => {
+    saved.push({ buffer, options });
+    return { id: `g${saved.length}`, filePath: `blob:${"1".repeat(64)}.png`, ...options };
+  }),
+}));
+
+const { contentGenerators } = await import("./contentGenerators");
+const { el, renderPng, renderSvg } = await import("./graphicsRenderer");
+const templates = await contentGenerators.getThumbnailTemplates();
+
+const size = { width: 1280, height: 720 };
+const title = "3 Launch Mistakes to Avoid";
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// A two-tone stand-in for a video frame, so each layout's frame placement shows
+const frame = `data:image/png;base64,${(await renderPng(
+  el("div", { display: "flex", width: 160, height: 90 },
+    el("div", { width: 80, height: 90, backgroundColor: "#d97706" }),
+    el("div", { width: 80, height: 90, backgroundColor: "#0f766e" })
+  ),
+  { width: 160, height: 90 }
+)).toString("base64")}`;
+
+beforeEach(() => {
+  openai.create.mockReset();
+  saved.length = 0;
+});
+
+describe("thumbnail layouts", () => {
+  it("has a template for every layout", () => {
+    expect(new Set(templates.map(template => template.layout))).toEqual(new Set(["center-text", "left-text", "split", "overlay"]));
+  });
+
+  const cases = templates.flatMap(template => [
+    [template.layout, "plain", template, null],
+    [template.layout, "frame", template, frame],
+  ] as const);
+
+  it.each(cases)("renders the %s layout (%s)", async (layout, variant, template, frameSrc) => {
+    const graphic = await contentGenerators.buildThumbnailGraphic(title, template, frameSrc);
+
+    await expect(await renderSvg(graphic, size)).toMatchFileSnapshot(`__snapshots__/thumbnail-${layout}-${variant}.svg`);
+    const png = await renderPng(graphic, size);
+    expect(png.subarray(0, 8).equals(PNG_SIGNATURE)).toBe(true);
+    expect(png.readUInt32BE(16)).toBe(size.width);
+    expect(png.readUInt32BE(20)).toBe(size.height);
+  });
+});
+
+describe("generateThumbnail", () => {
+  it("stores the thumbnail for the upload's owner and returns its blob ref", async () => {
+    openai.create.mockResolvedValue({ choices: [{ message: { content: title } }] });
+    const segment = { id: "s1", uploadId: "u1", title: "Launch", summary: "How the product launched" } as Segment;
+
+    const thumbnail = await contentGenerators.generateThumbnail(segment, "educational_blue");
+
+    expect(thumbnail.filePath).toBe(`blob:${"1".repeat(64)}.png`);
+    expect(thumbnail).not.toHaveProperty("imageUrl");
+    expect(thumbnail.backgroundFrame).toBeNull();
+    expect(saved[0].options).toMatchObject({ userId: "user-1", segmentId: "s1", kind: "thumbnail", mimeType: "image/png" });
+  });
+});
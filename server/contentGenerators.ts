@@ -1,9 +1,16 @@
 import { storage } from "./storage";
 import { Segment } from "@shared/schema";
 import OpenAI from "openai";
+import { resolveLocalPath, saveGeneratedFile } from "./blobStore";
+import { getThumbnailFrames } from "./thumbnailFrames";
+import { applyGlossaryToText, buildGlossaryInstructions, getUploadGlossary, getWorkspaceGlossary } from "./glossary";
+import { el, fitFontSize, image, imageDataUri, renderPng, type GraphicNode, type GraphicStyle } from "./graphicsRenderer";
 
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
+const THUMBNAIL_WIDTH = 1280;
+const THUMBNAIL_HEIGHT = 720;
+
 interface BlogPost {
   title: string;
   metaDescription: string;
@@ -97,6 +104,7 @@ export class ContentGenerators {
   async generateSEOBlog(segments: Segment[], topic: string, targetKeywords: string[]): Promise<BlogPost> {
     // Combine segment content for comprehensive blog generation
     const combinedContent = segments.map(s => `${s.title}: ${s.summary}\n${s.transcript}`).join('\n\n');
+    const glossaryInstructions = await this.glossaryInstructionsFor(segments);
     
     const prompt = `Create a comprehensive 1000-word SEO blog post from this content:
 
@@ -113,7 +121,7 @@ Requirements:
 4. Natural keyword integration
 5. FAQ section (5 questions)
 6. Internal linking opportunities
-7. Actionable insights and takeaways
+7. Actionable insights and takeaways${glossaryInstructions}
 
 Respond in JSON format:
 {
@@ -158,6 +166,7 @@ Respond in JSON format:
 
   async generateNewsletter(segments: Segment[], brandName: string, audienceType: string = 'general'): Promise<NewsletterIssue> {
     const combinedContent = segments.map(s => `${s.title}: ${s.summary}`).join('\n');
+    const glossaryInstructions = await this.glossaryInstructionsFor(segments);
     
     const prompt = `Create a newsletter issue from this content:
 
@@ -171,7 +180,7 @@ Requirements:
 3. Multiple sections (intro, main insights, actionable takeaways, CTA)
 4. Both plain text and HTML versions
 5. Conversational but professional tone
-6. Clear value proposition
+6. Clear value proposition${glossaryInstructions}
 
 Respond in JSON format:
 {
@@ -216,6 +225,11 @@ Respond in JSON format:
     }
   }
 
+  // Segments passed together always come from one upload
+  private async glossaryInstructionsFor(segments: Segment[]): Promise<string> {
+    return segments.length ? buildGlossaryInstructions(await getUploadGlossary(segments[0].uploadId)) : '';
+  }
+
   private generatePlainTextNewsletter(data: any): string {
     let plainText = `${data.subject}\n${'='.repeat(data.subject.length)}\n\n`;
     
@@ -271,16 +285,23 @@ Respond in JSON format:
   }
 
   async generateThumbnail(segment: Segment, templateId: string = 'bold_impact'): Promise<{
-    imageUrl: string;
+    filePath: string; // Blob ref; sign it when handing the image out
     title: string;
     template: ThumbnailTemplate;
+    backgroundFrame: string | null; // The segment's chosen video frame, if any
   }> {
     const template = this.thumbnailTemplates.get(templateId);
     if (!template) {
       throw new Error(`Thumbnail template ${templateId} not found`);
     }
 
+    const upload = await storage.getUpload(segment.uploadId);
+    if (!upload) {
+      throw new Error('Upload not found');
+    }
+
     // Generate compelling thumbnail title
+    const glossary = await getWorkspaceGlossary(upload.workspaceId);
     const titlePrompt = `Create a compelling YouTube thumbnail title from this content:
 
 Title: ${segment.title}
@@ -291,7 +312,7 @@ Requirements:
 - High impact and clickable
 - Emotional trigger words
 - Numbers when relevant
-- Avoid clickbait
+- Avoid clickbait${buildGlossaryInstructions(glossary)}
 
 Return just the thumbnail title text:`;
 
@@ -303,15 +324,23 @@ Return just the thumbnail title text:`;
         temperature: 0.8,
       });
 
-      const thumbnailTitle = response.choices[0].message.content?.trim() || segment.title;
-      
-      // Generate thumbnail image (in real implementation, this would use Canvas/Playwright)
-      const imageUrl = await this.createThumbnailImage(thumbnailTitle, template);
+      const thumbnailTitle = applyGlossaryToText(response.choices[0].message.content?.trim() || segment.title, glossary);
+
+      // Video segments use their chosen frame as the background; audio and
+      // text uploads, or a failed extraction, fall back to the template colour
+      const frames = await getThumbnailFrames(segment);
+      const backgroundFrame = frames.success ? frames.selected ?? null : null;
+
+      const filePath = await this.createThumbnailImage(thumbnailTitle, template, backgroundFrame, {
+        userId: upload.userId,
+        segmentId: segment.id,
+      });
 
       return {
-        imageUrl,
+        filePath,
         title: thumbnailTitle,
-        template
+        template,
+        backgroundFrame
       };
     } catch (error) {
       console.error('[ContentGenerators] Error generating thumbnail:', error);
@@ -319,15 +348,99 @@ Return just the thumbnail title text:`;
     }
   }
 
-  private async createThumbnailImage(title: string, template: ThumbnailTemplate): Promise<string> {
-    // In a real implementation, this would use Canvas or Playwright to generate actual images
-    // For now, we'll return a placeholder URL
-    const filename = `thumbnail_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.png`;
-    const imageUrl = `/generated/thumbnails/${filename}`;
-    
-    console.log(`[ContentGenerators] Generated thumbnail: ${imageUrl} with title: "${title}"`);
-    
-    return imageUrl;
+  // Renders the template over the background frame, or over the template
+  // colour without one, and stores the PNG for its owner. Returns its blob ref.
+  private async createThumbnailImage(
+    title: string,
+    template: ThumbnailTemplate,
+    backgroundFrame: string | null,
+    owner: { userId: string; segmentId: string }
+  ): Promise<string> {
+    const graphic = await this.buildThumbnailGraphic(
+      title,
+      template,
+      backgroundFrame ? await imageDataUri(await resolveLocalPath(backgroundFrame), 'image/jpeg') : null
+    );
+    const png = await renderPng(graphic, { width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT });
+    const file = await saveGeneratedFile(png, {
+      ...owner,
+      kind: 'thumbnail',
+      fileName: `thumbnail_${owner.segmentId}_${Date.now()}.png`,
+      mimeType: 'image/png',
+      metadata: JSON.stringify({ title, templateId: template.id, backgroundFrame }),
+    });
+
+    console.log(`[ContentGenerators] Generated thumbnail: ${file.filePath} with title: "${title}"`);
+    return file.filePath;
+  }
+
+  // Where each template layout puts the frame, its tint and the title. The
+  // template's font size is the largest the title may use.
+  async buildThumbnailGraphic(title: string, template: ThumbnailTemplate, frameSrc: string | null): Promise<GraphicNode> {
+    const width = THUMBNAIL_WIDTH;
+    const height = THUMBNAIL_HEIGHT;
+    const margin = Math.round(width * 0.05);
+    const maxSize = parseInt(template.fontSize) || 64;
+    const shadow: GraphicStyle = frameSrc ? { textShadow: '3px 3px 0 rgba(0, 0, 0, 0.6)' } : {};
+
+    const layer = (style: GraphicStyle, ...children: Array<GraphicNode | null>) =>
+      el('div', { display: 'flex', position: 'absolute', top: 0, left: 0, width, height, ...style }, ...children);
+    const frame = (left: number, frameWidth: number) => frameSrc
+      ? image(frameSrc, { position: 'absolute', top: 0, left, width: frameWidth, height, objectFit: 'cover' })
+      : null;
+    const titleBlock = async (box: { width: number; height: number }, textAlign: 'left' | 'center') => {
+      const fontSize = await fitFontSize(title, box, {
+        fontFamily: 'Inter',
+        fontWeight: 800,
+        lineHeight: 1.15,
+        minSize: 24,
+        maxSize,
+        textAlign,
+      });
+      return el('div', { display: 'flex', justifyContent: textAlign === 'center' ? 'center' : 'flex-start', width: box.width, fontSize, fontWeight: 800, lineHeight: 1.15, textAlign, color: template.textColor, ...shadow }, title);
+    };
+
+    const base = (...children: Array<GraphicNode | null>) => el('div', {
+      display: 'flex',
+      position: 'relative',
+      width,
+      height,
+      backgroundColor: template.backgroundColor,
+      fontFamily: 'Inter',
+      overflow: 'hidden',
+    }, ...children);
+
+    switch (template.layout) {
+      case 'left-text':
+        return base(
+          frame(0, width),
+          frameSrc ? layer({ width: width / 2, backgroundColor: template.backgroundColor, opacity: 0.85 }) : null,
+          layer({ alignItems: 'center', padding: margin }, await titleBlock({ width: width / 2 - margin * 2, height: height - margin * 2 }, 'left'))
+        );
+
+      case 'split':
+        // Frame on the right half, title on solid colour on the left
+        return base(
+          frame(width / 2, width / 2),
+          layer({ alignItems: 'center', padding: margin }, await titleBlock({ width: width / 2 - margin * 2, height: height - margin * 2 }, 'left'))
+        );
+
+      case 'overlay': {
+        const bandHeight = Math.round(height * 0.38);
+        return base(
+          frame(0, width),
+          frameSrc ? layer({ top: height - bandHeight, height: bandHeight, backgroundColor: template.backgroundColor, opacity: 0.75 }) : null,
+          layer({ alignItems: 'flex-end', padding: margin }, await titleBlock({ width: width - margin * 2, height: bandHeight - margin * 1.5 }, 'left'))
+        );
+      }
+
+      default:
+        return base(
+          frame(0, width),
+          frameSrc ? layer({ backgroundColor: template.backgroundColor, opacity: 0.35 }) : null,
+          layer({ alignItems: 'center', justifyContent: 'center', padding: margin }, await titleBlock({ width: width - margin * 2, height: height - margin * 2 }, 'center'))
+        );
+    }
   }
 
   async getThumbnailTemplates(): Promise<ThumbnailTemplate[]> {
@@ -349,7 +462,7 @@ Return just the thumbnail title text:`;
     newsletter: NewsletterIssue;
     thumbnails: Array<{
       segmentId: string;
-      imageUrl: string;
+      filePath: string;
       title: string;
     }>;
   }> {
@@ -377,7 +490,7 @@ Return just the thumbnail title text:`;
         const thumbnail = await this.generateThumbnail(segment);
         thumbnails.push({
           segmentId: segment.id,
-          imageUrl: thumbnail.imageUrl,
+          filePath: thumbnail.filePath,
           title: thumbnail.title
         });
       }
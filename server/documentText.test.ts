@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
+import { extractDocumentText, getDocumentFormat, isTextDocument, type DocumentFormat } from "./documentText";
+
+let tempDir: string;
+
+beforeAll(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "document-text-test-"));
+});
+
+afterAll(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+async function extract(content: string | Buffer, format: DocumentFormat): Promise<string> {
+  const filePath = path.join(tempDir, `document.${format}`);
+  await fs.writeFile(filePath, content);
+  return extractDocumentText(filePath, format);
+}
+
+// A minimal zip archive: local headers, then the central directory and its
+// end record. The reader does not check CRCs, so they are left at zero.
+function zip(entries: Record<string, string>, method: 0 | 8 = 8): Buffer {
+  const locals: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const raw = Buffer.from(content, "utf8");
+    const data = method === 8 ? zlib.deflateRawSync(raw) : raw;
+    const nameBytes = Buffer.from(name, "utf8");
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(method, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(raw.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    directory.push(entry, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directorySize = directory.reduce((total, part) => total + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(directory.length / 2, 8);
+  end.writeUInt16LE(directory.length / 2, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...directory, end]);
+}
+
+describe("getDocumentFormat", () => {
+  it("goes by extension first, then by MIME type", () => {
+    expect(getDocumentFormat({ originalName: "notes.MD", mimeType: "text/plain" })).toBe("md");
+    expect(getDocumentFormat({ originalName: "script.rtf", mimeType: "application/octet-stream" })).toBe("rtf");
+    expect(getDocumentFormat({ originalName: "download", mimeType: "text/markdown" })).toBe("md");
+    expect(getDocumentFormat({ originalName: "episode.mp3", mimeType: "audio/mpeg" })).toBeNull();
+    expect(isTextDocument({ originalName: "show.docx", mimeType: "" })).toBe(true);
+  });
+});
+
+describe("extractDocumentText", () => {
+  it("tidies plain text", async () => {
+    const text = "\uFEFFFirst  line\t \r\n\r\n\r\n\r\n  Second line  ";
+
+    expect(await extract(text, "txt")).toBe("First line\n\nSecond line");
+  });
+
+  it("keeps the words of Markdown and drops its syntax", async () => {
+    const markdown = [
+      "---",
+      "title: Episode 12",
+      "---",
+      "# Welcome back",
+      "",
+      "Read **the notes** and [our guide](https://example.com) on `deploys`.",
+      "",
+      "- first_step stays",
+      "> A _quoted_ line",
+      "",
+      "![Diagram](diagram.png)",
+      "",
+      "[guide]: https://example.com/guide",
+    ].join("\n");
+
+    expect(await extract(markdown, "md")).toBe(
+      "Welcome back\n\nRead the notes and our guide on deploys.\n\nfirst_step stays\nA quoted line\n\nDiagram"
+    );
+  });
+
+  it("reads RTF text outside font tables and with escaped characters", async () => {
+    const rtf = String.raw`{\rtf1\ansi\deff0{\fonttbl{\f0 Times New Roman;}}{\*\generator Writer;}` +
+      String.raw`\f0\fs24 Caf\'e9 \b opening\b0\par ` +
+      String.raw`Quote: \ldblquote hi\rdblquote  \emdash\~done\par ` +
+      String.raw`\uc1\u8364?5 ticket}`;
+
+    expect(await extract(Buffer.from(rtf, "latin1"), "rtf")).toBe("Café opening\n\nQuote: “hi” — done\n\n€5 ticket");
+  });
+
+  it("reads the paragraphs of a DOCX body", async () => {
+    const documentXml = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>',
+      '<w:p><w:r><w:t>Show notes &amp; links</w:t></w:r></w:p>',
+      '<w:p><w:r><w:t xml:space="preserve">Guest: </w:t></w:r><w:r><w:t>Ana</w:t></w:r><w:r><w:br/><w:t>Host</w:t></w:r></w:p>',
+      '<w:p><w:r><w:instrText> PAGE </w:instrText></w:r><w:r><w:delText>removed</w:delText></w:r><w:r><w:t>Kept &#8212; end</w:t></w:r></w:p>',
+      "</w:body></w:document>",
+    ].join("");
+    const entries = { "[Content_Types].xml": "<Types/>", "word/document.xml": documentXml };
+    const expected = "Show notes & links\n\nGuest: Ana\nHost\n\nKept — end";
+
+    expect(await extract(zip(entries), "docx")).toBe(expected);
+    expect(await extract(zip(entries, 0), "docx")).toBe(expected);
+  });
+
+  it("rejects a DOCX without a document body or that is not a zip", async () => {
+    await expect(extract(zip({ "word/styles.xml": "<w:styles/>" }), "docx")).rejects.toThrow("DOCX file has no document body");
+    await expect(extract("plain text", "docx")).rejects.toThrow("File is not a valid DOCX (zip) archive");
+  });
+});
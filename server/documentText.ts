@@ -0,0 +1,256 @@
+import path from 'path';
+import fs from 'fs/promises';
+import zlib from 'zlib';
+import type { Upload } from '@shared/schema';
+
+export type DocumentFormat = 'txt' | 'md' | 'rtf' | 'docx';
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  '.txt': 'txt',
+  '.md': 'md',
+  '.markdown': 'md',
+  '.rtf': 'rtf',
+  '.docx': 'docx',
+};
+
+const FORMATS_BY_MIME_TYPE: Record<string, DocumentFormat> = {
+  'text/plain': 'txt',
+  'text/markdown': 'md',
+  'text/x-markdown': 'md',
+  'application/rtf': 'rtf',
+  'text/rtf': 'rtf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+};
+
+// The document format of a text upload, or null for media. Browsers report
+// Markdown and some RTF files inconsistently, so the file name decides first.
+export function getDocumentFormat(upload: Pick<Upload, 'mimeType' | 'originalName'>): DocumentFormat | null {
+  return FORMATS_BY_EXTENSION[path.extname(upload.originalName).toLowerCase()]
+    ?? FORMATS_BY_MIME_TYPE[upload.mimeType]
+    ?? null;
+}
+
+export function isTextDocument(upload: Pick<Upload, 'mimeType' | 'originalName'>): boolean {
+  return getDocumentFormat(upload) !== null;
+}
+
+// Plain text of a document, with paragraphs separated by blank lines
+export async function extractDocumentText(filePath: string, format: DocumentFormat): Promise<string> {
+  const buffer = await fs.readFile(filePath);
+  let text: string;
+
+  switch (format) {
+    case 'docx':
+      text = docxToText(buffer);
+      break;
+    case 'rtf':
+      text = rtfToText(buffer.toString('latin1'));
+      break;
+    case 'md':
+      text = markdownToText(decodeUtf8(buffer));
+      break;
+    default:
+      text = decodeUtf8(buffer);
+  }
+
+  return tidyText(text);
+}
+
+function decodeUtf8(buffer: Buffer): string {
+  return buffer.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+function tidyText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00A0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// DOCX is a zip archive; the body text lives in word/document.xml
+function docxToText(buffer: Buffer): string {
+  const xml = readZipEntry(buffer, 'word/document.xml');
+  if (!xml) {
+    throw new Error('DOCX file has no document body');
+  }
+
+  return decodeXmlEntities(
+    xml.toString('utf8')
+      // Field codes and tracked deletions are not part of the visible text
+      .replace(/<w:instrText\b[^>]*>[\s\S]*?<\/w:instrText>/g, '')
+      .replace(/<w:delText\b[^>]*>[\s\S]*?<\/w:delText>/g, '')
+      .replace(/<w:tab\b[^>]*\/>/g, '\t')
+      .replace(/<w:(br|cr)\b[^>]*\/>/g, '\n')
+      .replace(/<\/w:p>/g, '\n\n')
+      .replace(/<[^>]+>/g, '')
+  );
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[entity];
+  });
+}
+
+// Reads one file from a zip archive through its central directory.
+// Supports the stored and deflate methods, which cover Office documents.
+function readZipEntry(buffer: Buffer, name: string): Buffer | null {
+  const END_OF_DIRECTORY = 0x06054b50;
+  const DIRECTORY_ENTRY = 0x02014b50;
+
+  // The end record sits within the last 64KB, before an optional comment
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('File is not a valid DOCX (zip) archive');
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let i = 0; i < entryCount && buffer.readUInt32LE(offset) === DIRECTORY_ENTRY; i++) {
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeader = buffer.readUInt32LE(offset + 42);
+    const entryName = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (entryName === name) {
+      const dataStart = localHeader + 30 + buffer.readUInt16LE(localHeader + 26) + buffer.readUInt16LE(localHeader + 28);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return zlib.inflateRawSync(data);
+      throw new Error(`Unsupported zip compression method ${method}`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+}
+
+// Groups holding formatting tables and metadata rather than body text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'listtable', 'listoverridetable', 'info',
+  'pict', 'header', 'footer', 'headerl', 'headerr', 'footerl', 'footerr', 'themedata',
+  'colorschememapping', 'datastore', 'latentstyles', 'rsidtbl', 'generator', 'xmlnstbl',
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: '\n\n',
+  line: '\n',
+  sect: '\n\n',
+  page: '\n\n',
+  tab: '\t',
+  cell: '\t',
+  row: '\n',
+  emdash: '—',
+  endash: '–',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  bullet: '•',
+};
+
+// Walks the RTF groups, keeping text outside skipped destinations. \uN
+// characters are followed by \ucN fallback characters, which are dropped.
+function rtfToText(rtf: string): string {
+  const token = /\\([a-zA-Z]+)(-?\d+)? ?|\\'([0-9a-fA-F]{2})|\\([^a-zA-Z])|([{}])|[\r\n]+|([^\\{}\r\n]+)/g;
+  const groups: Array<{ skip: boolean; unicodeFallback: number }> = [];
+  let skip = false;
+  let unicodeFallback = 1;
+  let pendingFallback = 0;
+  let output = '';
+
+  const emit = (text: string) => {
+    if (!skip) output += text;
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(rtf))) {
+    const [raw, word, param, hex, symbol, brace, text] = match;
+
+    if (brace === '{') {
+      groups.push({ skip, unicodeFallback });
+    } else if (brace === '}') {
+      const group = groups.pop();
+      skip = group?.skip ?? false;
+      unicodeFallback = group?.unicodeFallback ?? 1;
+    } else if (word) {
+      if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+        skip = true;
+      } else if (word === 'uc') {
+        unicodeFallback = Number(param ?? 1);
+      } else if (word === 'u' && param) {
+        const code = Number(param);
+        emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+        pendingFallback = unicodeFallback;
+      } else if (RTF_SYMBOLS[word]) {
+        emit(RTF_SYMBOLS[word]);
+      }
+      continue;
+    } else if (hex) {
+      if (pendingFallback > 0) {
+        pendingFallback--;
+      } else {
+        // Code page 1252 matches Latin-1 for letters
+        emit(String.fromCharCode(parseInt(hex, 16)));
+      }
+      continue;
+    } else if (symbol) {
+      if (symbol === '*') skip = true;
+      else if (symbol === '~') emit(' ');
+      else if (symbol === '_') emit('-');
+      else if (symbol === '\n' || symbol === '\r') emit('\n\n');
+      else if (symbol !== '-') emit(symbol);
+    } else if (text) {
+      const kept = text.slice(Math.min(pendingFallback, text.length));
+      pendingFallback = Math.max(0, pendingFallback - text.length);
+      emit(kept);
+      continue;
+    } else if (raw.trim() === '') {
+      continue;
+    }
+    pendingFallback = 0;
+  }
+
+  return output;
+}
+
+// Strips Markdown syntax, keeping the words of headings, lists, links,
+// image alt text, quotes and code
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^---\n[\s\S]*?\n---\n/, '') // Front matter
+    .replace(/^```.*$/gm, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<\/?[a-zA-Z][^>]*>/g, '')
+    .replace(/^[ \t]*\[[^\]]+\]:[ \t]+\S+.*$/gm, '') // Reference link definitions
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/^[ \t]{0,3}#{1,6}[ \t]+(.*?)[ \t]*#*[ \t]*$/gm, '$1')
+    .replace(/^[ \t]{0,3}(?:[-*_][ \t]*){3,}$/gm, '')
+    .replace(/^[ \t]*>[ \t]?/gm, '')
+    .replace(/^[ \t]*(?:[-*+]|\d+[.)])[ \t]+/gm, '')
+    .replace(/^[ \t]*\|?(?:[ \t]*:?-+:?[ \t]*\|)+[ \t]*:?-*:?[ \t]*$/gm, '') // Table separators
+    .replace(/[ \t]*\|[ \t]*/g, ' ')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    // Single markers only count at word edges, so snake_case survives
+    .replace(/(^|[^\w*])([*_])(\S(?:.*?\S)?)\2(?![\w*])/gm, '$1$3')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/`([^`]+)`/g, '$1');
+}
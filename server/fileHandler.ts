@@ -1,9 +1,10 @@
 import path from "path";
 import fs from "fs";
 import { storage } from "./storage";
-import { processTranscription } from "./processors/transcription";
-import { processSegmentation } from "./processors/segmentation";
-import { processClipGeneration } from "./processors/clipGeneration";
+import { processingPipeline } from "./processingPipeline";
+import { inspectUploadFile } from "./mediaProbe";
+import { storeFile } from "./blobStore";
+import { checkStorageQuota } from "./storageQuota";
 
 export interface FileUploadResult {
   success: boolean;
@@ -11,53 +12,11 @@ export interface FileUploadResult {
   error?: string;
 }
 
+// Queues the upload on the durable processing pipeline. Stage progress is
+// persisted, so an interrupted run resumes from the last completed stage.
 export async function processFile(uploadId: string): Promise<void> {
-  try {
-    console.log(`Starting processing for upload ${uploadId}`);
-    
-    const upload = await storage.getUpload(uploadId);
-    if (!upload) {
-      throw new Error('Upload not found');
-    }
-
-    // Step 1: Transcription
-    await storage.updateUploadStatus(uploadId, 'transcribing');
-    console.log(`Transcribing upload ${uploadId}`);
-    
-    const transcript = await processTranscription(upload);
-    console.log(`Transcription completed for upload ${uploadId}`);
-
-    // Step 2: Segmentation
-    await storage.updateUploadStatus(uploadId, 'segmenting');
-    console.log(`Segmenting upload ${uploadId}`);
-    
-    const segments = await processSegmentation(uploadId, transcript.text);
-    console.log(`Segmentation completed for upload ${uploadId}, created ${segments.length} segments`);
-
-    // Step 3: Clip Generation
-    await storage.updateUploadStatus(uploadId, 'processing');
-    console.log(`Processing clips for upload ${uploadId}`);
-    
-    await processClipGeneration(segments);
-    console.log(`Clip generation completed for upload ${uploadId}`);
-
-    // Step 4: Social Content Generation
-    await storage.updateUploadStatus(uploadId, 'generating_content');
-    console.log(`Generating social content for upload ${uploadId}`);
-    
-    const { processSocialContent } = await import('./processors/socialContent');
-    await processSocialContent(uploadId);
-    console.log(`Social content generation completed for upload ${uploadId}`);
-
-    // Mark as completed
-    await storage.updateUploadStatus(uploadId, 'completed');
-    console.log(`Processing completed for upload ${uploadId}`);
-
-  } catch (error) {
-    console.error(`Processing failed for upload ${uploadId}:`, error);
-    await storage.updateUploadStatus(uploadId, 'failed');
-    throw error;
-  }
+  console.log(`Queueing processing for upload ${uploadId}`);
+  await processingPipeline.enqueue(uploadId);
 }
 
 export function getFileExtension(mimeType: string): string {
@@ -66,6 +25,15 @@ export function getFileExtension(mimeType: string): string {
     'video/quicktime': '.mov',
     'audio/mpeg': '.mp3',
     'audio/wav': '.wav',
+    'audio/mp4': '.m4a',
+    'audio/x-m4a': '.m4a',
+    'audio/flac': '.flac',
+    'audio/x-flac': '.flac',
+    'text/plain': '.txt',
+    'text/markdown': '.md',
+    'application/rtf': '.rtf',
+    'text/rtf': '.rtf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
   };
   return mimeMap[mimeType] || '.unknown';
 }
@@ -77,6 +45,15 @@ export function validateFileType(mimeType: string): boolean {
     'audio/mpeg',
     'audio/wav',
     'audio/mp3',
+    'audio/mp4',
+    'audio/x-m4a',
+    'audio/flac',
+    'audio/x-flac',
+    'text/plain',
+    'text/markdown',
+    'application/rtf',
+    'text/rtf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
     'application/octet-stream' // For files that aren't properly detected
   ];
   return allowedTypes.includes(mimeType);
@@ -104,52 +81,45 @@ export function formatDuration(seconds: number): string {
   }
 }
 
-// Cleanup function to remove old files
-export async function cleanupOldFiles(maxAgeHours: number = 24 * 7): Promise<void> {
-  try {
-    const uploadsDir = path.join(process.cwd(), 'uploads');
-    const clipsDir = path.join(process.cwd(), 'clips');
-    
-    const maxAge = maxAgeHours * 60 * 60 * 1000; // Convert to milliseconds
-    const now = Date.now();
-
-    for (const dir of [uploadsDir, clipsDir]) {
-      if (fs.existsSync(dir)) {
-        const files = fs.readdirSync(dir);
-        
-        for (const file of files) {
-          const filePath = path.join(dir, file);
-          const stats = fs.statSync(filePath);
-          
-          if (now - stats.mtime.getTime() > maxAge) {
-            fs.unlinkSync(filePath);
-            console.log(`Cleaned up old file: ${filePath}`);
-          }
-        }
-      }
-    }
-  } catch (error) {
-    console.error('Cleanup error:', error);
-  }
-}
-
 async function handleUpload(file: any, userId: string): Promise<FileUploadResult> {
   try {
     if (!validateFileType(file.mimetype)) {
       return {
         success: false,
-        error: 'Invalid file type. Only MP4, MOV, MP3, and WAV files are allowed.'
+        error: 'Invalid file type. Only MP4, MOV, MP3, WAV, M4A, FLAC, TXT, MD, RTF and DOCX files are allowed.'
       };
     }
 
+    const quota = await checkStorageQuota({ userId }, file.size);
+    if (!quota.allowed) {
+      fs.unlink(file.path, () => {});
+      return {
+        success: false,
+        error: quota.error
+      };
+    }
+
+    const inspection = await inspectUploadFile(file.path, { mimeType: file.mimetype, originalName: file.originalname });
+    if (!inspection.success) {
+      fs.unlink(file.path, () => {});
+      return {
+        success: false,
+        error: inspection.error
+      };
+    }
+
+    const stored = await storeFile(file.path, { contentType: file.mimetype, extension: path.extname(file.originalname) });
+
     // Create upload record
     const uploadData = {
       userId,
       filename: file.filename,
       originalName: file.originalname,
-      filePath: file.path,
+      filePath: stored.ref,
       fileSize: file.size,
       mimeType: file.mimetype,
+      contentHash: stored.sha256,
+      ...inspection.fields,
       status: 'uploaded',
     };
 
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { applyGlossary, applyGlossaryToText, buildGlossaryInstructions } from "./glossary";
+
+const glossary = [
+  { term: "AutoStage", misspellings: ["auto stage", "Otto Stage"] },
+  { term: "Kubernetes", pronunciation: "koo-ber-net-eez" },
+];
+
+describe("applyGlossaryToText", () => {
+  it("replaces misspellings wherever they appear as whole words", () => {
+    expect(applyGlossaryToText("We built Otto Stage on auto stage ideas.", glossary))
+      .toBe("We built AutoStage on AutoStage ideas.");
+  });
+
+  it("leaves partial matches alone", () => {
+    expect(applyGlossaryToText("the auto stagehand", glossary)).toBe("the auto stagehand");
+  });
+});
+
+describe("applyGlossary", () => {
+  it("fixes the text and collapses misspelled word runs", () => {
+    const result = applyGlossary({
+      text: "Welcome to auto stage.",
+      words: [
+        { word: "Welcome", start: 0, end: 0.5 },
+        { word: "to", start: 0.5, end: 0.7 },
+        { word: "auto", start: 0.7, end: 1 },
+        { word: "stage.", start: 1, end: 1.4 },
+      ],
+    }, glossary);
+
+    expect(result.text).toBe("Welcome to AutoStage.");
+    expect(result.words?.at(-1)).toMatchObject({ word: "AutoStage.", start: 0.7, end: 1.4 });
+  });
+});
+
+describe("buildGlossaryInstructions", () => {
+  it("lists terms with their pronunciation", () => {
+    expect(buildGlossaryInstructions(glossary)).toContain('- Kubernetes (pronounced "koo-ber-net-eez")');
+    expect(buildGlossaryInstructions([])).toBe("");
+  });
+});
@@ -0,0 +1,138 @@
+import type { TranscriptionResult } from './openai';
+import type { TranscriptWord } from './transcriptData';
+
+export interface GlossaryTerm {
+  term: string; // Correct spelling
+  misspellings?: string[]; // Variants to replace after transcription
+  pronunciation?: string; // How the term sounds, e.g. "oh-toe-stage"
+}
+
+// Whisper only reads the last 224 tokens of a prompt
+const MAX_PROMPT_CHARS = 800;
+
+export async function getWorkspaceGlossary(workspaceId?: string | null): Promise<GlossaryTerm[]> {
+  if (!workspaceId) return [];
+
+  const { userManagementService } = await import('./userManagementService');
+  const workspace = await userManagementService.getWorkspace(workspaceId);
+  return workspace?.settings.glossary || [];
+}
+
+export async function getUploadGlossary(uploadId: string): Promise<GlossaryTerm[]> {
+  const { storage } = await import('./storage');
+  const upload = await storage.getUpload(uploadId);
+  return getWorkspaceGlossary(upload?.workspaceId);
+}
+
+// Drops blank entries and trims whitespace from user-supplied terms
+export function normalizeGlossary(input: unknown): GlossaryTerm[] | null {
+  if (!Array.isArray(input)) return null;
+
+  const terms: GlossaryTerm[] = [];
+  for (const entry of input) {
+    if (!entry || typeof entry.term !== 'string') return null;
+
+    const term = entry.term.trim();
+    if (!term) continue;
+
+    const misspellings = Array.isArray(entry.misspellings)
+      ? entry.misspellings.filter((m: unknown): m is string => typeof m === 'string').map((m: string) => m.trim()).filter(Boolean)
+      : [];
+    const pronunciation = typeof entry.pronunciation === 'string' ? entry.pronunciation.trim() : '';
+
+    terms.push({
+      term,
+      ...(misspellings.length ? { misspellings } : {}),
+      ...(pronunciation ? { pronunciation } : {}),
+    });
+  }
+
+  return terms;
+}
+
+// Vocabulary hint for the transcription prompt. Whisper follows the spelling
+// of words it sees in the prompt, so the terms are simply listed.
+export function buildTranscriptionPrompt(glossary: GlossaryTerm[]): string | undefined {
+  if (!glossary.length) return undefined;
+
+  let prompt = 'Glossary:';
+  for (const { term } of glossary) {
+    if (prompt.length + term.length + 2 > MAX_PROMPT_CHARS) break;
+    prompt += ` ${term},`;
+  }
+  return prompt.replace(/,$/, '.');
+}
+
+// Prompt section that tells the model how to spell names in generated copy
+export function buildGlossaryInstructions(glossary: GlossaryTerm[]): string {
+  if (!glossary.length) return '';
+
+  const lines = glossary.map(({ term, pronunciation }) =>
+    pronunciation ? `- ${term} (pronounced "${pronunciation}")` : `- ${term}`
+  );
+  return `\n\nSpell these names and terms exactly as written, even if the transcript spells them differently:\n${lines.join('\n')}`;
+}
+
+// Replaces known misspellings in the text and in the word timeline. A
+// multi-word misspelling collapses into one word spanning the same time.
+export function applyGlossary(result: TranscriptionResult, glossary: GlossaryTerm[]): TranscriptionResult {
+  const replacements = glossary.flatMap(({ term, misspellings }) =>
+    (misspellings || []).map(misspelling => ({ from: misspelling, to: term }))
+  );
+  if (!replacements.length) return result;
+
+  const text = applyGlossaryToText(result.text, glossary);
+
+  let words = result.words;
+  if (words) {
+    for (const { from, to } of replacements) {
+      words = replaceWordSequence(words, from, to);
+    }
+  }
+
+  return { ...result, text, words };
+}
+
+// Replaces known misspellings in free text, such as generated copy
+export function applyGlossaryToText(text: string, glossary: GlossaryTerm[]): string {
+  for (const { term, misspellings } of glossary) {
+    for (const misspelling of misspellings || []) {
+      text = text.replace(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(misspelling)}(?![\\p{L}\\p{N}])`, 'giu'), term);
+    }
+  }
+  return text;
+}
+
+function replaceWordSequence(words: TranscriptWord[], from: string, to: string): TranscriptWord[] {
+  const target = from.split(/\s+/).map(normalize).filter(Boolean);
+  if (!target.length) return words;
+
+  const output: TranscriptWord[] = [];
+  let i = 0;
+
+  while (i < words.length) {
+    const matches = i + target.length <= words.length &&
+      target.every((token, j) => normalize(words[i + j].word) === token);
+
+    if (!matches) {
+      output.push(words[i]);
+      i++;
+      continue;
+    }
+
+    const last = words[i + target.length - 1];
+    const trailing = last.word.trim().match(/[^\p{L}\p{N}]+$/u)?.[0] || '';
+    output.push({ ...words[i], word: `${to}${trailing}`, end: last.end });
+    i += target.length;
+  }
+
+  return output;
+}
+
+function normalize(token: string): string {
+  return token.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { backgroundStyle, el, fitFontSize, renderPng, renderSvg, resolveFontFamily } from "./graphicsRenderer";
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe("el", () => {
+  it("adds flex to divs with several children and drops empty ones", () => {
+    expect(el("div", { color: "red" }, "a", null, false, "b")).toEqual({
+      type: "div",
+      props: { style: { display: "flex", color: "red" }, children: ["a", "b"] },
+    });
+    expect(el("div", { color: "red" }, "a")).toEqual({ type: "div", props: { style: { color: "red" }, children: "a" } });
+    expect(el("div", { display: "block" }, "a", "b").props.style).toEqual({ display: "block" });
+  });
+});
+
+describe("resolveFontFamily", () => {
+  it("picks the first bundled family from a font stack", () => {
+    expect(resolveFontFamily("'Poppins', sans-serif")).toBe("Poppins");
+    expect(resolveFontFamily("Helvetica, montserrat")).toBe("Montserrat");
+    expect(resolveFontFamily("Helvetica")).toBe("Inter");
+    expect(resolveFontFamily(null)).toBe("Inter");
+  });
+});
+
+describe("backgroundStyle", () => {
+  it("puts gradients in backgroundImage and colours in backgroundColor", () => {
+    expect(backgroundStyle("linear-gradient(135deg, #000 0%, #fff 100%)")).toEqual({
+      backgroundImage: "linear-gradient(135deg, #000 0%, #fff 100%)",
+    });
+    expect(backgroundStyle("#ffffff")).toEqual({ backgroundColor: "#ffffff" });
+  });
+});
+
+describe("fitFontSize", () => {
+  const options = { fontFamily: "Inter" as const, fontWeight: 600, lineHeight: 1.3, minSize: 20, maxSize: 64 };
+
+  it("keeps short text at the largest size", async () => {
+    expect(await fitFontSize("Ship it", { width: 800, height: 400 }, options)).toBe(64);
+  });
+
+  it("shrinks long text until it fits the box", async () => {
+    const text = "Every week we asked what our customers would miss most if the product disappeared tomorrow, and wrote the answer down.";
+    const fontSize = await fitFontSize(text, { width: 400, height: 200 }, options);
+
+    expect(fontSize).toBeLessThan(64);
+    expect(fontSize).toBeGreaterThanOrEqual(20);
+    const svg = await renderSvg(el("div", { display: "flex", width: 400, fontSize, fontFamily: "Inter", fontWeight: 600, lineHeight: 1.3 }, text), { width: 400 });
+    expect(Number(/height="([\d.]+)"/.exec(svg)![1])).toBeLessThanOrEqual(200);
+  });
+
+  it("gives the minimum size to text that never fits", async () => {
+    expect(await fitFontSize("word ".repeat(200), { width: 200, height: 40 }, options)).toBe(20);
+  });
+});
+
+describe("rendering", () => {
+  const card = el("div", { display: "flex", width: 320, height: 180, backgroundColor: "#1e3a8a", color: "#ffffff", fontFamily: "Montserrat", fontSize: 32, alignItems: "center", justifyContent: "center" }, "Hello");
+
+  it("draws text as paths, without relying on system fonts", async () => {
+    const svg = await renderSvg(card, { width: 320, height: 180 });
+
+    expect(svg).toContain('width="320"');
+    expect(svg).toContain("<path");
+    expect(svg).not.toContain("<text");
+  });
+
+  it("renders the same PNG for the same input", async () => {
+    const first = await renderPng(card, { width: 320, height: 180 });
+    const second = await renderPng(card, { width: 320, height: 180 });
+
+    expect(first.subarray(0, 8).equals(PNG_SIGNATURE)).toBe(true);
+    expect(first.readUInt32BE(16)).toBe(320);
+    expect(first.readUInt32BE(20)).toBe(180);
+    expect(first.equals(second)).toBe(true);
+  });
+});
@@ -0,0 +1,149 @@
+import satori, { type Font, type FontWeight } from 'satori';
+import { Resvg } from '@resvg/resvg-js';
+import { createRequire } from 'module';
+import fs from 'fs/promises';
+
+// Renders graphics from a flexbox element tree: satori lays it out into an
+// SVG with every glyph converted to a path, and resvg rasterizes that. No
+// browser or system fonts are involved, so the same input always gives the
+// same image.
+
+export type GraphicStyle = Record<string, string | number>;
+
+export interface GraphicNode {
+  type: 'div' | 'img';
+  props: {
+    style?: GraphicStyle;
+    src?: string; // img only: a data URI
+    children?: string | GraphicNode | Array<string | GraphicNode>;
+  };
+}
+
+export const FONT_FAMILIES = ['Inter', 'Montserrat', 'Poppins'] as const;
+export type FontFamily = typeof FONT_FAMILIES[number];
+
+export const DEFAULT_FONT_FAMILY: FontFamily = 'Inter';
+
+const FONT_PACKAGES: Record<FontFamily, string> = {
+  Inter: '@fontsource/inter',
+  Montserrat: '@fontsource/montserrat',
+  Poppins: '@fontsource/poppins',
+};
+const FONT_WEIGHTS: FontWeight[] = [400, 500, 600, 700, 800];
+
+const require = createRequire(import.meta.url);
+let fontsPromise: Promise<Font[]> | null = null;
+
+// The bundled fonts cover the Latin subset; satori falls back to the first
+// font for anything else
+function loadFonts(): Promise<Font[]> {
+  if (!fontsPromise) {
+    const loads = FONT_FAMILIES.flatMap(family =>
+      FONT_WEIGHTS.map(async weight => {
+        const slug = family.toLowerCase();
+        const file = require.resolve(`${FONT_PACKAGES[family]}/files/${slug}-latin-${weight}-normal.woff`);
+        return { name: family, data: await fs.readFile(file), weight, style: 'normal' as const };
+      })
+    );
+    fontsPromise = Promise.all(loads).catch(error => {
+      fontsPromise = null;
+      throw error;
+    });
+  }
+  return fontsPromise;
+}
+
+// Maps a CSS font stack like "Montserrat, sans-serif" to a bundled family
+export function resolveFontFamily(fontStack?: string | null): FontFamily {
+  for (const name of (fontStack || '').split(',')) {
+    const family = FONT_FAMILIES.find(candidate => candidate.toLowerCase() === name.trim().replace(/['"]/g, '').toLowerCase());
+    if (family) return family;
+  }
+  return DEFAULT_FONT_FAMILY;
+}
+
+export function el(type: GraphicNode['type'], style: GraphicStyle, ...children: Array<string | GraphicNode | null | undefined | false>): GraphicNode {
+  const kept = children.filter((child): child is string | GraphicNode => !!child);
+  // satori needs flex on any div with more than one child
+  const needsFlex = type === 'div' && kept.length > 1 && !style.display;
+  return {
+    type,
+    props: {
+      style: needsFlex ? { display: 'flex', ...style } : style,
+      ...(kept.length ? { children: kept.length === 1 ? kept[0] : kept } : {}),
+    },
+  };
+}
+
+export function image(src: string, style: GraphicStyle): GraphicNode {
+  return { type: 'img', props: { src, style } };
+}
+
+// CSS gradients go in backgroundImage; satori ignores them as a colour
+export function backgroundStyle(background: string): GraphicStyle {
+  return background.includes('gradient(') ? { backgroundImage: background } : { backgroundColor: background };
+}
+
+export async function imageDataUri(filePath: string, mimeType: string): Promise<string> {
+  const data = await fs.readFile(filePath);
+  return `data:${mimeType};base64,${data.toString('base64')}`;
+}
+
+export async function renderSvg(node: GraphicNode, size: { width: number; height?: number }): Promise<string> {
+  return satori(node as unknown as Parameters<typeof satori>[0], {
+    width: size.width,
+    ...(size.height ? { height: size.height } : {}),
+    fonts: await loadFonts(),
+  });
+}
+
+export async function renderPng(node: GraphicNode, size: { width: number; height: number }): Promise<Buffer> {
+  const svg = await renderSvg(node, size);
+  const resvg = new Resvg(svg, {
+    fitTo: { mode: 'width', value: size.width },
+    font: { loadSystemFonts: false }, // Text is already paths
+  });
+  return resvg.render().asPng();
+}
+
+export interface FitOptions {
+  fontFamily: FontFamily;
+  fontWeight: number;
+  lineHeight: number;
+  minSize: number;
+  maxSize: number;
+  textAlign?: 'left' | 'center';
+}
+
+// Largest whole font size at which `text` wraps to fit inside the box,
+// found by laying the text out at the box width and reading back its
+// height. Text that will not fit even at minSize gets minSize.
+export async function fitFontSize(text: string, box: { width: number; height: number }, options: FitOptions): Promise<number> {
+  const fits = async (fontSize: number) => {
+    const svg = await renderSvg(
+      el('div', {
+        display: 'flex',
+        width: box.width,
+        fontSize,
+        fontFamily: options.fontFamily,
+        fontWeight: options.fontWeight,
+        lineHeight: options.lineHeight,
+        textAlign: options.textAlign || 'left',
+      }, text),
+      { width: box.width }
+    );
+    const height = Number(/height="([\d.]+)"/.exec(svg)?.[1] ?? Infinity);
+    return height <= box.height;
+  };
+
+  let low = options.minSize;
+  let high = options.maxSize;
+  if (await fits(high)) return high;
+
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (await fits(middle)) low = middle;
+    else high = middle;
+  }
+  return low;
+}
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Segment } from "@shared/schema";
+
+const openai = vi.hoisted(() => ({ create: vi.fn() }));
+const saved = vi.hoisted(() => [] as Array<{ buffer: Buffer; options: any }>);
+
+vi.mock("openai", () => ({
+  default: class {
+    chat = { completions: { create: openai.create } };
+  },
+}));
+vi.mock("./storage", () => ({
+  storage: { getTranscriptByUploadId: vi.fn(async () => null) },
+}));
+vi.mock("./blobStore", () => ({
+  saveGeneratedFile: vi.fn(async (buffer: Buffer, options: any) => {
+    saved.push({ buffer, options });
+    return { id: `g${saved.length}`, filePath: `blob:${"0".repeat(64)}.png`, ...options };
+  }),
+}));
+
+const { graphicsService } = await import("./graphicsService");
+const { renderPng, renderSvg } = await import("./graphicsRenderer");
+const templates = await graphicsService.getAvailableTemplates();
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const segment = {
+  id: "s1",
+  uploadId: "u1",
+  title: "Launch",
+  summary: "How the product launched",
+  transcript: "We launched Otto Stage last spring.",
+  startTime: "0",
+  endTime: "10",
+} as Segment;
+
+const glossary = [{ term: "AutoStage", misspellings: ["Otto Stage"] }];
+
+const quote = {
+  quote: "The best launches start with a list of what customers would miss.",
+  context: "On planning a product launch",
+  impact: 8,
+  emotion: "inspiring",
+  visualStyle: "bold",
+  speaker: "Dana Reyes",
+};
+
+beforeEach(() => {
+  openai.create.mockReset();
+  saved.length = 0;
+});
+
+describe("extractQuotes", () => {
+  it("spells quotes as the glossary says and tells the model about it", async () => {
+    openai.create.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify({
+        quotes: [{ quote: "We launched Otto Stage last spring.", context: "Otto Stage launch", impact: 8, emotion: "inspiring", visualStyle: "bold" }],
+      }) } }],
+    });
+
+    const quotes = await graphicsService.extractQuotes(segment, glossary);
+
+    expect(quotes[0].quote).toBe("We launched AutoStage last spring.");
+    expect(quotes[0].context).toBe("AutoStage launch");
+    expect(openai.create.mock.calls[0][0].messages[0].content).toContain("- AutoStage");
+  });
+});
+
+describe("quote graphic layouts", () => {
+  it("has a template for every layout", () => {
+    expect(new Set(templates.map(template => template.layout))).toEqual(new Set(["centered", "left-aligned", "split", "overlay"]));
+  });
+
+  // Rendering has no browser or system fonts, so the SVG is stable enough to
+  // snapshot. PNG bytes vary with the rasteriser build, so only their size is checked.
+  it.each(templates.map(template => [template.layout, template] as const))("renders the %s layout", async (layout, template) => {
+    const graphic = await graphicsService.buildQuoteGraphic(quote, template);
+    const size = { width: template.width, height: template.height };
+
+    await expect(await renderSvg(graphic, size)).toMatchFileSnapshot(`__snapshots__/quote-${layout}.svg`);
+    const png = await renderPng(graphic, size);
+    expect(png.subarray(0, 8).equals(PNG_SIGNATURE)).toBe(true);
+    expect(png.readUInt32BE(16)).toBe(template.width);
+    expect(png.readUInt32BE(20)).toBe(template.height);
+  });
+});
+
+describe("generateQuoteGraphic", () => {
+  it("stores the card for its owner and returns the blob ref, not a signed URL", async () => {
+    const ref = await graphicsService.generateQuoteGraphic(quote, { userId: "user-1", segmentId: "s1" }, "corporate_clean");
+
+    expect(ref).toBe(`blob:${"0".repeat(64)}.png`);
+    expect(saved).toHaveLength(1);
+    expect(saved[0].options).toMatchObject({ userId: "user-1", segmentId: "s1", kind: "quote_graphic", mimeType: "image/png" });
+    expect(saved[0].buffer.subarray(1, 4).toString()).toBe("PNG");
+  });
+});
@@ -1,6 +1,24 @@
 import { storage } from "./storage";
 import { Segment } from "@shared/schema";
 import OpenAI from "openai";
+import {
+  getTranscriptWords,
+  getSpeakerTurns,
+  getDominantSpeaker,
+  getSpeakerDisplayName,
+  findPhraseTimeRange,
+} from "./transcriptData";
+import { saveGeneratedFile } from "./blobStore";
+import { applyGlossaryToText, buildGlossaryInstructions, getWorkspaceGlossary, type GlossaryTerm } from "./glossary";
+import {
+  backgroundStyle,
+  el,
+  fitFontSize,
+  renderPng,
+  resolveFontFamily,
+  type GraphicNode,
+  type GraphicStyle,
+} from "./graphicsRenderer";
 
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
@@ -33,6 +51,12 @@ interface BrandingConfig {
   brandName: string;
 }
 
+// Who a generated graphic is stored for
+interface GraphicOwner {
+  userId: string;
+  segmentId: string;
+}
+
 export class GraphicsService {
   private templates: Map<string, GraphicTemplate> = new Map();
 
@@ -93,33 +117,33 @@ export class GraphicsService {
     });
   }
 
-  async extractQuotes(segment: Segment): Promise<QuoteExtraction[]> {
+  // Quotes end up as text on images, so known misspellings are corrected
+  // again after the model's pass
+  async extractQuotes(segment: Segment, glossary: GlossaryTerm[] = []): Promise<QuoteExtraction[]> {
     const prompt = `Extract 3-5 powerful, quotable moments from this transcript that would work well as social media graphics.
 
 Transcript: "${segment.transcript}"
 Context: ${segment.title} - ${segment.summary}
 
 For each quote, provide:
-1. The exact quote (15-60 words)
-2. Speaker if identifiable
-3. Brief context
-4. Impact score (1-10)
-5. Emotional tone
-6. Suggested visual style
+1. The exact quote (15-60 words), copied verbatim from the transcript
+2. Brief context
+3. Impact score (1-10)
+4. Emotional tone
+5. Suggested visual style
 
 Respond in JSON format:
 {
   "quotes": [
     {
       "quote": "exact text",
-      "speaker": "name or null",
       "context": "brief context",
       "impact": 8,
       "emotion": "inspiring",
       "visualStyle": "bold"
     }
   ]
-}`;
+}${buildGlossaryInstructions(glossary)}`;
 
     try {
       const response = await openai.chat.completions.create({
@@ -131,15 +155,47 @@ Respond in JSON format:
       });
 
       const result = JSON.parse(response.choices[0].message.content || '{"quotes":[]}');
-      return result.quotes || [];
+      const quotes: QuoteExtraction[] = (result.quotes || []).map((quote: QuoteExtraction) => ({
+        ...quote,
+        quote: applyGlossaryToText(quote.quote, glossary),
+        context: applyGlossaryToText(quote.context, glossary),
+      }));
+      return await this.attributeSpeakers(segment, quotes);
     } catch (error) {
       console.error('[GraphicsService] Error extracting quotes:', error);
       return [];
     }
   }
 
+  // Fills in the speaker from the transcript's diarization by locating each
+  // quote in the word timeline. Quotes that cannot be placed stay unattributed.
+  private async attributeSpeakers(segment: Segment, quotes: QuoteExtraction[]): Promise<QuoteExtraction[]> {
+    const transcript = await storage.getTranscriptByUploadId(segment.uploadId);
+    if (!transcript) {
+      return quotes.map(({ speaker, ...quote }) => quote);
+    }
+
+    const words = getTranscriptWords(transcript);
+    const turns = getSpeakerTurns(transcript);
+
+    return quotes.map(({ speaker, ...quote }) => {
+      const range = findPhraseTimeRange(
+        words,
+        quote.quote,
+        parseFloat(segment.startTime),
+        parseFloat(segment.endTime)
+      );
+      const label = range && getDominantSpeaker(turns, range.start, range.end);
+
+      return label
+        ? { ...quote, speaker: getSpeakerDisplayName(transcript, label) }
+        : quote;
+    });
+  }
+
   async generateQuoteGraphic(
     quote: QuoteExtraction, 
+    owner: GraphicOwner,
     templateId: string = 'minimal_quote',
     branding?: BrandingConfig
   ): Promise<string> {
@@ -148,222 +204,128 @@ Respond in JSON format:
       throw new Error(`Template ${templateId} not found`);
     }
 
-    // Generate HTML for the quote graphic
-    const html = this.generateGraphicHTML(quote, template, branding);
-    
-    // Convert HTML to PNG using browser automation
-    const imageBuffer = await this.htmlToPng(html, template.width, template.height);
+    const graphic = await this.buildQuoteGraphic(quote, template, branding);
+    const imageBuffer = await renderPng(graphic, { width: template.width, height: template.height });
     
     // Save to storage and return URL
     const filename = `quote_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.png`;
-    const imageUrl = await this.saveImage(imageBuffer, filename);
-    
-    return imageUrl;
+    return this.saveImage(imageBuffer, filename, owner);
   }
 
-  private generateGraphicHTML(
+  // Lays out a quote card for the template. The quote is sized to fill the
+  // space left by the speaker and brand lines.
+  async buildQuoteGraphic(
     quote: QuoteExtraction, 
     template: GraphicTemplate, 
     branding?: BrandingConfig
-  ): string {
+  ): Promise<GraphicNode> {
     const primaryColor = branding?.primaryColor || template.accentColor;
-    const fontFamily = branding?.fontFamily || template.fontFamily;
+    const fontFamily = resolveFontFamily(branding?.fontFamily || template.fontFamily);
     const brandName = branding?.brandName || 'AutoStage';
+    const { width, height } = template;
+
+    const container = (style: GraphicStyle, ...children: Array<GraphicNode | null>) => el('div', {
+      display: 'flex',
+      width,
+      height,
+      ...backgroundStyle(template.backgroundColor),
+      color: template.textColor,
+      fontFamily,
+      position: 'relative',
+      overflow: 'hidden',
+      ...style,
+    }, ...children);
+
+    const fitQuote = async (text: string, box: { width: number; height: number }, textAlign: 'left' | 'center', maxSize: number) => {
+      const fontSize = await fitFontSize(text, box, {
+        fontFamily,
+        fontWeight: 600,
+        lineHeight: 1.3,
+        minSize: 20,
+        maxSize,
+        textAlign,
+      });
+      return el('div', { display: 'flex', justifyContent: textAlign === 'center' ? 'center' : 'flex-start', width: box.width, fontSize, fontWeight: 600, lineHeight: 1.3, marginBottom: 30, textAlign }, text);
+    };
 
-    let layoutStyles = '';
-    let contentLayout = '';
+    const speaker = quote.speaker
+      ? el('div', { fontSize: 24, fontWeight: 500, color: primaryColor, marginBottom: 40 }, `— ${quote.speaker}`)
+      : null;
+    const brand = el('div', { fontSize: 18, fontWeight: 600, textTransform: 'uppercase', letterSpacing: 2, color: primaryColor }, brandName);
+    // Room taken by the speaker and brand lines under the quote
+    const footerHeight = (speaker ? 70 : 0) + 30 + 30;
 
     switch (template.layout) {
-      case 'centered':
-        layoutStyles = `
-          display: flex;
-          flex-direction: column;
-          justify-content: center;
-          align-items: center;
-          text-align: center;
-          padding: 80px 60px;
-        `;
-        contentLayout = `
-          <div class="quote-text">"${quote.quote}"</div>
-          ${quote.speaker ? `<div class="speaker">— ${quote.speaker}</div>` : ''}
-          <div class="brand">${brandName}</div>
-        `;
-        break;
-
-      case 'left-aligned':
-        layoutStyles = `
-          display: flex;
-          flex-direction: column;
-          justify-content: center;
-          padding: 80px 60px;
-          text-align: left;
-        `;
-        contentLayout = `
-          <div class="quote-mark">"</div>
-          <div class="quote-text">${quote.quote}</div>
-          ${quote.speaker ? `<div class="speaker">— ${quote.speaker}</div>` : ''}
-          <div class="brand">${brandName}</div>
-        `;
-        break;
-
-      case 'split':
-        layoutStyles = `
-          display: grid;
-          grid-template-columns: 1fr 1fr;
-          align-items: center;
-          padding: 60px;
-        `;
-        contentLayout = `
-          <div class="content">
-            <div class="quote-text">"${quote.quote}"</div>
-            ${quote.speaker ? `<div class="speaker">— ${quote.speaker}</div>` : ''}
-          </div>
-          <div class="brand-section">
-            <div class="brand-large">${brandName}</div>
-            <div class="context">${quote.context}</div>
-          </div>
-        `;
-        break;
-
-      case 'overlay':
-        layoutStyles = `
-          position: relative;
-          display: flex;
-          flex-direction: column;
-          justify-content: center;
-          align-items: center;
-          text-align: center;
-          padding: 80px 60px;
-        `;
-        contentLayout = `
-          <div class="overlay"></div>
-          <div class="content">
-            <div class="quote-text">"${quote.quote}"</div>
-            ${quote.speaker ? `<div class="speaker">— ${quote.speaker}</div>` : ''}
-            <div class="brand">${brandName}</div>
-          </div>
-        `;
-        break;
-    }
+      case 'left-aligned': {
+        const box = { width: width - 120, height: height - 160 - footerHeight - 116 };
+        return container(
+          { flexDirection: 'column', justifyContent: 'center', padding: '80px 60px', textAlign: 'left' },
+          el('div', { fontSize: 120, fontWeight: 800, color: primaryColor, lineHeight: 0.8, marginBottom: 20, height: 96 }, '"'),
+          await fitQuote(quote.quote, box, 'left', 64),
+          speaker,
+          brand
+        );
+      }
 
-    return `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <style>
-    @import url('https://fonts.googleapis.com/css2?family=Inter:wght@400;600;700&family=Montserrat:wght@400;600;700;800&family=Poppins:wght@400;600;700&display=swap');
-    
-    * {
-      margin: 0;
-      padding: 0;
-      box-sizing: border-box;
-    }
-    
-    .container {
-      width: ${template.width}px;
-      height: ${template.height}px;
-      background: ${template.backgroundColor};
-      color: ${template.textColor};
-      font-family: ${fontFamily};
-      position: relative;
-      overflow: hidden;
-      ${layoutStyles}
-    }
-    
-    .quote-text {
-      font-size: ${template.layout === 'split' ? '36px' : '42px'};
-      font-weight: 600;
-      line-height: 1.3;
-      margin-bottom: 30px;
-      max-width: 100%;
-    }
-    
-    .quote-mark {
-      font-size: 120px;
-      font-weight: 800;
-      color: ${primaryColor};
-      line-height: 0.8;
-      margin-bottom: 20px;
-    }
-    
-    .speaker {
-      font-size: 24px;
-      font-weight: 500;
-      color: ${primaryColor};
-      margin-bottom: 40px;
-    }
-    
-    .brand {
-      font-size: 18px;
-      font-weight: 600;
-      text-transform: uppercase;
-      letter-spacing: 2px;
-      color: ${primaryColor};
-    }
-    
-    .brand-large {
-      font-size: 48px;
-      font-weight: 700;
-      color: ${primaryColor};
-      margin-bottom: 20px;
-    }
-    
-    .context {
-      font-size: 16px;
-      opacity: 0.8;
-      line-height: 1.5;
-    }
-    
-    .overlay {
-      position: absolute;
-      top: 0;
-      left: 0;
-      right: 0;
-      bottom: 0;
-      background: rgba(0, 0, 0, 0.3);
-      z-index: 1;
-    }
-    
-    .content {
-      position: relative;
-      z-index: 2;
-    }
-    
-    .brand-section {
-      text-align: center;
-    }
-  </style>
-</head>
-<body>
-  <div class="container">
-    ${contentLayout}
-  </div>
-</body>
-</html>`;
-  }
+      case 'split': {
+        const columnWidth = (width - 120) / 2;
+        const box = { width: columnWidth - 30, height: height - 120 - (speaker ? 70 : 0) - 30 };
+        return container(
+          { flexDirection: 'row', alignItems: 'center', padding: 60 },
+          el('div', { display: 'flex', flexDirection: 'column', width: columnWidth, paddingRight: 30 },
+            await fitQuote(`"${quote.quote}"`, box, 'left', 48),
+            speaker
+          ),
+          el('div', { display: 'flex', flexDirection: 'column', alignItems: 'center', width: columnWidth, textAlign: 'center' },
+            el('div', { fontSize: 48, fontWeight: 700, color: primaryColor, marginBottom: 20 }, brandName),
+            el('div', { fontSize: 16, opacity: 0.8, lineHeight: 1.5 }, quote.context)
+          )
+        );
+      }
 
-  private async htmlToPng(html: string, width: number, height: number): Promise<Buffer> {
-    // In a real implementation, this would use Puppeteer or Playwright
-    // For now, we'll simulate the process
-    console.log('[GraphicsService] Converting HTML to PNG...');
-    
-    // Simulate image generation
-    const mockImageBuffer = Buffer.from('mock-png-data');
-    
-    return mockImageBuffer;
+      case 'overlay': {
+        const box = { width: width - 120, height: height - 160 - footerHeight };
+        return container(
+          { flexDirection: 'column', justifyContent: 'center', alignItems: 'center', textAlign: 'center', padding: '80px 60px' },
+          el('div', { position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0, 0, 0, 0.3)' }),
+          await fitQuote(`"${quote.quote}"`, box, 'center', 64),
+          speaker,
+          brand
+        );
+      }
+
+      default: {
+        const box = { width: width - 120, height: height - 160 - footerHeight };
+        return container(
+          { flexDirection: 'column', justifyContent: 'center', alignItems: 'center', textAlign: 'center', padding: '80px 60px' },
+          await fitQuote(`"${quote.quote}"`, box, 'center', 64),
+          speaker,
+          brand
+        );
+      }
+    }
   }
 
-  private async saveImage(imageBuffer: Buffer, filename: string): Promise<string> {
-    // In a real implementation, this would save to file storage
-    // For now, we'll return a mock URL
-    const imageUrl = `/generated/graphics/${filename}`;
-    console.log(`[GraphicsService] Saved graphic: ${imageUrl}`);
+  // Returns the blob ref. Signed URLs expire, so they are made when the
+  // graphic is handed out, never stored.
+  private async saveImage(imageBuffer: Buffer, filename: string, owner: GraphicOwner): Promise<string> {
+    const file = await saveGeneratedFile(imageBuffer, {
+      ...owner,
+      kind: 'quote_graphic',
+      fileName: filename,
+      mimeType: 'image/png',
+    });
+    console.log(`[GraphicsService] Saved graphic ${filename} as ${file.filePath}`);
     
-    return imageUrl;
+    return file.filePath;
   }
 
-  async generateCarouselPost(quotes: QuoteExtraction[], branding?: BrandingConfig): Promise<{
+  async generateCarouselPost(
+    quotes: QuoteExtraction[],
+    owner: GraphicOwner,
+    branding?: BrandingConfig,
+    glossary: GlossaryTerm[] = []
+  ): Promise<{
     images: string[];
     caption: string;
     hashtags: string[];
@@ -374,12 +336,11 @@ Respond in JSON format:
     for (let i = 0; i < Math.min(quotes.length, 10); i++) {
       const quote = quotes[i];
       const templateId = this.selectTemplateForQuote(quote);
-      const imageUrl = await this.generateQuoteGraphic(quote, templateId, branding);
-      images.push(imageUrl);
+      images.push(await this.generateQuoteGraphic(quote, owner, templateId, branding));
     }
 
     // Generate caption for the carousel post
-    const caption = await this.generateCarouselCaption(quotes);
+    const caption = await this.generateCarouselCaption(quotes, glossary);
     
     // Generate relevant hashtags
     const hashtags = await this.generateHashtags(quotes);
@@ -399,7 +360,7 @@ Respond in JSON format:
     return styleMapping[quote.emotion] || 'minimal_quote';
   }
 
-  private async generateCarouselCaption(quotes: QuoteExtraction[]): Promise<string> {
+  private async generateCarouselCaption(quotes: QuoteExtraction[], glossary: GlossaryTerm[]): Promise<string> {
     const topQuotes = quotes.slice(0, 3).map(q => q.quote).join('\n\n');
     
     const prompt = `Create an engaging Instagram carousel caption for these quotes:
@@ -411,7 +372,7 @@ Requirements:
 - Brief context about the content
 - Call-to-action to swipe through
 - Engaging and shareable tone
-- 150-200 words max
+- 150-200 words max${buildGlossaryInstructions(glossary)}
 
 Generate the caption:`;
 
@@ -423,7 +384,7 @@ Generate the caption:`;
         temperature: 0.7,
       });
 
-      return response.choices[0].message.content?.trim() || '';
+      return applyGlossaryToText(response.choices[0].message.content?.trim() || '', glossary);
     } catch (error) {
       console.error('[GraphicsService] Error generating caption:', error);
       return 'Key insights from today\'s content ✨ Swipe to see all the powerful quotes →';
@@ -486,26 +447,27 @@ Generate hashtags:`;
     };
   }> {
     try {
-      const segments = await storage.getSegmentsByUploadId(segmentId);
-      const segment = segments.find(s => s.id === segmentId);
+      const segment = await storage.getSegment(segmentId);
+      const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
       
-      if (!segment) {
+      if (!segment || !upload) {
         throw new Error('Segment not found');
       }
+      const owner: GraphicOwner = { userId: upload.userId, segmentId: segment.id };
 
-      // Extract quotes from segment
-      const quotes = await this.extractQuotes(segment);
+      // Extract quotes from segment, spelled as the workspace glossary says
+      const glossary = await getWorkspaceGlossary(upload.workspaceId);
+      const quotes = await this.extractQuotes(segment, glossary);
       
       // Generate individual graphics
       const graphics: string[] = [];
       for (const quote of quotes.slice(0, 5)) {
         const templateId = this.selectTemplateForQuote(quote);
-        const imageUrl = await this.generateQuoteGraphic(quote, templateId, branding);
-        graphics.push(imageUrl);
+        graphics.push(await this.generateQuoteGraphic(quote, owner, templateId, branding));
       }
 
       // Generate carousel post
-      const carousel = await this.generateCarouselPost(quotes, branding);
+      const carousel = await this.generateCarouselPost(quotes, owner, branding, glossary);
 
       return { quotes, graphics, carousel };
     } catch (error) {
@@ -69,6 +69,36 @@ app.use((req, res, next) => {
   engagementService.startWebhookListening();
   console.log('[AutoStage] Engagement monitoring service started');
 
+  // Start the upload processing pipeline and resume interrupted uploads
+  const { processingPipeline } = await import('./processingPipeline');
+  processingPipeline.start().catch(error => {
+    console.error('[AutoStage] Failed to start processing pipeline:', error);
+  });
+
+  // Regenerates clips and posts after manual segment edits
+  const { segmentEditor } = await import('./segmentEditor');
+  segmentEditor.start().catch(error => {
+    console.error('[AutoStage] Failed to start segment editor:', error);
+  });
+
+  // Renders segments to video clips in each requested aspect ratio
+  const { clipRenderer } = await import('./clipRenderer');
+  clipRenderer.start().catch(error => {
+    console.error('[AutoStage] Failed to start clip renderer:', error);
+  });
+
+  // Imports media from URLs and polls podcast feeds for new episodes
+  const { mediaImporter } = await import('./mediaImporter');
+  mediaImporter.start().catch(error => {
+    console.error('[AutoStage] Failed to start media importer:', error);
+  });
+
+  // Applies workspace retention rules to stored media once a day
+  const { retentionService } = await import('./retentionService');
+  retentionService.start().catch(error => {
+    console.error('[AutoStage] Failed to start retention service:', error);
+  });
+
   const port = 5000;
   server.listen({
     port,
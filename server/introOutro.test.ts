@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from "vitest";
+
+const bumperRef = `blob:${"b".repeat(64)}.mp4`;
+
+vi.mock("./branding", () => ({
+  isHexColor: (value: unknown) => typeof value === "string" && /^#[0-9a-f]{6}([0-9a-f]{2})?$/i.test(value),
+  isWorkspaceBrandAsset: vi.fn(async (ref: unknown, workspaceId: string | null, asset: string) =>
+    ref === bumperRef && workspaceId === "ws1" && asset === "bumper"),
+}));
+
+const { normalizeIntroOutroConfig } = await import("./introOutro");
+
+describe("normalizeIntroOutroConfig", () => {
+  it("fills in the card length and keeps hex colours", async () => {
+    const result = await normalizeIntroOutroConfig({
+      intro: { text: " Welcome ", backgroundColor: "#112233" },
+      crossfadeDuration: 0.75,
+    }, null);
+
+    expect(result).toEqual({ config: { intro: { duration: 3, text: "Welcome", backgroundColor: "#112233" }, crossfadeDuration: 0.75 } });
+  });
+
+  it("accepts a bumper uploaded to the workspace", async () => {
+    const result = await normalizeIntroOutroConfig({ outro: { video: bumperRef } }, "ws1");
+
+    expect(result).toEqual({ config: { outro: { duration: 0, video: bumperRef } } });
+  });
+
+  it.each([
+    [{}, null, "introOutro needs an intro or an outro"],
+    [{ intro: { text: "Hi" }, crossfadeDuration: 5 }, null, "crossfadeDuration must be between 0 and 2 seconds"],
+    [{ intro: { text: "Hi", duration: 60 } }, null, "intro: duration must be between 0.5 and 10 seconds"],
+    [{ intro: { text: "" } }, null, "intro: text must be a non-empty string of at most 200 characters, or use a bumper video"],
+    [{ outro: { text: "Bye", textColor: "white:x=0" } }, null, "outro: textColor must be a #RRGGBB or #RRGGBBAA colour"],
+    [{ intro: { video: "https://example.com/bumper.mp4" } }, "ws1", "intro: video must be a ref returned by the workspace brand asset upload"],
+    [{ intro: { video: bumperRef } }, "ws2", "intro: video must be a ref returned by the workspace brand asset upload"],
+    [{ intro: { video: bumperRef } }, null, "intro: bumper videos can only be used on workspace uploads"],
+  ])("rejects %j", async (input, workspaceId, error) => {
+    expect(await normalizeIntroOutroConfig(input, workspaceId)).toEqual({ error });
+  });
+});
@@ -0,0 +1,93 @@
+import { isHexColor, isWorkspaceBrandAsset } from './branding';
+
+export interface IntroOutroCard {
+  duration: number; // Card length; ignored for bumper videos, which play in full
+  text?: string;
+  backgroundColor?: string; // #RRGGBB or #RRGGBBAA
+  textColor?: string;
+  video?: string; // Blob ref of a bumper uploaded as a workspace brand asset
+}
+
+export interface IntroOutroConfig {
+  intro?: IntroOutroCard;
+  outro?: IntroOutroCard;
+  crossfadeDuration?: number; // Seconds of overlap at each join, default 0.5
+}
+
+const DEFAULT_CARD_SECONDS = 3;
+const MAX_CARD_SECONDS = 10;
+const MAX_CROSSFADE_SECONDS = 2;
+const MAX_CARD_TEXT = 200;
+
+// Validates intro/outro settings from a request. Bumpers must be videos
+// uploaded to the upload's workspace; nothing else reaches ffmpeg as input.
+export async function normalizeIntroOutroConfig(
+  input: unknown,
+  workspaceId: string | null
+): Promise<{ config: IntroOutroConfig } | { error: string }> {
+  if (!input || typeof input !== 'object') {
+    return { error: 'introOutro must be an object' };
+  }
+  const { intro, outro, crossfadeDuration } = input as Record<string, unknown>;
+
+  if (crossfadeDuration !== undefined && !isNumberBetween(crossfadeDuration, 0, MAX_CROSSFADE_SECONDS)) {
+    return { error: `crossfadeDuration must be between 0 and ${MAX_CROSSFADE_SECONDS} seconds` };
+  }
+
+  const config: IntroOutroConfig = crossfadeDuration === undefined ? {} : { crossfadeDuration: crossfadeDuration as number };
+  for (const [name, value] of [['intro', intro], ['outro', outro]] as const) {
+    if (value === undefined || value === null) continue;
+    const card = await normalizeCard(value, workspaceId);
+    if ('error' in card) {
+      return { error: `${name}: ${card.error}` };
+    }
+    config[name] = card.card;
+  }
+
+  if (!config.intro && !config.outro) {
+    return { error: 'introOutro needs an intro or an outro' };
+  }
+  return { config };
+}
+
+async function normalizeCard(input: unknown, workspaceId: string | null): Promise<{ card: IntroOutroCard } | { error: string }> {
+  if (!input || typeof input !== 'object') {
+    return { error: 'must be an object' };
+  }
+  const { duration = DEFAULT_CARD_SECONDS, text, backgroundColor, textColor, video } = input as Record<string, unknown>;
+
+  if (video !== undefined) {
+    if (!workspaceId) {
+      return { error: 'bumper videos can only be used on workspace uploads' };
+    }
+    if (!(await isWorkspaceBrandAsset(video, workspaceId, 'bumper'))) {
+      return { error: 'video must be a ref returned by the workspace brand asset upload' };
+    }
+    return { card: { duration: 0, video: video as string } };
+  }
+
+  if (!isNumberBetween(duration, 0.5, MAX_CARD_SECONDS)) {
+    return { error: `duration must be between 0.5 and ${MAX_CARD_SECONDS} seconds` };
+  }
+  if (typeof text !== 'string' || !text.trim() || text.length > MAX_CARD_TEXT) {
+    return { error: `text must be a non-empty string of at most ${MAX_CARD_TEXT} characters, or use a bumper video` };
+  }
+  for (const [key, color] of [['backgroundColor', backgroundColor], ['textColor', textColor]] as const) {
+    if (color !== undefined && !isHexColor(color)) {
+      return { error: `${key} must be a #RRGGBB or #RRGGBBAA colour` };
+    }
+  }
+
+  return {
+    card: {
+      duration: duration as number,
+      text: text.trim(),
+      ...(backgroundColor ? { backgroundColor: backgroundColor as string } : {}),
+      ...(textColor ? { textColor: textColor as string } : {}),
+    },
+  };
+}
+
+function isNumberBetween(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { FeedItem } from "@shared/schema";
+import type { FeedEpisode } from "./podcastFeed";
+
+const state = vi.hoisted(() => ({ items: new Map<string, any>(), uploadsByGuid: new Map<string, any>() }));
+
+vi.mock("./enhancedQueueSystem", () => ({ enhancedQueueSystem: { addJob: vi.fn(), createQueue: vi.fn() } }));
+vi.mock("./storage", () => ({
+  storage: {
+    getUploadByFeedGuid: vi.fn(async (_feedId: string, guid: string) => state.uploadsByGuid.get(guid)),
+    getFeedItem: vi.fn(async (_feedId: string, guid: string) => state.items.get(guid)),
+    upsertFeedItem: vi.fn(async (item: any) => {
+      const record = { ...state.items.get(item.guid), ...item };
+      state.items.set(item.guid, record);
+      return record;
+    }),
+  },
+}));
+vi.mock("./blobStore", () => ({ storeFile: vi.fn() }));
+vi.mock("./mediaProbe", () => ({ inspectUploadFile: vi.fn() }));
+vi.mock("./storageQuota", () => ({ checkStorageQuota: vi.fn() }));
+vi.mock("./publicFetch", () => ({
+  assertPublicUrl: vi.fn(),
+  fetchPublic: vi.fn(async () => { throw new Error("HTTP 503"); }),
+}));
+
+const { MediaImporter, selectEpisodesToImport } = await import("./mediaImporter");
+
+const now = new Date("2026-05-01T12:00:00Z");
+const hours = (count: number) => count * 60 * 60 * 1000;
+
+function episode(guid: string, publishedAt?: string): FeedEpisode {
+  return { guid, title: guid, publishedAt: publishedAt ? new Date(publishedAt) : undefined, enclosure: { url: `https://cdn.example.com/${guid}.mp3` } };
+}
+
+function item(guid: string, fields: Partial<FeedItem>): [string, FeedItem] {
+  return [guid, { id: guid, feedId: "f1", guid, status: "imported", uploadId: null, attempts: 0, lastError: null, nextAttemptAt: null, updatedAt: now, ...fields }];
+}
+
+// Newest first, as parsePodcastFeed returns them
+const episodes = [episode("ep3", "2026-04-30"), episode("ep2", "2026-04-20"), episode("ep1", "2026-04-10")];
+
+beforeEach(() => {
+  state.items = new Map();
+  state.uploadsByGuid = new Map();
+});
+
+describe("selectEpisodesToImport", () => {
+  it("takes the latest `backfill` episodes on the first poll", () => {
+    const feed = { lastPolledAt: null, latestEpisodeAt: null };
+
+    expect(selectEpisodesToImport(feed, episodes, new Map(), 2, now).map(e => e.guid)).toEqual(["ep3", "ep2"]);
+    expect(selectEpisodesToImport(feed, episodes, new Map(), 0, now)).toEqual([]);
+  });
+
+  it("takes episodes newer than the newest seen, and undated ones not seen before", () => {
+    const feed = { lastPolledAt: now, latestEpisodeAt: new Date("2026-04-15") };
+    const undated = [episode("extra"), episode("known")];
+    const items = new Map([item("known", { status: "duplicate" })]);
+
+    expect(selectEpisodesToImport(feed, [...episodes, ...undated], items, 1, now).map(e => e.guid)).toEqual(["ep3", "ep2", "extra"]);
+  });
+
+  it("skips imported and duplicate episodes, and retries failed ones once due", () => {
+    const feed = { lastPolledAt: now, latestEpisodeAt: new Date("2026-04-01") };
+    const items = new Map([
+      item("ep3", { status: "failed", attempts: 1, nextAttemptAt: new Date(now.getTime() - 1) }),
+      item("ep2", { status: "failed", attempts: 2, nextAttemptAt: new Date(now.getTime() + hours(1)) }),
+      item("ep1", { status: "duplicate" }),
+    ]);
+
+    expect(selectEpisodesToImport(feed, episodes, items, 1, now).map(e => e.guid)).toEqual(["ep3"]);
+  });
+
+  it("leaves episodes that failed every attempt", () => {
+    const feed = { lastPolledAt: null, latestEpisodeAt: null };
+    const items = new Map([item("ep3", { status: "failed", attempts: 5, nextAttemptAt: null })]);
+
+    expect(selectEpisodesToImport(feed, episodes, items, 3, now).map(e => e.guid)).toEqual(["ep2", "ep1"]);
+  });
+});
+
+describe("MediaImporter.importFromUrl", () => {
+  const data = { url: "https://cdn.example.com/ep.mp3", userId: "user-1", feedId: "f1", guid: "ep" };
+
+  it("records a duplicate episode against its feed GUID", async () => {
+    state.uploadsByGuid.set("ep", { id: "upload-1" });
+
+    const result = await new MediaImporter().importFromUrl(data);
+
+    expect(result).toEqual({ success: true, uploadId: "upload-1", duplicate: true });
+    expect(state.items.get("ep")).toMatchObject({ feedId: "f1", status: "duplicate", uploadId: "upload-1" });
+  });
+
+  it("backs off failed episodes and gives up after the last attempt", async () => {
+    const importer = new MediaImporter();
+    const delays: Array<number | null> = [];
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const before = Date.now();
+      expect((await importer.importFromUrl(data)).success).toBe(false);
+      const next = state.items.get("ep").nextAttemptAt;
+      delays.push(next && Math.round((next.getTime() - before) / hours(1)));
+    }
+
+    expect(delays).toEqual([1, 2, 4, 8, null]);
+    expect(state.items.get("ep")).toMatchObject({ status: "failed", attempts: 5, lastError: "HTTP 503" });
+  });
+});
@@ -0,0 +1,494 @@
+import type { Job } from 'bullmq';
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs/promises';
+import { createWriteStream } from 'fs';
+import { Readable, Transform } from 'stream';
+import type { ReadableStream } from 'stream/web';
+import { pipeline } from 'stream/promises';
+import type { FeedItem, PodcastFeed } from '@shared/schema';
+import { enhancedQueueSystem } from './enhancedQueueSystem';
+import { storage } from './storage';
+import { getDocumentFormat } from './documentText';
+import { inspectUploadFile } from './mediaProbe';
+import { storeFile } from './blobStore';
+import { checkStorageQuota } from './storageQuota';
+import { parsePodcastFeed, type FeedEpisode } from './podcastFeed';
+import { assertPublicUrl, fetchPublic } from './publicFetch';
+
+export interface ImportOwner {
+  userId: string;
+  workspaceId?: string | null;
+}
+
+export interface ImportResult {
+  success: boolean;
+  uploadId?: string;
+  duplicate?: boolean; // The file was already imported; uploadId is the original
+  error?: string;
+}
+
+// Stored in uploads.sourceMetadata for RSS episodes
+export interface EpisodeSourceMetadata {
+  feedTitle: string;
+  title: string;
+  description?: string;
+  publishedAt?: string;
+  duration?: number;
+}
+
+interface UrlImportJobData extends ImportOwner {
+  url: string;
+  feedId?: string;
+  guid?: string;
+  metadata?: EpisodeSourceMetadata;
+}
+
+interface FeedPollJobData {
+  feedId: string;
+  backfill?: number; // Episodes to import on the first poll
+}
+
+const IMPORT_QUEUE = 'media-import';
+const MAX_IMPORT_SIZE = 2 * 1024 * 1024 * 1024; // Same limit as chunked uploads
+const FEED_CHECK_INTERVAL = 60 * 1000;
+
+// Failed episode imports are retried after 1, 2, 4 and 8 hours, then left
+const EPISODE_RETRY_DELAY = 60 * 60 * 1000;
+const MAX_EPISODE_ATTEMPTS = 5;
+// An import still queued after this long was lost and is queued again
+const QUEUED_EPISODE_TIMEOUT = 24 * 60 * 60 * 1000;
+
+const MEDIA_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.wav': 'audio/wav',
+  '.flac': 'audio/flac',
+  '.ogg': 'audio/ogg',
+  '.opus': 'audio/ogg',
+};
+
+export class MediaImporter {
+  private started = false;
+
+  async start(): Promise<void> {
+    if (this.started) return;
+
+    // Downloads are bandwidth- and disk-bound, so run them one at a time
+    await enhancedQueueSystem.createWorker(
+      IMPORT_QUEUE,
+      async (job: Job) => {
+        if (job.name === 'poll-feed') {
+          await this.pollFeed(job.data as FeedPollJobData);
+          return;
+        }
+        const result = await this.importFromUrl(job.data as UrlImportJobData);
+        if (!result.success) throw new Error(result.error);
+        return result;
+      },
+      { concurrency: 1 }
+    );
+
+    setInterval(() => {
+      this.queueDueFeeds().catch(error => console.error('[MediaImporter] Feed scheduling failed:', error));
+    }, FEED_CHECK_INTERVAL);
+
+    this.started = true;
+    console.log('[MediaImporter] Import worker started');
+  }
+
+  // Validates the URL up front so bad input fails in the request rather
+  // than in the background job
+  async queueUrlImport(url: string, owner: ImportOwner): Promise<{ success: boolean; jobId?: string; error?: string }> {
+    try {
+      await assertPublicUrl(url);
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+
+    const job = await enhancedQueueSystem.addJob(
+      IMPORT_QUEUE,
+      'import-url',
+      { url, userId: owner.userId, workspaceId: owner.workspaceId ?? null } satisfies UrlImportJobData
+    );
+    return { success: true, jobId: job.id };
+  }
+
+  async getImportStatus(jobId: string, userId: string): Promise<{
+    state: string;
+    uploadId?: string;
+    duplicate?: boolean;
+    error?: string;
+  } | null> {
+    const queue = await enhancedQueueSystem.createQueue(IMPORT_QUEUE);
+    const job = await queue.getJob(jobId);
+    if (!job || job.name !== 'import-url' || job.data.userId !== userId) return null;
+
+    const state = await job.getState();
+    const result = job.returnvalue as ImportResult | undefined;
+    return {
+      state,
+      uploadId: result?.uploadId,
+      duplicate: result?.duplicate,
+      error: state === 'failed' ? job.failedReason : undefined,
+    };
+  }
+
+  // Downloads the file and creates an upload for it, unless the same file
+  // (by feed GUID or content hash) was imported before. Feed episodes have
+  // the outcome recorded against their GUID.
+  async importFromUrl(data: UrlImportJobData): Promise<ImportResult> {
+    let result: ImportResult;
+    try {
+      result = await this.importFile(data);
+    } catch (error) {
+      result = { success: false, error: (error as Error).message };
+    }
+
+    if (data.feedId && data.guid) {
+      await this.recordEpisode(data.feedId, data.guid, result).catch(error => {
+        console.error(`[MediaImporter] Failed to record episode ${data.guid} of feed ${data.feedId}:`, error.message);
+      });
+    }
+    return result;
+  }
+
+  private async recordEpisode(feedId: string, guid: string, result: ImportResult): Promise<void> {
+    if (result.success) {
+      await storage.upsertFeedItem({
+        feedId,
+        guid,
+        status: result.duplicate ? 'duplicate' : 'imported',
+        uploadId: result.uploadId ?? null,
+        lastError: null,
+        nextAttemptAt: null,
+      });
+      return;
+    }
+
+    const attempts = ((await storage.getFeedItem(feedId, guid))?.attempts ?? 0) + 1;
+    await storage.upsertFeedItem({
+      feedId,
+      guid,
+      status: 'failed',
+      attempts,
+      lastError: result.error ?? 'Import failed',
+      nextAttemptAt: attempts < MAX_EPISODE_ATTEMPTS
+        ? new Date(Date.now() + EPISODE_RETRY_DELAY * 2 ** (attempts - 1))
+        : null,
+    });
+  }
+
+  private async importFile(data: UrlImportJobData): Promise<ImportResult> {
+    if (data.feedId && data.guid) {
+      const existing = await storage.getUploadByFeedGuid(data.feedId, data.guid);
+      if (existing) return { success: true, uploadId: existing.id, duplicate: true };
+    }
+
+    let download: Awaited<ReturnType<MediaImporter['download']>>;
+    try {
+      download = await this.download(data.url);
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[MediaImporter] Download of ${data.url} failed:`, err.message);
+      return { success: false, error: err.message };
+    }
+
+    const existing = await storage.getUploadByContentHash(data.userId, download.contentHash);
+    if (existing) {
+      await fs.unlink(download.filePath).catch(() => {});
+      console.log(`[MediaImporter] ${data.url} matches upload ${existing.id}, skipping`);
+      return { success: true, uploadId: existing.id, duplicate: true };
+    }
+
+    const quota = await checkStorageQuota({ userId: data.userId, workspaceId: data.workspaceId }, download.fileSize);
+    if (!quota.allowed) {
+      await fs.unlink(download.filePath).catch(() => {});
+      console.warn(`[MediaImporter] ${data.url} rejected: ${quota.error}`);
+      return { success: false, error: quota.error };
+    }
+
+    const inspection = await inspectUploadFile(download.filePath, download);
+    if (!inspection.success) {
+      await fs.unlink(download.filePath).catch(() => {});
+      console.warn(`[MediaImporter] ${data.url} rejected: ${inspection.error}`);
+      return { success: false, error: inspection.error };
+    }
+
+    const stored = await storeFile(download.filePath, {
+      contentType: download.mimeType,
+      extension: path.extname(download.originalName),
+    });
+
+    const upload = await storage.createUpload({
+      userId: data.userId,
+      workspaceId: data.workspaceId ?? null,
+      filename: path.basename(download.filePath),
+      originalName: download.originalName,
+      filePath: stored.ref,
+      fileSize: download.fileSize,
+      mimeType: download.mimeType,
+      ...inspection.fields,
+      status: 'uploaded',
+      source: data.feedId ? 'rss' : 'url',
+      sourceUrl: data.url,
+      feedId: data.feedId ?? null,
+      sourceGuid: data.guid ?? null,
+      sourceMetadata: data.metadata ? JSON.stringify(data.metadata) : null,
+      contentHash: download.contentHash,
+    });
+
+    const { processFile } = await import('./fileHandler');
+    await processFile(upload.id);
+
+    console.log(`[MediaImporter] Imported ${data.url} as upload ${upload.id}`);
+    return { success: true, uploadId: upload.id };
+  }
+
+  // Subscribes to a feed after checking it parses. The first poll imports
+  // the latest `backfill` episodes; later polls import anything newer.
+  async addFeed(
+    feedUrl: string,
+    owner: ImportOwner,
+    options: { pollIntervalMinutes?: number; backfill?: number } = {}
+  ): Promise<{ success: boolean; feed?: PodcastFeed; error?: string }> {
+    try {
+      const response = await fetchPublic(feedUrl);
+      if (!response.ok) {
+        return { success: false, error: `Feed returned HTTP ${response.status}` };
+      }
+      const parsed = parsePodcastFeed(await response.text());
+
+      const existing = (await storage.getUserPodcastFeeds(owner.userId)).find(feed => feed.feedUrl === feedUrl);
+      if (existing) {
+        return { success: false, error: 'Already subscribed to this feed' };
+      }
+
+      const feed = await storage.createPodcastFeed({
+        userId: owner.userId,
+        workspaceId: owner.workspaceId ?? null,
+        feedUrl,
+        title: parsed.title,
+        pollIntervalMinutes: options.pollIntervalMinutes ?? 60,
+      });
+
+      await this.queueFeedPoll(feed.id, options.backfill ?? 1);
+      return { success: true, feed };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  // Queues a poll unless one is already waiting. A job id can only be
+  // reused once the previous job has been removed.
+  async queueFeedPoll(feedId: string, backfill?: number): Promise<void> {
+    const queue = await enhancedQueueSystem.createQueue(IMPORT_QUEUE);
+    const jobId = `poll-${feedId}`;
+    const job = await queue.getJob(jobId);
+    if (job && ['waiting', 'active', 'delayed', 'prioritized'].includes(await job.getState())) {
+      return;
+    }
+    await queue.remove(jobId);
+
+    await enhancedQueueSystem.addJob(
+      IMPORT_QUEUE,
+      'poll-feed',
+      { feedId, backfill } satisfies FeedPollJobData,
+      { jobId, attempts: 1 }
+    );
+  }
+
+  private async queueDueFeeds(): Promise<void> {
+    const now = Date.now();
+    const feeds = await storage.getActivePodcastFeeds();
+
+    for (const feed of feeds) {
+      const due = !feed.lastPolledAt || now - feed.lastPolledAt.getTime() >= feed.pollIntervalMinutes * 60 * 1000;
+      if (due) {
+        await this.queueFeedPoll(feed.id);
+      }
+    }
+  }
+
+  async pollFeed({ feedId, backfill = 1 }: FeedPollJobData): Promise<number> {
+    const feed = await storage.getPodcastFeed(feedId);
+    if (!feed) return 0;
+
+    try {
+      const headers: Record<string, string> = {};
+      if (feed.etag) headers['If-None-Match'] = feed.etag;
+      if (feed.lastModified) headers['If-Modified-Since'] = feed.lastModified;
+
+      const response = await fetchPublic(feed.feedUrl, headers);
+      if (response.status === 304) {
+        await storage.updatePodcastFeed(feed.id, { lastPolledAt: new Date(), lastError: null });
+        return 0;
+      }
+      if (!response.ok) {
+        throw new Error(`Feed returned HTTP ${response.status}`);
+      }
+
+      const parsed = parsePodcastFeed(await response.text());
+      const items = new Map((await storage.getFeedItems(feed.id)).map(item => [item.guid, item]));
+      const episodes = selectEpisodesToImport(feed, parsed.episodes, items, backfill, new Date());
+
+      for (const episode of episodes) {
+        // Imported before items were recorded
+        const existing = await storage.getUploadByFeedGuid(feed.id, episode.guid);
+        if (existing) {
+          await storage.upsertFeedItem({ feedId: feed.id, guid: episode.guid, status: 'imported', uploadId: existing.id });
+          continue;
+        }
+
+        await storage.upsertFeedItem({
+          feedId: feed.id,
+          guid: episode.guid,
+          status: 'queued',
+          attempts: items.get(episode.guid)?.attempts ?? 0,
+          nextAttemptAt: new Date(Date.now() + QUEUED_EPISODE_TIMEOUT),
+        });
+        await enhancedQueueSystem.addJob(IMPORT_QUEUE, 'import-url', {
+          url: episode.enclosure.url,
+          userId: feed.userId,
+          workspaceId: feed.workspaceId,
+          feedId: feed.id,
+          guid: episode.guid,
+          metadata: {
+            feedTitle: parsed.title,
+            title: episode.title,
+            description: episode.description,
+            publishedAt: episode.publishedAt?.toISOString(),
+            duration: episode.duration,
+          },
+        } satisfies UrlImportJobData, { attempts: 1 }); // Retries go by the item's backoff
+      }
+
+      const newest = parsed.episodes.find(episode => episode.publishedAt)?.publishedAt;
+      await storage.updatePodcastFeed(feed.id, {
+        title: parsed.title,
+        etag: response.headers.get('etag'),
+        lastModified: response.headers.get('last-modified'),
+        latestEpisodeAt: newest && (!feed.latestEpisodeAt || newest > feed.latestEpisodeAt) ? newest : feed.latestEpisodeAt,
+        lastPolledAt: new Date(),
+        lastError: null,
+      });
+
+      console.log(`[MediaImporter] Polled feed ${feed.id}: ${episodes.length} episodes queued`);
+      return episodes.length;
+    } catch (error) {
+      const err = error as Error;
+      await storage.updatePodcastFeed(feed.id, { lastPolledAt: new Date(), lastError: err.message });
+      console.error(`[MediaImporter] Polling feed ${feed.id} failed:`, err.message);
+      throw err;
+    }
+  }
+
+  // Streams the response to the uploads directory, hashing it on the way
+  private async download(url: string): Promise<{
+    filePath: string;
+    fileSize: number;
+    mimeType: string;
+    originalName: string;
+    contentHash: string;
+  }> {
+    const response = await fetchPublic(url);
+    if (!response.ok || !response.body) {
+      throw new Error(`Download failed with HTTP ${response.status}`);
+    }
+
+    const declaredSize = Number(response.headers.get('content-length'));
+    if (declaredSize > MAX_IMPORT_SIZE) {
+      throw new Error('File is larger than the 2GB import limit');
+    }
+
+    const originalName = this.getFileName(response.headers.get('content-disposition'), response.url || url);
+    const mimeType = this.getMimeType(response.headers.get('content-type'), originalName);
+    if (!mimeType) {
+      throw new Error('URL does not point to a supported audio, video or document file');
+    }
+
+    const uploadDir = path.join(process.cwd(), 'uploads');
+    await fs.mkdir(uploadDir, { recursive: true });
+    const filePath = path.join(uploadDir, crypto.randomBytes(16).toString('hex'));
+
+    const hash = crypto.createHash('sha256');
+    let fileSize = 0;
+    const meter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        fileSize += chunk.length;
+        if (fileSize > MAX_IMPORT_SIZE) {
+          callback(new Error('File is larger than the 2GB import limit'));
+          return;
+        }
+        hash.update(chunk);
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(Readable.fromWeb(response.body as ReadableStream<Uint8Array>), meter, createWriteStream(filePath));
+    } catch (error) {
+      await fs.unlink(filePath).catch(() => {});
+      throw error;
+    }
+
+    return { filePath, fileSize, mimeType, originalName, contentHash: hash.digest('hex') };
+  }
+
+  private getFileName(contentDisposition: string | null, url: string): string {
+    const fromHeader = contentDisposition?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i)?.[1];
+    if (fromHeader) return decodeURIComponent(fromHeader);
+
+    const fromPath = decodeURIComponent(path.posix.basename(new URL(url).pathname));
+    return fromPath || 'imported-media';
+  }
+
+  // Many podcast hosts serve audio as application/octet-stream, so the
+  // file extension is the fallback
+  private getMimeType(contentType: string | null, fileName: string): string | null {
+    const type = contentType?.split(';')[0].trim().toLowerCase();
+    if (type && /^(audio|video)\//.test(type)) return type;
+
+    const byExtension = MEDIA_TYPES_BY_EXTENSION[path.extname(fileName).toLowerCase()];
+    if (byExtension) return byExtension;
+
+    if (getDocumentFormat({ mimeType: type || '', originalName: fileName })) {
+      return type || 'text/plain';
+    }
+    return null;
+  }
+}
+
+export const mediaImporter = new MediaImporter();
+
+// Episodes a poll should queue: new ones, and known ones whose retry is
+// due. The first poll takes the latest few episodes rather than the whole
+// back catalogue; after that anything published since the newest seen
+// counts as new, as do undated episodes not seen before.
+export function selectEpisodesToImport(
+  feed: Pick<PodcastFeed, 'lastPolledAt' | 'latestEpisodeAt'>,
+  episodes: FeedEpisode[],
+  items: Map<string, FeedItem>,
+  backfill: number,
+  now: Date
+): FeedEpisode[] {
+  const candidates = feed.lastPolledAt
+    ? episodes.filter(episode => !feed.latestEpisodeAt || !episode.publishedAt || episode.publishedAt > feed.latestEpisodeAt)
+    : episodes.slice(0, Math.max(0, backfill));
+
+  const selected = new Map<string, FeedEpisode>();
+  for (const episode of episodes) {
+    const item = items.get(episode.guid);
+    const due = item
+      ? (item.status === 'failed' || item.status === 'queued') && item.nextAttemptAt !== null && item.nextAttemptAt <= now
+      : candidates.includes(episode);
+    if (due && !selected.has(episode.guid)) selected.set(episode.guid, episode);
+  }
+  return [...selected.values()];
+}
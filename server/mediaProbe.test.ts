@@ -0,0 +1,159 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import ffmpeg from "fluent-ffmpeg";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { inspectUploadFile, probeMedia, validateMedia } from "./mediaProbe";
+
+// There is no ffprobe here, so probe results are faked; decoding uses the
+// bundled ffmpeg for real
+const ffprobe = vi.spyOn(ffmpeg, "ffprobe");
+
+function probeResult(format: object, streams: object[]) {
+  ffprobe.mockImplementation(((_file: string, callback: (err: any, metadata: any) => void) => {
+    callback(null, { format, streams });
+  }) as any);
+}
+
+const audioStream = { codec_type: "audio", codec_name: "pcm_s16le", channels: 1, channel_layout: "mono", sample_rate: "8000", bit_rate: "128000" };
+const videoStream = { codec_type: "video", codec_name: "h264", width: 1920, height: 1080, avg_frame_rate: "30000/1001", r_frame_rate: "30/1", bit_rate: "N/A", pix_fmt: "yuv420p" };
+
+// One second of a 440 Hz tone as 8 kHz mono 16-bit WAV
+function toneWav(): Buffer {
+  const samples = 8000;
+  const wav = Buffer.alloc(44 + samples * 2);
+  wav.write("RIFF", 0);
+  wav.writeUInt32LE(36 + samples * 2, 4);
+  wav.write("WAVEfmt ", 8);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(1, 22); // Mono
+  wav.writeUInt32LE(8000, 24);
+  wav.writeUInt32LE(16000, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write("data", 36);
+  wav.writeUInt32LE(samples * 2, 40);
+  for (let i = 0; i < samples; i++) {
+    wav.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 440 * i) / 8000) * 8000), 44 + i * 2);
+  }
+  return wav;
+}
+
+const dir = path.join(os.tmpdir(), `media-probe-test-${process.pid}`);
+const wavPath = path.join(dir, "tone.wav");
+
+beforeAll(async () => {
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(wavPath, toneWav());
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  ffprobe.mockReset();
+});
+
+describe("probeMedia", () => {
+  it("reads the format and the first audio and video streams", async () => {
+    probeResult(
+      { format_name: "mov,mp4,m4a", duration: "12.5", bit_rate: "5000000" },
+      [{ codec_type: "video", codec_name: "mjpeg", disposition: { attached_pic: 1 } }, videoStream, audioStream]
+    );
+
+    expect(await probeMedia("clip.mp4")).toEqual({
+      container: "mov,mp4,m4a",
+      duration: 12.5,
+      bitRate: 5000000,
+      video: { codec: "h264", width: 1920, height: 1080, frameRate: 29.97, bitRate: null, pixelFormat: "yuv420p" },
+      audio: { codec: "pcm_s16le", channels: 1, channelLayout: "mono", sampleRate: 8000, bitRate: 128000 },
+    });
+  });
+
+  it("falls back to r_frame_rate and treats N/A and missing values as unknown", async () => {
+    probeResult(
+      { duration: "N/A" },
+      [{ ...videoStream, avg_frame_rate: "0/0", r_frame_rate: "25/1" }, { codec_type: "audio", channels: "", sample_rate: "abc" }]
+    );
+
+    const info = await probeMedia("clip.mkv");
+
+    expect(info.container).toBe("unknown");
+    expect(info.duration).toBe(0);
+    expect(info.bitRate).toBeNull();
+    expect(info.video?.frameRate).toBe(25);
+    expect(info.audio).toMatchObject({ codec: "unknown", channels: 0, sampleRate: 0, bitRate: null });
+  });
+
+  it("leaves the frame rate unknown when neither rate is usable", async () => {
+    probeResult({ duration: "1" }, [{ ...videoStream, avg_frame_rate: "0/0", r_frame_rate: undefined }, audioStream]);
+
+    expect((await probeMedia("clip.mp4")).video?.frameRate).toBeNull();
+  });
+});
+
+describe("validateMedia", () => {
+  it.each([
+    ["no streams", [], "1", "File contains no audio or video streams."],
+    ["no audio", [videoStream], "1", "File has no audio track, so there is nothing to transcribe."],
+    ["an unknown audio codec", [{ ...audioStream, codec_name: "none" }], "1", "Unsupported audio stream (none)."],
+    ["no audio channels", [{ ...audioStream, channels: 0 }], "1", "Unsupported audio stream (pcm_s16le)."],
+    ["a video without a size", [{ ...videoStream, width: 0 }, audioStream], "1", "Unsupported video stream (h264)."],
+    ["no duration", [audioStream], "N/A", "File duration could not be determined. It may be truncated or corrupt."],
+  ])("rejects a file with %s", async (_case, streams, duration, error) => {
+    probeResult({ format_name: "wav", duration }, streams);
+
+    const result = await validateMedia(wavPath);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(error);
+    expect(result.mediaInfo).toBeDefined();
+  });
+
+  it("rejects files ffprobe cannot read", async () => {
+    ffprobe.mockImplementation(((_file: string, callback: (err: any) => void) => callback(new Error("Invalid data"))) as any);
+
+    expect(await validateMedia(wavPath)).toEqual({
+      success: false,
+      error: "File could not be read as audio or video. It may be corrupt or in an unsupported format.",
+    });
+  });
+
+  it("decodes the start of a real file", async () => {
+    probeResult({ format_name: "wav", duration: "1" }, [audioStream]);
+
+    expect(await validateMedia(wavPath)).toMatchObject({ success: true, mediaInfo: { duration: 1 } });
+  });
+
+  it("reports files whose streams cannot be decoded as corrupt", async () => {
+    const bogus = path.join(dir, "bogus.mp3");
+    await fs.writeFile(bogus, "this is not audio");
+    probeResult({ format_name: "mp3", duration: "1" }, [audioStream]);
+
+    expect(await validateMedia(bogus)).toMatchObject({
+      success: false,
+      error: "File is corrupt: its audio or video could not be decoded.",
+    });
+  });
+});
+
+describe("inspectUploadFile", () => {
+  it("passes text documents through without probing", async () => {
+    expect(await inspectUploadFile("notes.md", { mimeType: "text/markdown", originalName: "notes.md" })).toEqual({
+      success: true,
+      fields: { duration: null, mediaInfo: null },
+    });
+    expect(ffprobe).not.toHaveBeenCalled();
+  });
+
+  it("returns the duration and media info columns for a valid file", async () => {
+    probeResult({ format_name: "wav", duration: "1" }, [audioStream]);
+
+    const result = await inspectUploadFile(wavPath, { mimeType: "audio/wav", originalName: "tone.wav" });
+
+    expect(result.fields?.duration).toBe("1.000");
+    expect(JSON.parse(result.fields!.mediaInfo as string).audio.codec).toBe("pcm_s16le");
+  });
+});
@@ -0,0 +1,193 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import { parseJsonColumn } from './transcriptData';
+import { isTextDocument } from './documentText';
+import type { InsertUpload, Upload } from '@shared/schema';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+export interface VideoStreamInfo {
+  codec: string;
+  width: number;
+  height: number;
+  frameRate: number | null;
+  bitRate: number | null;
+  pixelFormat: string | null;
+}
+
+export interface AudioStreamInfo {
+  codec: string;
+  channels: number;
+  channelLayout: string | null;
+  sampleRate: number;
+  bitRate: number | null;
+}
+
+// What ffprobe found in an upload, stored as uploads.media_info. Only the
+// first video and audio streams are described since those are the ones the
+// pipeline uses.
+export interface MediaInfo {
+  container: string;
+  duration: number; // Seconds
+  bitRate: number | null; // Overall, bits per second
+  video: VideoStreamInfo | null;
+  audio: AudioStreamInfo | null;
+}
+
+export interface MediaValidationResult {
+  success: boolean;
+  mediaInfo?: MediaInfo;
+  error?: string;
+}
+
+// How much of the file is decoded to catch streams that probe fine but are
+// damaged past the header
+const DECODE_CHECK_SECONDS = 5;
+
+export function getMediaInfo(upload: Upload): MediaInfo | null {
+  return parseJsonColumn<MediaInfo>(upload.mediaInfo);
+}
+
+export function probeMedia(filePath: string): Promise<MediaInfo> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err: any, metadata: any) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+
+      const video = metadata.streams.find((stream: any) => stream.codec_type === 'video' && !stream.disposition?.attached_pic);
+      const audio = metadata.streams.find((stream: any) => stream.codec_type === 'audio');
+
+      resolve({
+        container: metadata.format.format_name || 'unknown',
+        duration: toNumber(metadata.format.duration) ?? 0,
+        bitRate: toNumber(metadata.format.bit_rate),
+        video: video ? {
+          codec: video.codec_name || 'unknown',
+          width: toNumber(video.width) ?? 0,
+          height: toNumber(video.height) ?? 0,
+          frameRate: parseFrameRate(video.avg_frame_rate) ?? parseFrameRate(video.r_frame_rate),
+          bitRate: toNumber(video.bit_rate),
+          pixelFormat: video.pix_fmt || null,
+        } : null,
+        audio: audio ? {
+          codec: audio.codec_name || 'unknown',
+          channels: toNumber(audio.channels) ?? 0,
+          channelLayout: audio.channel_layout || null,
+          sampleRate: toNumber(audio.sample_rate) ?? 0,
+          bitRate: toNumber(audio.bit_rate),
+        } : null,
+      });
+    });
+  });
+}
+
+// Probes a media file and checks the pipeline can work with it: there must
+// be a readable audio track to transcribe, a sensible duration, and the
+// start of the file must decode cleanly.
+export async function validateMedia(filePath: string): Promise<MediaValidationResult> {
+  let mediaInfo: MediaInfo;
+  try {
+    mediaInfo = await probeMedia(filePath);
+  } catch (error) {
+    console.warn(`[MediaProbe] ffprobe failed for ${filePath}:`, (error as Error).message);
+    return { success: false, error: 'File could not be read as audio or video. It may be corrupt or in an unsupported format.' };
+  }
+
+  const problem = findProblem(mediaInfo);
+  if (problem) {
+    return { success: false, mediaInfo, error: problem };
+  }
+
+  try {
+    await decodeCheck(filePath, mediaInfo);
+  } catch (error) {
+    console.warn(`[MediaProbe] Decode check failed for ${filePath}:`, (error as Error).message);
+    return { success: false, mediaInfo, error: 'File is corrupt: its audio or video could not be decoded.' };
+  }
+
+  return { success: true, mediaInfo };
+}
+
+// Validates a newly received file and returns the probe columns for its
+// upload record. Text documents have no streams and pass straight through.
+export async function inspectUploadFile(
+  filePath: string,
+  file: Pick<Upload, 'mimeType' | 'originalName'>
+): Promise<{ success: boolean; fields?: Pick<InsertUpload, 'duration' | 'mediaInfo'>; error?: string }> {
+  if (isTextDocument(file)) {
+    return { success: true, fields: { duration: null, mediaInfo: null } };
+  }
+
+  const result = await validateMedia(filePath);
+  if (!result.success || !result.mediaInfo) {
+    return { success: false, error: result.error };
+  }
+
+  return {
+    success: true,
+    fields: {
+      duration: result.mediaInfo.duration.toFixed(3),
+      mediaInfo: JSON.stringify(result.mediaInfo),
+    },
+  };
+}
+
+function findProblem(info: MediaInfo): string | null {
+  if (!info.audio && !info.video) {
+    return 'File contains no audio or video streams.';
+  }
+  if (!info.audio) {
+    return 'File has no audio track, so there is nothing to transcribe.';
+  }
+  if (isUnknownCodec(info.audio.codec) || info.audio.channels < 1 || info.audio.sampleRate < 1) {
+    return `Unsupported audio stream (${info.audio.codec}).`;
+  }
+  if (info.video && (isUnknownCodec(info.video.codec) || info.video.width < 1 || info.video.height < 1)) {
+    return `Unsupported video stream (${info.video.codec}).`;
+  }
+  if (!(info.duration > 0)) {
+    return 'File duration could not be determined. It may be truncated or corrupt.';
+  }
+  return null;
+}
+
+function isUnknownCodec(codec: string): boolean {
+  return codec === 'unknown' || codec === 'none';
+}
+
+// Decodes the opening seconds of the first audio and video streams, failing
+// on any decoder error rather than concealing it
+function decodeCheck(filePath: string, info: MediaInfo): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg(filePath)
+      .inputOptions(['-v error', '-xerror'])
+      .outputOptions(['-t', String(DECODE_CHECK_SECONDS), '-map', '0:a:0']);
+
+    if (info.video) {
+      command.outputOptions(['-map', '0:v:0']);
+    }
+
+    command
+      .format('null')
+      .output('-')
+      .on('end', () => resolve())
+      .on('error', (error: Error) => reject(error))
+      .run();
+  });
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '' || value === 'N/A') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// ffprobe reports frame rates as fractions such as 30000/1001; 0/0 means unknown
+function parseFrameRate(value: string | undefined): number | null {
+  if (!value) return null;
+  const [numerator, denominator] = value.split('/').map(Number);
+  if (!numerator || !denominator) return null;
+  return Math.round((numerator / denominator) * 1000) / 1000;
+}
@@ -0,0 +1,157 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { storage } from './storage';
+import { blobStore, storeFile } from './blobStore';
+import { WEEKLY_REPORT_KIND, type WeeklyReportMetadata } from './weeklyReportGenerator';
+
+const LEGACY_REPORTS_DIR = './reports';
+const LEGACY_REPORT_NAME = /^weekly-report-(.+)-week-(\d+)-(\d+)\.pdf$/;
+
+// Moves upload, derived (normalized media), clip and generated files
+// (graphics, thumbnails, reports) still referenced by local path into the blob store and rewrites their rows
+// to blob refs. Weekly reports from the old ./reports directory, which had no
+// rows, are imported as generated files. Safe to re-run: migrated rows are
+// skipped, and a file is only deleted after its row points at the blob.
+//
+//   npm run blobs:migrate -- [--dry-run] [--keep-local]
+
+interface MigrationSummary {
+  migrated: number;
+  deduplicated: number;
+  missing: string[];
+  failed: string[];
+  bytes: number;
+}
+
+async function fileSize(filePath: string): Promise<number | null> {
+  try {
+    const stats = await fs.stat(filePath);
+    return stats.isFile() ? stats.size : null;
+  } catch {
+    return null;
+  }
+}
+
+async function migrate(options: { dryRun: boolean; keepLocal: boolean }): Promise<MigrationSummary> {
+  const summary: MigrationSummary = { migrated: 0, deduplicated: 0, missing: [], failed: [], bytes: 0 };
+
+  const moveFile = async (
+    label: string,
+    filePath: string,
+    contentType: string,
+    extension: string,
+    update: (ref: string, sha256: string, size: number) => Promise<void>
+  ) => {
+    const size = await fileSize(filePath);
+    if (size === null) {
+      summary.missing.push(`${label} (${filePath})`);
+      return;
+    }
+    if (options.dryRun) {
+      console.log(`[BlobMigration] Would move ${label}: ${filePath} (${size} bytes)`);
+      summary.migrated++;
+      summary.bytes += size;
+      return;
+    }
+
+    try {
+      // The local file is kept until the row is updated
+      const stored = await storeFile(filePath, { contentType, extension, keepSource: true });
+      await update(stored.ref, stored.sha256, stored.size);
+      if (!options.keepLocal) {
+        await fs.unlink(filePath).catch(() => {});
+      }
+      summary.migrated++;
+      summary.bytes += size;
+      if (stored.deduplicated) summary.deduplicated++;
+      console.log(`[BlobMigration] Moved ${label} to ${stored.ref}${stored.deduplicated ? ' (already stored)' : ''}`);
+    } catch (error) {
+      summary.failed.push(`${label}: ${(error as Error).message}`);
+    }
+  };
+
+  for (const upload of await storage.getUploadsWithLocalFiles()) {
+    await moveFile(`upload ${upload.id}`, upload.filePath, upload.mimeType, path.extname(upload.originalName), (ref, sha256) =>
+      storage.updateUploadFile(upload.id, { filePath: ref, contentHash: upload.contentHash ?? sha256 })
+    );
+  }
+
+  for (const asset of await storage.getDerivedAssetsWithLocalFiles()) {
+    await moveFile(`${asset.kind} ${asset.id}`, asset.filePath, asset.mimeType, path.extname(asset.filePath), ref =>
+      storage.updateDerivedAssetPath(asset.id, ref)
+    );
+  }
+
+  for (const clip of await storage.getClipsWithLocalFiles()) {
+    await moveFile(`clip ${clip.id}`, clip.filePath!, 'video/mp4', path.extname(clip.filePath!) || '.mp4', async ref => {
+      await storage.updateClip(clip.id, { filePath: ref });
+    });
+  }
+
+  for (const file of await storage.getGeneratedFilesWithLocalFiles()) {
+    await moveFile(`${file.kind} ${file.id}`, file.filePath, file.mimeType, path.extname(file.fileName), ref =>
+      storage.updateGeneratedFilePath(file.id, ref)
+    );
+  }
+
+  for (const fileName of await listLegacyReports()) {
+    const match = LEGACY_REPORT_NAME.exec(fileName)!;
+    const [, userId, weekNumber, timestamp] = match;
+    if (await storage.getGeneratedFileByName(userId, WEEKLY_REPORT_KIND, fileName)) {
+      continue; // Imported by an earlier run with --keep-local
+    }
+    if (!(await storage.getUser(userId))) {
+      summary.missing.push(`report ${fileName} (user ${userId} no longer exists)`);
+      continue;
+    }
+
+    await moveFile(`report ${fileName}`, path.join(LEGACY_REPORTS_DIR, fileName), 'application/pdf', '.pdf', async (ref, _sha256, size) => {
+      await storage.createGeneratedFile({
+        userId,
+        kind: WEEKLY_REPORT_KIND,
+        fileName,
+        filePath: ref,
+        fileSize: size,
+        mimeType: 'application/pdf',
+        metadata: JSON.stringify({ weekNumber: Number(weekNumber) } satisfies WeeklyReportMetadata),
+        createdAt: new Date(Number(timestamp)),
+      });
+    });
+  }
+
+  return summary;
+}
+
+async function listLegacyReports(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(LEGACY_REPORTS_DIR);
+    return files.filter(file => LEGACY_REPORT_NAME.test(file)).sort();
+  } catch {
+    return []; // No reports were ever written here
+  }
+}
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const keepLocal = args.includes('--keep-local');
+
+console.log(`[BlobMigration] ${dryRun ? 'Dry run against' : 'Migrating into'} the ${blobStore.name} blob store`);
+
+migrate({ dryRun, keepLocal })
+  .then(summary => {
+    console.log(
+      `[BlobMigration] ${dryRun ? 'Would move' : 'Moved'} ${summary.migrated} files ` +
+      `(${(summary.bytes / (1024 * 1024)).toFixed(1)} MB, ${summary.deduplicated} already stored)`
+    );
+    for (const missing of summary.missing) {
+      console.warn(`[BlobMigration] Missing on disk, left unchanged: ${missing}`);
+    }
+    for (const failure of summary.failed) {
+      console.error(`[BlobMigration] Failed: ${failure}`);
+    }
+    process.exit(summary.failed.length ? 1 : 0);
+  })
+  .catch(error => {
+    console.error('[BlobMigration] Migration failed:', error);
+    process.exit(1);
+  });
@@ -1,18 +1,30 @@
 import OpenAI from "openai";
 import fs from "fs";
+import { transcriptionProviders, type TranscriptionOptions } from "./transcriptionProviders";
+import { transcribeInChunks } from "./chunkedTranscription";
+import type { TranscriptSentence } from "./transcriptData";
+import { applyGlossaryToText, buildGlossaryInstructions, type GlossaryTerm } from "./glossary";
 
 // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
 const openai = new OpenAI({ 
   apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key" 
 });
 
+export interface SpeakerTurn {
+  speaker: string; // Provider label, e.g. "A" or "SPEAKER_00"
+  start: number;
+  end: number;
+}
+
 export interface TranscriptionResult {
   text: string;
   words?: Array<{
     word: string;
     start: number;
     end: number;
+    speaker?: string;
   }>;
+  speakers?: SpeakerTurn[];
   language?: string;
   duration?: number;
 }
@@ -25,27 +37,27 @@ export interface SegmentResult {
   transcript: string;
 }
 
-export async function transcribeAudio(audioFilePath: string): Promise<TranscriptionResult> {
+export interface SentenceSegmentResult {
+  title: string;
+  summary: string;
+  startSentence: number;
+  endSentence: number; // Inclusive
+}
+
+export async function transcribeAudio(
+  audioFilePath: string,
+  options: TranscriptionOptions & { provider?: string } = {}
+): Promise<TranscriptionResult> {
   try {
-    const audioStream = fs.createReadStream(audioFilePath);
+    const { provider: providerName, ...transcriptionOptions } = options;
+    const provider = transcriptionProviders.get(providerName);
 
-    const transcription = await openai.audio.transcriptions.create({
-      file: audioStream,
-      model: "whisper-1",
-      response_format: "verbose_json",
-      timestamp_granularities: ["word"],
-    });
+    const { size } = await fs.promises.stat(audioFilePath);
+    if (provider.maxFileSize && size > provider.maxFileSize) {
+      return await transcribeInChunks(audioFilePath, provider, transcriptionOptions);
+    }
 
-    return {
-      text: transcription.text,
-      words: transcription.words?.map(word => ({
-        word: word.word,
-        start: word.start,
-        end: word.end,
-      })),
-      language: transcription.language,
-      duration: transcription.duration,
-    };
+    return await provider.transcribe(audioFilePath, transcriptionOptions);
   } catch (error) {
     const err = error as any;
     console.error('Transcription error:', err);
@@ -53,7 +65,7 @@ export async function transcribeAudio(audioFilePath: string): Promise<Transcript
   }
 }
 
-export async function generateSegments(transcript: string): Promise<SegmentResult[]> {
+export async function generateSegments(transcript: string, glossary: GlossaryTerm[] = []): Promise<SegmentResult[]> {
   try {
     const prompt = `Analyze this transcript and break it down into 3-7 meaningful segments that would make good content clips. Each segment should be a distinct topic or key insight.
 
@@ -76,7 +88,67 @@ Respond with JSON in this format:
       "transcript": "string"
     }
   ]
-}`;
+}${buildGlossaryInstructions(glossary)}`;
+
+    const response = await openai.chat.completions.create({
+      model: "gpt-4o",
+      messages: [
+        {
+          role: "system",
+          content: "You are an expert content strategist who identifies the most engaging segments from video/audio content for social media repurposing."
+        },
+        {
+          role: "user",
+          content: prompt
+        }
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.3,
+    });
+
+    const content = response.choices[0].message.content || '{}';
+    const result = JSON.parse(content);
+    return result.segments || [];
+  } catch (error) {
+    const err = error as any;
+    console.error('Segmentation error:', err);
+    throw new Error(`Failed to generate segments: ${err.message}`);
+  }
+}
+
+// Segments a transcript given as numbered sentences, so the model only picks
+// sentence ranges and timing comes from the word timestamps
+export async function generateSentenceSegments(
+  sentences: TranscriptSentence[],
+  glossary: GlossaryTerm[] = []
+): Promise<SentenceSegmentResult[]> {
+  try {
+    const numbered = sentences.map(sentence => `[${sentence.index}] ${sentence.text}`).join('\n');
+
+    const prompt = `Analyze this transcript and break it down into 3-7 meaningful segments that would make good content clips. Each segment should be a distinct topic or key insight.
+
+The transcript is split into numbered sentences. Each segment must cover a contiguous range of sentences, and segments must not overlap.
+
+For each segment, provide:
+- A compelling title
+- A brief summary
+- The number of the first sentence in the segment
+- The number of the last sentence in the segment
+
+Transcript:
+${numbered}
+
+Respond with JSON in this format:
+{
+  "segments": [
+    {
+      "title": "string",
+      "summary": "string",
+      "startSentence": number,
+      "endSentence": number
+    }
+  ]
+}${buildGlossaryInstructions(glossary)}`;
 
     const response = await openai.chat.completions.create({
       model: "gpt-4o",
@@ -104,7 +176,11 @@ Respond with JSON in this format:
   }
 }
 
-export async function generateSocialContent(segment: SegmentResult, platform: string): Promise<string> {
+export async function generateSocialContent(
+  segment: SegmentResult,
+  platform: string,
+  glossary: GlossaryTerm[] = []
+): Promise<string> {
   try {
     const platformPrompts: Record<string, string> = {
       twitter: "Create a compelling Twitter thread (2-3 tweets) based on this content. Make it engaging and shareable.",
@@ -119,7 +195,7 @@ Content Title: ${segment.title}
 Content Summary: ${segment.summary}
 Transcript: ${segment.transcript}
 
-Create content that captures the key insight and makes it engaging for ${platform}.`;
+Create content that captures the key insight and makes it engaging for ${platform}.${buildGlossaryInstructions(glossary)}`;
 
     const response = await openai.chat.completions.create({
       model: "gpt-4o",
@@ -144,7 +220,7 @@ Create content that captures the key insight and makes it engaging for ${platfor
   }
 }
 
-export async function generateQuoteGraphic(segment: SegmentResult): Promise<string> {
+export async function generateQuoteGraphic(segment: SegmentResult, glossary: GlossaryTerm[] = []): Promise<string> {
   try {
     const prompt = `Extract the most powerful, quotable sentence or insight from this content for a quote graphic.
 
@@ -152,7 +228,7 @@ Title: ${segment.title}
 Summary: ${segment.summary}
 Transcript: ${segment.transcript}
 
-Return just the quote text that would work well on a visual quote graphic - keep it under 30 words and impactful.`;
+Return just the quote text that would work well on a visual quote graphic - keep it under 30 words and impactful.${buildGlossaryInstructions(glossary)}`;
 
     const response = await openai.chat.completions.create({
       model: "gpt-4o",
@@ -169,7 +245,8 @@ Return just the quote text that would work well on a visual quote graphic - keep
       temperature: 0.3,
     });
 
-    return response.choices[0].message.content?.trim() || segment.title;
+    // Quotes come from the transcript, so fix misheard terms the model copied
+    return applyGlossaryToText(response.choices[0].message.content?.trim() || segment.title, glossary);
   } catch (error) {
     const err = error as any;
     console.error('Quote generation error:', err);
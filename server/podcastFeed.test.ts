@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { parsePodcastFeed } from "./podcastFeed";
+
+function feed(items: string, channel = "<title>The Show</title>") {
+  return `<?xml version="1.0"?><rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"><channel>${channel}${items}</channel></rss>`;
+}
+
+function item(fields: string, enclosure = '<enclosure url="https://cdn.example.com/ep.mp3" type="audio/mpeg" length="1234"/>') {
+  return `<item>${fields}${enclosure}</item>`;
+}
+
+describe("parsePodcastFeed", () => {
+  it("reads the channel title and each episode", () => {
+    const parsed = parsePodcastFeed(feed(item(
+      '<title>Episode 1</title><guid isPermaLink="false">ep-1</guid><pubDate>Tue, 10 Mar 2026 08:00:00 GMT</pubDate>' +
+      "<itunes:summary>Notes</itunes:summary><itunes:duration>3600</itunes:duration>"
+    )));
+
+    expect(parsed.title).toBe("The Show");
+    expect(parsed.episodes).toEqual([{
+      guid: "ep-1",
+      title: "Episode 1",
+      description: "Notes",
+      publishedAt: new Date("2026-03-10T08:00:00Z"),
+      duration: 3600,
+      enclosure: { url: "https://cdn.example.com/ep.mp3", type: "audio/mpeg", length: 1234 },
+    }]);
+  });
+
+  it("strips HTML from CDATA and decodes the entities it escapes", () => {
+    const [episode] = parsePodcastFeed(feed(item(
+      "<title><![CDATA[Tips & <b>tricks</b>]]></title><description><![CDATA[<p>Show &amp; tell &lt;3</p>]]></description>"
+    ))).episodes;
+
+    expect(episode.title).toBe("Tips & tricks");
+    expect(episode.description).toBe("Show & tell <3");
+  });
+
+  it("decodes named and numeric entities in text and attributes", () => {
+    const [episode] = parsePodcastFeed(feed(item(
+      "<title>Q&amp;A &#8212; &lt;live&gt; &#x27;24</title>",
+      '<enclosure url="https://cdn.example.com/ep.mp3?a=1&amp;b=2"/>'
+    ))).episodes;
+
+    expect(episode.title).toBe("Q&A — '24");
+    expect(episode.enclosure.url).toBe("https://cdn.example.com/ep.mp3?a=1&b=2");
+  });
+
+  it("falls back to the enclosure URL for items without a GUID", () => {
+    const [episode] = parsePodcastFeed(feed(item("<title>No GUID</title>"))).episodes;
+
+    expect(episode.guid).toBe("https://cdn.example.com/ep.mp3");
+  });
+
+  it.each([
+    ["3723", 3723],
+    ["62:03", 3723],
+    ["1:02:03", 3723],
+    ["00:00", undefined],
+    ["1h 2m", undefined],
+    ["", undefined],
+  ])("reads itunes:duration %j as %j seconds", (value, seconds) => {
+    const [episode] = parsePodcastFeed(feed(item(`<itunes:duration>${value}</itunes:duration>`))).episodes;
+
+    expect(episode.duration).toBe(seconds);
+  });
+
+  it("skips items without an enclosure and sorts newest first, undated last", () => {
+    const parsed = parsePodcastFeed(feed([
+      item("<guid>old</guid><pubDate>Mon, 02 Mar 2026 08:00:00 GMT</pubDate>"),
+      item("<guid>undated</guid><pubDate>not a date</pubDate>"),
+      item("<guid>notes</guid>", ""),
+      item("<guid>new</guid><pubDate>Mon, 09 Mar 2026 08:00:00 GMT</pubDate>"),
+    ].join("")));
+
+    expect(parsed.episodes.map(episode => episode.guid)).toEqual(["new", "old", "undated"]);
+    expect(parsed.episodes[2].publishedAt).toBeUndefined();
+  });
+
+  it("rejects documents that are not RSS", () => {
+    expect(() => parsePodcastFeed('<feed xmlns="http://www.w3.org/2005/Atom"></feed>')).toThrow("Not an RSS feed");
+  });
+});
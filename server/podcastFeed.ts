@@ -0,0 +1,102 @@
+// Minimal RSS 2.0 reader for podcast feeds: the channel title and each
+// item's GUID, enclosure and publish date. Podcast feeds are regular enough
+// that a tag scanner covers them without a full XML parser.
+
+export interface FeedEpisode {
+  guid: string; // Falls back to the enclosure URL when the item has no GUID
+  title: string;
+  description?: string;
+  publishedAt?: Date;
+  duration?: number; // Seconds, from itunes:duration
+  enclosure: {
+    url: string;
+    type?: string;
+    length?: number;
+  };
+}
+
+export interface ParsedFeed {
+  title: string;
+  episodes: FeedEpisode[]; // Newest first
+}
+
+export function parsePodcastFeed(xml: string): ParsedFeed {
+  if (!/<rss[\s>]/i.test(xml) || !/<channel[\s>]/i.test(xml)) {
+    throw new Error('Not an RSS feed');
+  }
+
+  // Channel-level tags come before the first item
+  const firstItem = xml.search(/<item[\s>]/i);
+  const channel = firstItem === -1 ? xml : xml.slice(0, firstItem);
+
+  const episodes: FeedEpisode[] = [];
+  for (const [, item] of xml.matchAll(/<item[\s>]([\s\S]*?)<\/item>/gi)) {
+    const episode = parseItem(item);
+    if (episode) episodes.push(episode);
+  }
+
+  episodes.sort((a, b) => (b.publishedAt?.getTime() ?? 0) - (a.publishedAt?.getTime() ?? 0));
+  return { title: readTag(channel, 'title') || 'Untitled feed', episodes };
+}
+
+// Items without an enclosure are show notes or announcements, not episodes
+function parseItem(item: string): FeedEpisode | null {
+  const enclosureTag = item.match(/<enclosure\b[^>]*>/i)?.[0];
+  const url = enclosureTag && readAttribute(enclosureTag, 'url');
+  if (!url) return null;
+
+  const published = readTag(item, 'pubDate');
+  const publishedAt = published ? new Date(published) : undefined;
+  const length = Number(readAttribute(enclosureTag, 'length'));
+
+  return {
+    guid: readTag(item, 'guid') || url,
+    title: readTag(item, 'title') || 'Untitled episode',
+    description: readTag(item, 'itunes:summary') || readTag(item, 'description') || undefined,
+    publishedAt: publishedAt && !isNaN(publishedAt.getTime()) ? publishedAt : undefined,
+    duration: parseDuration(readTag(item, 'itunes:duration')),
+    enclosure: {
+      url,
+      type: readAttribute(enclosureTag, 'type') || undefined,
+      length: length > 0 ? length : undefined,
+    },
+  };
+}
+
+function readTag(xml: string, name: string): string {
+  const escaped = name.replace(':', '\\:');
+  const match = xml.match(new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`, 'i'));
+  return match ? decodeText(match[1]) : '';
+}
+
+function readAttribute(tag: string, name: string): string {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2]).trim() : '';
+}
+
+// Titles and show notes often carry HTML, either in CDATA or entity-encoded
+function decodeText(raw: string): string {
+  const cdata = raw.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  // HTML in CDATA still escapes its own text, so decode once the tags are gone
+  const text = cdata ? decodeEntities(stripTags(cdata[1])) : stripTags(decodeEntities(raw));
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<\/?[a-zA-Z][^>]*>/g, '');
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[entity];
+  });
+}
+
+// itunes:duration is either seconds or [hh:]mm:ss
+function parseDuration(value: string): number | undefined {
+  if (!value) return undefined;
+  const seconds = value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+}
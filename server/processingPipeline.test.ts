@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const state = vi.hoisted(() => ({
+  stages: new Map<string, any>(),
+  statuses: [] as string[],
+  runs: [] as Array<{ stage: string; force: boolean }>,
+  failing: null as string | null,
+  jobs: [] as any[],
+  queuedState: null as string | null,
+  processor: null as ((job: any) => Promise<void>) | null,
+}));
+
+function ran(stage: string) {
+  return vi.fn(async (_upload: any, options: { force: boolean }) => {
+    state.runs.push({ stage, force: options.force });
+    if (state.failing === stage) throw new Error(`${stage} broke`);
+  });
+}
+
+vi.mock("./enhancedQueueSystem", () => ({
+  enhancedQueueSystem: {
+    createWorker: vi.fn(async (_queue: string, processor: any) => { state.processor = processor; }),
+    createQueue: vi.fn(async () => ({
+      getJob: vi.fn(async () => state.queuedState && { getState: async () => state.queuedState }),
+      remove: vi.fn(),
+    })),
+    addJob: vi.fn(async (...args: any[]) => { state.jobs.push(args); }),
+  },
+}));
+vi.mock("./storage", () => ({
+  storage: {
+    getUpload: vi.fn(async (id: string) => ({ id, userId: "user-1", mimeType: "audio/mpeg", originalName: "episode.mp3" })),
+    getUploadsByStatus: vi.fn(async () => []),
+    getProcessingStages: vi.fn(async () => [...state.stages.values()]),
+    upsertProcessingStage: vi.fn(async (uploadId: string, stage: string, data: any) => {
+      const record = { uploadId, stage, status: "pending", attempts: 0, ...state.stages.get(stage), ...data };
+      state.stages.set(stage, record);
+      return record;
+    }),
+    updateUploadStatus: vi.fn(async (_id: string, status: string) => { state.statuses.push(status); }),
+    getTranscriptByUploadId: vi.fn(async () => ({ id: "t1" })),
+    getSegmentsByUploadId: vi.fn(async () => []),
+    deleteSocialPostsByUploadId: vi.fn(),
+  },
+}));
+vi.mock("./audioPreprocessing", () => ({ preprocessUploadAudio: ran("audio_preprocessing") }));
+vi.mock("./processors/transcription", () => ({ processTranscription: ran("transcription") }));
+vi.mock("./processors/textIngestion", () => ({ processTextDocument: ran("transcription") }));
+vi.mock("./processors/segmentation", () => ({
+  processSegmentation: vi.fn(async (upload: any, _transcript: any, options: any) => ran("segmentation")(upload, options)),
+}));
+vi.mock("./processors/clipGeneration", () => ({ processClipGeneration: vi.fn(async () => { state.runs.push({ stage: "clips", force: false }); }) }));
+vi.mock("./processors/socialContent", () => ({ processSocialContent: vi.fn(async () => { state.runs.push({ stage: "social_content", force: false }); }) }));
+vi.mock("./clipRenderer", () => ({ clipRenderer: { removeUploadClips: vi.fn() } }));
+
+const { ProcessingPipeline, PIPELINE_STAGE_NAMES } = await import("./processingPipeline");
+
+function stage(name: string, status: string, attempts = 1) {
+  state.stages.set(name, { uploadId: "u1", stage: name, status, attempts });
+}
+
+beforeEach(() => {
+  state.stages = new Map();
+  state.statuses = [];
+  state.runs = [];
+  state.failing = null;
+  state.jobs = [];
+  state.queuedState = null;
+});
+
+describe("ProcessingPipeline.runPipeline", () => {
+  it("runs each stage in order and records it as completed", async () => {
+    await new ProcessingPipeline().runPipeline("u1");
+
+    expect(state.runs.map(run => run.stage)).toEqual(PIPELINE_STAGE_NAMES);
+    expect(state.runs.every(run => !run.force)).toBe(true);
+    expect([...state.stages.values()].map(record => [record.stage, record.status, record.attempts])).toEqual(
+      PIPELINE_STAGE_NAMES.map(name => [name, "completed", 1])
+    );
+    expect(state.statuses).toEqual(["preprocessing", "transcribing", "segmenting", "processing", "generating_content", "completed"]);
+  });
+
+  it("resumes after the completed stages, forcing the one that was interrupted", async () => {
+    stage("audio_preprocessing", "completed");
+    stage("transcription", "completed");
+    stage("segmentation", "running");
+
+    await new ProcessingPipeline().runPipeline("u1");
+
+    expect(state.runs).toEqual([
+      { stage: "segmentation", force: true },
+      { stage: "clips", force: false },
+      { stage: "social_content", force: false },
+    ]);
+    expect(state.stages.get("segmentation")).toMatchObject({ status: "completed", attempts: 2 });
+  });
+
+  it("forces stale and failed stages so their old output is discarded", async () => {
+    stage("audio_preprocessing", "completed");
+    stage("transcription", "stale");
+    stage("segmentation", "failed");
+
+    await new ProcessingPipeline().runPipeline("u1");
+
+    expect(state.runs.slice(0, 2)).toEqual([{ stage: "transcription", force: true }, { stage: "segmentation", force: true }]);
+  });
+
+  it("marks the upload failed when the last attempt fails", async () => {
+    state.failing = "segmentation";
+
+    await expect(new ProcessingPipeline().runPipeline("u1")).rejects.toThrow("segmentation broke");
+
+    expect(state.stages.get("segmentation")).toMatchObject({ status: "failed", error: "segmentation broke" });
+    expect(state.stages.has("clips")).toBe(false);
+    expect(state.statuses.at(-1)).toBe("failed");
+  });
+});
+
+describe("ProcessingPipeline worker", () => {
+  it("leaves the upload in progress while the queue will retry, and fails it on the last attempt", async () => {
+    await new ProcessingPipeline().start();
+    state.failing = "transcription";
+    const job = (attemptsMade: number) => ({ data: { uploadId: "u1", userId: "user-1" }, attemptsMade, opts: { attempts: 3 } });
+
+    await expect(state.processor!(job(0))).rejects.toThrow("transcription broke");
+    expect(state.statuses).toEqual(["preprocessing", "transcribing"]);
+
+    state.statuses = [];
+    await expect(state.processor!(job(1))).rejects.toThrow("transcription broke");
+    expect(state.statuses).toEqual(["transcribing"]);
+
+    state.statuses = [];
+    await expect(state.processor!(job(2))).rejects.toThrow("transcription broke");
+    expect(state.statuses).toEqual(["transcribing", "failed"]);
+    expect(state.stages.get("transcription")).toMatchObject({ status: "failed", attempts: 3 });
+  });
+});
+
+describe("ProcessingPipeline.reprocessStage", () => {
+  beforeEach(() => {
+    for (const name of PIPELINE_STAGE_NAMES) stage(name, "completed");
+  });
+
+  const statuses = () => PIPELINE_STAGE_NAMES.map(name => state.stages.get(name).status);
+
+  it("resets only the chosen stage by default and queues the upload", async () => {
+    await new ProcessingPipeline().reprocessStage("u1", "transcription");
+
+    expect(statuses()).toEqual(["completed", "stale", "completed", "completed", "completed"]);
+    expect(state.jobs).toHaveLength(1);
+    expect(state.jobs[0][2]).toEqual({ uploadId: "u1", userId: "user-1" });
+  });
+
+  it("resets every later stage with wipeDownstream", async () => {
+    await new ProcessingPipeline().reprocessStage("u1", "transcription", { wipeDownstream: true });
+
+    expect(statuses()).toEqual(["completed", "stale", "stale", "stale", "stale"]);
+  });
+
+  it("always resets later stages for a stage whose output they are built from", async () => {
+    await new ProcessingPipeline().reprocessStage("u1", "segmentation");
+
+    expect(statuses()).toEqual(["completed", "completed", "stale", "stale", "stale"]);
+  });
+
+  it("refuses while the upload is queued or for an unknown stage", async () => {
+    await expect(new ProcessingPipeline().reprocessStage("u1", "mastering" as any)).rejects.toThrow("Unknown pipeline stage: mastering");
+
+    state.queuedState = "active";
+    await expect(new ProcessingPipeline().reprocessStage("u1", "clips")).rejects.toThrow("Upload is already being processed");
+    expect(statuses().every(status => status === "completed")).toBe(true);
+  });
+});
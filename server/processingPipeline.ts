@@ -0,0 +1,271 @@
+import type { Job } from 'bullmq';
+import type { Upload, ProcessingStage } from '@shared/schema';
+import { enhancedQueueSystem } from './enhancedQueueSystem';
+import { storage } from './storage';
+import { preprocessUploadAudio } from './audioPreprocessing';
+import { processTranscription } from './processors/transcription';
+import { processTextDocument } from './processors/textIngestion';
+import { isTextDocument } from './documentText';
+import { processSegmentation } from './processors/segmentation';
+import { processClipGeneration } from './processors/clipGeneration';
+import { processSocialContent } from './processors/socialContent';
+import { clipRenderer } from './clipRenderer';
+
+export type PipelineStageName = 'audio_preprocessing' | 'transcription' | 'segmentation' | 'clips' | 'social_content';
+
+interface PipelineStage {
+  name: PipelineStageName;
+  uploadStatus: string; // Status shown on the upload while this stage runs
+  invalidatesDownstream?: boolean; // Rerunning this stage discards later stages' output
+  run: (upload: Upload, force: boolean) => Promise<void>; // force discards earlier output first
+}
+
+interface PipelineJobData {
+  uploadId: string;
+  userId: string;
+}
+
+const PIPELINE_QUEUE = 'upload-processing';
+
+// Upload statuses that mean the pipeline has not finished yet
+const IN_PROGRESS_STATUSES = ['uploaded', 'preprocessing', 'transcribing', 'segmenting', 'processing', 'generating_content'];
+
+const PIPELINE_STAGES: PipelineStage[] = [
+  {
+    // Transcripts and renders are made from its output, so they are redone too
+    name: 'audio_preprocessing',
+    uploadStatus: 'preprocessing',
+    invalidatesDownstream: true,
+    run: async (upload, force) => {
+      if (isTextDocument(upload)) return;
+      await preprocessUploadAudio(upload, { force });
+    },
+  },
+  {
+    // Text documents are read rather than transcribed
+    name: 'transcription',
+    uploadStatus: 'transcribing',
+    run: async (upload, force) => {
+      if (isTextDocument(upload)) {
+        await processTextDocument(upload, { force });
+      } else {
+        await processTranscription(upload, { force });
+      }
+    },
+  },
+  {
+    name: 'segmentation',
+    uploadStatus: 'segmenting',
+    invalidatesDownstream: true,
+    run: async (upload, force) => {
+      const transcript = await storage.getTranscriptByUploadId(upload.id);
+      if (!transcript) {
+        throw new Error('Transcript not found for segmentation');
+      }
+      await processSegmentation(upload, transcript, { force });
+    },
+  },
+  {
+    name: 'clips',
+    uploadStatus: 'processing',
+    run: async (upload, force) => {
+      if (force) {
+        await clipRenderer.removeUploadClips(upload.id);
+      }
+      const segments = await storage.getSegmentsByUploadId(upload.id);
+      await processClipGeneration(segments);
+    },
+  },
+  {
+    name: 'social_content',
+    uploadStatus: 'generating_content',
+    run: async (upload, force) => {
+      if (force) {
+        await storage.deleteSocialPostsByUploadId(upload.id);
+      }
+      await processSocialContent(upload.id);
+    },
+  },
+];
+
+export const PIPELINE_STAGE_NAMES = PIPELINE_STAGES.map(stage => stage.name);
+
+export class ProcessingPipeline {
+  private started = false;
+
+  async start(): Promise<void> {
+    if (this.started) return;
+
+    await enhancedQueueSystem.createWorker(
+      PIPELINE_QUEUE,
+      (job: Job<PipelineJobData>) => this.runPipeline(job.data.uploadId, {
+        finalAttempt: job.attemptsMade + 1 >= (job.opts.attempts ?? 1),
+      }),
+      { concurrency: 2 }
+    );
+    this.started = true;
+
+    const resumed = await this.resumeIncomplete();
+    console.log(`[ProcessingPipeline] Worker started, resumed ${resumed} interrupted uploads`);
+  }
+
+  async enqueue(uploadId: string): Promise<void> {
+    const upload = await storage.getUpload(uploadId);
+    if (!upload) {
+      throw new Error('Upload not found');
+    }
+
+    if (await this.isQueued(uploadId)) {
+      console.log(`[ProcessingPipeline] Upload ${uploadId} is already queued`);
+      return;
+    }
+
+    // A job id can only be reused once the previous job has been removed
+    const queue = await enhancedQueueSystem.createQueue(PIPELINE_QUEUE);
+    const jobId = this.getJobId(uploadId);
+    await queue.remove(jobId);
+
+    await enhancedQueueSystem.addJob(
+      PIPELINE_QUEUE,
+      'process-upload',
+      { uploadId, userId: upload.userId } satisfies PipelineJobData,
+      { jobId }
+    );
+  }
+
+  async isQueued(uploadId: string): Promise<boolean> {
+    const queue = await enhancedQueueSystem.createQueue(PIPELINE_QUEUE);
+    const job = await queue.getJob(this.getJobId(uploadId));
+    if (!job) return false;
+
+    const state = await job.getState();
+    return ['waiting', 'active', 'delayed', 'prioritized', 'waiting-children'].includes(state);
+  }
+
+  // Marks a stage for regeneration and queues the upload. Later stages keep
+  // their output unless wipeDownstream is set or the stage invalidates it.
+  async reprocessStage(
+    uploadId: string,
+    stageName: PipelineStageName,
+    options: { wipeDownstream?: boolean } = {}
+  ): Promise<void> {
+    const index = PIPELINE_STAGES.findIndex(s => s.name === stageName);
+    if (index === -1) {
+      throw new Error(`Unknown pipeline stage: ${stageName}`);
+    }
+
+    if (await this.isQueued(uploadId)) {
+      throw new Error('Upload is already being processed');
+    }
+
+    const stage = PIPELINE_STAGES[index];
+    const resetStages = options.wipeDownstream || stage.invalidatesDownstream
+      ? PIPELINE_STAGES.slice(index)
+      : [stage];
+
+    for (const reset of resetStages) {
+      await storage.upsertProcessingStage(uploadId, reset.name, {
+        status: 'stale',
+        error: null,
+        completedAt: null,
+      });
+    }
+
+    console.log(`[ProcessingPipeline] Reprocessing upload ${uploadId} from ${stageName} (${resetStages.map(s => s.name).join(', ')})`);
+    await this.enqueue(uploadId);
+  }
+
+  private getJobId(uploadId: string): string {
+    return `upload-${uploadId}`;
+  }
+
+  async resumeIncomplete(): Promise<number> {
+    const uploads = await storage.getUploadsByStatus(IN_PROGRESS_STATUSES);
+
+    for (const upload of uploads) {
+      try {
+        await this.enqueue(upload.id);
+      } catch (error) {
+        console.error(`[ProcessingPipeline] Failed to resume upload ${upload.id}:`, error);
+      }
+    }
+
+    return uploads.length;
+  }
+
+  // Runs every stage that has not completed. The queue retries failed jobs,
+  // so the upload is only marked failed once no attempt is left; until then
+  // it keeps the failed stage's status and the retry picks up from there.
+  async runPipeline(uploadId: string, options: { finalAttempt?: boolean } = {}): Promise<void> {
+    const { finalAttempt = true } = options;
+    const upload = await storage.getUpload(uploadId);
+    if (!upload) {
+      throw new Error('Upload not found');
+    }
+
+    const records = await storage.getProcessingStages(uploadId);
+
+    for (const stage of PIPELINE_STAGES) {
+      const record = records.find(r => r.stage === stage.name);
+
+      if (record?.status === 'completed') {
+        console.log(`[ProcessingPipeline] Skipping completed stage ${stage.name} for upload ${uploadId}`);
+        continue;
+      }
+
+      // Interrupted, failed and stale stages may have left output behind
+      const force = !!record && record.status !== 'pending';
+
+      await storage.updateUploadStatus(uploadId, stage.uploadStatus);
+      await storage.upsertProcessingStage(uploadId, stage.name, {
+        status: 'running',
+        attempts: (record?.attempts || 0) + 1,
+        error: null,
+        startedAt: new Date(),
+        completedAt: null,
+      });
+      console.log(`[ProcessingPipeline] Running stage ${stage.name} for upload ${uploadId}`);
+
+      try {
+        await stage.run(upload, force);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await storage.upsertProcessingStage(uploadId, stage.name, {
+          status: 'failed',
+          error: message,
+        });
+        if (finalAttempt) {
+          await storage.updateUploadStatus(uploadId, 'failed');
+        }
+        console.error(`[ProcessingPipeline] Stage ${stage.name} failed for upload ${uploadId}${finalAttempt ? '' : ', will retry'}:`, message);
+        throw error;
+      }
+
+      await storage.upsertProcessingStage(uploadId, stage.name, {
+        status: 'completed',
+        completedAt: new Date(),
+      });
+    }
+
+    await storage.updateUploadStatus(uploadId, 'completed');
+    console.log(`[ProcessingPipeline] Processing completed for upload ${uploadId}`);
+  }
+
+  async getStages(uploadId: string): Promise<Array<Pick<ProcessingStage, 'stage' | 'status' | 'attempts' | 'error' | 'startedAt' | 'completedAt'>>> {
+    const records = await storage.getProcessingStages(uploadId);
+
+    return PIPELINE_STAGES.map(stage => {
+      const record = records.find(r => r.stage === stage.name);
+      return {
+        stage: stage.name,
+        status: record?.status || 'pending',
+        attempts: record?.attempts || 0,
+        error: record?.error || null,
+        startedAt: record?.startedAt || null,
+        completedAt: record?.completedAt || null,
+      };
+    });
+  }
+}
+
+export const processingPipeline = new ProcessingPipeline();
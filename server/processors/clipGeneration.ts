@@ -1,17 +1,15 @@
 import { generateSocialContent, generateQuoteGraphic } from "../openai";
 import { storage } from "../storage";
+import { getUploadGlossary } from "../glossary";
+import { getWorkspaceCaptionPresets } from "../captionStyles";
+import { clipRenderer } from "../clipRenderer";
+import { RENDER_TARGETS } from "../renderTargets";
+import { isTextDocument } from "../documentText";
 import type { Segment } from "@shared/schema";
-import path from "path";
-import fs from "fs";
 
 export async function processClipGeneration(segments: Segment[]) {
   try {
     console.log(`Starting clip generation for ${segments.length} segments`);
-    
-    const clipsDir = path.join(process.cwd(), 'clips');
-    if (!fs.existsSync(clipsDir)) {
-      fs.mkdirSync(clipsDir, { recursive: true });
-    }
 
     for (const segment of segments) {
       await generateClipsForSegment(segment);
@@ -26,9 +24,10 @@ export async function processClipGeneration(segments: Segment[]) {
   }
 }
 
-async function generateClipsForSegment(segment: Segment) {
+export async function generateClipsForSegment(segment: Segment) {
   try {
     console.log(`Generating clips for segment ${segment.id}: ${segment.title}`);
+    const glossary = await getUploadGlossary(segment.uploadId);
     
     const segmentData = {
       title: segment.title,
@@ -38,9 +37,10 @@ async function generateClipsForSegment(segment: Segment) {
       transcript: segment.transcript || '',
     };
 
+    await renderVerticalShort(segment);
+
     // Generate different types of content
     const clipTypes = [
-      { type: 'vertical_short', platform: 'tiktok' },
       { type: 'social_post', platform: 'twitter' },
       { type: 'social_post', platform: 'linkedin' },
       { type: 'quote_graphic', platform: 'instagram' },
@@ -51,9 +51,9 @@ async function generateClipsForSegment(segment: Segment) {
         let content = '';
         
         if (clipType.type === 'quote_graphic') {
-          content = await generateQuoteGraphic(segmentData);
+          content = await generateQuoteGraphic(segmentData, glossary);
         } else {
-          content = await generateSocialContent(segmentData, clipType.platform);
+          content = await generateSocialContent(segmentData, clipType.platform, glossary);
         }
 
         // Create clip record
@@ -97,20 +97,20 @@ async function generateClipsForSegment(segment: Segment) {
   }
 }
 
-// Mock video processing for vertical shorts
-async function generateVerticalShort(segment: Segment): Promise<string> {
-  // In a real implementation, this would use FFmpeg to:
-  // 1. Extract the segment from the original video
-  // 2. Resize to 9:16 aspect ratio
-  // 3. Add captions/subtitles
-  // 4. Save as MP4
-  
-  // For now, return a placeholder path
-  const filename = `vertical_${segment.id}_${Date.now()}.mp4`;
-  const filePath = path.join(process.cwd(), 'clips', filename);
-  
-  // Create placeholder file
-  fs.writeFileSync(filePath, 'placeholder video content');
-  
-  return filePath;
+// Renders the segment as a 9:16 short, or an audiogram for audio uploads,
+// with the workspace's default caption style. A failed render is recorded
+// on the clip and does not stop the text content from being generated.
+// Text documents have no media to render.
+async function renderVerticalShort(segment: Segment) {
+  const upload = await storage.getUpload(segment.uploadId);
+  if (!upload || isTextDocument(upload)) return;
+
+  try {
+    const [preset] = await getWorkspaceCaptionPresets(upload.workspaceId);
+    await clipRenderer.renderSegmentNow(segment, RENDER_TARGETS['9:16'], { captionStyle: preset.style });
+    console.log(`Rendered vertical short for segment ${segment.id}`);
+  } catch (error) {
+    const err = error as any;
+    console.error(`Failed to render vertical short for segment ${segment.id}:`, err);
+  }
 }
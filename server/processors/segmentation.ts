@@ -1,19 +1,59 @@
-import { generateSegments } from "../openai";
+import { generateSegments, generateSentenceSegments, type SegmentResult, type SentenceSegmentResult } from "../openai";
 import { storage } from "../storage";
+import { clipRenderer } from "../clipRenderer";
+import { removeThumbnailFrames } from "../thumbnailFrames";
+import { getWorkspaceGlossary } from "../glossary";
+import { buildSentences, getTranscriptWords, type TranscriptSentence } from "../transcriptData";
+import type { Transcript, Upload } from "@shared/schema";
+
+const BOUNDARY_PADDING = 0.25; // Max seconds a cut may move into the surrounding silence
+const DURATION_TOLERANCE = 0.5; // Provider timestamps may run slightly past the probed duration
+
+export async function processSegmentation(
+  upload: Upload,
+  transcript: Transcript,
+  options: { force?: boolean } = {}
+) {
+  const uploadId = upload.id;
 
-export async function processSegmentation(uploadId: string, transcriptText: string) {
   try {
     console.log(`Starting segmentation for upload ${uploadId}`);
     
     // Check if segments already exist
     const existingSegments = await storage.getSegmentsByUploadId(uploadId);
     if (existingSegments.length > 0) {
-      console.log(`Segments already exist for upload ${uploadId}`);
-      return existingSegments;
+      if (!options.force) {
+        console.log(`Segments already exist for upload ${uploadId}`);
+        return existingSegments;
+      }
+      // Removing segments also removes their clips and social posts; the
+      // files behind them go once nothing else refers to them
+      console.log(`Discarding ${existingSegments.length} existing segments for upload ${uploadId}`);
+      await clipRenderer.removeUploadClips(uploadId);
+      await storage.deleteSegmentsByUploadId(uploadId);
+      for (const segment of existingSegments) {
+        await removeThumbnailFrames(segment);
+      }
     }
 
-    // Generate segments using AI
-    const segmentResults = await generateSegments(transcriptText);
+    // Generate segments using AI, aligned to word timestamps when available
+    const words = getTranscriptWords(transcript);
+    const glossary = await getWorkspaceGlossary(upload.workspaceId);
+    let segmentResults: SegmentResult[];
+
+    if (words.length > 0) {
+      const sentences = buildSentences(words);
+      const duration = parseFloat(upload.duration || '') || words[words.length - 1].end;
+      const sentenceSegments = await generateSentenceSegments(sentences, glossary);
+      segmentResults = alignSentenceSegments(sentenceSegments, sentences, duration);
+    } else {
+      console.log(`No word timestamps for upload ${uploadId}, falling back to estimated segment times`);
+      segmentResults = await generateSegments(transcript.text, glossary);
+    }
+
+    if (segmentResults.length === 0) {
+      throw new Error('No valid segments were generated');
+    }
     
     // Convert to database format
     const segmentsToInsert = segmentResults.map((segment, index) => ({
@@ -38,3 +78,78 @@ export async function processSegmentation(uploadId: string, transcriptText: stri
     throw new Error(`Segmentation failed: ${err.message}`);
   }
 }
+
+// Maps sentence ranges from the model onto word-aligned times. Cuts land in
+// the silence around the first and last sentence; ranges that are invalid,
+// overlap an earlier segment or run past the media are dropped.
+export function alignSentenceSegments(
+  results: SentenceSegmentResult[],
+  sentences: TranscriptSentence[],
+  duration: number
+): SegmentResult[] {
+  const aligned: SegmentResult[] = [];
+  let lastSentence = -1;
+  let lastEnd = 0;
+
+  const ordered = [...results].sort((a, b) => a.startSentence - b.startSentence);
+
+  for (const result of ordered) {
+    const first = Number(result.startSentence);
+    const last = Number(result.endSentence);
+
+    if (!Number.isInteger(first) || !Number.isInteger(last) || first < 0 || last >= sentences.length || first > last) {
+      console.warn(`Rejecting segment "${result.title}": invalid sentence range ${result.startSentence}-${result.endSentence}`);
+      continue;
+    }
+
+    if (first <= lastSentence) {
+      console.warn(`Rejecting segment "${result.title}": overlaps the previous segment`);
+      continue;
+    }
+
+    const startTime = snapStart(sentences, first);
+    const endTime = snapEnd(sentences, last, duration);
+
+    if (startTime >= duration || sentences[last].end > duration + DURATION_TOLERANCE) {
+      console.warn(`Rejecting segment "${result.title}": ${startTime}-${endTime}s falls outside media duration ${duration}s`);
+      continue;
+    }
+
+    if (startTime < lastEnd) {
+      console.warn(`Rejecting segment "${result.title}": overlaps the previous segment`);
+      continue;
+    }
+
+    aligned.push({
+      title: result.title,
+      summary: result.summary,
+      startTime,
+      endTime,
+      transcript: sentences.slice(first, last + 1).map(sentence => sentence.text).join(' '),
+    });
+    lastSentence = last;
+    lastEnd = endTime;
+  }
+
+  return aligned;
+}
+
+// Starts a little before the first word, but never past the middle of the
+// preceding silence so the previous sentence is not clipped in
+function snapStart(sentences: TranscriptSentence[], index: number): number {
+  const wordStart = sentences[index].start;
+  const previousEnd = index > 0 ? sentences[index - 1].end : 0;
+  const gap = Math.max(0, wordStart - previousEnd);
+  return round(Math.max(0, wordStart - Math.min(BOUNDARY_PADDING, gap / 2)));
+}
+
+function snapEnd(sentences: TranscriptSentence[], index: number, duration: number): number {
+  const wordEnd = sentences[index].end;
+  const nextStart = index + 1 < sentences.length ? sentences[index + 1].start : duration;
+  const gap = Math.max(0, nextStart - wordEnd);
+  return round(Math.min(duration, wordEnd + Math.min(BOUNDARY_PADDING, gap / 2)));
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
@@ -1,7 +1,10 @@
 import { storage } from "../storage";
 import { generateSocialContent, generateQuoteGraphic } from "../openai";
+import { getUploadGlossary, type GlossaryTerm } from "../glossary";
 import type { Segment } from "@shared/schema";
 
+const SOCIAL_PLATFORMS = ['tiktok', 'instagram', 'linkedin', 'twitter'];
+
 export async function processSocialContent(uploadId: string) {
   try {
     console.log(`Starting social content generation for upload ${uploadId}`);
@@ -12,16 +15,7 @@ export async function processSocialContent(uploadId: string) {
     }
 
     // Generate content for each platform and segment
-    const platforms = ['tiktok', 'instagram', 'linkedin', 'twitter'];
-    const contentPromises = [];
-
-    for (const segment of segments) {
-      for (const platform of platforms) {
-        contentPromises.push(generateContentForSegment(segment, platform));
-      }
-    }
-
-    await Promise.all(contentPromises);
+    await Promise.all(segments.map(segment => generateSocialContentForSegment(segment)));
     console.log(`Social content generation completed for upload ${uploadId}`);
     
   } catch (error) {
@@ -31,7 +25,12 @@ export async function processSocialContent(uploadId: string) {
   }
 }
 
-async function generateContentForSegment(segment: Segment, platform: string) {
+export async function generateSocialContentForSegment(segment: Segment) {
+  const glossary = await getUploadGlossary(segment.uploadId);
+  await Promise.all(SOCIAL_PLATFORMS.map(platform => generateContentForSegment(segment, platform, glossary)));
+}
+
+async function generateContentForSegment(segment: Segment, platform: string, glossary: GlossaryTerm[]) {
   try {
     // Convert segment to SegmentResult format for OpenAI functions
     const segmentResult = {
@@ -43,7 +42,7 @@ async function generateContentForSegment(segment: Segment, platform: string) {
     };
 
     // Generate text content
-    const content = await generateSocialContent(segmentResult, platform);
+    const content = await generateSocialContent(segmentResult, platform, glossary);
     
     // Create social post record
     await storage.createSocialPost({
@@ -57,7 +56,7 @@ async function generateContentForSegment(segment: Segment, platform: string) {
     // Generate quote graphic for visual platforms
     if (['instagram', 'linkedin', 'twitter'].includes(platform)) {
       try {
-        const quoteGraphic = await generateQuoteGraphic(segmentResult);
+        const quoteGraphic = await generateQuoteGraphic(segmentResult, glossary);
         
         await storage.createSocialPost({
           segmentId: segment.id,
@@ -0,0 +1,50 @@
+import { extractDocumentText, getDocumentFormat } from "../documentText";
+import { storage } from "../storage";
+import { resolveLocalPath } from "../blobStore";
+import type { Upload } from "@shared/schema";
+
+// Text documents take the place of transcription: the extracted text is
+// stored as a transcript without word timestamps, so segmentation and
+// content generation run unchanged while media rendering is skipped.
+export async function processTextDocument(upload: Upload, options: { force?: boolean } = {}) {
+  try {
+    console.log(`Starting text extraction for upload ${upload.id}`);
+
+    const existingTranscript = await storage.getTranscriptByUploadId(upload.id);
+    if (existingTranscript) {
+      if (!options.force) {
+        console.log(`Transcript already exists for upload ${upload.id}`);
+        return existingTranscript;
+      }
+      console.log(`Discarding existing transcript for upload ${upload.id}`);
+      await storage.deleteTranscriptByUploadId(upload.id);
+    }
+
+    const format = getDocumentFormat(upload);
+    if (!format) {
+      throw new Error(`Unsupported document type ${upload.mimeType}`);
+    }
+
+    const text = await extractDocumentText(await resolveLocalPath(upload.filePath), format);
+    if (!text) {
+      throw new Error('Document contains no text');
+    }
+
+    const transcript = await storage.createTranscript({
+      uploadId: upload.id,
+      text,
+      wordTimestamps: null,
+      speakerTurns: null,
+      language: null,
+      confidence: null,
+    });
+
+    console.log(`Text extraction completed for upload ${upload.id} (${format}, ${text.length} characters)`);
+    return transcript;
+
+  } catch (error) {
+    const err = error as Error;
+    console.error(`Text extraction failed for upload ${upload.id}:`, err);
+    throw new Error(`Text extraction failed: ${err.message}`);
+  }
+}
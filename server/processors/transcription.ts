@@ -1,27 +1,47 @@
 import { transcribeAudio } from "../openai";
+import { transcriptionProviders } from "../transcriptionProviders";
+import { applyGlossary, buildTranscriptionPrompt, getWorkspaceGlossary } from "../glossary";
 import { storage } from "../storage";
+import { getProcessedMediaPath } from "../audioPreprocessing";
 import type { Upload } from "@shared/schema";
 import path from "path";
 
-export async function processTranscription(upload: Upload) {
+export async function processTranscription(upload: Upload, options: { force?: boolean } = {}) {
   try {
     console.log(`Starting transcription for upload ${upload.id}`);
     
     // Check if transcript already exists
     const existingTranscript = await storage.getTranscriptByUploadId(upload.id);
     if (existingTranscript) {
-      console.log(`Transcript already exists for upload ${upload.id}`);
-      return existingTranscript;
+      if (!options.force) {
+        console.log(`Transcript already exists for upload ${upload.id}`);
+        return existingTranscript;
+      }
+      console.log(`Discarding existing transcript for upload ${upload.id}`);
+      await storage.deleteTranscriptByUploadId(upload.id);
     }
 
-    // Perform transcription
-    const transcriptionResult = await transcribeAudio(upload.filePath);
+    // Perform transcription with the workspace's configured provider,
+    // hinting and then correcting the spelling of glossary terms
+    const provider = await transcriptionProviders.resolveForWorkspace(upload.workspaceId);
+    const glossary = await getWorkspaceGlossary(upload.workspaceId);
+    console.log(`Transcribing upload ${upload.id} with ${provider}`);
+    const mediaPath = await getProcessedMediaPath(upload);
+    const transcriptionResult = applyGlossary(
+      await transcribeAudio(mediaPath, {
+        provider,
+        prompt: buildTranscriptionPrompt(glossary),
+        vocabulary: glossary.map(entry => entry.term),
+      }),
+      glossary
+    );
     
     // Save transcript to database
     const transcript = await storage.createTranscript({
       uploadId: upload.id,
       text: transcriptionResult.text,
       wordTimestamps: transcriptionResult.words ? JSON.stringify(transcriptionResult.words) : null,
+      speakerTurns: transcriptionResult.speakers ? JSON.stringify(transcriptionResult.speakers) : null,
       language: transcriptionResult.language,
       confidence: transcriptionResult.duration?.toString(),
     });
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const http = vi.hoisted(() => ({ fetch: vi.fn() }));
+
+vi.mock("undici", () => ({
+  Agent: class {},
+  fetch: http.fetch,
+}));
+
+const { assertPublicUrl, fetchPublic, isInternalAddress, publicLookup } = await import("./publicFetch");
+
+function redirect(location: string) {
+  return new Response(null, { status: 302, headers: { location } });
+}
+
+beforeEach(() => {
+  http.fetch.mockReset();
+});
+
+describe("isInternalAddress", () => {
+  it.each([
+    "127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1",
+    "0.0.0.0", "198.18.0.1", "198.19.255.255", "224.0.0.1", "239.255.255.250", "255.255.255.255",
+  ])("blocks the IPv4 address %s", address => {
+    expect(isInternalAddress(address)).toBe(true);
+  });
+
+  it.each([
+    "::1", "::", "fc00::1", "fd12:3456::1", "fe80::1", "ff02::1",
+    "::ffff:127.0.0.1", "::ffff:7f00:1", "[::ffff:7f00:1]", "::ffff:a9fe:a9fe", "0:0:0:0:0:ffff:c0a8:101",
+    "::127.0.0.1", "64:ff9b::7f00:1", "64:ff9b::10.0.0.1", "64:ff9b:1::1", "2002:7f00:1::", "2001:0:4136:e378::1",
+    "fe80::1%eth0",
+  ])("blocks the IPv6 address %s", address => {
+    expect(isInternalAddress(address)).toBe(true);
+  });
+
+  it.each(["8.8.8.8", "93.184.216.34", "2606:4700:4700::1111", "::ffff:808:808", "64:ff9b::808:808", "2002:808:808::1"])(
+    "allows the public address %s",
+    address => {
+      expect(isInternalAddress(address)).toBe(false);
+    }
+  );
+
+  it("treats anything that is not an address as internal", () => {
+    expect(isInternalAddress("localhost")).toBe(true);
+  });
+
+  it("blocks the hostname URL gives for a mapped loopback address", async () => {
+    expect(new URL("http://[::ffff:127.0.0.1]/").hostname).toBe("[::ffff:7f00:1]");
+    await expect(assertPublicUrl("http://[::ffff:127.0.0.1]/")).rejects.toThrow("URLs on internal networks cannot be imported");
+  });
+});
+
+describe("assertPublicUrl", () => {
+  it("rejects other schemes and unparseable URLs", async () => {
+    await expect(assertPublicUrl("file:///etc/passwd")).rejects.toThrow("Only http and https URLs can be imported");
+    await expect(assertPublicUrl("not a url")).rejects.toThrow("Invalid URL");
+  });
+});
+
+describe("publicLookup", () => {
+  it("fails the connection when the name resolves to an internal address", async () => {
+    const error = await new Promise<NodeJS.ErrnoException | null>(resolve => {
+      publicLookup("localhost", { all: true }, error => resolve(error));
+    });
+
+    expect(error?.message).toBe("localhost resolves to an internal address");
+  });
+});
+
+describe("fetchPublic", () => {
+  it("follows redirects to public addresses", async () => {
+    http.fetch
+      .mockResolvedValueOnce(redirect("/episode.mp3"))
+      .mockResolvedValueOnce(new Response("audio", { status: 200 }));
+
+    const response = await fetchPublic("http://93.184.216.34/feed");
+
+    expect(await response.text()).toBe("audio");
+    expect(http.fetch.mock.calls.map(call => call[0])).toEqual(["http://93.184.216.34/feed", "http://93.184.216.34/episode.mp3"]);
+    expect(http.fetch.mock.calls[0][1]).toMatchObject({ redirect: "manual" });
+    expect(http.fetch.mock.calls[0][1].dispatcher).toBeDefined();
+  });
+
+  it("refuses a redirect into an internal network", async () => {
+    http.fetch.mockResolvedValueOnce(redirect("http://[::ffff:169.254.169.254]/latest/meta-data"));
+
+    await expect(fetchPublic("http://93.184.216.34/feed")).rejects.toThrow("URLs on internal networks cannot be imported");
+    expect(http.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after too many redirects", async () => {
+    http.fetch.mockImplementation(async () => redirect("/again"));
+
+    await expect(fetchPublic("http://93.184.216.34/loop")).rejects.toThrow("Too many redirects");
+    expect(http.fetch).toHaveBeenCalledTimes(6);
+  });
+});
@@ -0,0 +1,155 @@
+import dns from 'dns';
+import net from 'net';
+import { Agent, fetch, type Response } from 'undici';
+
+// Fetching URLs supplied by users without reaching this machine or the
+// networks around it. Addresses are checked twice: up front so bad input
+// fails in the request, and again in the connection's own DNS lookup, so a
+// name that resolves differently the second time (DNS rebinding) cannot
+// slip a private address in between.
+
+const MAX_REDIRECTS = 5;
+const USER_AGENT = 'AutoStage/1.0 (+media import)';
+
+const BLOCKED = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // Link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // Documentation
+  ['192.88.99.0', 24], // 6to4 relay anycast
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // Benchmarking
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved, including the broadcast address
+] as const) {
+  BLOCKED.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['64:ff9b:1::', 48], // Local-use NAT64
+  ['100::', 64], // Discard-only
+  ['2001::', 32], // Teredo
+  ['2001:db8::', 32], // Documentation
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['fec0::', 10], // Site-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  BLOCKED.addSubnet(network, prefix, 'ipv6');
+}
+
+// Whether an address is loopback, private, link-local, multicast or
+// otherwise not on the public internet. IPv6 forms that carry an IPv4
+// address (mapped, compatible, NAT64, 6to4) are judged by that address.
+export function isInternalAddress(address: string): boolean {
+  const bare = address.replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+
+  if (net.isIPv4(bare)) return BLOCKED.check(bare, 'ipv4');
+  if (!net.isIPv6(bare)) return true;
+
+  const bytes = ipv6Bytes(bare);
+  const zeros = (from: number, to: number) => bytes.slice(from, to).every(byte => byte === 0);
+  const ipv4 = (from: number) => bytes.slice(from, from + 4).join('.');
+
+  if (zeros(0, 10) && bytes[10] === 0xff && bytes[11] === 0xff) return isInternalAddress(ipv4(12)); // ::ffff:a.b.c.d
+  if (zeros(0, 12)) return isInternalAddress(ipv4(12)); // ::a.b.c.d, also :: and ::1
+  if (bytes[0] === 0x00 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b && zeros(4, 12)) {
+    return isInternalAddress(ipv4(12)); // NAT64 64:ff9b::/96
+  }
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) return isInternalAddress(ipv4(2)); // 6to4 2002::/16
+
+  return BLOCKED.check(bare, 'ipv6');
+}
+
+// The 16 bytes of a valid IPv6 address, in any of its textual forms
+function ipv6Bytes(address: string): number[] {
+  let text = address.toLowerCase();
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const parse = (part: string | undefined) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const front = parse(head);
+  const back = parse(tail);
+  const groups = tail === undefined ? front : [...front, ...new Array(8 - front.length - back.length).fill(0), ...back];
+
+  return groups.flatMap(group => [group >> 8, group & 0xff]);
+}
+
+// Checks the scheme and that the host resolves only to public addresses
+export async function assertPublicUrl(url: string): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Invalid URL');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Only http and https URLs can be imported');
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : (await dns.promises.lookup(hostname, { all: true }).catch(() => [])).map(entry => entry.address);
+
+  if (addresses.length === 0) {
+    throw new Error(`Could not resolve ${parsed.hostname}`);
+  }
+  if (addresses.some(isInternalAddress)) {
+    throw new Error('URLs on internal networks cannot be imported');
+  }
+  return parsed;
+}
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void;
+
+// DNS lookup for outgoing connections that fails on any internal address,
+// so the address connected to is one that passed the check
+export function publicLookup(hostname: string, options: dns.LookupOptions, callback: LookupCallback): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.length === 0 || addresses.some(entry => isInternalAddress(entry.address))) {
+      const blocked: NodeJS.ErrnoException = new Error(`${hostname} resolves to an internal address`);
+      blocked.code = 'EADDRNOTAVAIL';
+      return callback(blocked, []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+// Follows redirects by hand so every hop is checked against internal addresses
+export async function fetchPublic(url: string, headers: Record<string, string> = {}): Promise<Response> {
+  let current = url;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicUrl(current);
+    const response = await fetch(current, {
+      headers: { 'User-Agent': USER_AGENT, ...headers },
+      redirect: 'manual',
+      dispatcher: publicAgent,
+    });
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      current = new URL(location, current).toString();
+      continue;
+    }
+    return response;
+  }
+
+  throw new Error('Too many redirects');
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { buildReframeFilters, pathExpression, simplifyPath, trackSubject, type CropKeyframe, type FrameAnalysis } from "./reframe";
+
+const COLUMNS = 160;
+const FPS = 8;
+const WINDOW = 0.32; // A 9:16 crop of a 16:9 source
+
+// A frame with a "face" spanning `width` analysis columns around `center`
+function frame(index: number, center: number | null, cut = false, width = 16): FrameAnalysis {
+  const skin = new Float32Array(COLUMNS);
+  if (center !== null) {
+    const from = Math.round(center * COLUMNS - width / 2);
+    for (let x = Math.max(0, from); x < Math.min(COLUMNS, from + width); x++) skin[x] = 10;
+  }
+  return { time: index / FPS, cut, skin, motion: new Float32Array(COLUMNS) };
+}
+
+// Evaluates an ffmpeg expression built from if/lt/max/min and arithmetic
+function evaluate(expression: string, variables: Record<string, number>): number {
+  const js = expression.replace(/\bif\(/g, "cond(");
+  const names = Object.keys(variables);
+  const fn = new Function("cond", "lt", "max", "min", ...names, `return ${js};`);
+  return fn(
+    (test: number, a: number, b: number) => (test ? a : b),
+    (a: number, b: number) => (a < b ? 1 : 0),
+    Math.max,
+    Math.min,
+    ...names.map(name => variables[name])
+  );
+}
+
+function centerAt(path: CropKeyframe[], t: number): number {
+  return evaluate(pathExpression(path), { t });
+}
+
+describe("simplifyPath", () => {
+  it("reduces a steady pan to its end points", () => {
+    const pan = Array.from({ length: 20 }, (_, i) => ({ time: i / FPS, center: 0.3 + i * 0.01 }));
+
+    expect(simplifyPath(pan, 0.005)).toEqual([pan[0], pan[19]]);
+  });
+
+  it("keeps the turning point of a pan that reverses", () => {
+    const there = Array.from({ length: 10 }, (_, i) => ({ time: i, center: 0.3 + i * 0.02 }));
+    const back = Array.from({ length: 10 }, (_, i) => ({ time: 10 + i, center: 0.46 - i * 0.02 }));
+
+    expect(simplifyPath([...there, ...back], 0.005)).toEqual([there[0], there[9], back[9]]);
+  });
+
+  it("keeps short paths as they are", () => {
+    const path = [{ time: 0, center: 0.2 }, { time: 1, center: 0.8 }];
+    expect(simplifyPath(path, 0.005)).toBe(path);
+  });
+});
+
+describe("pathExpression", () => {
+  const path = [{ time: 0, center: 0.2 }, { time: 2, center: 0.6 }, { time: 2.01, center: 0.3 }, { time: 4, center: 0.3 }];
+
+  it("passes through each keyframe and interpolates between them", () => {
+    expect(centerAt(path, 0)).toBeCloseTo(0.2, 4);
+    expect(centerAt(path, 1)).toBeCloseTo(0.4, 4);
+    expect(centerAt(path, 1.999)).toBeCloseTo(0.6, 3);
+    expect(centerAt(path, 3)).toBeCloseTo(0.3, 4);
+  });
+
+  it("holds the last position past the end", () => {
+    expect(centerAt(path, 10)).toBeCloseTo(0.3, 4);
+    expect(pathExpression([{ time: 0, center: 0.55 }])).toBe("0.5500");
+  });
+});
+
+describe("trackSubject", () => {
+  it("holds still for a subject jittering inside the dead zone", () => {
+    const frames = Array.from({ length: 40 }, (_, i) => frame(i, i % 2 ? 0.52 : 0.48));
+
+    const path = trackSubject(frames, WINDOW);
+
+    expect(path).toHaveLength(2);
+    expect(path[0].center).toBeCloseTo(path[1].center, 4);
+  });
+
+  it("pans towards a subject that moves, no faster than the speed cap", () => {
+    const frames = Array.from({ length: 64 }, (_, i) => frame(i, i < 16 ? 0.2 : 0.8));
+
+    const path = trackSubject(frames, WINDOW);
+
+    expect(path[0].center).toBeCloseTo(0.2, 1);
+    expect(path[path.length - 1].center).toBeGreaterThan(0.7);
+    for (let i = 1; i < path.length; i++) {
+      const speed = Math.abs(path[i].center - path[i - 1].center) / (path[i].time - path[i - 1].time);
+      expect(speed).toBeLessThanOrEqual(0.25 + 1e-6);
+    }
+  });
+
+  it("jumps at a cut instead of panning across it", () => {
+    const frames = Array.from({ length: 32 }, (_, i) => frame(i, i < 16 ? 0.2 : 0.8, i === 16));
+
+    const path = trackSubject(frames, WINDOW);
+    const cut = path.findIndex(point => point.center > 0.5);
+
+    expect(path[cut].time - path[cut - 1].time).toBeLessThanOrEqual(0.01 + 1e-9);
+    expect(centerAt(path, 1.8)).toBeCloseTo(0.2, 1);
+    expect(centerAt(path, 2.1)).toBeCloseTo(0.8, 1);
+  });
+
+  it("holds the nearest known position through frames without a subject", () => {
+    const frames = Array.from({ length: 24 }, (_, i) => frame(i, i < 4 ? null : 0.7));
+
+    const path = trackSubject(frames, WINDOW);
+
+    expect(path.every(point => Math.abs(point.center - 0.7) < 0.01)).toBe(true);
+  });
+});
+
+describe("buildReframeFilters", () => {
+  const target = { width: 1080, height: 1920 };
+
+  it("keeps the tracked crop inside the frame, even for subjects at the edges", () => {
+    const frames = Array.from({ length: 64 }, (_, i) => frame(i, i < 32 ? 0.01 : 0.99, i === 32, 4));
+    const [, crop] = buildReframeFilters({ layout: "track", path: trackSubject(frames, WINDOW) }, target);
+    const x = /x='([^']+)'/.exec(crop)![1];
+
+    // A 1920x1080 source scaled to 1920 high is 3413 wide
+    const iw = 3413;
+    const ow = target.width;
+    for (let t = 0; t <= 8; t += 0.05) {
+      const left = evaluate(x, { iw, ow, t });
+      expect(left).toBeGreaterThanOrEqual(0);
+      expect(left).toBeLessThanOrEqual(iw - ow);
+    }
+    expect(evaluate(x, { iw, ow, t: 0 })).toBe(0);
+    expect(evaluate(x, { iw, ow, t: 7.9 })).toBe(iw - ow);
+  });
+
+  it("falls back to a centred crop for a track plan without a path", () => {
+    const [, crop] = buildReframeFilters({ layout: "track" }, target);
+    expect(evaluate(/x='([^']+)'/.exec(crop)![1], { iw: 3413, ow: 1080, t: 3 })).toBeCloseTo((3413 - 1080) / 2, 0);
+  });
+});
@@ -0,0 +1,374 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+// auto picks track, split or blur from what the analysis finds
+export type ReframeLayout = 'auto' | 'track' | 'split' | 'blur' | 'center';
+
+export interface CropKeyframe {
+  time: number; // Seconds from the start of the clip
+  center: number; // Horizontal centre of the crop, 0-1 of the source width
+}
+
+export interface ReframePlan {
+  layout: Exclude<ReframeLayout, 'auto'>;
+  path?: CropKeyframe[]; // track: smoothed crop path
+  subjects?: [number, number]; // split: centres of the left and right subjects
+}
+
+export interface FrameAnalysis {
+  time: number;
+  cut: boolean; // First frame of a new shot
+  skin: Float32Array; // Skin-tone pixels per column, a stand-in for faces
+  motion: Float32Array; // Luma change per column since the previous frame
+}
+
+// Frames are analysed at low resolution; only horizontal position matters
+const ANALYSIS_WIDTH = 160;
+const ANALYSIS_HEIGHT = 90;
+const ANALYSIS_FPS = 8;
+
+const CUT_THRESHOLD = 32; // Mean luma difference that marks a shot change
+const SMOOTHING_SECONDS = 1; // Moving average on each side of a frame
+const DEAD_ZONE = 0.04; // Ignore drift smaller than this fraction of the width
+const MAX_PAN_SPEED = 0.25; // Widths per second
+const PATH_TOLERANCE = 0.005;
+const MAX_KEYFRAMES = 150; // Keeps the crop expression within ffmpeg's limits
+
+// Decides how to fit a landscape clip into the target frame. Sources that
+// are already as narrow as the target need no reframing.
+export async function planReframe(
+  videoPath: string,
+  startTime: number,
+  duration: number,
+  source: { width: number; height: number },
+  target: { width: number; height: number },
+  layout: ReframeLayout
+): Promise<ReframePlan> {
+  const windowFraction = cropFraction(source, target.width / target.height);
+  if (layout === 'center' || layout === 'blur' || windowFraction >= 1) {
+    return { layout: layout === 'blur' ? 'blur' : 'center' };
+  }
+
+  const frames = await analyzeFrames(videoPath, startTime, duration);
+  const withSubject = frames.filter(frame => sum(frame.skin) + sum(frame.motion) > 0);
+
+  if (!withSubject.length) {
+    return { layout: layout === 'auto' ? 'blur' : 'center' };
+  }
+
+  if (layout === 'split' || layout === 'auto') {
+    const splitFraction = cropFraction(source, target.width / (target.height / 2));
+    const subjects = findTwoSubjects(frames, splitFraction);
+
+    if (subjects && (layout === 'split' || twoSubjectShare(frames, windowFraction) > 0.5)) {
+      return { layout: 'split', subjects };
+    }
+    if (layout === 'split') {
+      return { layout: 'center' };
+    }
+  }
+
+  return { layout: 'track', path: trackSubject(frames, windowFraction) };
+}
+
+// Filters that turn the source into the target frame for a plan
+export function buildReframeFilters(plan: ReframePlan, target: { width: number; height: number }): string[] {
+  const { width, height } = target;
+
+  switch (plan.layout) {
+    case 'track': {
+      const center = pathExpression(plan.path || [{ time: 0, center: 0.5 }]);
+      return [
+        `scale=-2:${height}`,
+        `crop=${width}:${height}:x='max(0,min(iw-ow,(${center})*iw-ow/2))':y=0`,
+        'setsar=1',
+      ];
+    }
+
+    case 'split': {
+      const panelHeight = height / 2;
+      const [left, right] = plan.subjects || [0.25, 0.75];
+      const panel = (center: number) =>
+        `scale=-2:${panelHeight},crop=${width}:${panelHeight}:x='max(0,min(iw-ow,${center.toFixed(4)}*iw-ow/2))':y=0`;
+      return [`split[left][right];[left]${panel(left)}[top];[right]${panel(right)}[bottom];[top][bottom]vstack,setsar=1`];
+    }
+
+    case 'blur':
+      // Whole frame letterboxed over a blurred, zoomed copy of itself
+      return [
+        `split[bg][fg];[bg]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},boxblur=20:2[blurred];` +
+          `[fg]scale=${width}:${height}:force_original_aspect_ratio=decrease[framed];[blurred][framed]overlay=(W-w)/2:(H-h)/2,setsar=1`,
+      ];
+
+    default:
+      return [
+        `scale=${width}:${height}:force_original_aspect_ratio=increase`,
+        `crop=${width}:${height}`,
+      ];
+  }
+}
+
+// Share of the source width covered by a full-height crop at the aspect ratio
+function cropFraction(source: { width: number; height: number }, aspect: number): number {
+  return (source.height * aspect) / source.width;
+}
+
+function analyzeFrames(videoPath: string, startTime: number, duration: number): Promise<FrameAnalysis[]> {
+  return new Promise((resolve, reject) => {
+    const frameSize = ANALYSIS_WIDTH * ANALYSIS_HEIGHT * 3;
+    const frames: FrameAnalysis[] = [];
+    let pending = Buffer.alloc(0);
+    let previousLuma: Float32Array | null = null;
+
+    const stream = ffmpeg(videoPath)
+      .seekInput(startTime)
+      .duration(duration)
+      .noAudio()
+      .videoFilters([`fps=${ANALYSIS_FPS}`, `scale=${ANALYSIS_WIDTH}:${ANALYSIS_HEIGHT}`])
+      .format('rawvideo')
+      .outputOptions(['-pix_fmt rgb24'])
+      .on('error', (error: Error) => reject(error))
+      .pipe();
+
+    stream.on('data', (chunk: Buffer) => {
+      pending = Buffer.concat([pending, chunk]);
+      while (pending.length >= frameSize) {
+        const luma = new Float32Array(ANALYSIS_WIDTH * ANALYSIS_HEIGHT);
+        const frame = analyzeFrame(pending.subarray(0, frameSize), previousLuma, luma);
+        frames.push({ ...frame, time: frames.length / ANALYSIS_FPS });
+        previousLuma = luma;
+        pending = pending.subarray(frameSize);
+      }
+    });
+    stream.on('end', () => resolve(frames));
+    stream.on('error', (error: Error) => reject(error));
+  });
+}
+
+function analyzeFrame(
+  pixels: Buffer,
+  previousLuma: Float32Array | null,
+  luma: Float32Array
+): Omit<FrameAnalysis, 'time'> {
+  const skin = new Float32Array(ANALYSIS_WIDTH);
+  const motion = new Float32Array(ANALYSIS_WIDTH);
+  // Faces sit in the upper part of the frame; the bottom is mostly hands and desks
+  const faceRows = Math.round(ANALYSIS_HEIGHT * 0.75);
+  let totalDifference = 0;
+
+  for (let y = 0; y < ANALYSIS_HEIGHT; y++) {
+    for (let x = 0; x < ANALYSIS_WIDTH; x++) {
+      const index = y * ANALYSIS_WIDTH + x;
+      const r = pixels[index * 3];
+      const g = pixels[index * 3 + 1];
+      const b = pixels[index * 3 + 2];
+
+      luma[index] = 0.299 * r + 0.587 * g + 0.114 * b;
+      if (previousLuma) {
+        const difference = Math.abs(luma[index] - previousLuma[index]);
+        totalDifference += difference;
+        // Ignore sensor noise and compression flicker
+        if (difference > 12) motion[x] += difference / 255;
+      }
+
+      if (y < faceRows && isSkinTone(r, g, b)) skin[x]++;
+    }
+  }
+
+  const cut = !!previousLuma && totalDifference / luma.length > CUT_THRESHOLD;
+  // Motion across a cut is the cut itself, not a subject
+  if (cut || !previousLuma) motion.fill(0);
+
+  return { cut, skin, motion };
+}
+
+// RGB skin classifier from Kovac et al., good enough to locate people
+export function isSkinTone(r: number, g: number, b: number): boolean {
+  return r > 95 && g > 40 && b > 20 &&
+    Math.max(r, g, b) - Math.min(r, g, b) > 15 &&
+    Math.abs(r - g) > 15 && r > g && r > b;
+}
+
+// Faces weigh most; motion inside them favours whoever is speaking
+function saliency(frame: FrameAnalysis): Float32Array {
+  const skinPeak = max(frame.skin);
+  const motionPeak = max(frame.motion);
+  const values = new Float32Array(ANALYSIS_WIDTH);
+
+  for (let x = 0; x < ANALYSIS_WIDTH; x++) {
+    const skin = skinPeak > 0 ? frame.skin[x] / skinPeak : 0;
+    const motion = motionPeak > 0 ? frame.motion[x] / motionPeak : 0;
+    values[x] = skin * (1 + motion) + motion * 0.25;
+  }
+  return values;
+}
+
+// Crop window holding the most of the given column weights. The centre is
+// the weighted centroid inside it, so a subject narrower than the window
+// ends up in the middle rather than at an edge.
+function bestWindow(values: Float32Array, windowColumns: number, exclude?: { from: number; to: number }): { center: number; total: number } {
+  const weight = (x: number) => (exclude && x >= exclude.from && x < exclude.to ? 0 : values[x]);
+  let bestStart = 0;
+  let bestTotal = 0;
+
+  for (let start = 0; start + windowColumns <= values.length; start++) {
+    let total = 0;
+    for (let x = start; x < start + windowColumns; x++) total += weight(x);
+    if (total > bestTotal) {
+      bestTotal = total;
+      bestStart = start;
+    }
+  }
+  if (!bestTotal) return { center: 0.5, total: 0 };
+
+  let moment = 0;
+  for (let x = bestStart; x < bestStart + windowColumns; x++) moment += weight(x) * (x + 0.5);
+  return { center: moment / bestTotal / values.length, total: bestTotal };
+}
+
+// Follows the most salient subject, smoothing within shots and jumping at cuts
+export function trackSubject(frames: FrameAnalysis[], windowFraction: number): CropKeyframe[] {
+  const windowColumns = Math.max(1, Math.round(windowFraction * ANALYSIS_WIDTH));
+  const keyframes: CropKeyframe[] = [];
+
+  for (const shot of splitShots(frames)) {
+    const raw = shot.map(frame => {
+      const values = saliency(frame);
+      return sum(values) > 0 ? bestWindow(values, windowColumns).center : null;
+    });
+
+    // Frames without a subject hold the nearest known position
+    const firstKnown = raw.find((center): center is number => center !== null) ?? 0.5;
+    let last = firstKnown;
+    const filled = raw.map(center => (last = center ?? last));
+
+    const radius = Math.round(SMOOTHING_SECONDS * ANALYSIS_FPS);
+    const smoothed = filled.map((_, i) => {
+      const window = filled.slice(Math.max(0, i - radius), i + radius + 1);
+      return sum(window) / window.length;
+    });
+
+    // Pan only when the subject drifts past the dead zone, at a capped speed
+    const maxStep = MAX_PAN_SPEED / ANALYSIS_FPS;
+    let position = smoothed[0];
+    const points = smoothed.map((target, i) => {
+      const offset = target - position;
+      if (Math.abs(offset) > DEAD_ZONE) {
+        position += Math.sign(offset) * Math.min(Math.abs(offset) - DEAD_ZONE, maxStep);
+      }
+      return { time: shot[i].time, center: position };
+    });
+
+    // A cut lands between the analysed frames; jump just before the new shot
+    if (keyframes.length) {
+      const previous = keyframes[keyframes.length - 1];
+      keyframes.push({ time: Math.max(previous.time, points[0].time - 0.01), center: previous.center });
+    }
+    keyframes.push(...simplifyPath(points, PATH_TOLERANCE));
+  }
+
+  let tolerance = PATH_TOLERANCE;
+  let simplified = keyframes;
+  while (simplified.length > MAX_KEYFRAMES) {
+    tolerance *= 2;
+    simplified = simplifyPath(keyframes, tolerance);
+  }
+  return simplified;
+}
+
+// Two people side by side, e.g. a podcast wide shot: the busiest window
+// over the whole clip, then the busiest one outside the first subject
+function findTwoSubjects(frames: FrameAnalysis[], windowFraction: number): [number, number] | null {
+  const windowColumns = Math.max(1, Math.round(windowFraction * ANALYSIS_WIDTH));
+  const totals = new Float32Array(ANALYSIS_WIDTH);
+  for (const frame of frames) {
+    frame.skin.forEach((value, x) => (totals[x] += value));
+  }
+
+  const first = bestWindow(totals, windowColumns);
+  const firstColumn = first.center * ANALYSIS_WIDTH;
+  const second = bestWindow(totals, windowColumns, {
+    from: Math.round(firstColumn - windowColumns / 2),
+    to: Math.round(firstColumn + windowColumns / 2),
+  });
+
+  if (!first.total || second.total < first.total * 0.4) return null;
+  return first.center < second.center ? [first.center, second.center] : [second.center, first.center];
+}
+
+// Share of frames where people are visible outside the best single crop
+function twoSubjectShare(frames: FrameAnalysis[], windowFraction: number): number {
+  const windowColumns = Math.max(1, Math.round(windowFraction * ANALYSIS_WIDTH));
+  const withPeople = frames.filter(frame => sum(frame.skin) > 0);
+  if (!withPeople.length) return 0;
+
+  const outside = withPeople.filter(frame => {
+    const { total } = bestWindow(frame.skin, windowColumns);
+    return total < sum(frame.skin) * 0.7;
+  });
+  return outside.length / withPeople.length;
+}
+
+function splitShots(frames: FrameAnalysis[]): FrameAnalysis[][] {
+  const shots: FrameAnalysis[][] = [];
+  for (const frame of frames) {
+    if (frame.cut || !shots.length) shots.push([]);
+    shots[shots.length - 1].push(frame);
+  }
+  return shots;
+}
+
+// Ramer-Douglas-Peucker: drops points that lie close to the line between
+// their neighbours, so a steady pan becomes two keyframes
+export function simplifyPath(points: CropKeyframe[], tolerance: number): CropKeyframe[] {
+  if (points.length < 3) return points;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  let furthest = 0;
+  let furthestIndex = 0;
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const progress = last.time > first.time ? (points[i].time - first.time) / (last.time - first.time) : 0;
+    const expected = first.center + (last.center - first.center) * progress;
+    const distance = Math.abs(points[i].center - expected);
+    if (distance > furthest) {
+      furthest = distance;
+      furthestIndex = i;
+    }
+  }
+
+  if (furthest <= tolerance) return [first, last];
+  return [
+    ...simplifyPath(points.slice(0, furthestIndex + 1), tolerance).slice(0, -1),
+    ...simplifyPath(points.slice(furthestIndex), tolerance),
+  ];
+}
+
+// Piecewise-linear ffmpeg expression of the crop centre over time `t`
+export function pathExpression(path: CropKeyframe[]): string {
+  let expression = path[path.length - 1].center.toFixed(4);
+
+  for (let i = path.length - 2; i >= 0; i--) {
+    const a = path[i];
+    const b = path[i + 1];
+    const span = b.time - a.time;
+    const slope = span > 0 ? (b.center - a.center) / span : 0;
+    expression = `if(lt(t,${b.time.toFixed(3)}),${a.center.toFixed(4)}+${slope.toFixed(5)}*(t-${a.time.toFixed(3)}),${expression})`;
+  }
+  return expression;
+}
+
+function sum(values: ArrayLike<number>): number {
+  let total = 0;
+  for (let i = 0; i < values.length; i++) total += values[i];
+  return total;
+}
+
+function max(values: ArrayLike<number>): number {
+  let peak = 0;
+  for (let i = 0; i < values.length; i++) peak = Math.max(peak, values[i]);
+  return peak;
+}
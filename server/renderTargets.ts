@@ -0,0 +1,81 @@
+import type { CaptionOptions } from './captions';
+import type { CaptionStyle } from './captionStyles';
+import type { ReframeLayout } from './reframe';
+
+export type AspectRatio = '9:16' | '1:1' | '4:5' | '16:9';
+
+export interface RenderTarget {
+  aspectRatio: AspectRatio;
+  clipType: string; // Stored as clips.type
+  width: number;
+  height: number;
+  reframe: ReframeLayout;
+  platforms: string[]; // Where this shape is native
+  loudnessLufs: number; // Integrated loudness those platforms play back at
+  captions: {
+    fontScale: number; // Relative to the 9:16 font size
+    maxCharsPerLine: number;
+  };
+}
+
+export const RENDER_TARGETS: Record<AspectRatio, RenderTarget> = {
+  '9:16': {
+    aspectRatio: '9:16',
+    clipType: 'vertical_short',
+    width: 1080,
+    height: 1920,
+    reframe: 'auto',
+    platforms: ['tiktok', 'instagram_reels', 'youtube_shorts'],
+    loudnessLufs: -14,
+    captions: { fontScale: 1, maxCharsPerLine: 32 },
+  },
+  '1:1': {
+    aspectRatio: '1:1',
+    clipType: 'square_video',
+    width: 1080,
+    height: 1080,
+    reframe: 'track',
+    platforms: ['instagram', 'facebook', 'linkedin'],
+    loudnessLufs: -14,
+    captions: { fontScale: 0.85, maxCharsPerLine: 28 },
+  },
+  '4:5': {
+    aspectRatio: '4:5',
+    clipType: 'portrait_video',
+    width: 1080,
+    height: 1350,
+    reframe: 'track',
+    platforms: ['instagram', 'facebook'],
+    loudnessLufs: -14,
+    captions: { fontScale: 0.9, maxCharsPerLine: 30 },
+  },
+  '16:9': {
+    aspectRatio: '16:9',
+    clipType: 'landscape_video',
+    width: 1920,
+    height: 1080,
+    reframe: 'blur', // Landscape sources fill the frame; portrait ones get blurred sides
+    platforms: ['youtube', 'twitter', 'linkedin'],
+    loudnessLufs: -14,
+    captions: { fontScale: 0.8, maxCharsPerLine: 42 },
+  },
+};
+
+export function isAspectRatio(value: unknown): value is AspectRatio {
+  return typeof value === 'string' && value in RENDER_TARGETS;
+}
+
+// Adapts a caption style designed for 9:16 to the target frame: smaller
+// text on shorter frames and the edge margin scaled with the height
+export function captionStyleForTarget(style: CaptionStyle, target: RenderTarget): CaptionStyle {
+  const heightScale = target.height / RENDER_TARGETS['9:16'].height;
+  return {
+    ...style,
+    fontSize: Math.round(style.fontSize * target.captions.fontScale),
+    marginVertical: Math.round(style.marginVertical * heightScale),
+  };
+}
+
+export function captionOptionsForTarget(target: RenderTarget): Partial<CaptionOptions> {
+  return { maxCharsPerLine: target.captions.maxCharsPerLine };
+}
@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const state = vi.hoisted(() => ({
+  workspaces: [] as any[],
+  runs: new Map<string, any>(),
+  assets: [] as any[],
+  removed: [] as string[],
+  usageRecorded: [] as string[],
+  waveformsRemoved: [] as string[],
+}));
+
+vi.mock("./storage", () => ({
+  storage: {
+    getRetentionRun: vi.fn(async (id: string) => state.runs.get(id) ?? null),
+    recordRetentionRun: vi.fn(async (run: any) => { state.runs.set(run.workspaceId, run); }),
+    getStoredAssets: vi.fn(async () => state.assets),
+    markUploadSourceDeleted: vi.fn(async () => {}),
+  },
+}));
+vi.mock("./userManagementService", () => ({
+  userManagementService: {
+    getAllWorkspaces: vi.fn(async () => state.workspaces),
+    getWorkspace: vi.fn(async (id: string) => state.workspaces.find(workspace => workspace.id === id)),
+  },
+}));
+vi.mock("./blobStore", () => ({
+  removeStoredFile: vi.fn(async (filePath: string) => {
+    state.removed.push(filePath);
+    return true;
+  }),
+}));
+vi.mock("./waveform", () => ({
+  removeWaveform: vi.fn(async (uploadId: string) => { state.waveformsRemoved.push(uploadId); }),
+}));
+vi.mock("./storageQuota", () => ({
+  recordStorageUsage: vi.fn(async (userId: string) => { state.usageRecorded.push(userId); }),
+}));
+
+const { RetentionService, normalizeRetentionSettings, DEFAULT_RETENTION } = await import("./retentionService");
+
+const now = new Date("2026-03-01T12:00:00Z");
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+function workspace(id: string, retention: object) {
+  return { id, ownerId: `owner-${id}`, settings: { retention: { enabled: true, rules: [{ assets: "source", afterDays: 30 }], ...retention } } };
+}
+
+beforeEach(() => {
+  state.workspaces = [];
+  state.runs = new Map();
+  state.assets = [{
+    kind: "source",
+    id: "upload-1",
+    uploadId: "upload-1",
+    uploadStatus: "completed",
+    filePath: "blob:old.mp4",
+    size: 1000,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+  }];
+  state.removed = [];
+  state.usageRecorded = [];
+  state.waveformsRemoved = [];
+  delete process.env.RETENTION_DRY_RUN;
+});
+
+describe("normalizeRetentionSettings", () => {
+  it("accepts a per-workspace dry run and keeps the current one otherwise", () => {
+    expect(normalizeRetentionSettings({ dryRun: true })).toEqual({ ...DEFAULT_RETENTION, dryRun: true });
+    expect(normalizeRetentionSettings({ enabled: true }, { ...DEFAULT_RETENTION, dryRun: true })?.dryRun).toBe(true);
+    expect(normalizeRetentionSettings({ dryRun: "yes" })).toBeNull();
+  });
+});
+
+describe("RetentionService.runDue", () => {
+  it("runs workspaces that never ran or last ran a day ago, and records the run", async () => {
+    state.workspaces = [workspace("never", {}), workspace("stale", {}), workspace("recent", {})];
+    state.runs.set("stale", { workspaceId: "stale", lastRunAt: hoursAgo(24), dryRun: false, filesSelected: 0 });
+    state.runs.set("recent", { workspaceId: "recent", lastRunAt: hoursAgo(2), dryRun: false, filesSelected: 0 });
+
+    const reports = await new RetentionService().runDue(now);
+
+    expect(reports.map(report => report.workspaceId)).toEqual(["never", "stale"]);
+    expect(state.runs.get("never")).toEqual({ workspaceId: "never", lastRunAt: now, dryRun: false, filesSelected: 1 });
+    expect(state.runs.get("recent").lastRunAt).toEqual(hoursAgo(2));
+    expect(state.usageRecorded).toEqual(["owner-never", "owner-stale"]);
+  });
+
+  it("only reports for a workspace set to dry run", async () => {
+    state.workspaces = [workspace("careful", { dryRun: true })];
+
+    const [report] = await new RetentionService().runDue(now);
+
+    expect(report.dryRun).toBe(true);
+    expect(report.items).toHaveLength(1);
+    expect(state.removed).toEqual([]);
+    expect(state.waveformsRemoved).toEqual([]);
+    expect(state.usageRecorded).toEqual([]);
+    expect(state.runs.get("careful").dryRun).toBe(true);
+  });
+
+  it("honours RETENTION_DRY_RUN for every workspace", async () => {
+    process.env.RETENTION_DRY_RUN = "true";
+    state.workspaces = [workspace("any", {})];
+
+    const [report] = await new RetentionService().runDue(now);
+
+    expect(report.dryRun).toBe(true);
+    expect(state.removed).toEqual([]);
+  });
+
+  it("skips disabled workspaces", async () => {
+    state.workspaces = [workspace("off", { enabled: false })];
+
+    expect(await new RetentionService().runDue(now)).toEqual([]);
+    expect(state.runs.size).toBe(0);
+  });
+});
+
+describe("RetentionService.start", () => {
+  it("checks for due workspaces at boot", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval"] });
+    state.workspaces = [workspace("boot", {})];
+
+    await new RetentionService().start();
+
+    expect(state.removed).toEqual(["blob:old.mp4"]);
+    expect(state.waveformsRemoved).toEqual(["upload-1"]);
+    expect(state.runs.has("boot")).toBe(true);
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,226 @@
+import { storage } from './storage';
+import { removeStoredFile } from './blobStore';
+import { recordStorageUsage } from './storageQuota';
+import { removeWaveform } from './waveform';
+
+// Which stored files a rule applies to: the original upload, files derived
+// from it such as normalized audio, or rendered clips. Thumbnail frames and
+// generated graphics count towards quotas but are small and kept.
+export const RETENTION_ASSET_KINDS = ['source', 'processed', 'clip'] as const;
+export type RetentionAssetKind = typeof RETENTION_ASSET_KINDS[number];
+
+export interface RetentionRule {
+  assets: RetentionAssetKind;
+  afterDays: number;
+}
+
+// e.g. { enabled: true, rules: [{ assets: 'source', afterDays: 30 }] } deletes
+// source media after 30 days but keeps shorts
+export interface RetentionSettings {
+  enabled: boolean;
+  dryRun: boolean; // The daily job only reports what it would delete
+  rules: RetentionRule[];
+}
+
+export const DEFAULT_RETENTION: RetentionSettings = {
+  enabled: false,
+  dryRun: false,
+  rules: [],
+};
+
+export interface RetentionReportItem {
+  kind: RetentionAssetKind;
+  id: string;
+  uploadId: string;
+  filePath: string;
+  size: number;
+  ageDays: number;
+  rule: RetentionRule;
+  deleted?: boolean; // Whether the file itself went; shared blobs stay while referenced
+  error?: string;
+}
+
+export interface RetentionReport {
+  workspaceId: string;
+  dryRun: boolean;
+  generatedAt: Date;
+  items: RetentionReportItem[];
+  reclaimedBytes: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const RETENTION_INTERVAL = DAY;
+const DUE_CHECK_INTERVAL = 60 * 60 * 1000;
+const MAX_RETENTION_DAYS = 3650;
+
+// Uploads still in the pipeline need their source; failed ones may be retried
+const SETTLED_UPLOAD_STATUSES = new Set(['completed', 'failed']);
+
+// Validates a settings update, returning null when it is malformed
+export function normalizeRetentionSettings(
+  input: any,
+  current: RetentionSettings = DEFAULT_RETENTION
+): RetentionSettings | null {
+  if (!input || typeof input !== 'object') return null;
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') return null;
+  if (input.dryRun !== undefined && typeof input.dryRun !== 'boolean') return null;
+  if (input.rules !== undefined && !Array.isArray(input.rules)) return null;
+
+  const rules: RetentionRule[] = [];
+  for (const rule of input.rules ?? current.rules) {
+    if (!rule || !RETENTION_ASSET_KINDS.includes(rule.assets)) return null;
+    if (!Number.isInteger(rule.afterDays) || rule.afterDays < 1 || rule.afterDays > MAX_RETENTION_DAYS) return null;
+    rules.push({ assets: rule.assets, afterDays: rule.afterDays });
+  }
+  // One rule per kind keeps the outcome obvious
+  if (new Set(rules.map(rule => rule.assets)).size !== rules.length) return null;
+
+  return { enabled: input.enabled ?? current.enabled, dryRun: input.dryRun ?? current.dryRun, rules };
+}
+
+export async function getRetentionSettings(workspaceId: string): Promise<RetentionSettings> {
+  const { userManagementService } = await import('./userManagementService');
+  const workspace = await userManagementService.getWorkspace(workspaceId);
+  return { ...DEFAULT_RETENTION, ...workspace?.settings.retention };
+}
+
+// Applies each workspace's retention rules once a day. Whether a workspace
+// is due goes by its last recorded run, checked at boot and then hourly, so
+// restarts do not push runs back. A workspace set to dryRun, or every
+// workspace with RETENTION_DRY_RUN=true, only logs what would be deleted.
+export class RetentionService {
+  private started = false;
+
+  async start(): Promise<void> {
+    if (this.started) return;
+
+    let checking = false;
+    // A long run may outlast the check interval; let it finish first
+    const check = async () => {
+      if (checking) return;
+      checking = true;
+      try {
+        await this.runDue();
+      } catch (error) {
+        console.error('[Retention] Scheduled run failed:', error);
+      } finally {
+        checking = false;
+      }
+    };
+    setInterval(check, DUE_CHECK_INTERVAL);
+
+    this.started = true;
+    console.log('[Retention] Retention job scheduled');
+    await check();
+  }
+
+  // Runs every enabled workspace whose last run was a day or more ago
+  async runDue(now: Date = new Date()): Promise<RetentionReport[]> {
+    const { userManagementService } = await import('./userManagementService');
+    const reports: RetentionReport[] = [];
+    const owners = new Set<string>();
+
+    for (const workspace of await userManagementService.getAllWorkspaces()) {
+      const settings = await getRetentionSettings(workspace.id);
+      if (!settings.enabled || settings.rules.length === 0) continue;
+
+      const lastRun = await storage.getRetentionRun(workspace.id);
+      if (lastRun && now.getTime() - lastRun.lastRunAt.getTime() < RETENTION_INTERVAL) continue;
+
+      const dryRun = settings.dryRun || process.env.RETENTION_DRY_RUN === 'true';
+      const report = await this.run(workspace.id, { dryRun, now });
+      await storage.recordRetentionRun({
+        workspaceId: workspace.id,
+        lastRunAt: now,
+        dryRun,
+        filesSelected: report.items.length,
+      });
+      reports.push(report);
+      if (!dryRun) owners.add(workspace.ownerId);
+
+      const verb = dryRun ? 'would delete' : 'deleted';
+      console.log(`[Retention] Workspace ${workspace.id}: ${verb} ${report.items.length} files, ${report.reclaimedBytes} bytes`);
+    }
+
+    // Keep the monthly usage records in step with what was removed
+    for (const userId of owners) {
+      await recordStorageUsage(userId).catch(error => {
+        console.warn(`[Retention] Failed to record storage usage for ${userId}:`, error.message);
+      });
+    }
+    return reports;
+  }
+
+  // Files the workspace's rules select, oldest first. A dry run only
+  // reports them.
+  async run(workspaceId: string, options: { dryRun: boolean; now?: Date }): Promise<RetentionReport> {
+    const { userManagementService } = await import('./userManagementService');
+    const workspace = await userManagementService.getWorkspace(workspaceId);
+    if (!workspace) {
+      throw new Error('Workspace not found');
+    }
+
+    const settings = await getRetentionSettings(workspaceId);
+    const now = options.now ?? new Date();
+    const assets = await storage.getStoredAssets({ userId: workspace.ownerId, workspaceId });
+
+    const items: RetentionReportItem[] = [];
+    for (const asset of assets) {
+      const rule = settings.rules.find(candidate => candidate.assets === asset.kind);
+      if (!rule || !asset.uploadId || !asset.createdAt || !SETTLED_UPLOAD_STATUSES.has(asset.uploadStatus ?? '')) continue;
+
+      const ageDays = (now.getTime() - asset.createdAt.getTime()) / DAY;
+      if (ageDays < rule.afterDays) continue;
+
+      items.push({
+        kind: rule.assets,
+        id: asset.id,
+        uploadId: asset.uploadId,
+        filePath: asset.filePath,
+        size: asset.size,
+        ageDays: Math.floor(ageDays),
+        rule,
+      });
+    }
+    items.sort((a, b) => b.ageDays - a.ageDays);
+
+    if (!options.dryRun) {
+      for (const item of items) {
+        try {
+          item.deleted = await this.expire(item);
+        } catch (error) {
+          item.error = (error as Error).message;
+          console.error(`[Retention] Failed to remove ${item.kind} ${item.id}:`, error);
+        }
+      }
+    }
+
+    return {
+      workspaceId,
+      dryRun: options.dryRun,
+      generatedAt: now,
+      items,
+      reclaimedBytes: items.filter(item => !item.error).reduce((sum, item) => sum + item.size, 0),
+    };
+  }
+
+  // Detaches the file from its row, then deletes it unless another row
+  // still shares it. Upload rows stay so transcripts and clips keep working.
+  private async expire(item: RetentionReportItem): Promise<boolean> {
+    switch (item.kind) {
+      case 'source':
+        await storage.markUploadSourceDeleted(item.id);
+        await removeWaveform(item.id);
+        break;
+      case 'processed':
+        await storage.deleteDerivedAssetById(item.id);
+        break;
+      case 'clip':
+        await storage.updateClip(item.id, { filePath: null, fileSize: null, status: 'expired' });
+        break;
+    }
+    return removeStoredFile(item.filePath);
+  }
+}
+
+export const retentionService = new RetentionService();
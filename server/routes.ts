@@ -76,15 +76,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const userId = req.user.claims.sub;
       const file = req.file;
+      const workspaceId = req.body.workspaceId || null;
+
+      if (workspaceId) {
+        const { userManagementService } = await import('./userManagementService');
+        const hasPermission = await userManagementService.checkPermission(userId, workspaceId, 'content.create');
+        if (!hasPermission) {
+          return res.status(403).json({ message: 'Insufficient permissions' });
+        }
+      }
+
+      const { checkStorageQuota } = await import('./storageQuota');
+      const quota = await checkStorageQuota({ userId, workspaceId }, file.size);
+      if (!quota.allowed) {
+        await fs.promises.unlink(file.path).catch(() => {});
+        return res.status(413).json({ message: quota.error, usage: quota.usage });
+      }
+
+      // Reject corrupt or unsupported media before any processing starts
+      const { inspectUploadFile } = await import('./mediaProbe');
+      const inspection = await inspectUploadFile(file.path, { mimeType: file.mimetype, originalName: file.originalname });
+      if (!inspection.success) {
+        await fs.promises.unlink(file.path).catch(() => {});
+        return res.status(400).json({ message: inspection.error });
+      }
+
+      const { storeFile } = await import('./blobStore');
+      const stored = await storeFile(file.path, { contentType: file.mimetype, extension: path.extname(file.originalname) });
 
       // Create upload record
       const uploadData = {
         userId,
+        workspaceId,
         filename: file.filename,
         originalName: file.originalname,
-        filePath: file.path,
+        filePath: stored.ref,
         fileSize: file.size,
         mimeType: file.mimetype,
+        contentHash: stored.sha256,
+        ...inspection.fields,
         status: 'uploaded',
       };
 
@@ -107,6 +137,149 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/uploads/import', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { url, workspaceId = null } = req.body;
+
+      if (typeof url !== 'string' || !url) {
+        return res.status(400).json({ message: 'url is required' });
+      }
+
+      if (workspaceId) {
+        const { userManagementService } = await import('./userManagementService');
+        const hasPermission = await userManagementService.checkPermission(userId, workspaceId, 'content.create');
+        if (!hasPermission) {
+          return res.status(403).json({ message: 'Insufficient permissions' });
+        }
+      }
+
+      const { mediaImporter } = await import('./mediaImporter');
+      const result = await mediaImporter.queueUrlImport(url, { userId, workspaceId });
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.status(202).json({ jobId: result.jobId, status: 'queued' });
+    } catch (error) {
+      console.error('Error queueing import:', error);
+      res.status(500).json({ message: 'Failed to queue import' });
+    }
+  });
+
+  app.get('/api/uploads/import/:jobId', isAuthenticated, async (req: any, res) => {
+    try {
+      const { mediaImporter } = await import('./mediaImporter');
+      const status = await mediaImporter.getImportStatus(req.params.jobId, req.user.claims.sub);
+      if (!status) {
+        return res.status(404).json({ message: 'Import not found' });
+      }
+      res.json(status);
+    } catch (error) {
+      console.error('Error fetching import status:', error);
+      res.status(500).json({ message: 'Failed to fetch import status' });
+    }
+  });
+
+  app.get('/api/feeds', isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await storage.getUserPodcastFeeds(req.user.claims.sub));
+    } catch (error) {
+      console.error('Error fetching feeds:', error);
+      res.status(500).json({ message: 'Failed to fetch feeds' });
+    }
+  });
+
+  app.post('/api/feeds', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { feedUrl, workspaceId = null, pollIntervalMinutes, backfill } = req.body;
+
+      if (typeof feedUrl !== 'string' || !feedUrl) {
+        return res.status(400).json({ message: 'feedUrl is required' });
+      }
+      if (pollIntervalMinutes !== undefined && (!Number.isInteger(pollIntervalMinutes) || pollIntervalMinutes < 15 || pollIntervalMinutes > 10080)) {
+        return res.status(400).json({ message: 'pollIntervalMinutes must be a whole number between 15 and 10080' });
+      }
+      if (backfill !== undefined && (!Number.isInteger(backfill) || backfill < 0 || backfill > 50)) {
+        return res.status(400).json({ message: 'backfill must be a whole number between 0 and 50' });
+      }
+
+      if (workspaceId) {
+        const { userManagementService } = await import('./userManagementService');
+        const hasPermission = await userManagementService.checkPermission(userId, workspaceId, 'content.create');
+        if (!hasPermission) {
+          return res.status(403).json({ message: 'Insufficient permissions' });
+        }
+      }
+
+      const { mediaImporter } = await import('./mediaImporter');
+      const result = await mediaImporter.addFeed(feedUrl, { userId, workspaceId }, { pollIntervalMinutes, backfill });
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.status(201).json(result.feed);
+    } catch (error) {
+      console.error('Error adding feed:', error);
+      res.status(500).json({ message: 'Failed to add feed' });
+    }
+  });
+
+  app.patch('/api/feeds/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const feed = await storage.getPodcastFeed(req.params.id);
+      if (!feed || feed.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: 'Feed not found' });
+      }
+
+      const { active, pollIntervalMinutes } = req.body;
+      if (active !== undefined && typeof active !== 'boolean') {
+        return res.status(400).json({ message: 'active must be a boolean' });
+      }
+      if (pollIntervalMinutes !== undefined && (!Number.isInteger(pollIntervalMinutes) || pollIntervalMinutes < 15 || pollIntervalMinutes > 10080)) {
+        return res.status(400).json({ message: 'pollIntervalMinutes must be a whole number between 15 and 10080' });
+      }
+
+      res.json(await storage.updatePodcastFeed(feed.id, { active, pollIntervalMinutes }));
+    } catch (error) {
+      console.error('Error updating feed:', error);
+      res.status(500).json({ message: 'Failed to update feed' });
+    }
+  });
+
+  app.post('/api/feeds/:id/poll', isAuthenticated, async (req: any, res) => {
+    try {
+      const feed = await storage.getPodcastFeed(req.params.id);
+      if (!feed || feed.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: 'Feed not found' });
+      }
+
+      const { mediaImporter } = await import('./mediaImporter');
+      await mediaImporter.queueFeedPoll(feed.id);
+      res.status(202).json({ status: 'queued' });
+    } catch (error) {
+      console.error('Error queueing feed poll:', error);
+      res.status(500).json({ message: 'Failed to queue feed poll' });
+    }
+  });
+
+  app.delete('/api/feeds/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const feed = await storage.getPodcastFeed(req.params.id);
+      if (!feed || feed.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: 'Feed not found' });
+      }
+
+      // Imported episodes stay; they just lose the link to the feed
+      await storage.deletePodcastFeed(feed.id);
+      res.json({ message: 'Feed removed' });
+    } catch (error) {
+      console.error('Error removing feed:', error);
+      res.status(500).json({ message: 'Failed to remove feed' });
+    }
+  });
+
   app.get('/api/uploads', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -122,27 +295,589 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const upload = await storage.getUpload(req.params.id);
-      
+      
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      // Get related data
+      const transcript = await storage.getTranscriptByUploadId(upload.id);
+      const segments = await storage.getSegmentsByUploadId(upload.id);
+      const clips = await storage.getClipsByUploadId(upload.id);
+      const socialPosts = await storage.getSocialPostsByUploadId(upload.id);
+      const { processingPipeline } = await import('./processingPipeline');
+      const processingStages = await processingPipeline.getStages(upload.id);
+
+      const { getMediaInfo } = await import('./mediaProbe');
+
+      res.json({
+        ...upload,
+        mediaInfo: getMediaInfo(upload),
+        transcript,
+        segments,
+        clips,
+        socialPosts,
+        processingStages,
+      });
+    } catch (error) {
+      console.error('Error fetching upload:', error);
+      res.status(500).json({ message: 'Failed to fetch upload' });
+    }
+  });
+
+  // Speaker diarization routes
+  app.get('/api/uploads/:id/speakers', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const upload = await storage.getUpload(req.params.id);
+
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const transcript = await storage.getTranscriptByUploadId(upload.id);
+      if (!transcript) {
+        return res.status(404).json({ message: 'Transcript not found' });
+      }
+
+      const { getSpeakerTurns, getSpeakerNames } = await import('./transcriptData');
+      const turns = getSpeakerTurns(transcript);
+      const names = getSpeakerNames(transcript);
+
+      const talkTime: Record<string, number> = {};
+      for (const turn of turns) {
+        talkTime[turn.speaker] = (talkTime[turn.speaker] || 0) + (turn.end - turn.start);
+      }
+
+      res.json({
+        turns,
+        speakers: Object.entries(talkTime).map(([label, seconds]) => ({
+          label,
+          name: names[label] || null,
+          talkTime: seconds,
+        })),
+      });
+    } catch (error) {
+      console.error('Error fetching speakers:', error);
+      res.status(500).json({ message: 'Failed to fetch speakers' });
+    }
+  });
+
+  app.put('/api/uploads/:id/speakers', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const upload = await storage.getUpload(req.params.id);
+
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const transcript = await storage.getTranscriptByUploadId(upload.id);
+      if (!transcript) {
+        return res.status(404).json({ message: 'Transcript not found' });
+      }
+
+      const { names } = req.body;
+      if (!names || typeof names !== 'object') {
+        return res.status(400).json({ message: 'names must map speaker labels to display names' });
+      }
+
+      const { getSpeakerNames } = await import('./transcriptData');
+      const speakerNames = { ...getSpeakerNames(transcript) };
+      for (const [label, name] of Object.entries(names)) {
+        const trimmed = typeof name === 'string' ? name.trim() : '';
+        if (trimmed) {
+          speakerNames[label] = trimmed;
+        } else {
+          delete speakerNames[label];
+        }
+      }
+
+      await storage.updateTranscript(transcript.id, { speakerNames: JSON.stringify(speakerNames) });
+      res.json({ names: speakerNames });
+    } catch (error) {
+      console.error('Error renaming speakers:', error);
+      res.status(500).json({ message: 'Failed to rename speakers' });
+    }
+  });
+
+  // Transcript editing routes
+  app.get('/api/uploads/:id/transcript', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const upload = await storage.getUpload(req.params.id);
+
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const transcript = await storage.getTranscriptByUploadId(upload.id);
+      if (!transcript) {
+        return res.status(404).json({ message: 'Transcript not found' });
+      }
+
+      const { getTranscriptWords } = await import('./transcriptData');
+      res.json({
+        id: transcript.id,
+        text: transcript.text,
+        language: transcript.language,
+        words: getTranscriptWords(transcript).map((word, index) => ({ index, ...word })),
+      });
+    } catch (error) {
+      console.error('Error fetching transcript:', error);
+      res.status(500).json({ message: 'Failed to fetch transcript' });
+    }
+  });
+
+  app.patch('/api/uploads/:id/transcript', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const upload = await storage.getUpload(req.params.id);
+
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const { processingPipeline } = await import('./processingPipeline');
+      if (await processingPipeline.isQueued(upload.id)) {
+        return res.status(409).json({ message: 'Upload is still being processed' });
+      }
+
+      const transcript = await storage.getTranscriptByUploadId(upload.id);
+      if (!transcript) {
+        return res.status(404).json({ message: 'Transcript not found' });
+      }
+
+      const { corrections, text } = req.body;
+      const { applyWordCorrections, replaceTranscriptText } = await import('./transcriptEditor');
+
+      if (corrections !== undefined && !Array.isArray(corrections)) {
+        return res.status(400).json({ message: 'corrections must be an array' });
+      }
+
+      let result;
+      if (Array.isArray(corrections)) {
+        result = await applyWordCorrections(upload, transcript, corrections);
+      } else if (typeof text === 'string') {
+        result = await replaceTranscriptText(upload, transcript, text);
+      } else {
+        return res.status(400).json({ message: 'Provide corrections or text' });
+      }
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json({
+        id: result.transcript!.id,
+        text: result.transcript!.text,
+        updatedSegments: result.updatedSegments,
+      });
+    } catch (error) {
+      console.error('Error editing transcript:', error);
+      res.status(500).json({ message: 'Failed to edit transcript' });
+    }
+  });
+
+  // Segment editing routes
+  app.get('/api/uploads/:id/waveform', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const upload = await storage.getUpload(req.params.id);
+
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const { isTextDocument } = await import('./documentText');
+      if (isTextDocument(upload)) {
+        return res.status(400).json({ message: 'Text documents have no waveform' });
+      }
+      if (upload.sourceDeletedAt) {
+        return res.status(400).json({ message: 'Source media was removed by the workspace retention policy' });
+      }
+
+      const { getWaveform, MAX_WAVEFORM_POINTS } = await import('./waveform');
+      const points = Math.min(Math.max(parseInt(req.query.points as string) || 1000, 100), MAX_WAVEFORM_POINTS);
+      res.json(await getWaveform(upload, points));
+    } catch (error) {
+      console.error('Error generating waveform:', error);
+      res.status(500).json({ message: 'Failed to generate waveform' });
+    }
+  });
+
+  app.get('/api/uploads/:id/segments', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const upload = await storage.getUpload(req.params.id);
+
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      res.json(await storage.getSegmentsByUploadId(upload.id));
+    } catch (error) {
+      console.error('Error fetching segments:', error);
+      res.status(500).json({ message: 'Failed to fetch segments' });
+    }
+  });
+
+  // Loads a segment and its upload, answering 404/409 when it cannot be edited
+  const loadEditableSegment = async (req: any, res: any, segmentId: string) => {
+    const segment = await storage.getSegment(segmentId);
+    const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
+
+    if (!segment || !upload || upload.userId !== req.user.claims.sub) {
+      res.status(404).json({ message: 'Segment not found' });
+      return null;
+    }
+
+    const { processingPipeline } = await import('./processingPipeline');
+    if (await processingPipeline.isQueued(upload.id)) {
+      res.status(409).json({ message: 'Upload is still being processed' });
+      return null;
+    }
+
+    return { segment, upload };
+  };
+
+  app.post('/api/uploads/:id/segments', isAuthenticated, async (req: any, res) => {
+    try {
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload || upload.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const { processingPipeline } = await import('./processingPipeline');
+      if (await processingPipeline.isQueued(upload.id)) {
+        return res.status(409).json({ message: 'Upload is still being processed' });
+      }
+
+      const { title, summary, startTime, endTime } = req.body;
+      if (typeof title !== 'string') {
+        return res.status(400).json({ message: 'title is required' });
+      }
+      if (startTime === undefined || endTime === undefined) {
+        return res.status(400).json({ message: 'startTime and endTime are required' });
+      }
+
+      const { segmentEditor } = await import('./segmentEditor');
+      const result = await segmentEditor.createSegment(upload, {
+        title,
+        summary: typeof summary === 'string' ? summary : undefined,
+        startTime: Number(startTime),
+        endTime: Number(endTime),
+      });
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.status(201).json(result.segments);
+    } catch (error) {
+      console.error('Error creating segment:', error);
+      res.status(500).json({ message: 'Failed to create segment' });
+    }
+  });
+
+  app.patch('/api/segments/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const loaded = await loadEditableSegment(req, res, req.params.id);
+      if (!loaded) return;
+
+      const { title, summary, startTime, endTime } = req.body;
+      const { segmentEditor } = await import('./segmentEditor');
+      const result = await segmentEditor.updateSegment(loaded.upload, loaded.segment, {
+        title: typeof title === 'string' ? title : undefined,
+        summary: typeof summary === 'string' ? summary : undefined,
+        startTime: startTime !== undefined ? Number(startTime) : undefined,
+        endTime: endTime !== undefined ? Number(endTime) : undefined,
+      });
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.json(result.segments![0]);
+    } catch (error) {
+      console.error('Error updating segment:', error);
+      res.status(500).json({ message: 'Failed to update segment' });
+    }
+  });
+
+  app.post('/api/segments/:id/split', isAuthenticated, async (req: any, res) => {
+    try {
+      const loaded = await loadEditableSegment(req, res, req.params.id);
+      if (!loaded) return;
+
+      const at = Number(req.body.at);
+      if (!Number.isFinite(at)) {
+        return res.status(400).json({ message: 'at must be a time in seconds' });
+      }
+
+      const { segmentEditor } = await import('./segmentEditor');
+      const result = await segmentEditor.splitSegment(loaded.upload, loaded.segment, at);
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.json(result.segments);
+    } catch (error) {
+      console.error('Error splitting segment:', error);
+      res.status(500).json({ message: 'Failed to split segment' });
+    }
+  });
+
+  app.post('/api/segments/:id/merge', isAuthenticated, async (req: any, res) => {
+    try {
+      const loaded = await loadEditableSegment(req, res, req.params.id);
+      if (!loaded) return;
+
+      const other = req.body.segmentId ? await storage.getSegment(req.body.segmentId) : null;
+      if (!other || other.uploadId !== loaded.upload.id || other.id === loaded.segment.id) {
+        return res.status(400).json({ message: 'segmentId must be another segment of the same upload' });
+      }
+
+      const { segmentEditor } = await import('./segmentEditor');
+      const result = await segmentEditor.mergeSegments(loaded.upload, loaded.segment, other);
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.json(result.segments);
+    } catch (error) {
+      console.error('Error merging segments:', error);
+      res.status(500).json({ message: 'Failed to merge segments' });
+    }
+  });
+
+  app.delete('/api/segments/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const loaded = await loadEditableSegment(req, res, req.params.id);
+      if (!loaded) return;
+
+      const { segmentEditor } = await import('./segmentEditor');
+      const result = await segmentEditor.deleteSegment(loaded.upload, loaded.segment);
+      res.json(result.segments);
+    } catch (error) {
+      console.error('Error deleting segment:', error);
+      res.status(500).json({ message: 'Failed to delete segment' });
+    }
+  });
+
+  // Renders a segment to video clips, one per aspect ratio. Targets are
+  // ratios like "9:16", optionally with a crop strategy:
+  // { aspectRatio: "1:1", reframe: "split" }
+  app.post('/api/segments/:id/render', isAuthenticated, async (req: any, res) => {
+    try {
+      const loaded = await loadEditableSegment(req, res, req.params.id);
+      if (!loaded) return;
+
+      const { isTextDocument } = await import('./documentText');
+      if (isTextDocument(loaded.upload)) {
+        return res.status(400).json({ message: 'Text documents have no media to render' });
+      }
+
+      const { targets, captionStyle, tighten, introOutro } = req.body;
+      if (!Array.isArray(targets) || targets.length === 0) {
+        return res.status(400).json({ message: 'targets must be a non-empty array' });
+      }
+
+      const { RENDER_TARGETS, isAspectRatio } = await import('./renderTargets');
+      const layouts = ['auto', 'track', 'split', 'blur', 'center'];
+      const resolved: import('./renderTargets').RenderTarget[] = [];
+
+      for (const entry of targets) {
+        const aspectRatio = typeof entry === 'string' ? entry : entry?.aspectRatio;
+        const reframe = typeof entry === 'string' ? undefined : entry?.reframe;
+
+        if (!isAspectRatio(aspectRatio)) {
+          return res.status(400).json({ message: `Unknown aspect ratio ${aspectRatio}; use one of ${Object.keys(RENDER_TARGETS).join(', ')}` });
+        }
+        if (reframe !== undefined && !layouts.includes(reframe)) {
+          return res.status(400).json({ message: `reframe must be one of ${layouts.join(', ')}` });
+        }
+        if (resolved.some(target => target.aspectRatio === aspectRatio)) {
+          return res.status(400).json({ message: `Aspect ratio ${aspectRatio} is listed twice` });
+        }
+        resolved.push({ ...RENDER_TARGETS[aspectRatio], ...(reframe ? { reframe } : {}) });
+      }
+
+      let style;
+      if (captionStyle !== undefined) {
+        const { normalizeCaptionStyle } = await import('./captionStyles');
+        style = normalizeCaptionStyle(captionStyle);
+        if (!style) {
+          return res.status(400).json({ message: 'Invalid caption style' });
+        }
+      }
+
+      let tightenOptions;
+      if (tighten !== undefined && tighten !== false) {
+        const { normalizeTightenOptions } = await import('./tighten');
+        tightenOptions = normalizeTightenOptions(tighten);
+        if (!tightenOptions) {
+          return res.status(400).json({ message: 'Invalid tighten options' });
+        }
+      }
+
+      let introOutroConfig;
+      if (introOutro !== undefined && introOutro !== null) {
+        const { normalizeIntroOutroConfig } = await import('./introOutro');
+        const result = await normalizeIntroOutroConfig(introOutro, loaded.upload.workspaceId);
+        if ('error' in result) {
+          return res.status(400).json({ message: result.error });
+        }
+        introOutroConfig = result.config;
+      }
+
+      const { clipRenderer } = await import('./clipRenderer');
+      const clips = await clipRenderer.renderSegment(loaded.segment, resolved, {
+        captionStyle: style,
+        tighten: tightenOptions,
+        introOutro: introOutroConfig,
+      });
+      res.status(202).json(clips);
+    } catch (error) {
+      console.error('Error queueing segment render:', error);
+      res.status(500).json({ message: 'Failed to queue segment render' });
+    }
+  });
+
+  app.get('/api/segments/:id/clips', isAuthenticated, async (req: any, res) => {
+    try {
+      const segment = await storage.getSegment(req.params.id);
+      const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
+
+      if (!segment || !upload || upload.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+
+      res.json(await storage.getClipsBySegmentId(segment.id));
+    } catch (error) {
+      console.error('Error fetching segment clips:', error);
+      res.status(500).json({ message: 'Failed to fetch segment clips' });
+    }
+  });
+
+  // Scored candidate frames for the segment's thumbnail, sampled on first request
+  app.get('/api/segments/:id/thumbnail-frames', isAuthenticated, async (req: any, res) => {
+    try {
+      const segment = await storage.getSegment(req.params.id);
+      const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
+
+      if (!segment || !upload || upload.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+
+      const { getThumbnailFrames, hasVideo } = await import('./thumbnailFrames');
+      if (!hasVideo(upload)) {
+        return res.status(400).json({ message: 'Only video uploads have frames to use as thumbnails' });
+      }
+
+      const result = await getThumbnailFrames(segment);
+      if (!result.success) {
+        return res.status(500).json({ message: result.error });
+      }
+
+      const { blobStore, blobKeyFromRef } = await import('./blobStore');
+      const frames = await Promise.all(result.frames!.map(async frame => ({
+        ...frame,
+        url: await blobStore.getSignedUrl(blobKeyFromRef(frame.filePath), { contentType: 'image/jpeg' }),
+        selected: frame.filePath === result.selected,
+      })));
+      res.json({ frames });
+    } catch (error) {
+      console.error('Error fetching thumbnail frames:', error);
+      res.status(500).json({ message: 'Failed to fetch thumbnail frames' });
+    }
+  });
+
+  app.put('/api/segments/:id/thumbnail-frame', isAuthenticated, async (req: any, res) => {
+    try {
+      const segment = await storage.getSegment(req.params.id);
+      const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
+
+      if (!segment || !upload || upload.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+
+      const index = Number(req.body.index);
+      if (!Number.isInteger(index) || index < 0) {
+        return res.status(400).json({ message: 'index must be the position of a candidate frame' });
+      }
+
+      const { selectThumbnailFrame } = await import('./thumbnailFrames');
+      const result = await selectThumbnailFrame(segment, index);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.json({ selected: result.selected });
+    } catch (error) {
+      console.error('Error selecting thumbnail frame:', error);
+      res.status(500).json({ message: 'Failed to select thumbnail frame' });
+    }
+  });
+
+  app.put('/api/uploads/:id/segments/order', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const upload = await storage.getUpload(req.params.id);
+
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const { segmentIds } = req.body;
+      if (!Array.isArray(segmentIds)) {
+        return res.status(400).json({ message: 'segmentIds must be an array' });
+      }
+
+      const { segmentEditor } = await import('./segmentEditor');
+      const result = await segmentEditor.reorderSegments(upload, segmentIds);
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.json(result.segments);
+    } catch (error) {
+      console.error('Error reordering segments:', error);
+      res.status(500).json({ message: 'Failed to reorder segments' });
+    }
+  });
+
+  // Rerun one pipeline stage for an existing upload
+  app.post('/api/uploads/:id/stages/:stage/rerun', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const upload = await storage.getUpload(req.params.id);
+
       if (!upload || upload.userId !== userId) {
         return res.status(404).json({ message: 'Upload not found' });
       }
 
-      // Get related data
-      const transcript = await storage.getTranscriptByUploadId(upload.id);
-      const segments = await storage.getSegmentsByUploadId(upload.id);
-      const clips = await storage.getClipsByUploadId(upload.id);
-      const socialPosts = await storage.getSocialPostsByUploadId(upload.id);
+      const { processingPipeline, PIPELINE_STAGE_NAMES } = await import('./processingPipeline');
+      const stage = PIPELINE_STAGE_NAMES.find(name => name === req.params.stage);
+      if (!stage) {
+        return res.status(400).json({
+          message: `Unknown stage. Expected one of: ${PIPELINE_STAGE_NAMES.join(', ')}`
+        });
+      }
+
+      if (await processingPipeline.isQueued(upload.id)) {
+        return res.status(409).json({ message: 'Upload is already being processed' });
+      }
+
+      await processingPipeline.reprocessStage(upload.id, stage, {
+        wipeDownstream: req.body?.wipeDownstream === true,
+      });
 
       res.json({
-        ...upload,
-        transcript,
-        segments,
-        clips,
-        socialPosts,
+        id: upload.id,
+        message: `Reprocessing ${stage} started.`,
+        processingStages: await processingPipeline.getStages(upload.id),
       });
     } catch (error) {
-      console.error('Error fetching upload:', error);
-      res.status(500).json({ message: 'Failed to fetch upload' });
+      console.error('Error reprocessing upload stage:', error);
+      res.status(500).json({ message: 'Failed to reprocess upload stage' });
     }
   });
 
@@ -165,6 +900,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Streams a rendered clip, e.g. for playback in the library
+  app.get('/api/clips/:id/file', isAuthenticated, async (req: any, res) => {
+    try {
+      const clip = await storage.getClip(req.params.id);
+      const segment = clip ? await storage.getSegment(clip.segmentId) : null;
+      const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
+
+      if (!clip || !upload || upload.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: 'Clip not found' });
+      }
+      const { blobStore, blobKeyFromRef, isBlobRef } = await import('./blobStore');
+      if (isBlobRef(clip.filePath)) {
+        return res.redirect(await blobStore.getSignedUrl(blobKeyFromRef(clip.filePath), { contentType: 'video/mp4' }));
+      }
+      if (!clip.filePath || !fs.existsSync(clip.filePath)) {
+        return res.status(404).json({ message: 'Clip has not been rendered' });
+      }
+
+      res.sendFile(path.resolve(clip.filePath));
+    } catch (error) {
+      console.error('Error streaming clip:', error);
+      res.status(500).json({ message: 'Failed to stream clip' });
+    }
+  });
+
+  // Signed download URLs from the local blob store. The signature is the
+  // authorisation, so there is no session check.
+  app.get('/api/blobs/:key', async (req, res) => {
+    try {
+      const { blobStore, LocalBlobStore, contentDisposition } = await import('./blobStore');
+      if (!(blobStore instanceof LocalBlobStore) || !blobStore.verifySignedUrl(req.params.key, req.query)) {
+        return res.status(403).json({ message: 'Invalid or expired link' });
+      }
+      if (!(await blobStore.exists(req.params.key))) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+
+      if (typeof req.query.type === 'string') {
+        res.type(req.query.type);
+      }
+      if (typeof req.query.name === 'string') {
+        res.setHeader('Content-Disposition', contentDisposition(req.query.name));
+      }
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      res.sendFile(path.resolve(await blobStore.getLocalPath(req.params.key)));
+    } catch (error) {
+      console.error('Error serving blob:', error);
+      res.status(500).json({ message: 'Failed to serve file' });
+    }
+  });
+
   // Analytics routes
   app.get('/api/analytics/stats', isAuthenticated, async (req: any, res) => {
     try {
@@ -451,169 +1237,525 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/monetization/prospects/:id', isAuthenticated, async (req: any, res) => {
-    try {
-      const { id } = req.params;
-      const { status, notes } = req.body;
-      
-      const { monetizationService } = await import('./monetizationService');
-      await monetizationService.updateProspectStatus(id, status, notes);
-      
-      res.json({ success: true });
+  app.patch('/api/monetization/prospects/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { status, notes } = req.body;
+      
+      const { monetizationService } = await import('./monetizationService');
+      await monetizationService.updateProspectStatus(id, status, notes);
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error updating prospect:', error);
+      res.status(500).json({ message: 'Failed to update prospect' });
+    }
+  });
+
+  app.post('/api/monetization/cta', isAuthenticated, async (req: any, res) => {
+    try {
+      const ctaConfig = req.body;
+      
+      const { monetizationService } = await import('./monetizationService');
+      await monetizationService.setupCTA(ctaConfig);
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error setting up CTA:', error);
+      res.status(500).json({ message: 'Failed to setup CTA' });
+    }
+  });
+
+  app.get('/api/monetization/cta/performance', isAuthenticated, async (req: any, res) => {
+    try {
+      const { monetizationService } = await import('./monetizationService');
+      const performance = await monetizationService.getCTAPerformance();
+      
+      res.json(performance);
+    } catch (error) {
+      console.error('Error fetching CTA performance:', error);
+      res.status(500).json({ message: 'Failed to fetch CTA performance' });
+    }
+  });
+
+  app.post('/api/monetization/cta/track', async (req, res) => {
+    try {
+      const { url, type, revenue } = req.body;
+      
+      const { monetizationService } = await import('./monetizationService');
+      await monetizationService.trackCTAMetrics(url, type, revenue);
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error tracking CTA:', error);
+      res.status(500).json({ message: 'Failed to track CTA' });
+    }
+  });
+
+  // Graphics generation routes
+  app.post('/api/graphics/quotes/:segmentId', isAuthenticated, async (req: any, res) => {
+    try {
+      const { segmentId } = req.params;
+      const { branding } = req.body;
+      
+      const { graphicsService } = await import('./graphicsService');
+      const result = await graphicsService.processSegmentForGraphics(segmentId, branding);
+
+      // The service keeps blob refs; links are signed per response so they never go stale
+      const { blobStore, blobKeyFromRef } = await import('./blobStore');
+      const sign = (ref: string) => blobStore.getSignedUrl(blobKeyFromRef(ref), { contentType: 'image/png' });
+      res.json({
+        ...result,
+        graphics: await Promise.all(result.graphics.map(sign)),
+        carousel: { ...result.carousel, images: await Promise.all(result.carousel.images.map(sign)) },
+      });
+    } catch (error) {
+      console.error('Error generating quote graphics:', error);
+      res.status(500).json({ message: 'Failed to generate quote graphics' });
+    }
+  });
+
+  app.get('/api/graphics/templates', isAuthenticated, async (req: any, res) => {
+    try {
+      const { graphicsService } = await import('./graphicsService');
+      const templates = await graphicsService.getAvailableTemplates();
+      
+      res.json(templates);
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      res.status(500).json({ message: 'Failed to fetch templates' });
+    }
+  });
+
+  app.post('/api/graphics/templates', isAuthenticated, async (req: any, res) => {
+    try {
+      const templateData = req.body;
+      
+      const { graphicsService } = await import('./graphicsService');
+      const templateId = await graphicsService.createCustomTemplate(templateData);
+      
+      res.json({ templateId });
+    } catch (error) {
+      console.error('Error creating template:', error);
+      res.status(500).json({ message: 'Failed to create template' });
+    }
+  });
+
+  // User management routes
+  app.get('/api/workspaces', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      
+      const { userManagementService } = await import('./userManagementService');
+      const workspaces = await userManagementService.getWorkspacesByUser(userId);
+      
+      res.json(workspaces);
+    } catch (error) {
+      console.error('Error fetching workspaces:', error);
+      res.status(500).json({ message: 'Failed to fetch workspaces' });
+    }
+  });
+
+  app.post('/api/workspaces', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const workspaceData = req.body;
+
+      // Branding is used in render commands, so it is checked before it is kept
+      if (workspaceData.brandingConfig !== undefined) {
+        const { normalizeBrandingConfig, DEFAULT_BRANDING } = await import('./branding');
+        const result = await normalizeBrandingConfig(workspaceData.brandingConfig, DEFAULT_BRANDING, null);
+        if ('error' in result) {
+          return res.status(400).json({ message: result.error });
+        }
+        workspaceData.brandingConfig = result.branding;
+      }
+      
+      const { userManagementService } = await import('./userManagementService');
+      const workspace = await userManagementService.createWorkspace(userId, workspaceData);
+      
+      res.json(workspace);
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+      res.status(500).json({ message: 'Failed to create workspace' });
+    }
+  });
+
+  app.get('/api/workspaces/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      
+      const { userManagementService } = await import('./userManagementService');
+      const workspace = await userManagementService.getWorkspace(id);
+      
+      if (!workspace) {
+        return res.status(404).json({ message: 'Workspace not found' });
+      }
+      
+      res.json(workspace);
+    } catch (error) {
+      console.error('Error fetching workspace:', error);
+      res.status(500).json({ message: 'Failed to fetch workspace' });
+    }
+  });
+
+  app.patch('/api/workspaces/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const updates = req.body;
+      const userId = req.user.claims.sub;
+      
+      const { userManagementService } = await import('./userManagementService');
+      const hasPermission = await userManagementService.checkPermission(userId, id, 'workspace.manage');
+      
+      if (!hasPermission) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      if (updates.brandingConfig !== undefined) {
+        const workspace = await userManagementService.getWorkspace(id);
+        if (!workspace) {
+          return res.status(404).json({ message: 'Workspace not found' });
+        }
+        const { normalizeBrandingConfig } = await import('./branding');
+        const result = await normalizeBrandingConfig(updates.brandingConfig, workspace.brandingConfig, id);
+        if ('error' in result) {
+          return res.status(400).json({ message: result.error });
+        }
+        updates.brandingConfig = result.branding;
+      }
+      
+      await userManagementService.updateWorkspace(id, updates);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error updating workspace:', error);
+      res.status(500).json({ message: 'Failed to update workspace' });
+    }
+  });
+
+  // Logos and intro/outro bumpers; branding and renders refer to them by the returned ref
+  app.post('/api/workspaces/:id/brand-assets', isAuthenticated, upload.single('file'), async (req: any, res) => {
+    const discard = () => req.file && fs.promises.unlink(req.file.path).catch(() => {});
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+
+      const { userManagementService } = await import('./userManagementService');
+      const hasPermission = await userManagementService.checkPermission(userId, id, 'workspace.manage');
+      if (!hasPermission) {
+        await discard();
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      const { BRAND_ASSET_TYPES, isBrandAssetType, saveBrandAsset } = await import('./branding');
+      const { asset } = req.body;
+      if (!isBrandAssetType(asset)) {
+        await discard();
+        return res.status(400).json({ message: `asset must be one of ${Object.keys(BRAND_ASSET_TYPES).join(', ')}` });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: 'No file uploaded' });
+      }
+      const allowed: readonly string[] = BRAND_ASSET_TYPES[asset];
+      if (!allowed.includes(req.file.mimetype)) {
+        await discard();
+        return res.status(400).json({ message: `A ${asset} must be ${allowed.join(' or ')}` });
+      }
+      if (asset === 'bumper') {
+        const { inspectUploadFile } = await import('./mediaProbe');
+        const inspection = await inspectUploadFile(req.file.path, { mimeType: req.file.mimetype, originalName: req.file.originalname });
+        if (!inspection.success) {
+          await discard();
+          return res.status(400).json({ message: inspection.error });
+        }
+      }
+
+      const { checkStorageQuota } = await import('./storageQuota');
+      const quota = await checkStorageQuota({ userId, workspaceId: id }, req.file.size);
+      if (!quota.allowed) {
+        await discard();
+        return res.status(413).json({ message: quota.error, usage: quota.usage });
+      }
+
+      const ref = await saveBrandAsset(req.file.path, {
+        userId,
+        workspaceId: id,
+        asset,
+        fileName: req.file.originalname,
+        mimeType: req.file.mimetype,
+      });
+      res.status(201).json({ ref, asset, fileName: req.file.originalname });
+    } catch (error) {
+      await discard();
+      console.error('Error uploading brand asset:', error);
+      res.status(500).json({ message: 'Failed to upload brand asset' });
+    }
+  });
+
+  // Transcription provider routes
+  app.get('/api/transcription/providers', isAuthenticated, async (req: any, res) => {
+    try {
+      const { transcriptionProviders } = await import('./transcriptionProviders');
+      res.json({
+        default: transcriptionProviders.getDefaultName(),
+        providers: transcriptionProviders.list(),
+      });
+    } catch (error) {
+      console.error('Error fetching transcription providers:', error);
+      res.status(500).json({ message: 'Failed to fetch transcription providers' });
+    }
+  });
+
+  app.put('/api/workspaces/:id/transcription-provider', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { provider } = req.body;
+      const userId = req.user.claims.sub;
+
+      const { userManagementService } = await import('./userManagementService');
+      const hasPermission = await userManagementService.checkPermission(userId, id, 'settings.manage');
+
+      if (!hasPermission) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      const { transcriptionProviders } = await import('./transcriptionProviders');
+      if (provider && !transcriptionProviders.has(provider)) {
+        return res.status(400).json({ message: `Unknown transcription provider: ${provider}` });
+      }
+
+      const workspace = await userManagementService.updateWorkspaceSettings(id, {
+        transcriptionProvider: provider || undefined,
+      });
+      res.json(workspace.settings);
     } catch (error) {
-      console.error('Error updating prospect:', error);
-      res.status(500).json({ message: 'Failed to update prospect' });
+      console.error('Error updating transcription provider:', error);
+      res.status(500).json({ message: 'Failed to update transcription provider' });
     }
   });
 
-  app.post('/api/monetization/cta', isAuthenticated, async (req: any, res) => {
+  app.get('/api/workspaces/:id/glossary', isAuthenticated, async (req: any, res) => {
     try {
-      const ctaConfig = req.body;
-      
-      const { monetizationService } = await import('./monetizationService');
-      await monetizationService.setupCTA(ctaConfig);
-      
-      res.json({ success: true });
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+
+      const { userManagementService } = await import('./userManagementService');
+      const workspaces = await userManagementService.getWorkspacesByUser(userId);
+
+      if (!workspaces.some(workspace => workspace.id === id)) {
+        return res.status(404).json({ message: 'Workspace not found' });
+      }
+
+      const { getWorkspaceGlossary } = await import('./glossary');
+      res.json(await getWorkspaceGlossary(id));
     } catch (error) {
-      console.error('Error setting up CTA:', error);
-      res.status(500).json({ message: 'Failed to setup CTA' });
+      console.error('Error fetching glossary:', error);
+      res.status(500).json({ message: 'Failed to fetch glossary' });
     }
   });
 
-  app.get('/api/monetization/cta/performance', isAuthenticated, async (req: any, res) => {
+  app.put('/api/workspaces/:id/glossary', isAuthenticated, async (req: any, res) => {
     try {
-      const { monetizationService } = await import('./monetizationService');
-      const performance = await monetizationService.getCTAPerformance();
-      
-      res.json(performance);
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+
+      const { userManagementService } = await import('./userManagementService');
+      const hasPermission = await userManagementService.checkPermission(userId, id, 'settings.manage');
+
+      if (!hasPermission) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      const { normalizeGlossary } = await import('./glossary');
+      const glossary = normalizeGlossary(req.body.terms);
+      if (!glossary) {
+        return res.status(400).json({ message: 'terms must be an array of { term, misspellings?, pronunciation? }' });
+      }
+
+      const workspace = await userManagementService.updateWorkspaceSettings(id, { glossary });
+      res.json(workspace.settings.glossary);
     } catch (error) {
-      console.error('Error fetching CTA performance:', error);
-      res.status(500).json({ message: 'Failed to fetch CTA performance' });
+      console.error('Error updating glossary:', error);
+      res.status(500).json({ message: 'Failed to update glossary' });
     }
   });
 
-  app.post('/api/monetization/cta/track', async (req, res) => {
+  app.get('/api/workspaces/:id/audio-preprocessing', isAuthenticated, async (req: any, res) => {
     try {
-      const { url, type, revenue } = req.body;
-      
-      const { monetizationService } = await import('./monetizationService');
-      await monetizationService.trackCTAMetrics(url, type, revenue);
-      
-      res.json({ success: true });
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+
+      const { userManagementService } = await import('./userManagementService');
+      const workspaces = await userManagementService.getWorkspacesByUser(userId);
+
+      if (!workspaces.some(workspace => workspace.id === id)) {
+        return res.status(404).json({ message: 'Workspace not found' });
+      }
+
+      const { getAudioPreprocessingSettings, LOUDNESS_TARGETS } = await import('./audioPreprocessing');
+      res.json({ settings: await getAudioPreprocessingSettings(id), targets: LOUDNESS_TARGETS });
     } catch (error) {
-      console.error('Error tracking CTA:', error);
-      res.status(500).json({ message: 'Failed to track CTA' });
+      console.error('Error fetching audio preprocessing settings:', error);
+      res.status(500).json({ message: 'Failed to fetch audio preprocessing settings' });
     }
   });
 
-  // Graphics generation routes
-  app.post('/api/graphics/quotes/:segmentId', isAuthenticated, async (req: any, res) => {
+  app.put('/api/workspaces/:id/audio-preprocessing', isAuthenticated, async (req: any, res) => {
     try {
-      const { segmentId } = req.params;
-      const { branding } = req.body;
-      
-      const { graphicsService } = await import('./graphicsService');
-      const result = await graphicsService.processSegmentForGraphics(segmentId, branding);
-      
-      res.json(result);
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+
+      const { userManagementService } = await import('./userManagementService');
+      const hasPermission = await userManagementService.checkPermission(userId, id, 'settings.manage');
+
+      if (!hasPermission) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      const { getAudioPreprocessingSettings, normalizeAudioPreprocessingSettings, LOUDNESS_TARGETS } = await import('./audioPreprocessing');
+      const audioPreprocessing = normalizeAudioPreprocessingSettings(req.body, await getAudioPreprocessingSettings(id));
+      if (!audioPreprocessing) {
+        return res.status(400).json({
+          message: `Expected { enabled?: boolean, denoise?: boolean, platform?: ${Object.keys(LOUDNESS_TARGETS).join(' | ')} }`,
+        });
+      }
+
+      const workspace = await userManagementService.updateWorkspaceSettings(id, { audioPreprocessing });
+      res.json(workspace.settings.audioPreprocessing);
     } catch (error) {
-      console.error('Error generating quote graphics:', error);
-      res.status(500).json({ message: 'Failed to generate quote graphics' });
+      console.error('Error updating audio preprocessing settings:', error);
+      res.status(500).json({ message: 'Failed to update audio preprocessing settings' });
     }
   });
 
-  app.get('/api/graphics/templates', isAuthenticated, async (req: any, res) => {
+  // Storage usage and retention
+  app.get('/api/storage/usage', isAuthenticated, async (req: any, res) => {
     try {
-      const { graphicsService } = await import('./graphicsService');
-      const templates = await graphicsService.getAvailableTemplates();
-      
-      res.json(templates);
+      const userId = req.user.claims.sub;
+      const { getStorageUsage } = await import('./storageQuota');
+      res.json(await getStorageUsage({ userId }));
     } catch (error) {
-      console.error('Error fetching templates:', error);
-      res.status(500).json({ message: 'Failed to fetch templates' });
+      console.error('Error fetching storage usage:', error);
+      res.status(500).json({ message: 'Failed to fetch storage usage' });
     }
   });
 
-  app.post('/api/graphics/templates', isAuthenticated, async (req: any, res) => {
+  app.get('/api/workspaces/:id/storage', isAuthenticated, async (req: any, res) => {
     try {
-      const templateData = req.body;
-      
-      const { graphicsService } = await import('./graphicsService');
-      const templateId = await graphicsService.createCustomTemplate(templateData);
-      
-      res.json({ templateId });
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+
+      const { userManagementService } = await import('./userManagementService');
+      const hasPermission = await userManagementService.checkPermission(userId, id, 'analytics.view');
+
+      if (!hasPermission) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      const { getStorageUsage } = await import('./storageQuota');
+      res.json(await getStorageUsage({ userId, workspaceId: id }));
     } catch (error) {
-      console.error('Error creating template:', error);
-      res.status(500).json({ message: 'Failed to create template' });
+      console.error('Error fetching workspace storage usage:', error);
+      res.status(500).json({ message: 'Failed to fetch workspace storage usage' });
     }
   });
 
-  // User management routes
-  app.get('/api/workspaces', isAuthenticated, async (req: any, res) => {
+  app.get('/api/workspaces/:id/retention', isAuthenticated, async (req: any, res) => {
     try {
+      const { id } = req.params;
       const userId = req.user.claims.sub;
-      
+
       const { userManagementService } = await import('./userManagementService');
       const workspaces = await userManagementService.getWorkspacesByUser(userId);
-      
-      res.json(workspaces);
+
+      if (!workspaces.some(workspace => workspace.id === id)) {
+        return res.status(404).json({ message: 'Workspace not found' });
+      }
+
+      const { getRetentionSettings, RETENTION_ASSET_KINDS } = await import('./retentionService');
+      res.json({
+        settings: await getRetentionSettings(id),
+        assetKinds: RETENTION_ASSET_KINDS,
+        lastRun: await storage.getRetentionRun(id),
+      });
     } catch (error) {
-      console.error('Error fetching workspaces:', error);
-      res.status(500).json({ message: 'Failed to fetch workspaces' });
+      console.error('Error fetching retention settings:', error);
+      res.status(500).json({ message: 'Failed to fetch retention settings' });
     }
   });
 
-  app.post('/api/workspaces', isAuthenticated, async (req: any, res) => {
+  app.put('/api/workspaces/:id/retention', isAuthenticated, async (req: any, res) => {
     try {
+      const { id } = req.params;
       const userId = req.user.claims.sub;
-      const workspaceData = req.body;
-      
+
       const { userManagementService } = await import('./userManagementService');
-      const workspace = await userManagementService.createWorkspace(userId, workspaceData);
-      
-      res.json(workspace);
+      const hasPermission = await userManagementService.checkPermission(userId, id, 'settings.manage');
+
+      if (!hasPermission) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      const { getRetentionSettings, normalizeRetentionSettings, RETENTION_ASSET_KINDS } = await import('./retentionService');
+      const retention = normalizeRetentionSettings(req.body, await getRetentionSettings(id));
+      if (!retention) {
+        return res.status(400).json({
+          message: `Expected { enabled?: boolean, dryRun?: boolean, rules?: { assets: ${RETENTION_ASSET_KINDS.join(' | ')}, afterDays: number }[] } with one rule per asset kind`,
+        });
+      }
+
+      const workspace = await userManagementService.updateWorkspaceSettings(id, { retention });
+      res.json(workspace.settings.retention);
     } catch (error) {
-      console.error('Error creating workspace:', error);
-      res.status(500).json({ message: 'Failed to create workspace' });
+      console.error('Error updating retention settings:', error);
+      res.status(500).json({ message: 'Failed to update retention settings' });
     }
   });
 
-  app.get('/api/workspaces/:id', isAuthenticated, async (req: any, res) => {
+  // Lists what the current rules would delete without deleting anything
+  app.get('/api/workspaces/:id/retention/report', isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
-      
+      const userId = req.user.claims.sub;
+
       const { userManagementService } = await import('./userManagementService');
-      const workspace = await userManagementService.getWorkspace(id);
-      
-      if (!workspace) {
-        return res.status(404).json({ message: 'Workspace not found' });
+      const hasPermission = await userManagementService.checkPermission(userId, id, 'settings.manage');
+
+      if (!hasPermission) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
       }
-      
-      res.json(workspace);
+
+      const { retentionService } = await import('./retentionService');
+      res.json(await retentionService.run(id, { dryRun: true }));
     } catch (error) {
-      console.error('Error fetching workspace:', error);
-      res.status(500).json({ message: 'Failed to fetch workspace' });
+      console.error('Error building retention report:', error);
+      res.status(500).json({ message: 'Failed to build retention report' });
     }
   });
 
-  app.patch('/api/workspaces/:id', isAuthenticated, async (req: any, res) => {
+  app.post('/api/workspaces/:id/retention/run', isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
-      const updates = req.body;
       const userId = req.user.claims.sub;
-      
+
       const { userManagementService } = await import('./userManagementService');
-      const hasPermission = await userManagementService.checkPermission(userId, id, 'workspace.manage');
-      
+      const hasPermission = await userManagementService.checkPermission(userId, id, 'settings.manage');
+
       if (!hasPermission) {
         return res.status(403).json({ message: 'Insufficient permissions' });
       }
-      
-      await userManagementService.updateWorkspace(id, updates);
-      res.json({ success: true });
+
+      const { retentionService } = await import('./retentionService');
+      const report = await retentionService.run(id, { dryRun: req.body?.dryRun === true });
+      if (!report.dryRun) {
+        const { recordStorageUsage } = await import('./storageQuota');
+        const workspace = await userManagementService.getWorkspace(id);
+        if (workspace) await recordStorageUsage(workspace.ownerId);
+      }
+      res.json(report);
     } catch (error) {
-      console.error('Error updating workspace:', error);
-      res.status(500).json({ message: 'Failed to update workspace' });
+      console.error('Error running retention:', error);
+      res.status(500).json({ message: 'Failed to run retention' });
     }
   });
 
@@ -810,7 +1952,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const thumbnail = await contentGenerators.generateThumbnail(segment, templateId);
-      res.json(thumbnail);
+      const { blobStore, blobKeyFromRef } = await import('./blobStore');
+      res.json({
+        ...thumbnail,
+        imageUrl: await blobStore.getSignedUrl(blobKeyFromRef(thumbnail.filePath), { contentType: 'image/png' }),
+      });
     } catch (error) {
       console.error('Error generating thumbnail:', error);
       res.status(500).json({ message: 'Failed to generate thumbnail' });
@@ -835,8 +1981,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const { contentGenerators } = await import('./contentGenerators');
       const content = await contentGenerators.processSegmentsForContent(uploadId);
-      
-      res.json(content);
+
+      const { blobStore, blobKeyFromRef } = await import('./blobStore');
+      const thumbnails = await Promise.all(content.thumbnails.map(async ({ filePath, ...thumbnail }) => ({
+        ...thumbnail,
+        imageUrl: await blobStore.getSignedUrl(blobKeyFromRef(filePath), { contentType: 'image/png' }),
+      })));
+      res.json({ ...content, thumbnails });
     } catch (error) {
       console.error('Error processing content:', error);
       res.status(500).json({ message: 'Failed to process content' });
@@ -925,42 +2076,159 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Vertical shorts generation routes
+  // Caption style routes
+  app.get('/api/captions/presets', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const workspaceId = req.query.workspaceId as string | undefined;
+
+      if (workspaceId) {
+        const { userManagementService } = await import('./userManagementService');
+        const workspaces = await userManagementService.getWorkspacesByUser(userId);
+        if (!workspaces.some(workspace => workspace.id === workspaceId)) {
+          return res.status(404).json({ message: 'Workspace not found' });
+        }
+      }
+
+      const { getWorkspaceCaptionPresets } = await import('./captionStyles');
+      res.json(await getWorkspaceCaptionPresets(workspaceId));
+    } catch (error) {
+      console.error('Error fetching caption presets:', error);
+      res.status(500).json({ message: 'Failed to fetch caption presets' });
+    }
+  });
+
+  app.put('/api/workspaces/:id/caption-presets', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+
+      const { userManagementService } = await import('./userManagementService');
+      const hasPermission = await userManagementService.checkPermission(userId, id, 'settings.manage');
+
+      if (!hasPermission) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      const { presets } = req.body;
+      if (!Array.isArray(presets)) {
+        return res.status(400).json({ message: 'presets must be an array of { name, style }' });
+      }
+
+      const { BUILT_IN_CAPTION_PRESETS, normalizeCaptionStyle } = await import('./captionStyles');
+      const reserved = new Set(BUILT_IN_CAPTION_PRESETS.map(preset => preset.name.toLowerCase()));
+      const seen = new Set<string>();
+      const captionPresets = [];
+
+      for (const preset of presets) {
+        const name = typeof preset?.name === 'string' ? preset.name.trim() : '';
+        const style = normalizeCaptionStyle(preset?.style);
+
+        if (!name || !style) {
+          return res.status(400).json({ message: `Invalid caption preset: ${name || '(unnamed)'}` });
+        }
+        if (reserved.has(name.toLowerCase()) || seen.has(name.toLowerCase())) {
+          return res.status(400).json({ message: `Duplicate caption preset name: ${name}` });
+        }
+
+        seen.add(name.toLowerCase());
+        captionPresets.push({ name, style });
+      }
+
+      const workspace = await userManagementService.updateWorkspaceSettings(id, { captionPresets });
+      res.json(workspace.settings.captionPresets);
+    } catch (error) {
+      console.error('Error saving caption presets:', error);
+      res.status(500).json({ message: 'Failed to save caption presets' });
+    }
+  });
+
+  app.post('/api/captions/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const { normalizeCaptionStyle } = await import('./captionStyles');
+      const style = normalizeCaptionStyle(req.body.style);
+      if (!style) {
+        return res.status(400).json({ message: 'Invalid caption style' });
+      }
+
+      const { shortsGenerator } = await import('./shortsGenerator');
+      const image = await shortsGenerator.renderCaptionPreview(style);
+
+      res.set('Content-Type', 'image/png');
+      res.send(image);
+    } catch (error) {
+      console.error('Error rendering caption preview:', error);
+      res.status(500).json({ message: 'Failed to render caption preview' });
+    }
+  });
+
+  // Vertical shorts generation routes. The processing pipeline already
+  // renders a short per segment; this re-renders them with a chosen style.
   app.post('/api/shorts/generate/:uploadId', isAuthenticated, async (req: any, res) => {
     try {
       const { uploadId } = req.params;
-      const { config } = req.body;
+      const { config = {} } = req.body;
       
       const upload = await storage.getUpload(uploadId);
-      if (!upload) {
+      if (!upload || upload.userId !== req.user.claims.sub) {
         return res.status(404).json({ message: 'Upload not found' });
       }
+
+      const { isTextDocument } = await import('./documentText');
+      if (isTextDocument(upload)) {
+        return res.status(400).json({ message: 'Text documents have no media to render' });
+      }
       
       const segments = await storage.getSegmentsByUploadId(uploadId);
       if (segments.length === 0) {
         return res.status(400).json({ message: 'No segments found for upload' });
       }
+
+      let captionStyle;
+      if (config.captionStyle) {
+        const { normalizeCaptionStyle } = await import('./captionStyles');
+        captionStyle = normalizeCaptionStyle(config.captionStyle);
+        if (!captionStyle) {
+          return res.status(400).json({ message: 'Invalid caption style' });
+        }
+      }
+
+      const layouts = ['auto', 'track', 'split', 'blur', 'center'];
+      if (config.reframe !== undefined && !layouts.includes(config.reframe)) {
+        return res.status(400).json({ message: `reframe must be one of ${layouts.join(', ')}` });
+      }
+
+      let tighten;
+      if (config.tighten !== undefined && config.tighten !== false) {
+        const { normalizeTightenOptions } = await import('./tighten');
+        tighten = normalizeTightenOptions(config.tighten);
+        if (!tighten) {
+          return res.status(400).json({ message: 'Invalid tighten options' });
+        }
+      }
+
+      let introOutro;
+      if (config.introOutro !== undefined && config.introOutro !== null) {
+        const { normalizeIntroOutroConfig } = await import('./introOutro');
+        const result = await normalizeIntroOutroConfig(config.introOutro, upload.workspaceId);
+        if ('error' in result) {
+          return res.status(400).json({ message: result.error });
+        }
+        introOutro = result.config;
+      }
+
+      const { RENDER_TARGETS } = await import('./renderTargets');
+      const { clipRenderer } = await import('./clipRenderer');
+      const target = { ...RENDER_TARGETS['9:16'], ...(config.reframe ? { reframe: config.reframe } : {}) };
+
+      for (const segment of segments) {
+        await clipRenderer.renderSegment(segment, [target], { captionStyle, tighten, introOutro });
+      }
       
-      const { shortsGenerator } = await import('./shortsGenerator');
-      const outputDir = `./uploads/shorts/${uploadId}`;
-      
-      // For demo purposes, simulate shorts generation
-      const results = await Promise.all(
-        segments.map(async (segment) => ({
-          segmentId: segment.id,
-          outputPath: `${outputDir}/short_${segment.id}.mp4`,
-          duration: parseFloat(segment.endTime) - parseFloat(segment.startTime),
-          size: Math.floor(Math.random() * 50000000) + 10000000, // 10-60MB
-          format: 'mp4',
-          resolution: '1080x1920'
-        }))
-      );
-      
-      res.json({
+      res.status(202).json({
         uploadId,
-        totalShorts: results.length,
-        results,
-        status: 'completed'
+        totalShorts: segments.length,
+        status: 'queued'
       });
     } catch (error) {
       console.error('Error generating vertical shorts:', error);
@@ -971,15 +2239,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/shorts/:uploadId/status', isAuthenticated, async (req: any, res) => {
     try {
       const { uploadId } = req.params;
+      const upload = await storage.getUpload(uploadId);
+      if (!upload || upload.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const { parseJsonColumn } = await import('./transcriptData');
+      const shorts = (await storage.getClipsByUploadId(uploadId)).filter(clip => clip.type === 'vertical_short');
+      const results = shorts.map(clip => {
+        const metadata = parseJsonColumn<import('./clipRenderer').VideoClipMetadata>(clip.metadata);
+        return {
+          clipId: clip.id,
+          segmentId: clip.segmentId,
+          status: clip.status,
+          outputPath: clip.filePath,
+          duration: metadata?.duration ?? 0,
+          size: metadata?.size ?? 0,
+          format: 'mp4',
+          resolution: metadata?.resolution,
+          layout: metadata?.layout,
+          removedSeconds: metadata?.removedSeconds,
+          error: metadata?.error,
+        };
+      });
+
+      const completedShorts = results.filter(result => result.status === 'completed').length;
+      const finished = results.filter(result => result.status === 'completed' || result.status === 'failed').length;
       
-      // Simulate shorts generation status
       res.json({
         uploadId,
-        status: 'completed',
-        progress: 100,
-        totalShorts: 3,
-        completedShorts: 3,
-        estimatedTimeRemaining: 0
+        status: results.length === 0 ? 'none' : finished === results.length ? 'completed' : 'processing',
+        progress: results.length ? Math.round((finished / results.length) * 100) : 0,
+        totalShorts: results.length,
+        completedShorts,
+        results
       });
     } catch (error) {
       console.error('Error fetching shorts status:', error);
@@ -2058,20 +3351,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { fileName } = req.params;
       const userId = req.user.claims.sub;
       
-      // Verify user owns this report
-      if (!fileName.includes(`-${userId}-week-`)) {
-        return res.status(403).json({ error: 'Access denied' });
-      }
-      
-      const filePath = `./reports/${fileName}`;
-      
-      if (!require('fs').existsSync(filePath)) {
+      // Reports are looked up among the user's own, so others' are not found
+      const { WEEKLY_REPORT_KIND } = await import('./weeklyReportGenerator');
+      const report = await storage.getGeneratedFileByName(userId, WEEKLY_REPORT_KIND, fileName);
+      if (!report) {
         return res.status(404).json({ error: 'Report not found' });
       }
       
-      res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-      res.sendFile(require('path').resolve(filePath));
+      const { blobStore, blobKeyFromRef } = await import('./blobStore');
+      res.redirect(await blobStore.getSignedUrl(blobKeyFromRef(report.filePath), {
+        contentType: report.mimeType,
+        downloadName: report.fileName,
+      }));
     } catch (error) {
       console.error('Error downloading report:', error);
       res.status(500).json({ error: 'Failed to download report' });
@@ -2727,7 +4018,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.claims.sub;
       const uploads = await storage.getUserUploads(userId);
       const processingUploads = uploads.filter(u => 
-        ['uploaded', 'transcribing', 'segmenting', 'processing'].includes(u.status)
+        ['uploaded', 'preprocessing', 'transcribing', 'segmenting', 'processing', 'generating_content'].includes(u.status)
       );
 
       res.json(processingUploads);
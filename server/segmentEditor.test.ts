@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Segment, Upload } from "@shared/schema";
+
+const state = vi.hoisted(() => ({
+  segments: [] as any[],
+  created: [] as any[],
+  deleted: [] as string[],
+  removedFiles: [] as string[],
+  removedClipsFor: [] as string[],
+}));
+
+vi.mock("./storage", () => ({
+  storage: {
+    getSegmentsByUploadId: vi.fn(async () => state.segments),
+    getTranscriptByUploadId: vi.fn(async () => null),
+    createSegments: vi.fn(async (rows: any[]) => {
+      const created = rows.map((row, i) => ({ id: `new-${i}`, ...row }));
+      state.created.push(...created);
+      return created;
+    }),
+    updateSegment: vi.fn(async (id: string, updates: any) => ({ id, ...updates })),
+    deleteSegment: vi.fn(async (id: string) => { state.deleted.push(id); }),
+  },
+}));
+vi.mock("./enhancedQueueSystem", () => ({
+  enhancedQueueSystem: { addJob: vi.fn(async () => {}), createWorker: vi.fn() },
+}));
+vi.mock("./processors/clipGeneration", () => ({ generateClipsForSegment: vi.fn() }));
+vi.mock("./processors/socialContent", () => ({ generateSocialContentForSegment: vi.fn() }));
+vi.mock("./clipRenderer", () => ({
+  clipRenderer: { removeSegmentClips: vi.fn(async (id: string) => { state.removedClipsFor.push(id); }) },
+}));
+vi.mock("./thumbnailFrames", () => ({
+  removeThumbnailFrames: vi.fn(async (segment: any) => {
+    if (segment.thumbnailFramePath) state.removedFiles.push(segment.thumbnailFramePath);
+  }),
+}));
+
+const { segmentEditor } = await import("./segmentEditor");
+
+const upload = { id: "upload-1", duration: "60" } as Upload;
+
+function segment(id: string, startTime: number, endTime: number, extra: Partial<Segment> = {}): Segment {
+  return { id, uploadId: upload.id, title: id, startTime: String(startTime), endTime: String(endTime), order: 1, ...extra } as Segment;
+}
+
+beforeEach(() => {
+  state.segments = [segment("a", 0, 10), segment("b", 20, 30)];
+  state.created = [];
+  state.deleted = [];
+  state.removedFiles = [];
+  state.removedClipsFor = [];
+});
+
+describe("createSegment", () => {
+  it("creates a segment in a free range", async () => {
+    const result = await segmentEditor.createSegment(upload, { title: " Intro ", startTime: 12, endTime: 18 });
+
+    expect(result.success).toBe(true);
+    expect(state.created).toMatchObject([{ title: "Intro", startTime: "12", endTime: "18" }]);
+  });
+
+  it.each([
+    [{ startTime: 5, endTime: 15 }, /overlap "a"/],
+    [{ startTime: 50, endTime: 70 }, /within the media duration/],
+    [{ startTime: -1, endTime: 5 }, /within the media duration/],
+    [{ startTime: 12, endTime: 12.5 }, /at least 1s/],
+    [{ startTime: NaN, endTime: 15 }, /must be numbers/],
+  ])("rejects %o", async (range, message) => {
+    const result = await segmentEditor.createSegment(upload, { title: "New", ...range });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(message);
+    expect(state.created).toEqual([]);
+  });
+
+  it("requires a title", async () => {
+    const result = await segmentEditor.createSegment(upload, { title: "  ", startTime: 12, endTime: 18 });
+    expect(result).toEqual({ success: false, error: "Title cannot be empty" });
+  });
+});
+
+describe("removing segments", () => {
+  it("removes clip files and thumbnail frames of a deleted segment", async () => {
+    const target = segment("a", 0, 10, { thumbnailFramePath: "blob:frame.jpg" });
+    await segmentEditor.deleteSegment(upload, target);
+
+    expect(state.removedClipsFor).toEqual(["a"]);
+    expect(state.deleted).toEqual(["a"]);
+    expect(state.removedFiles).toEqual(["blob:frame.jpg"]);
+  });
+
+  it("removes the files of the segment merged away", async () => {
+    state.segments = [segment("a", 0, 10), segment("b", 10, 20)];
+    await segmentEditor.mergeSegments(upload, state.segments[1], state.segments[0]);
+
+    expect(state.removedClipsFor).toEqual(["b"]);
+    expect(state.deleted).toEqual(["b"]);
+  });
+});
@@ -0,0 +1,278 @@
+import type { Job } from 'bullmq';
+import type { Segment, Upload } from '@shared/schema';
+import { enhancedQueueSystem } from './enhancedQueueSystem';
+import { storage } from './storage';
+import { getTextInRange, getTranscriptWords, snapToWordGap, type TranscriptWord } from './transcriptData';
+import { generateClipsForSegment } from './processors/clipGeneration';
+import { generateSocialContentForSegment } from './processors/socialContent';
+import { clipRenderer } from './clipRenderer';
+import { removeThumbnailFrames } from './thumbnailFrames';
+
+export interface NewSegment {
+  title: string;
+  summary?: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface SegmentChanges {
+  title?: string;
+  summary?: string;
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface SegmentEditResult {
+  success: boolean;
+  segments?: Segment[];
+  error?: string;
+}
+
+interface RegenerationJobData {
+  segmentId: string;
+}
+
+const REGENERATION_QUEUE = 'segment-regeneration';
+const MIN_SEGMENT_SECONDS = 1;
+
+export class SegmentEditor {
+  private started = false;
+
+  async start(): Promise<void> {
+    if (this.started) return;
+
+    // One job at a time so repeated edits to a segment apply in order
+    await enhancedQueueSystem.createWorker(
+      REGENERATION_QUEUE,
+      (job: Job<RegenerationJobData>) => this.regenerate(job.data.segmentId),
+      { concurrency: 1 }
+    );
+    this.started = true;
+    console.log('[SegmentEditor] Regeneration worker started');
+  }
+
+  // Adds a segment by hand, held to the same range, overlap and duration
+  // rules as the ones the model proposes
+  async createSegment(upload: Upload, input: NewSegment): Promise<SegmentEditResult> {
+    const context = await this.loadContext(upload);
+
+    if (!input.title.trim()) {
+      return { success: false, error: 'Title cannot be empty' };
+    }
+    const error = this.validateRange(context, null, input.startTime, input.endTime);
+    if (error) return { success: false, error };
+
+    const [created] = await storage.createSegments([{
+      uploadId: upload.id,
+      title: input.title.trim(),
+      summary: input.summary ?? null,
+      startTime: input.startTime.toString(),
+      endTime: input.endTime.toString(),
+      transcript: context.words.length ? getTextInRange(context.words, input.startTime, input.endTime) : null,
+      order: context.segments.length + 1,
+    }]);
+
+    // Segments are numbered in timeline order
+    const ordered = [...context.segments, created].sort((a, b) => parseFloat(a.startTime) - parseFloat(b.startTime));
+    await this.renumber(ordered.map(s => s.id));
+
+    await this.queueRegeneration(created.id);
+    return { success: true, segments: await storage.getSegmentsByUploadId(upload.id) };
+  }
+
+  async updateSegment(upload: Upload, segment: Segment, changes: SegmentChanges): Promise<SegmentEditResult> {
+    const context = await this.loadContext(upload);
+    const startTime = changes.startTime ?? parseFloat(segment.startTime);
+    const endTime = changes.endTime ?? parseFloat(segment.endTime);
+    const timingChanged = startTime !== parseFloat(segment.startTime) || endTime !== parseFloat(segment.endTime);
+
+    if (timingChanged) {
+      const error = this.validateRange(context, segment.id, startTime, endTime);
+      if (error) return { success: false, error };
+    }
+
+    if (changes.title !== undefined && !changes.title.trim()) {
+      return { success: false, error: 'Title cannot be empty' };
+    }
+
+    const updated = await storage.updateSegment(segment.id, {
+      title: changes.title?.trim() ?? segment.title,
+      summary: changes.summary ?? segment.summary,
+      startTime: startTime.toString(),
+      endTime: endTime.toString(),
+      transcript: timingChanged ? this.transcriptFor(context.words, segment, startTime, endTime) : segment.transcript,
+    });
+
+    await this.queueRegeneration(updated.id);
+    return { success: true, segments: [updated] };
+  }
+
+  async splitSegment(upload: Upload, segment: Segment, at: number): Promise<SegmentEditResult> {
+    const context = await this.loadContext(upload);
+    const startTime = parseFloat(segment.startTime);
+    const endTime = parseFloat(segment.endTime);
+    const splitAt = context.words.length ? snapToWordGap(context.words, at) : at;
+
+    if (splitAt - startTime < MIN_SEGMENT_SECONDS || endTime - splitAt < MIN_SEGMENT_SECONDS) {
+      return { success: false, error: `Split point must leave at least ${MIN_SEGMENT_SECONDS}s on each side` };
+    }
+
+    const first = await storage.updateSegment(segment.id, {
+      endTime: splitAt.toString(),
+      transcript: this.transcriptFor(context.words, segment, startTime, splitAt),
+    });
+
+    const [second] = await storage.createSegments([{
+      uploadId: upload.id,
+      title: `${segment.title} (Part 2)`,
+      summary: segment.summary,
+      startTime: splitAt.toString(),
+      endTime: endTime.toString(),
+      transcript: this.transcriptFor(context.words, segment, splitAt, endTime),
+      order: segment.order + 1,
+    }]);
+
+    // Slot the new segment in directly after the one it came from
+    const orderedIds = context.segments.map(s => s.id);
+    orderedIds.splice(orderedIds.indexOf(segment.id) + 1, 0, second.id);
+    await this.renumber(orderedIds);
+
+    await this.queueRegeneration(first.id);
+    await this.queueRegeneration(second.id);
+    return { success: true, segments: await storage.getSegmentsByUploadId(upload.id) };
+  }
+
+  async mergeSegments(upload: Upload, segment: Segment, other: Segment): Promise<SegmentEditResult> {
+    const context = await this.loadContext(upload);
+    const [earlier, later] = parseFloat(segment.startTime) <= parseFloat(other.startTime)
+      ? [segment, other]
+      : [other, segment];
+
+    const startTime = parseFloat(earlier.startTime);
+    const endTime = parseFloat(later.endTime);
+
+    const between = context.segments.some(s =>
+      s.id !== earlier.id &&
+      s.id !== later.id &&
+      parseFloat(s.startTime) >= parseFloat(earlier.endTime) &&
+      parseFloat(s.endTime) <= parseFloat(later.startTime)
+    );
+    if (between) {
+      return { success: false, error: 'Only neighbouring segments can be merged' };
+    }
+
+    const transcript = context.words.length
+      ? getTextInRange(context.words, startTime, endTime)
+      : [earlier.transcript, later.transcript].filter(Boolean).join(' ');
+
+    const merged = await storage.updateSegment(earlier.id, {
+      endTime: endTime.toString(),
+      transcript,
+    });
+    await this.removeSegment(later);
+
+    await this.renumber(context.segments.map(s => s.id).filter(id => id !== later.id));
+    await this.queueRegeneration(merged.id);
+    return { success: true, segments: await storage.getSegmentsByUploadId(upload.id) };
+  }
+
+  async reorderSegments(upload: Upload, segmentIds: string[]): Promise<SegmentEditResult> {
+    const segments = await storage.getSegmentsByUploadId(upload.id);
+    const known = new Set(segments.map(s => s.id));
+
+    if (segmentIds.length !== known.size || !segmentIds.every(id => known.has(id))) {
+      return { success: false, error: 'segmentIds must list every segment of the upload exactly once' };
+    }
+
+    await this.renumber(segmentIds);
+    return { success: true, segments: await storage.getSegmentsByUploadId(upload.id) };
+  }
+
+  async deleteSegment(upload: Upload, segment: Segment): Promise<SegmentEditResult> {
+    const segments = await storage.getSegmentsByUploadId(upload.id);
+    await this.removeSegment(segment);
+    await this.renumber(segments.map(s => s.id).filter(id => id !== segment.id));
+    return { success: true, segments: await storage.getSegmentsByUploadId(upload.id) };
+  }
+
+  // Replaces a segment's clips and social posts so they match its new content
+  async queueRegeneration(segmentId: string): Promise<void> {
+    await enhancedQueueSystem.addJob(
+      REGENERATION_QUEUE,
+      'regenerate-segment',
+      { segmentId } satisfies RegenerationJobData
+    );
+  }
+
+  private async regenerate(segmentId: string): Promise<void> {
+    const segment = await storage.getSegment(segmentId);
+    if (!segment) {
+      console.log(`[SegmentEditor] Segment ${segmentId} no longer exists, skipping regeneration`);
+      return;
+    }
+
+    await clipRenderer.removeSegmentClips(segmentId);
+    await storage.deleteSocialPostsBySegmentId(segmentId);
+
+    await generateClipsForSegment(segment);
+    await generateSocialContentForSegment(segment);
+    console.log(`[SegmentEditor] Regenerated clips and social posts for segment ${segmentId}`);
+  }
+
+  // The row cascade drops clips but not their files, nor the segment's
+  // thumbnail frames
+  private async removeSegment(segment: Segment): Promise<void> {
+    await clipRenderer.removeSegmentClips(segment.id);
+    await storage.deleteSegment(segment.id);
+    await removeThumbnailFrames(segment);
+  }
+
+  private async loadContext(upload: Upload) {
+    const segments = await storage.getSegmentsByUploadId(upload.id);
+    const transcript = await storage.getTranscriptByUploadId(upload.id);
+    const words = transcript ? getTranscriptWords(transcript) : [];
+    const duration = parseFloat(upload.duration || '') || (words.length ? words[words.length - 1].end : Infinity);
+    return { segments, words, duration };
+  }
+
+  private validateRange(
+    context: { segments: Segment[]; duration: number },
+    segmentId: string | null,
+    startTime: number,
+    endTime: number
+  ): string | null {
+    if (!Number.isFinite(startTime) || !Number.isFinite(endTime)) {
+      return 'startTime and endTime must be numbers';
+    }
+    if (startTime < 0 || endTime > context.duration) {
+      return `Segment must stay within the media duration (0-${context.duration}s)`;
+    }
+    if (endTime - startTime < MIN_SEGMENT_SECONDS) {
+      return `Segment must be at least ${MIN_SEGMENT_SECONDS}s long`;
+    }
+
+    const overlapping = context.segments.find(s =>
+      s.id !== segmentId &&
+      startTime < parseFloat(s.endTime) &&
+      endTime > parseFloat(s.startTime)
+    );
+    if (overlapping) {
+      return `Segment would overlap "${overlapping.title}"`;
+    }
+
+    return null;
+  }
+
+  // Text-only transcripts have no timing, so keep what the segment had
+  private transcriptFor(words: TranscriptWord[], segment: Segment, startTime: number, endTime: number): string | null {
+    return words.length ? getTextInRange(words, startTime, endTime) : segment.transcript;
+  }
+
+  private async renumber(orderedIds: string[]): Promise<void> {
+    for (let i = 0; i < orderedIds.length; i++) {
+      await storage.updateSegment(orderedIds[i], { order: i + 1 });
+    }
+  }
+}
+
+export const segmentEditor = new SegmentEditor();
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { Segment } from "@shared/schema";
+
+// ffmpeg is replaced by a recorder: each run writes an empty output file,
+// and ffprobe reports the durations set per output name
+const ffmpegState = vi.hoisted(() => ({
+  durations: {} as Record<string, number>,
+  runs: [] as Array<{ inputs: string[]; filters: unknown[]; output: string }>,
+}));
+
+vi.mock("fluent-ffmpeg", () => {
+  const create = (input?: string) => {
+    const run = { inputs: input ? [input] : [] as string[], filters: [] as unknown[], output: "" };
+    const handlers: Record<string, (...args: any[]) => void> = {};
+    const command: any = new Proxy({}, {
+      get: (_target, name: string) => {
+        if (name === "input") return (value: string) => { run.inputs.push(value); return command; };
+        if (name === "complexFilter" || name === "videoFilters" || name === "audioFilters") return (value: unknown) => { run.filters.push(value); return command; };
+        if (name === "output") return (value: string) => { run.output = value; return command; };
+        if (name === "on") return (event: string, handler: (...args: any[]) => void) => { handlers[event] = handler; return command; };
+        if (name === "run") return () => {
+          ffmpegState.runs.push(run);
+          fs.writeFile(run.output, "").then(() => handlers.end?.(), error => handlers.error?.(error));
+        };
+        return () => command;
+      },
+    });
+    return command;
+  };
+  const ffmpeg: any = (input?: string) => create(input);
+  ffmpeg.setFfmpegPath = () => {};
+  ffmpeg.ffprobe = (filePath: string, callback: (error: Error | null, metadata?: any) => void) => {
+    const duration = ffmpegState.durations[path.basename(filePath)];
+    callback(duration === undefined ? new Error(`no duration for ${filePath}`) : null, {
+      format: { duration },
+      streams: [{ codec_type: "video" }, { codec_type: "audio" }],
+    });
+  };
+  return { default: ffmpeg };
+});
+vi.mock("@ffmpeg-installer/ffmpeg", () => ({ default: { path: "ffmpeg" } }));
+vi.mock("./storage", () => ({
+  storage: { getTranscriptByUploadId: vi.fn(async () => null) },
+}));
+vi.mock("./blobStore", () => ({
+  isBlobRef: (value: string) => value.startsWith("blob:"),
+  resolveLocalPath: vi.fn(async (ref: string) => `/blobs/${ref.slice(5)}`),
+}));
+
+const { shortsGenerator } = await import("./shortsGenerator");
+
+const segment = {
+  id: "s1",
+  uploadId: "u1",
+  title: "Launch",
+  transcript: "We launched last spring.",
+  startTime: "5",
+  endTime: "15",
+} as Segment;
+
+let outputDir: string;
+
+beforeEach(async () => {
+  outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "shorts-test-"));
+  ffmpegState.runs = [];
+  ffmpegState.durations = { "short_s1.main.mp4": 10, "intro.mp4": 2, "outro.mp4": 3 };
+});
+
+afterEach(async () => {
+  await fs.rm(outputDir, { recursive: true, force: true });
+});
+
+describe("intro and outro", () => {
+  const config = {
+    reframe: "center" as const,
+    introOutroConfig: {
+      intro: { duration: 2, text: "AutoStage presents" },
+      outro: { duration: 3, text: "Follow for more", backgroundColor: "#1F2937" },
+    },
+  };
+
+  it("reports the joined length minus one crossfade per join", async () => {
+    const result = await shortsGenerator.generateVerticalShort("/media/source.mp4", segment, outputDir, {
+      ...config,
+      introOutroConfig: { ...config.introOutroConfig, crossfadeDuration: 0.5 },
+    });
+
+    expect(result.duration).toBe(2 + 10 + 3 - 2 * 0.5);
+    const join = ffmpegState.runs[ffmpegState.runs.length - 1];
+    expect(join.output).toBe(path.join(outputDir, "short_s1.mp4"));
+    expect(join.filters[0]).toEqual(expect.arrayContaining([expect.stringContaining("acrossfade=d=0.5")]));
+  });
+
+  it("defaults to a half-second crossfade", async () => {
+    const result = await shortsGenerator.generateVerticalShort("/media/source.mp4", segment, outputDir, config);
+
+    expect(result.duration).toBe(14);
+  });
+
+  it("shortens the crossfade to half the shortest piece", async () => {
+    const result = await shortsGenerator.generateVerticalShort("/media/source.mp4", segment, outputDir, {
+      ...config,
+      introOutroConfig: { ...config.introOutroConfig, crossfadeDuration: 2 },
+    });
+
+    // The 2 second intro allows at most 1 second of overlap
+    expect(result.duration).toBe(2 + 10 + 3 - 2 * 1);
+  });
+
+  it("renders bumpers from their blob ref", async () => {
+    ffmpegState.durations["abc.mp4"] = 4;
+    await shortsGenerator.generateVerticalShort("/media/source.mp4", segment, outputDir, {
+      reframe: "center",
+      introOutroConfig: { intro: { duration: 0, video: "blob:abc.mp4" } },
+    });
+
+    expect(ffmpegState.runs.some(run => run.inputs[0] === "/blobs/abc.mp4")).toBe(true);
+  });
+
+  it("refuses bumpers given as a path and card colours that are not hex", async () => {
+    await expect(shortsGenerator.generateVerticalShort("/media/source.mp4", segment, outputDir, {
+      reframe: "center",
+      introOutroConfig: { intro: { duration: 0, video: "/etc/passwd" } },
+    })).rejects.toThrow("Bumper videos must be uploaded brand assets");
+
+    await expect(shortsGenerator.generateVerticalShort("/media/source.mp4", segment, outputDir, {
+      reframe: "center",
+      introOutroConfig: { intro: { duration: 2, text: "Hi", backgroundColor: "red[x];movie=/etc/passwd" } },
+    })).rejects.toThrow("Card colours must be #RRGGBB or #RRGGBBAA");
+  });
+
+  it("plays the segment alone without an intro or outro", async () => {
+    const result = await shortsGenerator.generateVerticalShort("/media/source.mp4", segment, outputDir, { reframe: "center" });
+
+    expect(result.duration).toBe(10);
+    expect(ffmpegState.runs).toHaveLength(1);
+  });
+});
+
+describe("loudness", () => {
+  it("re-levels the audio when the target plays back at another loudness", async () => {
+    await shortsGenerator.generateVerticalShort("/media/source.mp4", segment, outputDir, { reframe: "center", loudnessLufs: -14 });
+
+    expect(ffmpegState.runs[0].filters).toContainEqual(["loudnorm=I=-14:TP=-1.5:LRA=11"]);
+  });
+
+  it("leaves the audio alone otherwise", async () => {
+    await shortsGenerator.generateVerticalShort("/media/source.mp4", segment, outputDir, { reframe: "center" });
+
+    expect(JSON.stringify(ffmpegState.runs[0].filters)).not.toContain("loudnorm");
+  });
+});
@@ -3,6 +3,18 @@ import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
 import path from 'path';
 import fs from 'fs/promises';
 import { Segment } from '@shared/schema';
+import { storage } from './storage';
+import { getTranscriptWords } from './transcriptData';
+import { buildCaptionCues, formatASS, formatSRT, wrapLines, type CaptionCue, type CaptionOptions } from './captions';
+import { toASSColor, type CaptionStyle } from './captionStyles';
+import { buildReframeFilters, planReframe, type ReframeLayout, type ReframePlan } from './reframe';
+import { captionOptionsForTarget, captionStyleForTarget, type RenderTarget } from './renderTargets';
+import { buildEditDecisionList, buildSelectExpression, remapWords, type EditDecisionList, type TightenOptions } from './tighten';
+import { isHexColor } from './branding';
+import { isBlobRef, resolveLocalPath } from './blobStore';
+import type { IntroOutroCard, IntroOutroConfig } from './introOutro';
+import { loudnormFilter } from './audioPreprocessing';
+import os from 'os';
 
 // Set FFmpeg path
 ffmpeg.setFfmpegPath(ffmpegInstaller.path);
@@ -17,18 +29,21 @@ interface ShortsConfig {
     boxcolor: string;
     boxborderw: number;
   };
-  introOutroConfig?: {
-    intro?: {
-      duration: number;
-      text: string;
-      backgroundColor: string;
-    };
-    outro?: {
-      duration: number;
-      text: string;
-      backgroundColor: string;
-    };
-  };
+  captionStyle?: CaptionStyle; // Styled ASS captions; replaces subtitleStyle when set
+  reframe?: ReframeLayout; // How landscape footage is fitted to the frame, default auto
+  captionOptions?: Partial<CaptionOptions>; // Line length and timing limits for the cues
+  audiogram?: AudiogramConfig; // Set for audio-only sources
+  tighten?: TightenOptions; // Cut filler words and long pauses out of the segment
+  introOutroConfig?: IntroOutroConfig;
+  loudnessLufs?: number; // Re-level the audio to this integrated loudness
+}
+
+export interface AudiogramConfig {
+  visualization: 'waveform' | 'spectrum';
+  backgroundColor: string; // Used when there is no cover art
+  waveColor: string;
+  textColor: string;
+  coverImagePath?: string; // Cover art or logo, also blurred as the background
 }
 
 interface ShortsResult {
@@ -37,6 +52,8 @@ interface ShortsResult {
   size: number;
   format: string;
   resolution: string;
+  layout: ReframePlan['layout'] | 'audiogram';
+  removedSeconds?: number; // Time cut by tightening
 }
 
 export class ShortsGenerator {
@@ -60,34 +77,76 @@ export class ShortsGenerator {
   ): Promise<ShortsResult> {
     const finalConfig = { ...this.defaultConfig, ...config };
     const outputPath = path.join(outputDir, `short_${segment.id}.mp4`);
+    const introOutro = finalConfig.introOutroConfig;
+    const hasIntroOutro = !!(introOutro?.intro || introOutro?.outro);
+
+    // With an intro or outro the segment is rendered first, then joined
+    const renderPath = hasIntroOutro ? path.join(outputDir, `short_${segment.id}.main.mp4`) : outputPath;
     
     try {
       // Ensure output directory exists
       await fs.mkdir(outputDir, { recursive: true });
       
-      // Generate SRT subtitle file
-      const srtPath = await this.generateSRTFile(segment, outputDir);
-      
       // Calculate start and end times
       const startTime = parseFloat(segment.startTime);
       const endTime = parseFloat(segment.endTime);
       const duration = endTime - startTime;
-      
-      // Prepare command first
-      let command = ffmpeg(originalVideoPath)
-        .seekInput(startTime)
-        .duration(duration)
-        // Resize and crop to 9:16 vertical format
-        .videoFilters([
-          `scale=${finalConfig.width}:${finalConfig.height}:force_original_aspect_ratio=increase`,
-          `crop=${finalConfig.width}:${finalConfig.height}`,
-          // Burn in subtitles
-          `subtitles=${srtPath}:force_style='FontSize=${finalConfig.subtitleStyle.fontsize},FontName=${finalConfig.subtitleStyle.fontfamily},PrimaryColour=${this.convertColorToASS(finalConfig.subtitleStyle.fontcolor)},OutlineColour=${this.convertColorToASS(finalConfig.subtitleStyle.boxcolor)},BorderStyle=3,Outline=${finalConfig.subtitleStyle.boxborderw}'`
-        ])
-        // Output settings optimized for social media
+
+      // Tightening needs word timings; without them the segment plays in full
+      const edl = finalConfig.tighten ? await this.planCuts(segment, finalConfig.tighten) : null;
+
+      // Generate the subtitle file: styled ASS when a caption style is set
+      const captionStyle = finalConfig.captionStyle;
+      const subtitlePath = captionStyle
+        ? await this.generateASSFile(segment, outputDir, captionStyle, finalConfig, edl)
+        : await this.generateSRTFile(segment, outputDir, finalConfig.captionOptions, edl);
+      const subtitleFilter = captionStyle
+        ? `ass=${subtitlePath}`
+        : `subtitles=${subtitlePath}:force_style='FontSize=${finalConfig.subtitleStyle.fontsize},FontName=${finalConfig.subtitleStyle.fontfamily},PrimaryColour=${this.convertColorToASS(finalConfig.subtitleStyle.fontcolor)},OutlineColour=${this.convertColorToASS(finalConfig.subtitleStyle.boxcolor)},BorderStyle=3,Outline=${finalConfig.subtitleStyle.boxborderw}'`;
+      const tempFiles = [subtitlePath];
+
+      // Audio uploads become an audiogram; video is reframed to the target
+      let layout: ShortsResult['layout'] = 'audiogram';
+      let command: ffmpeg.FfmpegCommand;
+
+      if (finalConfig.audiogram) {
+        const titlePath = path.join(outputDir, `title_${segment.id}.txt`);
+        tempFiles.push(titlePath);
+        command = await this.buildAudiogramCommand(originalVideoPath, segment, duration, finalConfig, subtitleFilter, titlePath, edl);
+      } else {
+        // Follow the speaker instead of cropping blindly to the centre
+        const plan = await this.planLayout(originalVideoPath, startTime, duration, finalConfig);
+        layout = plan.layout;
+
+        // Cuts come after the reframe, whose crop path follows source time,
+        // and before the captions, which are timed to the tightened clip
+        const select = edl ? buildSelectExpression(edl) : null;
+        command = ffmpeg(originalVideoPath)
+          .seekInput(startTime)
+          .duration(duration)
+          // Resize and crop to 9:16 vertical format
+          .videoFilters([
+            ...buildReframeFilters(plan, finalConfig),
+            ...(select ? ['fps=30', `select='${select}'`, 'setpts=N/FRAME_RATE/TB'] : []),
+            // Burn in subtitles
+            subtitleFilter
+          ]);
+        const audioFilters = [
+          ...(select ? [`aselect='${select}'`, 'asetpts=N/SR/TB'] : []),
+          ...(finalConfig.loudnessLufs !== undefined ? [loudnormFilter(finalConfig.loudnessLufs)] : []),
+        ];
+        if (audioFilters.length) {
+          command.audioFilters(audioFilters);
+        }
+      }
+
+      // Output settings optimized for social media
+      command
         .videoCodec('libx264')
         .audioCodec('aac')
         .audioBitrate('128k')
+        .audioFrequency(44100)
+        .audioChannels(2)
         .videoBitrate('2000k')
         .fps(30)
         .format('mp4')
@@ -97,14 +156,9 @@ export class ShortsGenerator {
           '-movflags +faststart'
         ]);
 
-      // Add intro/outro if configured
-      if (finalConfig.introOutroConfig?.intro || finalConfig.introOutroConfig?.outro) {
-        command = await this.addIntroOutro(command, finalConfig.introOutroConfig, outputDir);
-      }
-
       return new Promise((resolve, reject) => {
         command
-          .output(outputPath)
+          .output(renderPath)
           .on('start', (commandLine: string) => {
             console.log(`[ShortsGenerator] Starting FFmpeg process: ${commandLine}`);
           })
@@ -113,17 +167,28 @@ export class ShortsGenerator {
           })
           .on('end', async () => {
             try {
+              // Add intro/outro if configured
+              let totalDuration = edl ? edl.duration : duration;
+              if (hasIntroOutro) {
+                totalDuration = await this.addIntroOutro(renderPath, introOutro!, finalConfig, outputPath);
+                await fs.unlink(renderPath).catch(() => {});
+              }
+
               const stats = await fs.stat(outputPath);
               const result: ShortsResult = {
                 outputPath,
-                duration,
+                duration: totalDuration,
                 size: stats.size,
                 format: 'mp4',
-                resolution: `${finalConfig.width}x${finalConfig.height}`
+                resolution: `${finalConfig.width}x${finalConfig.height}`,
+                layout,
+                removedSeconds: edl?.removedSeconds
               };
               
-              // Cleanup temporary SRT file
-              await fs.unlink(srtPath).catch(() => {});
+              // Cleanup temporary subtitle and title files
+              for (const file of tempFiles) {
+                await fs.unlink(file).catch(() => {});
+              }
               
               resolve(result);
             } catch (error) {
@@ -142,67 +207,425 @@ export class ShortsGenerator {
     }
   }
 
-  private async generateSRTFile(segment: Segment, outputDir: string): Promise<string> {
-    const srtPath = path.join(outputDir, `subtitle_${segment.id}.srt`);
-    
-    // Generate simple SRT content based on segment transcript
-    const transcript = segment.transcript || segment.summary || '';
-    const words = transcript.split(' ');
-    const wordsPerSubtitle = 8;
-    const duration = parseFloat(segment.endTime) - parseFloat(segment.startTime);
-    const subtitleDuration = duration / Math.ceil(words.length / wordsPerSubtitle);
-    
-    let srtContent = '';
-    let subtitleIndex = 1;
-    
-    for (let i = 0; i < words.length; i += wordsPerSubtitle) {
-      const subtitleWords = words.slice(i, i + wordsPerSubtitle);
-      const startTime = (i / wordsPerSubtitle) * subtitleDuration;
-      const endTime = Math.min(((i / wordsPerSubtitle) + 1) * subtitleDuration, duration);
-      
-      srtContent += `${subtitleIndex}\n`;
-      srtContent += `${this.formatSRTTime(startTime)} --> ${this.formatSRTTime(endTime)}\n`;
-      srtContent += `${subtitleWords.join(' ')}\n\n`;
-      
-      subtitleIndex++;
+  // Falls back to a centre crop when the source cannot be analysed
+  private async planLayout(
+    videoPath: string,
+    startTime: number,
+    duration: number,
+    config: ShortsConfig
+  ): Promise<ReframePlan> {
+    const layout = config.reframe || 'auto';
+    if (layout === 'center') return { layout };
+
+    try {
+      const source = await this.getVideoInfo(videoPath);
+      const plan = await planReframe(videoPath, startTime, duration, source, config, layout);
+      console.log(`[ShortsGenerator] Reframing with ${plan.layout} layout${plan.path ? ` (${plan.path.length} keyframes)` : ''}`);
+      return plan;
+    } catch (error) {
+      console.warn('[ShortsGenerator] Reframing analysis failed, using centre crop:', error);
+      return { layout: 'center' };
     }
-    
-    await fs.writeFile(srtPath, srtContent, 'utf-8');
+  }
+
+  // Edit decision list for a tightened render, or null when there are no
+  // word timings or nothing worth cutting
+  private async planCuts(segment: Segment, options: TightenOptions): Promise<EditDecisionList | null> {
+    const transcript = await storage.getTranscriptByUploadId(segment.uploadId);
+    const words = transcript ? getTranscriptWords(transcript) : [];
+    if (!words.length) {
+      console.warn(`[ShortsGenerator] No word timestamps for segment ${segment.id}, rendering untightened`);
+      return null;
+    }
+
+    const edl = buildEditDecisionList(words, parseFloat(segment.startTime), parseFloat(segment.endTime), options);
+    if (edl.ranges.length === 0 || edl.removedSeconds === 0) return null;
+
+    console.log(`[ShortsGenerator] Tightening segment ${segment.id}: ${edl.ranges.length} ranges, ${edl.removedSeconds.toFixed(2)}s removed`);
+    return edl;
+  }
+
+  // Audiogram: blurred cover art or a brand colour behind the cover, the
+  // segment title, a waveform or spectrum and the captions. Positions are
+  // proportional so every aspect-ratio target gets a sensible layout.
+  private async buildAudiogramCommand(
+    audioPath: string,
+    segment: Segment,
+    duration: number,
+    config: ShortsConfig,
+    subtitleFilter: string,
+    titlePath: string,
+    edl: EditDecisionList | null
+  ): Promise<ffmpeg.FfmpegCommand> {
+    const audiogram = config.audiogram!;
+    const { width, height } = config;
+    const coverSize = Math.round(Math.min(width * 0.6, height * 0.4) / 2) * 2;
+    const coverY = Math.round(height * 0.2);
+    const waveHeight = Math.round(height * 0.15 / 2) * 2;
+    const waveY = Math.round(height * 0.58);
+    const titleSize = Math.round(width / 18);
+
+    // drawtext does not wrap, so the title is broken into lines up front
+    const titleLines = wrapLines(segment.title.split(/\s+/), Math.floor(width / (titleSize * 0.6)));
+    await fs.writeFile(titlePath, titleLines.slice(0, 2).join('\n'), 'utf-8');
+
+    const command = ffmpeg(audioPath).seekInput(parseFloat(segment.startTime)).duration(duration);
+    const filters: string[] = [];
+
+    // A tightened clip drives both the waveform and the soundtrack from the cut audio
+    let waveInput = '[0:a]';
+    let audioOutput = '0:a';
+    if (edl) {
+      const select = buildSelectExpression(edl);
+      filters.push(`[0:a]aselect='${select}',asetpts=N/SR/TB,asplit=2[voice][wavein]`);
+      waveInput = '[wavein]';
+      audioOutput = '[voice]';
+    }
+
+    if (audiogram.coverImagePath) {
+      command.input(audiogram.coverImagePath).inputOptions(['-loop 1']);
+      filters.push(
+        '[1:v]split[coverbg][coverfg]',
+        `[coverbg]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},boxblur=40:2,eq=brightness=-0.25[bg]`,
+        `[coverfg]scale=${coverSize}:${coverSize}:force_original_aspect_ratio=increase,crop=${coverSize}:${coverSize}[cover]`,
+        `[bg][cover]overlay=(W-w)/2:${coverY}[base]`
+      );
+    } else {
+      command.input(`color=c=${audiogram.backgroundColor}:s=${width}x${height}:r=30`).inputFormat('lavfi');
+      filters.push('[1:v]setsar=1[base]');
+    }
+
+    filters.push(
+      audiogram.visualization === 'spectrum'
+        ? `${waveInput}aformat=channel_layouts=mono,showfreqs=s=${width}x${waveHeight}:mode=bar:ascale=sqrt:fscale=log:colors=${audiogram.waveColor}[wave]`
+        : `${waveInput}aformat=channel_layouts=mono,showwaves=s=${width}x${waveHeight}:mode=cline:scale=sqrt:rate=30:colors=${audiogram.waveColor}[wave]`,
+      `[base][wave]overlay=0:${waveY}:shortest=1[visual]`,
+      `[visual]drawtext=textfile=${titlePath}:expansion=none:font=${this.defaultConfig.subtitleStyle.fontfamily}:fontsize=${titleSize}:fontcolor=${audiogram.textColor}:x=(w-text_w)/2:y=${Math.round(height * 0.08)}:line_spacing=${Math.round(titleSize / 4)},${subtitleFilter},format=yuv420p[video]`
+    );
+
+    if (config.loudnessLufs !== undefined) {
+      filters.push(`${audioOutput === '0:a' ? '[0:a]' : audioOutput}${loudnormFilter(config.loudnessLufs)}[leveled]`);
+      audioOutput = '[leveled]';
+    }
+
+    return command
+      .complexFilter(filters)
+      .outputOptions(['-map [video]', `-map ${audioOutput}`]);
+  }
+
+  private async generateSRTFile(
+    segment: Segment,
+    outputDir: string,
+    options?: Partial<CaptionOptions>,
+    edl?: EditDecisionList | null
+  ): Promise<string> {
+    const srtPath = path.join(outputDir, `subtitle_${segment.id}.srt`);
+    await fs.writeFile(srtPath, formatSRT(await this.getCaptionCues(segment, options, edl)), 'utf-8');
     return srtPath;
   }
 
-  private formatSRTTime(seconds: number): string {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = Math.floor(seconds % 60);
-    const milliseconds = Math.floor((seconds % 1) * 1000);
-    
-    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')},${milliseconds.toString().padStart(3, '0')}`;
+  private async generateASSFile(
+    segment: Segment,
+    outputDir: string,
+    style: CaptionStyle,
+    config: Pick<ShortsConfig, 'width' | 'height' | 'captionOptions'>,
+    edl?: EditDecisionList | null
+  ): Promise<string> {
+    const assPath = path.join(outputDir, `subtitle_${segment.id}.ass`);
+    const cues = await this.getCaptionCues(segment, config.captionOptions, edl);
+    await fs.writeFile(assPath, formatASS(cues, style, config), 'utf-8');
+    return assPath;
+  }
+
+  // Cue timing comes from the word timestamps of the segment window. Without
+  // them the transcript words are spread evenly across the clip instead.
+  // A tightened clip has its word timings moved past the cuts.
+  private async getCaptionCues(
+    segment: Segment,
+    options: Partial<CaptionOptions> = {},
+    edl?: EditDecisionList | null
+  ): Promise<CaptionCue[]> {
+    const startTime = parseFloat(segment.startTime);
+    const endTime = parseFloat(segment.endTime);
+
+    const transcript = await storage.getTranscriptByUploadId(segment.uploadId);
+    let words = transcript ? getTranscriptWords(transcript) : [];
+
+    if (!words.length) {
+      const tokens = (segment.transcript || segment.summary || '').split(/\s+/).filter(Boolean);
+      const step = (endTime - startTime) / Math.max(1, tokens.length);
+      words = tokens.map((word, index) => ({
+        word,
+        start: startTime + index * step,
+        end: startTime + (index + 1) * step,
+      }));
+    }
+
+    if (edl) {
+      const clipWords = words.map(word => ({ ...word, start: word.start - startTime, end: word.end - startTime }));
+      return buildCaptionCues(remapWords(edl, clipWords), 0, edl.duration, options);
+    }
+
+    return buildCaptionCues(words, startTime, endTime, options);
+  }
+
+  // Renders one frame of sample captions in the given style, for previews
+  async renderCaptionPreview(
+    style: CaptionStyle,
+    resolution: { width: number; height: number } = { width: 540, height: 960 }
+  ): Promise<Buffer> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'caption-preview-'));
+
+    try {
+      const sample = 'This is how your captions will look'.split(' ');
+      const words = sample.map((word, index) => ({ word, start: index * 0.4, end: index * 0.4 + 0.35 }));
+      const cues = buildCaptionCues(words, 0, 3, { maxCueSeconds: 10 });
+
+      const assPath = path.join(workDir, 'preview.ass');
+      const framePath = path.join(workDir, 'preview.png');
+      // libass scales from the script's 1080x1920 play resolution to the frame
+      await fs.writeFile(assPath, formatASS(cues, style, this.defaultConfig), 'utf-8');
+
+      // Grab the frame mid-way through the cue so the karaoke highlight shows
+      await new Promise<void>((resolve, reject) => {
+        ffmpeg()
+          .input(`color=c=0x3a3a48:s=${resolution.width}x${resolution.height}:d=3`)
+          .inputFormat('lavfi')
+          .seekInput(1.3)
+          .videoFilters([`ass=${assPath}`])
+          .frames(1)
+          .output(framePath)
+          .on('end', () => resolve())
+          .on('error', (error: Error) => reject(error))
+          .run();
+      });
+
+      return await fs.readFile(framePath);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
   }
 
   private convertColorToASS(color: string): string {
-    // Convert CSS color names to ASS format (BGR hex)
-    const colorMap: { [key: string]: string } = {
-      'white': '&HFFFFFF',
-      'black': '&H000000',
-      'red': '&H0000FF',
-      'green': '&H00FF00',
-      'blue': '&HFF0000',
-      'yellow': '&H00FFFF'
-    };
-    
-    return colorMap[color.toLowerCase()] || '&HFFFFFF';
+    // Accepts named colours, hex and ffmpeg's `color@opacity` syntax
+    return toASSColor(color);
   }
 
+  // Renders the intro and outro, then joins them with the segment using a
+  // video blend and audio crossfade at each join. Returns the total duration.
   private async addIntroOutro(
-    command: ffmpeg.FfmpegCommand, 
-    config: ShortsConfig['introOutroConfig'], 
-    outputDir: string
-  ): Promise<ffmpeg.FfmpegCommand> {
-    // This would generate intro/outro video clips and concatenate them
-    // For now, return the original command
-    // In a full implementation, you'd create text overlays or video clips
-    return command;
+    segmentPath: string,
+    config: NonNullable<ShortsConfig['introOutroConfig']>,
+    output: { width: number; height: number },
+    outputPath: string
+  ): Promise<number> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'shorts-intro-outro-'));
+
+    try {
+      const pieces: string[] = [];
+      if (config.intro) {
+        pieces.push(await this.renderCard(config.intro, output, path.join(workDir, 'intro.mp4')));
+      }
+      pieces.push(segmentPath);
+      if (config.outro) {
+        pieces.push(await this.renderCard(config.outro, output, path.join(workDir, 'outro.mp4')));
+      }
+
+      const durations = await Promise.all(pieces.map(piece => this.probeDuration(piece)));
+
+      // The overlap must fit inside the shortest piece on both sides of a join
+      const crossfade = Math.max(0, Math.min(config.crossfadeDuration ?? 0.5, Math.min(...durations) / 2));
+
+      await this.concatWithCrossfade(pieces, durations, crossfade, outputPath);
+      return durations.reduce((sum, d) => sum + d, 0) - crossfade * (pieces.length - 1);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  // Text card on a solid background, or a bumper video conformed to the
+  // short's size, frame rate and audio layout so the pieces can be joined
+  private async renderCard(
+    card: IntroOutroCard,
+    output: { width: number; height: number },
+    cardPath: string
+  ): Promise<string> {
+    const size = `${output.width}x${output.height}`;
+
+    if (card.video) {
+      // Only uploaded bumpers are read, never a path or URL from the request
+      if (!isBlobRef(card.video)) {
+        throw new Error('Bumper videos must be uploaded brand assets');
+      }
+      const videoPath = await resolveLocalPath(card.video);
+      const hasAudio = await this.hasAudioStream(videoPath);
+
+      let command = ffmpeg(videoPath);
+      if (!hasAudio) {
+        command = command.input('anullsrc=r=44100:cl=stereo').inputFormat('lavfi');
+      }
+
+      await this.runCommand(
+        command
+          .videoFilters([
+            `scale=${output.width}:${output.height}:force_original_aspect_ratio=decrease`,
+            `pad=${output.width}:${output.height}:(ow-iw)/2:(oh-ih)/2`,
+            'setsar=1',
+          ])
+          .outputOptions(hasAudio ? [] : ['-map 0:v:0', '-map 1:a:0', '-shortest']),
+        cardPath
+      );
+      return cardPath;
+    }
+
+    // drawtext reads the text from a file to avoid filter escaping issues
+    const textPath = `${cardPath}.txt`;
+    await fs.writeFile(textPath, card.text || '', 'utf-8');
+    const background = card.backgroundColor || '#000000';
+    const textColor = card.textColor || '#FFFFFF';
+    // Both land inside the filter arguments, so nothing but hex gets through
+    if (!isHexColor(background) || !isHexColor(textColor)) {
+      throw new Error('Card colours must be #RRGGBB or #RRGGBBAA');
+    }
+
+    await this.runCommand(
+      ffmpeg()
+        .input(`color=c=${background}:s=${size}:r=30:d=${card.duration}`)
+        .inputFormat('lavfi')
+        .input(`anullsrc=r=44100:cl=stereo`)
+        .inputFormat('lavfi')
+        .videoFilters([
+          `drawtext=textfile=${textPath}:expansion=none:font=${this.defaultConfig.subtitleStyle.fontfamily}:fontsize=${Math.round(output.width / 14)}:fontcolor=${textColor}:x=(w-text_w)/2:y=(h-text_h)/2:line_spacing=12`,
+        ])
+        .outputOptions(['-shortest']),
+      cardPath
+    );
+    return cardPath;
+  }
+
+  // The bundled ffmpeg build predates xfade, so each join blends the tail of one piece
+  // into the head of the next and concatenates the remaining parts
+  private concatWithCrossfade(pieces: string[], durations: number[], crossfade: number, outputPath: string): Promise<void> {
+    const filters: string[] = [];
+    const videoParts: string[] = [];
+    const last = pieces.length - 1;
+
+    pieces.forEach((_, i) => {
+      const hasHead = i > 0 && crossfade > 0;
+      const hasTail = i < last && crossfade > 0;
+      const outputs = [`v${i}body`, ...(hasHead ? [`v${i}head`] : []), ...(hasTail ? [`v${i}tail`] : [])];
+
+      filters.push(`[${i}:v]fps=30,format=yuv420p,setsar=1,split=${outputs.length}${outputs.map(o => `[${o}s]`).join('')}`);
+
+      const bodyStart = hasHead ? crossfade : 0;
+      const bodyEnd = hasTail ? durations[i] - crossfade : durations[i];
+      filters.push(`[v${i}bodys]trim=start=${bodyStart}:end=${bodyEnd},setpts=PTS-STARTPTS[v${i}body]`);
+      if (hasHead) {
+        filters.push(`[v${i}heads]trim=start=0:end=${crossfade},setpts=PTS-STARTPTS[v${i}head]`);
+      }
+      if (hasTail) {
+        filters.push(`[v${i}tails]trim=start=${durations[i] - crossfade}:end=${durations[i]},setpts=PTS-STARTPTS[v${i}tail]`);
+      }
+    });
+
+    pieces.forEach((_, i) => {
+      videoParts.push(`[v${i}body]`);
+      if (i < last && crossfade > 0) {
+        filters.push(`[v${i}tail][v${i + 1}head]blend=all_expr='A*(1-T/${crossfade})+B*(T/${crossfade})'[x${i}]`);
+        videoParts.push(`[x${i}]`);
+      }
+    });
+    filters.push(`${videoParts.join('')}concat=n=${videoParts.length}:v=1:a=0[vout]`);
+
+    // Audio is cut to the video length of each piece, since encoders pad it,
+    // and overlaps by the same amount so it stays in sync with the blend
+    pieces.forEach((_, i) => {
+      filters.push(`[${i}:a]atrim=start=0:end=${durations[i]},asetpts=PTS-STARTPTS[a${i}trim]`);
+    });
+
+    let audio = '[a0trim]';
+    for (let i = 1; i < pieces.length; i++) {
+      const label = i === last ? '[aout]' : `[a${i}]`;
+      filters.push(crossfade > 0
+        ? `${audio}[a${i}trim]acrossfade=d=${crossfade}${label}`
+        : `${audio}[a${i}trim]concat=n=2:v=0:a=1${label}`);
+      audio = label;
+    }
+
+    let command = ffmpeg();
+    for (const piece of pieces) {
+      command = command.input(piece);
+    }
+
+    return this.runCommand(
+      command
+        .complexFilter(filters)
+        .outputOptions(['-map [vout]', '-map [aout]']),
+      outputPath
+    );
+  }
+
+  // Encodes with the same settings as the main render
+  private runCommand(command: ffmpeg.FfmpegCommand, outputPath: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      command
+        .videoCodec('libx264')
+        .audioCodec('aac')
+        .audioBitrate('128k')
+        .audioFrequency(44100)
+        .audioChannels(2)
+        .videoBitrate('2000k')
+        .fps(30)
+        .format('mp4')
+        .addOutputOptions(['-preset fast', '-crf 23', '-movflags +faststart'])
+        .output(outputPath)
+        .on('end', () => resolve())
+        .on('error', (error: Error) => reject(error))
+        .run();
+    });
+  }
+
+  private probeDuration(filePath: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      ffmpeg.ffprobe(filePath, (err: any, metadata: any) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(Number(metadata.format.duration) || 0);
+      });
+    });
+  }
+
+  private hasAudioStream(filePath: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      ffmpeg.ffprobe(filePath, (err: any, metadata: any) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(metadata.streams.some((stream: any) => stream.codec_type === 'audio'));
+      });
+    });
+  }
+
+  // Renders a segment in one of the standard shapes. Each target gets its
+  // own directory so renders of the same segment do not collide.
+  async generateForTarget(
+    originalVideoPath: string,
+    segment: Segment,
+    outputDir: string,
+    target: RenderTarget,
+    config?: Partial<ShortsConfig>
+  ): Promise<ShortsResult> {
+    return this.generateVerticalShort(originalVideoPath, segment, path.join(outputDir, target.aspectRatio.replace(':', 'x')), {
+      ...config,
+      width: target.width,
+      height: target.height,
+      reframe: target.reframe,
+      captionStyle: config?.captionStyle && captionStyleForTarget(config.captionStyle, target),
+      captionOptions: { ...captionOptionsForTarget(target), ...config?.captionOptions },
+    });
   }
 
   async batchGenerateShorts(
@@ -7,6 +7,13 @@ import {
   socialAccounts,
   socialPosts,
   scheduledPosts,
+  processingStages,
+  derivedAssets,
+  podcastFeeds,
+  feedItems,
+  usageRecords,
+  generatedFiles,
+  retentionRuns,
   type User,
   type UpsertUser,
   type Upload,
@@ -21,9 +28,40 @@ import {
   type SocialPost,
   type InsertSocialPost,
   type ScheduledPost,
+  type ProcessingStage,
+  type InsertProcessingStage,
+  type DerivedAsset,
+  type InsertDerivedAsset,
+  type PodcastFeed,
+  type InsertPodcastFeed,
+  type FeedItem,
+  type InsertFeedItem,
+  type GeneratedFile,
+  type InsertGeneratedFile,
+  type RetentionRun,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql, inArray, isNotNull } from "drizzle-orm";
+import { eq, desc, and, or, sql, inArray, isNotNull, isNull, notLike, type SQL } from "drizzle-orm";
+import { parseJsonColumn } from "./transcriptData";
+
+// A file kept for an owner, as counted against storage quotas and matched
+// by retention rules. Generated files such as weekly reports and brand
+// assets belong to no upload.
+export interface StoredAsset {
+  kind: 'source' | 'processed' | 'clip' | 'frame' | 'generated';
+  id: string; // Upload, derived asset, clip, segment or generated file id
+  uploadId: string | null;
+  uploadStatus: string | null;
+  filePath: string;
+  size: number; // Bytes
+  createdAt: Date | null;
+}
+
+// Uploads belonging to a workspace, or a user's uploads outside any workspace
+export interface StorageOwner {
+  userId: string;
+  workspaceId?: string | null;
+}
 
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -35,20 +73,80 @@ export interface IStorage {
   getUpload(id: string): Promise<Upload | undefined>;
   getUserUploads(userId: string): Promise<Upload[]>;
   updateUploadStatus(id: string, status: string): Promise<void>;
+  getUploadsByStatus(statuses: string[]): Promise<Upload[]>;
+  getUploadByContentHash(userId: string, contentHash: string): Promise<Upload | undefined>;
+  getUploadByFeedGuid(feedId: string, guid: string): Promise<Upload | undefined>;
+  getUploadsWithLocalFiles(): Promise<Upload[]>;
+  markUploadSourceDeleted(id: string): Promise<void>;
+  updateUploadFile(id: string, data: Pick<InsertUpload, 'filePath' | 'contentHash'>): Promise<void>;
+
+  // Podcast feed operations
+  createPodcastFeed(feed: InsertPodcastFeed): Promise<PodcastFeed>;
+  getPodcastFeed(id: string): Promise<PodcastFeed | undefined>;
+  getUserPodcastFeeds(userId: string): Promise<PodcastFeed[]>;
+  getActivePodcastFeeds(): Promise<PodcastFeed[]>;
+  updatePodcastFeed(id: string, data: Partial<InsertPodcastFeed>): Promise<PodcastFeed>;
+  deletePodcastFeed(id: string): Promise<void>;
+  getFeedItems(feedId: string): Promise<FeedItem[]>;
+  getFeedItem(feedId: string, guid: string): Promise<FeedItem | undefined>;
+  upsertFeedItem(item: InsertFeedItem): Promise<FeedItem>;
+
+  // Processing stage operations
+  getProcessingStages(uploadId: string): Promise<ProcessingStage[]>;
+  upsertProcessingStage(
+    uploadId: string,
+    stage: string,
+    data: Partial<InsertProcessingStage>
+  ): Promise<ProcessingStage>;
+  
+  // Derived asset operations
+  getDerivedAsset(uploadId: string, kind: string): Promise<DerivedAsset | undefined>;
+  upsertDerivedAsset(asset: InsertDerivedAsset): Promise<DerivedAsset>;
+  deleteDerivedAsset(uploadId: string, kind: string): Promise<void>;
+  deleteDerivedAssetById(id: string): Promise<void>;
+  getDerivedAssetsWithLocalFiles(): Promise<DerivedAsset[]>;
+  updateDerivedAssetPath(id: string, filePath: string): Promise<void>;
   
   // Transcript operations
   createTranscript(transcript: InsertTranscript): Promise<Transcript>;
   getTranscriptByUploadId(uploadId: string): Promise<Transcript | undefined>;
+  updateTranscript(id: string, data: Partial<InsertTranscript>): Promise<Transcript>;
+  deleteTranscriptByUploadId(uploadId: string): Promise<void>;
   
   // Segment operations
   createSegments(segments: InsertSegment[]): Promise<Segment[]>;
   getSegmentsByUploadId(uploadId: string): Promise<Segment[]>;
+  getSegment(segmentId: string): Promise<Segment | null>;
+  updateSegment(id: string, data: Partial<InsertSegment>): Promise<Segment>;
+  deleteSegment(id: string): Promise<void>;
+  deleteSegmentsByUploadId(uploadId: string): Promise<void>;
   
   // Clip operations
   createClip(clip: InsertClip): Promise<Clip>;
+  getClip(id: string): Promise<Clip | null>;
   getClipsBySegmentId(segmentId: string): Promise<Clip[]>;
   getClipsByUploadId(uploadId: string): Promise<Clip[]>;
   updateClipStatus(id: string, status: string): Promise<void>;
+  updateClip(id: string, updates: Partial<InsertClip>): Promise<Clip>;
+  getClipsWithLocalFiles(): Promise<Clip[]>;
+
+  // Stored file accounting
+  getStoredAssets(owner: StorageOwner): Promise<StoredAsset[]>;
+  countFileReferences(filePath: string): Promise<number>;
+  setStorageUsed(userId: string, month: string, megabytes: number): Promise<void>;
+  deleteClip(id: string): Promise<void>;
+
+  // Generated file operations
+  createGeneratedFile(file: InsertGeneratedFile): Promise<GeneratedFile>;
+  getGeneratedFiles(userId: string, kind: string, limit?: number): Promise<GeneratedFile[]>;
+  getGeneratedFileByName(userId: string, kind: string, fileName: string): Promise<GeneratedFile | null>;
+  getGeneratedFileByPath(kind: string, filePath: string): Promise<GeneratedFile | null>;
+  getGeneratedFilesWithLocalFiles(): Promise<GeneratedFile[]>;
+  updateGeneratedFilePath(id: string, filePath: string): Promise<void>;
+
+  // Retention run bookkeeping
+  getRetentionRun(workspaceId: string): Promise<RetentionRun | null>;
+  recordRetentionRun(run: RetentionRun): Promise<void>;
   
   // Social account operations
   getUserSocialAccounts(userId: string): Promise<SocialAccount[]>;
@@ -75,6 +173,8 @@ export interface IStorage {
   updateSocialPostStatus(id: string, status: string): Promise<void>;
   updateSocialPost(id: string, data: any): Promise<void>;
   updateSocialPostSchedule(id: string, scheduledFor: string): Promise<void>;
+  deleteSocialPostsByUploadId(uploadId: string): Promise<void>;
+  deleteSocialPostsBySegmentId(segmentId: string): Promise<void>;
 
   // Scheduled posts operations
   getScheduledPostsByUserId(userId: string): Promise<any[]>;
@@ -136,6 +236,183 @@ export class DatabaseStorage implements IStorage {
       .where(eq(uploads.id, id));
   }
 
+  async getUploadsByStatus(statuses: string[]): Promise<Upload[]> {
+    return await db
+      .select()
+      .from(uploads)
+      .where(inArray(uploads.status, statuses))
+      .orderBy(uploads.createdAt);
+  }
+
+  // Uploads whose file has not been moved into the blob store yet
+  async getUploadsWithLocalFiles(): Promise<Upload[]> {
+    return await db
+      .select()
+      .from(uploads)
+      .where(notLike(uploads.filePath, 'blob:%'))
+      .orderBy(uploads.createdAt);
+  }
+
+  async updateUploadFile(id: string, data: Pick<InsertUpload, 'filePath' | 'contentHash'>): Promise<void> {
+    await db
+      .update(uploads)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(uploads.id, id));
+  }
+
+  async markUploadSourceDeleted(id: string): Promise<void> {
+    await db
+      .update(uploads)
+      .set({ sourceDeletedAt: new Date(), updatedAt: new Date() })
+      .where(eq(uploads.id, id));
+  }
+
+  async getUploadByContentHash(userId: string, contentHash: string): Promise<Upload | undefined> {
+    const [upload] = await db
+      .select()
+      .from(uploads)
+      .where(and(eq(uploads.userId, userId), eq(uploads.contentHash, contentHash)));
+    return upload;
+  }
+
+  async getUploadByFeedGuid(feedId: string, guid: string): Promise<Upload | undefined> {
+    const [upload] = await db
+      .select()
+      .from(uploads)
+      .where(and(eq(uploads.feedId, feedId), eq(uploads.sourceGuid, guid)));
+    return upload;
+  }
+
+  // Podcast feed operations
+  async createPodcastFeed(feed: InsertPodcastFeed): Promise<PodcastFeed> {
+    const [record] = await db.insert(podcastFeeds).values(feed).returning();
+    return record;
+  }
+
+  async getPodcastFeed(id: string): Promise<PodcastFeed | undefined> {
+    const [feed] = await db.select().from(podcastFeeds).where(eq(podcastFeeds.id, id));
+    return feed;
+  }
+
+  async getUserPodcastFeeds(userId: string): Promise<PodcastFeed[]> {
+    return await db
+      .select()
+      .from(podcastFeeds)
+      .where(eq(podcastFeeds.userId, userId))
+      .orderBy(desc(podcastFeeds.createdAt));
+  }
+
+  async getActivePodcastFeeds(): Promise<PodcastFeed[]> {
+    return await db.select().from(podcastFeeds).where(eq(podcastFeeds.active, true));
+  }
+
+  async updatePodcastFeed(id: string, data: Partial<InsertPodcastFeed>): Promise<PodcastFeed> {
+    const [feed] = await db
+      .update(podcastFeeds)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(podcastFeeds.id, id))
+      .returning();
+    return feed;
+  }
+
+  async deletePodcastFeed(id: string): Promise<void> {
+    await db.delete(podcastFeeds).where(eq(podcastFeeds.id, id));
+  }
+
+  async getFeedItems(feedId: string): Promise<FeedItem[]> {
+    return await db.select().from(feedItems).where(eq(feedItems.feedId, feedId));
+  }
+
+  async getFeedItem(feedId: string, guid: string): Promise<FeedItem | undefined> {
+    const [item] = await db
+      .select()
+      .from(feedItems)
+      .where(and(eq(feedItems.feedId, feedId), eq(feedItems.guid, guid)));
+    return item;
+  }
+
+  async upsertFeedItem(item: InsertFeedItem): Promise<FeedItem> {
+    const [record] = await db
+      .insert(feedItems)
+      .values(item)
+      .onConflictDoUpdate({
+        target: [feedItems.feedId, feedItems.guid],
+        set: { ...item, updatedAt: new Date() },
+      })
+      .returning();
+    return record;
+  }
+
+  // Processing stage operations
+  async getProcessingStages(uploadId: string): Promise<ProcessingStage[]> {
+    return await db
+      .select()
+      .from(processingStages)
+      .where(eq(processingStages.uploadId, uploadId));
+  }
+
+  async upsertProcessingStage(
+    uploadId: string,
+    stage: string,
+    data: Partial<InsertProcessingStage>
+  ): Promise<ProcessingStage> {
+    const [record] = await db
+      .insert(processingStages)
+      .values({ ...data, uploadId, stage })
+      .onConflictDoUpdate({
+        target: [processingStages.uploadId, processingStages.stage],
+        set: {
+          ...data,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return record;
+  }
+
+  // Derived asset operations
+  async getDerivedAsset(uploadId: string, kind: string): Promise<DerivedAsset | undefined> {
+    const [asset] = await db
+      .select()
+      .from(derivedAssets)
+      .where(and(eq(derivedAssets.uploadId, uploadId), eq(derivedAssets.kind, kind)));
+    return asset;
+  }
+
+  async upsertDerivedAsset(asset: InsertDerivedAsset): Promise<DerivedAsset> {
+    const [record] = await db
+      .insert(derivedAssets)
+      .values(asset)
+      .onConflictDoUpdate({
+        target: [derivedAssets.uploadId, derivedAssets.kind],
+        set: { ...asset, createdAt: new Date() },
+      })
+      .returning();
+    return record;
+  }
+
+  async deleteDerivedAsset(uploadId: string, kind: string): Promise<void> {
+    await db
+      .delete(derivedAssets)
+      .where(and(eq(derivedAssets.uploadId, uploadId), eq(derivedAssets.kind, kind)));
+  }
+
+  async deleteDerivedAssetById(id: string): Promise<void> {
+    await db.delete(derivedAssets).where(eq(derivedAssets.id, id));
+  }
+
+  async getDerivedAssetsWithLocalFiles(): Promise<DerivedAsset[]> {
+    return await db
+      .select()
+      .from(derivedAssets)
+      .where(notLike(derivedAssets.filePath, 'blob:%'))
+      .orderBy(derivedAssets.createdAt);
+  }
+
+  async updateDerivedAssetPath(id: string, filePath: string): Promise<void> {
+    await db.update(derivedAssets).set({ filePath }).where(eq(derivedAssets.id, id));
+  }
+
   // Transcript operations
   async createTranscript(transcript: InsertTranscript): Promise<Transcript> {
     const [newTranscript] = await db.insert(transcripts).values(transcript).returning();
@@ -150,6 +427,19 @@ export class DatabaseStorage implements IStorage {
     return transcript;
   }
 
+  async updateTranscript(id: string, data: Partial<InsertTranscript>): Promise<Transcript> {
+    const [transcript] = await db
+      .update(transcripts)
+      .set(data)
+      .where(eq(transcripts.id, id))
+      .returning();
+    return transcript;
+  }
+
+  async deleteTranscriptByUploadId(uploadId: string): Promise<void> {
+    await db.delete(transcripts).where(eq(transcripts.uploadId, uploadId));
+  }
+
   // Segment operations
   async createSegments(segmentList: InsertSegment[]): Promise<Segment[]> {
     return await db.insert(segments).values(segmentList).returning();
@@ -163,6 +453,12 @@ export class DatabaseStorage implements IStorage {
       .orderBy(segments.order);
   }
 
+  async deleteSegmentsByUploadId(uploadId: string): Promise<void> {
+    // Clips and social posts cascade with their segments. Only rows go, so
+    // clip files must be released through clipRenderer first.
+    await db.delete(segments).where(eq(segments.uploadId, uploadId));
+  }
+
   async getSegment(segmentId: string): Promise<Segment | null> {
     const [segment] = await db
       .select()
@@ -171,12 +467,31 @@ export class DatabaseStorage implements IStorage {
     return segment || null;
   }
 
+  async updateSegment(id: string, data: Partial<InsertSegment>): Promise<Segment> {
+    const [segment] = await db
+      .update(segments)
+      .set(data)
+      .where(eq(segments.id, id))
+      .returning();
+    return segment;
+  }
+
+  async deleteSegment(id: string): Promise<void> {
+    // Clips and social posts cascade with the segment; release clip files first
+    await db.delete(segments).where(eq(segments.id, id));
+  }
+
   // Clip operations
   async createClip(clip: InsertClip): Promise<Clip> {
     const [newClip] = await db.insert(clips).values(clip).returning();
     return newClip;
   }
 
+  async getClip(id: string): Promise<Clip | null> {
+    const [clip] = await db.select().from(clips).where(eq(clips.id, id));
+    return clip || null;
+  }
+
   async getClipsBySegmentId(segmentId: string): Promise<Clip[]> {
     return await db.select().from(clips).where(eq(clips.segmentId, segmentId));
   }
@@ -188,6 +503,7 @@ export class DatabaseStorage implements IStorage {
         segmentId: clips.segmentId,
         type: clips.type,
         filePath: clips.filePath,
+        fileSize: clips.fileSize,
         content: clips.content,
         metadata: clips.metadata,
         status: clips.status,
@@ -202,6 +518,234 @@ export class DatabaseStorage implements IStorage {
     await db.update(clips).set({ status }).where(eq(clips.id, id));
   }
 
+  async updateClip(id: string, updates: Partial<InsertClip>): Promise<Clip> {
+    const [updated] = await db.update(clips).set(updates).where(eq(clips.id, id)).returning();
+    return updated;
+  }
+
+  async getClipsWithLocalFiles(): Promise<Clip[]> {
+    return await db
+      .select()
+      .from(clips)
+      .where(and(isNotNull(clips.filePath), notLike(clips.filePath, 'blob:%')));
+  }
+
+  // Stored file accounting
+  async getStoredAssets(owner: StorageOwner): Promise<StoredAsset[]> {
+    const ownedBy: SQL = owner.workspaceId
+      ? eq(uploads.workspaceId, owner.workspaceId)
+      : and(eq(uploads.userId, owner.userId), isNull(uploads.workspaceId))!;
+
+    const sources = await db
+      .select()
+      .from(uploads)
+      .where(and(ownedBy, isNull(uploads.sourceDeletedAt)));
+
+    const processed = await db
+      .select({ asset: derivedAssets, uploadStatus: uploads.status })
+      .from(derivedAssets)
+      .innerJoin(uploads, eq(derivedAssets.uploadId, uploads.id))
+      .where(ownedBy);
+
+    const rendered = await db
+      .select({ clip: clips, uploadId: uploads.id, uploadStatus: uploads.status })
+      .from(clips)
+      .innerJoin(segments, eq(clips.segmentId, segments.id))
+      .innerJoin(uploads, eq(segments.uploadId, uploads.id))
+      .where(and(ownedBy, isNotNull(clips.filePath)));
+
+    const sampled = await db
+      .select({ segment: segments, uploadStatus: uploads.status })
+      .from(segments)
+      .innerJoin(uploads, eq(segments.uploadId, uploads.id))
+      .where(and(ownedBy, isNotNull(segments.thumbnailFrames)));
+
+    // Graphics made from a segment follow its upload. The rest count against
+    // their workspace (brand assets) or the user who made them (reports, and
+    // graphics whose segment has since been deleted).
+    const fromSegments = await db
+      .select({ file: generatedFiles, uploadId: uploads.id, uploadStatus: uploads.status })
+      .from(generatedFiles)
+      .innerJoin(segments, eq(generatedFiles.segmentId, segments.id))
+      .innerJoin(uploads, eq(segments.uploadId, uploads.id))
+      .where(ownedBy);
+    const unattached = await db
+      .select()
+      .from(generatedFiles)
+      .where(and(
+        isNull(generatedFiles.segmentId),
+        owner.workspaceId
+          ? and(eq(generatedFiles.kind, 'brand_asset'), sql`${generatedFiles.metadata}->>'workspaceId' = ${owner.workspaceId}`)
+          : and(eq(generatedFiles.userId, owner.userId), sql`${generatedFiles.kind} <> 'brand_asset'`)
+      ));
+
+    return [
+      ...sources.map(upload => ({
+        kind: 'source' as const,
+        id: upload.id,
+        uploadId: upload.id,
+        uploadStatus: upload.status,
+        filePath: upload.filePath,
+        size: upload.fileSize,
+        createdAt: upload.createdAt,
+      })),
+      ...processed.map(({ asset, uploadStatus }) => ({
+        kind: 'processed' as const,
+        id: asset.id,
+        uploadId: asset.uploadId,
+        uploadStatus,
+        filePath: asset.filePath,
+        size: asset.fileSize,
+        createdAt: asset.createdAt,
+      })),
+      ...rendered.map(({ clip, uploadId, uploadStatus }) => ({
+        kind: 'clip' as const,
+        id: clip.id,
+        uploadId,
+        uploadStatus,
+        filePath: clip.filePath!,
+        // Clips rendered before file sizes were stored only have it in metadata
+        size: clip.fileSize ?? parseJsonColumn<{ size?: number }>(clip.metadata)?.size ?? 0,
+        createdAt: clip.createdAt,
+      })),
+      ...sampled.flatMap(({ segment, uploadStatus }) =>
+        (parseJsonColumn<Array<{ filePath: string; size?: number }>>(segment.thumbnailFrames) || []).map(frame => ({
+          kind: 'frame' as const,
+          id: segment.id,
+          uploadId: segment.uploadId,
+          uploadStatus,
+          filePath: frame.filePath,
+          // Frames sampled before sizes were stored count as nothing until re-sampled
+          size: frame.size ?? 0,
+          createdAt: segment.createdAt,
+        }))
+      ),
+      ...[
+        ...fromSegments,
+        ...unattached.map(file => ({ file, uploadId: null, uploadStatus: null })),
+      ].map(({ file, uploadId, uploadStatus }) => ({
+        kind: 'generated' as const,
+        id: file.id,
+        uploadId,
+        uploadStatus,
+        filePath: file.filePath,
+        size: file.fileSize,
+        createdAt: file.createdAt,
+      })),
+    ];
+  }
+
+  // Rows still pointing at a file, which must not be deleted while any remain
+  async countFileReferences(filePath: string): Promise<number> {
+    const [sources] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(uploads)
+      .where(and(eq(uploads.filePath, filePath), isNull(uploads.sourceDeletedAt)));
+    const [processed] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(derivedAssets)
+      .where(eq(derivedAssets.filePath, filePath));
+    const [rendered] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(clips)
+      .where(eq(clips.filePath, filePath));
+    const [frames] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(segments)
+      .where(or(
+        eq(segments.thumbnailFramePath, filePath),
+        sql`${segments.thumbnailFrames}::text like ${`%${filePath}%`}`
+      ));
+    const [generated] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(generatedFiles)
+      .where(eq(generatedFiles.filePath, filePath));
+
+    return sources.count + processed.count + rendered.count + frames.count + generated.count;
+  }
+
+  async setStorageUsed(userId: string, month: string, megabytes: number): Promise<void> {
+    const [existing] = await db
+      .select()
+      .from(usageRecords)
+      .where(and(eq(usageRecords.userId, userId), eq(usageRecords.month, month)));
+
+    if (existing) {
+      await db
+        .update(usageRecords)
+        .set({ storageUsed: megabytes, updatedAt: new Date() })
+        .where(eq(usageRecords.id, existing.id));
+    } else {
+      await db.insert(usageRecords).values({ userId, month, storageUsed: megabytes });
+    }
+  }
+
+  async deleteClip(id: string): Promise<void> {
+    await db.delete(clips).where(eq(clips.id, id));
+  }
+
+  // Generated file operations
+  async createGeneratedFile(file: InsertGeneratedFile): Promise<GeneratedFile> {
+    const [created] = await db.insert(generatedFiles).values(file).returning();
+    return created;
+  }
+
+  async getGeneratedFiles(userId: string, kind: string, limit: number = 50): Promise<GeneratedFile[]> {
+    return await db
+      .select()
+      .from(generatedFiles)
+      .where(and(eq(generatedFiles.userId, userId), eq(generatedFiles.kind, kind)))
+      .orderBy(desc(generatedFiles.createdAt))
+      .limit(limit);
+  }
+
+  async getGeneratedFileByName(userId: string, kind: string, fileName: string): Promise<GeneratedFile | null> {
+    const [file] = await db
+      .select()
+      .from(generatedFiles)
+      .where(and(
+        eq(generatedFiles.userId, userId),
+        eq(generatedFiles.kind, kind),
+        eq(generatedFiles.fileName, fileName)
+      ));
+    return file || null;
+  }
+
+  async getGeneratedFileByPath(kind: string, filePath: string): Promise<GeneratedFile | null> {
+    const [file] = await db
+      .select()
+      .from(generatedFiles)
+      .where(and(eq(generatedFiles.kind, kind), eq(generatedFiles.filePath, filePath)))
+      .orderBy(desc(generatedFiles.createdAt))
+      .limit(1);
+    return file || null;
+  }
+
+  async getGeneratedFilesWithLocalFiles(): Promise<GeneratedFile[]> {
+    return await db
+      .select()
+      .from(generatedFiles)
+      .where(notLike(generatedFiles.filePath, 'blob:%'))
+      .orderBy(generatedFiles.createdAt);
+  }
+
+  async updateGeneratedFilePath(id: string, filePath: string): Promise<void> {
+    await db.update(generatedFiles).set({ filePath }).where(eq(generatedFiles.id, id));
+  }
+
+  // Retention run bookkeeping
+  async getRetentionRun(workspaceId: string): Promise<RetentionRun | null> {
+    const [run] = await db.select().from(retentionRuns).where(eq(retentionRuns.workspaceId, workspaceId));
+    return run || null;
+  }
+
+  async recordRetentionRun(run: RetentionRun): Promise<void> {
+    await db
+      .insert(retentionRuns)
+      .values(run)
+      .onConflictDoUpdate({ target: retentionRuns.workspaceId, set: run });
+  }
+
   // Social account operations
   async getUserSocialAccounts(userId: string): Promise<SocialAccount[]> {
     return await db
@@ -313,6 +857,21 @@ export class DatabaseStorage implements IStorage {
       .where(eq(socialPosts.id, id));
   }
 
+  async deleteSocialPostsByUploadId(uploadId: string): Promise<void> {
+    await db
+      .delete(socialPosts)
+      .where(
+        inArray(
+          socialPosts.segmentId,
+          db.select({ id: segments.id }).from(segments).where(eq(segments.uploadId, uploadId))
+        )
+      );
+  }
+
+  async deleteSocialPostsBySegmentId(segmentId: string): Promise<void> {
+    await db.delete(socialPosts).where(eq(socialPosts.segmentId, segmentId));
+  }
+
   async getSocialPostsByUserId(userId: string, status?: string): Promise<SocialPost[]> {
     const uploads = await this.getUserUploads(userId);
     
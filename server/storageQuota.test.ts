@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from "vitest";
+
+const assets = vi.hoisted(() => [
+  { kind: "source", size: 1000 },
+  { kind: "processed", size: 400 },
+  { kind: "clip", size: 300 },
+  { kind: "frame", size: 20 },
+  { kind: "frame", size: 30 },
+  { kind: "generated", size: 50 },
+]);
+
+vi.mock("./storage", () => ({
+  storage: {
+    getUser: vi.fn(async () => ({ id: "user-1", subscriptionTier: "free" })),
+    getStoredAssets: vi.fn(async () => assets),
+  },
+}));
+vi.mock("./userManagementService", () => ({
+  userManagementService: { getWorkspace: vi.fn(async () => ({ id: "w1", ownerId: "user-1" })) },
+}));
+
+const { getStorageUsage } = await import("./storageQuota");
+
+describe("getStorageUsage", () => {
+  it("counts thumbnail frames and generated files in their own kinds", async () => {
+    const usage = await getStorageUsage({ userId: "user-1", workspaceId: "w1" });
+
+    expect(usage.breakdown).toEqual({ source: 1000, processed: 400, clip: 300, frame: 50, generated: 50 });
+    expect(usage.usedBytes).toBe(1800);
+    expect(usage.fileCount).toBe(6);
+    expect(usage.retentionApplies).toBe(true);
+  });
+
+  it("reports that retention does not reach uploads outside a workspace", async () => {
+    expect((await getStorageUsage({ userId: "user-1" })).retentionApplies).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { storage, type StorageOwner, type StoredAsset } from './storage';
+import { getSubscriptionTier } from './subscriptionTiers';
+
+const BYTES_PER_MB = 1024 * 1024;
+
+export interface StorageUsage {
+  tier: string;
+  billedUserId: string; // Whose plan the quota comes from
+  quotaBytes: number | null; // null when the plan is unlimited
+  usedBytes: number;
+  breakdown: Record<StoredAsset['kind'], number>;
+  fileCount: number;
+  // Retention rules are set per workspace; files outside one are kept
+  // until deleted by hand
+  retentionApplies: boolean;
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  usage: StorageUsage;
+  error?: string;
+}
+
+// Workspace storage is billed to the workspace owner's plan; uploads
+// outside a workspace to the uploader's own
+async function getBilledUserId(owner: StorageOwner): Promise<string> {
+  if (!owner.workspaceId) return owner.userId;
+
+  const { userManagementService } = await import('./userManagementService');
+  const workspace = await userManagementService.getWorkspace(owner.workspaceId);
+  return workspace?.ownerId ?? owner.userId;
+}
+
+// Bytes currently stored, summed from the files themselves rather than
+// upload-time counters, so deletions and re-renders are reflected
+export async function getStorageUsage(owner: StorageOwner): Promise<StorageUsage> {
+  const billedUserId = await getBilledUserId(owner);
+  const user = await storage.getUser(billedUserId);
+  const tierName = user?.subscriptionTier || 'free';
+  const quotaMb = getSubscriptionTier(tierName).limits.storage;
+
+  const assets = await storage.getStoredAssets(owner);
+  const breakdown: StorageUsage['breakdown'] = { source: 0, processed: 0, clip: 0, frame: 0, generated: 0 };
+  for (const asset of assets) {
+    breakdown[asset.kind] += asset.size;
+  }
+  const usedBytes = Object.values(breakdown).reduce((sum, bytes) => sum + bytes, 0);
+
+  return {
+    tier: tierName,
+    billedUserId,
+    quotaBytes: quotaMb === -1 ? null : quotaMb * BYTES_PER_MB,
+    usedBytes,
+    breakdown,
+    fileCount: assets.length,
+    retentionApplies: Boolean(owner.workspaceId),
+  };
+}
+
+// Whether `incomingBytes` more fit within the owner's quota
+export async function checkStorageQuota(owner: StorageOwner, incomingBytes: number): Promise<QuotaCheck> {
+  const usage = await getStorageUsage(owner);
+  if (usage.quotaBytes === null || usage.usedBytes + incomingBytes <= usage.quotaBytes) {
+    return { allowed: true, usage };
+  }
+
+  const toMb = (bytes: number) => Math.ceil(bytes / BYTES_PER_MB);
+  return {
+    allowed: false,
+    usage,
+    error: `Storage quota exceeded: ${toMb(usage.usedBytes)} MB used of ${toMb(usage.quotaBytes)} MB on the ` +
+      `${getSubscriptionTier(usage.tier).name} plan, and this file needs ${toMb(incomingBytes)} MB. ` +
+      'Delete old uploads or upgrade for more storage.',
+  };
+}
+
+// Writes a user's total stored bytes, across their own uploads and the
+// workspaces they own, to this month's usage record
+export async function recordStorageUsage(userId: string): Promise<number> {
+  const { userManagementService } = await import('./userManagementService');
+  const ownedWorkspaces = (await userManagementService.getWorkspacesByUser(userId))
+    .filter(workspace => workspace.ownerId === userId);
+
+  const owners: StorageOwner[] = [{ userId }, ...ownedWorkspaces.map(workspace => ({ userId, workspaceId: workspace.id }))];
+  let totalBytes = 0;
+  for (const owner of owners) {
+    const assets = await storage.getStoredAssets(owner);
+    totalBytes += assets.reduce((sum, asset) => sum + asset.size, 0);
+  }
+
+  const megabytes = Math.ceil(totalBytes / BYTES_PER_MB);
+  await storage.setStorageUsed(userId, new Date().toISOString().slice(0, 7), megabytes);
+  return megabytes;
+}
@@ -2,6 +2,7 @@ import Stripe from 'stripe';
 import { db } from './db';
 import { users, subscriptions, invoices, usageRecords } from '@shared/schema';
 import { eq, and, gte } from 'drizzle-orm';
+import { SUBSCRIPTION_TIERS, getSubscriptionTier } from './subscriptionTiers';
 
 if (!process.env.STRIPE_SECRET_KEY) {
   throw new Error('STRIPE_SECRET_KEY environment variable is required');
@@ -11,84 +12,7 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
   apiVersion: '2025-05-28.basil',
 });
 
-// Subscription tiers configuration
-export const SUBSCRIPTION_TIERS = {
-  free: {
-    name: 'Free',
-    priceId: null,
-    price: 0,
-    limits: {
-      uploads: 3,
-      transcriptionMinutes: 30,
-      segments: 15,
-      posts: 10,
-      storage: 500, // MB
-    },
-    features: [
-      'Up to 3 uploads per month',
-      '30 minutes of transcription',
-      'Basic social posting',
-      'Standard support',
-    ],
-  },
-  starter: {
-    name: 'Starter',
-    priceId: 'price_starter_monthly', // You'll need to create this in Stripe
-    price: 2900, // $29/month in cents
-    limits: {
-      uploads: 25,
-      transcriptionMinutes: 300,
-      segments: 150,
-      posts: 100,
-      storage: 5000, // MB
-    },
-    features: [
-      'Up to 25 uploads per month',
-      '5 hours of transcription',
-      'Multi-platform posting',
-      'Basic analytics',
-      'Email support',
-    ],
-  },
-  pro: {
-    name: 'Pro',
-    priceId: 'price_pro_monthly', // You'll need to create this in Stripe
-    price: 9900, // $99/month in cents
-    limits: {
-      uploads: 100,
-      transcriptionMinutes: 1200,
-      segments: 600,
-      posts: 500,
-      storage: 20000, // MB
-    },
-    features: [
-      'Up to 100 uploads per month',
-      '20 hours of transcription',
-      'Advanced scheduling',
-      'Brand voice matching',
-      'Priority support',
-    ],
-  },
-  enterprise: {
-    name: 'Enterprise',
-    priceId: 'price_enterprise_monthly', // You'll need to create this in Stripe
-    price: 29900, // $299/month in cents
-    limits: {
-      uploads: -1, // Unlimited
-      transcriptionMinutes: -1,
-      segments: -1,
-      posts: -1,
-      storage: -1,
-    },
-    features: [
-      'Unlimited uploads',
-      'Unlimited transcription',
-      'White-label options',
-      'Custom integrations',
-      'Dedicated support',
-    ],
-  },
-} as const;
+export { SUBSCRIPTION_TIERS } from './subscriptionTiers';
 
 export class StripeService {
   async createCustomer(userId: string, email: string, name?: string): Promise<string> {
@@ -306,7 +230,7 @@ export class StripeService {
       throw new Error('User not found');
     }
 
-    const tier = SUBSCRIPTION_TIERS[user.subscriptionTier as keyof typeof SUBSCRIPTION_TIERS] || SUBSCRIPTION_TIERS.free;
+    const tier = getSubscriptionTier(user.subscriptionTier);
     const usage = await this.getUsage(userId);
 
     const allowed = Object.entries(tier.limits).every(([key, limit]) => {
@@ -0,0 +1,85 @@
+// Subscription tiers configuration. Kept apart from the Stripe client so
+// quota checks work without Stripe credentials.
+export const SUBSCRIPTION_TIERS = {
+  free: {
+    name: 'Free',
+    priceId: null,
+    price: 0,
+    limits: {
+      uploads: 3,
+      transcriptionMinutes: 30,
+      segments: 15,
+      posts: 10,
+      storage: 500, // MB
+    },
+    features: [
+      'Up to 3 uploads per month',
+      '30 minutes of transcription',
+      'Basic social posting',
+      'Standard support',
+    ],
+  },
+  starter: {
+    name: 'Starter',
+    priceId: 'price_starter_monthly', // You'll need to create this in Stripe
+    price: 2900, // $29/month in cents
+    limits: {
+      uploads: 25,
+      transcriptionMinutes: 300,
+      segments: 150,
+      posts: 100,
+      storage: 5000, // MB
+    },
+    features: [
+      'Up to 25 uploads per month',
+      '5 hours of transcription',
+      'Multi-platform posting',
+      'Basic analytics',
+      'Email support',
+    ],
+  },
+  pro: {
+    name: 'Pro',
+    priceId: 'price_pro_monthly', // You'll need to create this in Stripe
+    price: 9900, // $99/month in cents
+    limits: {
+      uploads: 100,
+      transcriptionMinutes: 1200,
+      segments: 600,
+      posts: 500,
+      storage: 20000, // MB
+    },
+    features: [
+      'Up to 100 uploads per month',
+      '20 hours of transcription',
+      'Advanced scheduling',
+      'Brand voice matching',
+      'Priority support',
+    ],
+  },
+  enterprise: {
+    name: 'Enterprise',
+    priceId: 'price_enterprise_monthly', // You'll need to create this in Stripe
+    price: 29900, // $299/month in cents
+    limits: {
+      uploads: -1, // Unlimited
+      transcriptionMinutes: -1,
+      segments: -1,
+      posts: -1,
+      storage: -1,
+    },
+    features: [
+      'Unlimited uploads',
+      'Unlimited transcription',
+      'White-label options',
+      'Custom integrations',
+      'Dedicated support',
+    ],
+  },
+} as const;
+
+export type SubscriptionTierName = keyof typeof SUBSCRIPTION_TIERS;
+
+export function getSubscriptionTier(name: string | null | undefined) {
+  return SUBSCRIPTION_TIERS[name as SubscriptionTierName] || SUBSCRIPTION_TIERS.free;
+}
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Segment } from "@shared/schema";
+
+const storage = vi.hoisted(() => ({ getUpload: vi.fn(), updateSegment: vi.fn() }));
+
+vi.mock("./storage", () => ({ storage }));
+vi.mock("./audioPreprocessing", () => ({ getSourcePath: vi.fn() }));
+vi.mock("./blobStore", () => ({ removeStoredFile: vi.fn(), storeFile: vi.fn() }));
+
+const { getThumbnailFrames, pickCandidates, scoreFrame } = await import("./thumbnailFrames");
+
+const WIDTH = 320;
+const HEIGHT = 180;
+
+// An RGB24 frame at the analysis size, coloured pixel by pixel
+function frame(color: (x: number, y: number) => [number, number, number]): Buffer {
+  const pixels = Buffer.alloc(WIDTH * HEIGHT * 3);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      pixels.set(color(x, y), (y * WIDTH + x) * 3);
+    }
+  }
+  return pixels;
+}
+
+const gray = (value: number): [number, number, number] => [value, value, value];
+const SKIN: [number, number, number] = [220, 170, 140];
+
+beforeEach(() => {
+  storage.getUpload.mockReset();
+  storage.updateSegment.mockReset();
+});
+
+describe("scoreFrame", () => {
+  it("gives a flat frame nothing for sharpness, contrast or faces", () => {
+    expect(scoreFrame(frame(() => gray(128)))).toEqual({ score: 0, sharpness: 0, faces: 0, contrast: 0 });
+  });
+
+  it("scores fine detail as sharper than a smooth gradient of the same range", () => {
+    const checkerboard = scoreFrame(frame((x, y) => gray((x + y) % 2 ? 60 : 190)));
+    const gradient = scoreFrame(frame(x => gray(60 + Math.round((x / WIDTH) * 130))));
+
+    expect(checkerboard.sharpness).toBeGreaterThan(0.9);
+    expect(gradient.sharpness).toBeLessThan(0.1);
+    expect(checkerboard.contrast).toBe(1);
+    expect(checkerboard.score).toBeGreaterThan(gradient.score);
+  });
+
+  it("counts skin tones in the upper part of the frame as faces", () => {
+    const head = (x: number, y: number) => x >= 140 && x < 180 && y >= 30 && y < 80;
+    const withFace = scoreFrame(frame((x, y) => (head(x, y) ? SKIN : gray(90))));
+    const faceTooLow = scoreFrame(frame((x, y) => (head(x, y + 120) ? SKIN : gray(90))));
+
+    expect(withFace.faces).toBe(1);
+    expect(faceTooLow.faces).toBe(0);
+  });
+
+  it("distrusts frames that are mostly skin tone", () => {
+    expect(scoreFrame(frame(() => SKIN)).faces).toBe(0.3);
+  });
+
+  it("marks down near-black and blown-out frames", () => {
+    const detail = (low: number, high: number) => scoreFrame(frame((x, y) => gray((x + y) % 2 ? low : high)));
+    const normal = detail(60, 190);
+    const dark = detail(0, 40);
+
+    expect(dark.sharpness).toBeGreaterThan(0.9);
+    expect(dark.score).toBeLessThan(normal.score * 0.5);
+  });
+});
+
+describe("pickCandidates", () => {
+  const sample = (time: number, score: number) => ({ time, score, sharpness: score, faces: 0, contrast: 0 });
+
+  it("takes the best frames that are at least the gap apart", () => {
+    const samples = [sample(1, 0.5), sample(2, 0.9), sample(2.5, 0.85), sample(5, 0.7), sample(9, 0.2)];
+
+    expect(pickCandidates(samples, 2).map(pick => pick.time)).toEqual([2, 5, 9]);
+  });
+
+  it("stops at four candidates", () => {
+    const samples = Array.from({ length: 10 }, (_, i) => sample(i * 10, i / 10));
+
+    expect(pickCandidates(samples, 5).map(pick => pick.time)).toEqual([90, 80, 70, 60]);
+  });
+});
+
+describe("getThumbnailFrames", () => {
+  const frames = [
+    { time: 12, filePath: "blob:a.jpg", size: 100, score: 0.8, sharpness: 0.8, faces: 0.8, contrast: 0.8 },
+    { time: 18, filePath: "blob:b.jpg", size: 100, score: 0.6, sharpness: 0.6, faces: 0.6, contrast: 0.6 },
+  ];
+  const segment = (startTime: string, endTime: string) => ({
+    id: "s1",
+    uploadId: "u1",
+    startTime,
+    endTime,
+    thumbnailFrames: frames,
+    thumbnailFramePath: "blob:b.jpg",
+  }) as unknown as Segment;
+
+  it("reuses stored frames while they fall inside the segment", async () => {
+    expect(await getThumbnailFrames(segment("10", "20"))).toEqual({ success: true, frames, selected: "blob:b.jpg" });
+    expect(storage.getUpload).not.toHaveBeenCalled();
+  });
+
+  it("samples again once an edit moves the segment away from a frame", async () => {
+    storage.getUpload.mockResolvedValue({ id: "u1", mimeType: "audio/mpeg", originalName: "episode.mp3" });
+
+    const result = await getThumbnailFrames(segment("15", "25"));
+
+    expect(storage.getUpload).toHaveBeenCalledWith("u1");
+    expect(result).toEqual({ success: false, error: "Only video uploads have frames to use as thumbnails" });
+  });
+});
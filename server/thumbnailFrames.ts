@@ -0,0 +1,263 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { Segment, Upload } from '@shared/schema';
+import { storage } from './storage';
+import { isSkinTone } from './reframe';
+import { isAudioOnly } from './audiogram';
+import { isTextDocument } from './documentText';
+import { getSourcePath } from './audioPreprocessing';
+import { removeStoredFile, storeFile } from './blobStore';
+import { parseJsonColumn } from './transcriptData';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+export interface ThumbnailFrame {
+  time: number; // Seconds into the upload
+  filePath: string; // Full-resolution JPEG
+  size?: number; // Bytes of the JPEG; missing on frames sampled before it was stored
+  score: number; // 0-1, weighted from the three measures below
+  sharpness: number; // 0-1, from the variance of the Laplacian
+  faces: number; // 0-1, share of skin tones where faces usually are
+  contrast: number; // 0-1, from the spread of brightness
+}
+
+export interface ThumbnailFrameResult {
+  success: boolean;
+  frames?: ThumbnailFrame[];
+  selected?: string | null;
+  error?: string;
+}
+
+interface FrameScores {
+  score: number;
+  sharpness: number;
+  faces: number;
+  contrast: number;
+}
+
+// Frames are scored at a size where focus still shows but decoding is cheap
+const ANALYSIS_WIDTH = 320;
+const ANALYSIS_HEIGHT = 180;
+
+const SAMPLE_COUNT = 24;
+const CANDIDATE_COUNT = 4;
+const EDGE_SECONDS = 0.5; // Skip fades at the segment boundaries
+const MAX_FRAME_WIDTH = 1920;
+
+const SHARPNESS_MIDPOINT = 150; // Laplacian variance scored as 0.5
+const CONTRAST_FULL = 64; // Luma standard deviation scored as 1
+const FACE_SHARE_FULL = 0.04; // A head and shoulders in a wide shot
+const FACE_SHARE_MAX = 0.45; // Beyond this the "skin" is likely a wall or a filter
+const WEIGHTS = { faces: 0.45, sharpness: 0.35, contrast: 0.2 };
+
+// Candidate frames for a segment, sampling them on first use and again
+// when a segment edit has moved its range away from them
+export async function getThumbnailFrames(segment: Segment): Promise<ThumbnailFrameResult> {
+  const frames = parseJsonColumn<ThumbnailFrame[]>(segment.thumbnailFrames) || [];
+  if (frames.length && frames.every(frame => inRange(segment, frame.time))) {
+    return { success: true, frames, selected: segment.thumbnailFramePath };
+  }
+  return extractThumbnailFrames(segment);
+}
+
+// Samples frames across the segment, keeps the best few as JPEGs and
+// selects the top one. Frames left over from earlier runs are removed.
+export async function extractThumbnailFrames(segment: Segment): Promise<ThumbnailFrameResult> {
+  const upload = await storage.getUpload(segment.uploadId);
+  if (!upload) {
+    return { success: false, error: 'Upload not found' };
+  }
+  if (!hasVideo(upload)) {
+    return { success: false, error: 'Only video uploads have frames to use as thumbnails' };
+  }
+
+  const startTime = parseFloat(segment.startTime);
+  const endTime = parseFloat(segment.endTime);
+  const edge = endTime - startTime > EDGE_SECONDS * 4 ? EDGE_SECONDS : 0;
+
+  let frames: ThumbnailFrame[];
+  try {
+    const videoPath = await getSourcePath(upload);
+    const samples = await sampleFrames(videoPath, startTime + edge, endTime - startTime - edge * 2);
+    const picks = pickCandidates(samples, (endTime - startTime) / (CANDIDATE_COUNT * 2));
+
+    frames = [];
+    for (const pick of picks) {
+      frames.push({ ...pick, ...await extractFrame(videoPath, pick.time, segment.id) });
+    }
+  } catch (error) {
+    const err = error as Error;
+    console.error(`[ThumbnailFrames] Failed to sample frames for segment ${segment.id}:`, err.message);
+    return { success: false, error: err.message };
+  }
+
+  if (!frames.length) {
+    return { success: false, error: 'No frames could be read from the segment' };
+  }
+
+  const previous = parseJsonColumn<ThumbnailFrame[]>(segment.thumbnailFrames) || [];
+  await storage.updateSegment(segment.id, {
+    thumbnailFrames: JSON.stringify(frames),
+    thumbnailFramePath: frames[0].filePath,
+  });
+
+  // Identical frames land on the same blob, so only drop ones no longer listed
+  const kept = new Set(frames.map(frame => frame.filePath));
+  for (const frame of previous) {
+    if (!kept.has(frame.filePath)) await removeStoredFile(frame.filePath);
+  }
+
+  console.log(`[ThumbnailFrames] Segment ${segment.id}: ${frames.length} candidates, best ${frames[0].score} at ${frames[0].time}s`);
+  return { success: true, frames, selected: frames[0].filePath };
+}
+
+// Makes one of the segment's candidates its thumbnail background
+export async function selectThumbnailFrame(segment: Segment, index: number): Promise<ThumbnailFrameResult> {
+  const frames = parseJsonColumn<ThumbnailFrame[]>(segment.thumbnailFrames) || [];
+  const frame = frames[index];
+  if (!frame) {
+    return { success: false, error: `Frame ${index} not found; the segment has ${frames.length} candidates` };
+  }
+
+  await storage.updateSegment(segment.id, { thumbnailFramePath: frame.filePath });
+  return { success: true, frames, selected: frame.filePath };
+}
+
+// Frees the frame files of a segment that has been deleted
+export async function removeThumbnailFrames(segment: Segment): Promise<void> {
+  const frames = parseJsonColumn<ThumbnailFrame[]>(segment.thumbnailFrames) || [];
+  const filePaths = new Set([...frames.map(frame => frame.filePath), segment.thumbnailFramePath]);
+  for (const filePath of filePaths) {
+    if (filePath) await removeStoredFile(filePath);
+  }
+}
+
+export function hasVideo(upload: Pick<Upload, 'mimeType' | 'originalName' | 'sourceDeletedAt'>): boolean {
+  return !isAudioOnly(upload) && !isTextDocument(upload) && !upload.sourceDeletedAt;
+}
+
+function inRange(segment: Segment, time: number): boolean {
+  return time >= parseFloat(segment.startTime) && time <= parseFloat(segment.endTime);
+}
+
+// Best frames first, at least `minGap` seconds apart so the choices differ
+export function pickCandidates(samples: Array<FrameScores & { time: number }>, minGap: number): Array<FrameScores & { time: number }> {
+  const picks: Array<FrameScores & { time: number }> = [];
+  for (const sample of [...samples].sort((a, b) => b.score - a.score)) {
+    if (picks.length >= CANDIDATE_COUNT) break;
+    if (picks.every(pick => Math.abs(pick.time - sample.time) >= minGap)) picks.push(sample);
+  }
+  return picks;
+}
+
+function sampleFrames(videoPath: string, startTime: number, duration: number): Promise<Array<FrameScores & { time: number }>> {
+  return new Promise((resolve, reject) => {
+    const frameSize = ANALYSIS_WIDTH * ANALYSIS_HEIGHT * 3;
+    const rate = SAMPLE_COUNT / Math.max(duration, 1);
+    const samples: Array<FrameScores & { time: number }> = [];
+    let pending = Buffer.alloc(0);
+
+    const stream = ffmpeg(videoPath)
+      .seekInput(startTime)
+      .duration(duration)
+      .noAudio()
+      .videoFilters([`fps=${rate.toFixed(4)}`, `scale=${ANALYSIS_WIDTH}:${ANALYSIS_HEIGHT}`])
+      .format('rawvideo')
+      .outputOptions(['-pix_fmt rgb24'])
+      .on('error', (error: Error) => reject(error))
+      .pipe();
+
+    stream.on('data', (chunk: Buffer) => {
+      pending = Buffer.concat([pending, chunk]);
+      while (pending.length >= frameSize) {
+        const time = startTime + Math.min(samples.length / rate, duration);
+        samples.push({ ...scoreFrame(pending.subarray(0, frameSize)), time: Math.round(time * 100) / 100 });
+        pending = pending.subarray(frameSize);
+      }
+    });
+    stream.on('end', () => resolve(samples));
+    stream.on('error', (error: Error) => reject(error));
+  });
+}
+
+export function scoreFrame(pixels: Buffer): FrameScores {
+  const luma = new Float32Array(ANALYSIS_WIDTH * ANALYSIS_HEIGHT);
+  // Faces sit in the upper part of the frame, as in reframing
+  const faceRows = Math.round(ANALYSIS_HEIGHT * 0.75);
+  let skin = 0;
+  let total = 0;
+
+  for (let i = 0; i < luma.length; i++) {
+    const r = pixels[i * 3];
+    const g = pixels[i * 3 + 1];
+    const b = pixels[i * 3 + 2];
+    luma[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    total += luma[i];
+    if (i < faceRows * ANALYSIS_WIDTH && isSkinTone(r, g, b)) skin++;
+  }
+
+  const mean = total / luma.length;
+  let spread = 0;
+  for (let i = 0; i < luma.length; i++) spread += (luma[i] - mean) ** 2;
+  const contrast = Math.min(1, Math.sqrt(spread / luma.length) / CONTRAST_FULL);
+
+  // Variance of the 4-neighbour Laplacian: edges in focus give large values
+  let lapSum = 0;
+  let lapSquares = 0;
+  let count = 0;
+  for (let y = 1; y < ANALYSIS_HEIGHT - 1; y++) {
+    for (let x = 1; x < ANALYSIS_WIDTH - 1; x++) {
+      const i = y * ANALYSIS_WIDTH + x;
+      const value = luma[i - 1] + luma[i + 1] + luma[i - ANALYSIS_WIDTH] + luma[i + ANALYSIS_WIDTH] - 4 * luma[i];
+      lapSum += value;
+      lapSquares += value * value;
+      count++;
+    }
+  }
+  const variance = lapSquares / count - (lapSum / count) ** 2;
+  const sharpness = variance / (variance + SHARPNESS_MIDPOINT);
+
+  const skinShare = skin / (faceRows * ANALYSIS_WIDTH);
+  const faces = skinShare > FACE_SHARE_MAX ? 0.3 : Math.min(1, skinShare / FACE_SHARE_FULL);
+
+  // Near-black or blown-out frames are fades and flashes, whatever else they score
+  const exposure = mean < 25 || mean > 230 ? 0.3 : 1;
+  const score = exposure * (WEIGHTS.faces * faces + WEIGHTS.sharpness * sharpness + WEIGHTS.contrast * contrast);
+
+  return {
+    score: round(score),
+    sharpness: round(sharpness),
+    faces: round(faces),
+    contrast: round(contrast),
+  };
+}
+
+// Grabs the frame at `time` as a JPEG and moves it into the blob store
+async function extractFrame(videoPath: string, time: number, segmentId: string): Promise<{ filePath: string; size: number }> {
+  const outputPath = path.join(os.tmpdir(), `thumbframe_${segmentId}_${Math.round(time * 1000)}.jpg`);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(videoPath)
+        .seekInput(time)
+        .frames(1)
+        .noAudio()
+        .videoFilters([`scale='min(${MAX_FRAME_WIDTH},iw)':-2`])
+        .outputOptions(['-q:v 2'])
+        .on('end', () => resolve())
+        .on('error', (error: Error) => reject(error))
+        .save(outputPath);
+    });
+    const stored = await storeFile(outputPath, { contentType: 'image/jpeg', extension: '.jpg' });
+    return { filePath: stored.ref, size: stored.size };
+  } finally {
+    await fs.unlink(outputPath).catch(() => {});
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
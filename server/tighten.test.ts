@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildEditDecisionList,
+  buildSelectExpression,
+  DEFAULT_TIGHTEN_OPTIONS,
+  normalizeTightenOptions,
+  remapTime,
+  remapWords,
+} from "./tighten";
+
+const word = (text: string, start: number, end: number) => ({ word: text, start, end });
+
+// Rounds times so float noise does not hide the intent of the expectations
+function rounded(ranges: Array<{ start: number; end: number }>) {
+  return ranges.map(range => ({ start: +range.start.toFixed(3), end: +range.end.toFixed(3) }));
+}
+
+describe("buildEditDecisionList", () => {
+  it("shortens a long pause to the kept pause, split around the cut", () => {
+    const edl = buildEditDecisionList([word("hello", 10, 10.5), word("world", 12, 12.5)], 10, 13);
+
+    expect(rounded(edl.ranges)).toEqual([{ start: 0, end: 0.625 }, { start: 1.875, end: 3 }]);
+    expect(edl.duration).toBeCloseTo(1.75);
+    expect(edl.removedSeconds).toBeCloseTo(1.25);
+  });
+
+  it("leaves pauses up to the limit alone", () => {
+    const edl = buildEditDecisionList([word("hello", 0, 0.5), word("world", 1, 1.5)], 0, 1.5);
+
+    expect(edl.ranges).toEqual([{ start: 0, end: 1.5 }]);
+    expect(edl.removedSeconds).toBe(0);
+  });
+
+  it("cuts filler words, padding only from the spoken side", () => {
+    const edl = buildEditDecisionList([word("so", 0, 0.4), word("Um,", 0.6, 0.9), word("right", 1, 1.4)], 0, 1.4);
+
+    expect(rounded(edl.ranges)).toEqual([{ start: 0, end: 0.525 }, { start: 0.9, end: 1.4 }]);
+  });
+
+  it("keeps filler words when asked to", () => {
+    const words = [word("so", 0, 0.4), word("um", 0.6, 0.9), word("right", 1, 1.4)];
+    const edl = buildEditDecisionList(words, 0, 1.4, { ...DEFAULT_TIGHTEN_OPTIONS, removeFillers: false });
+
+    expect(edl.ranges).toEqual([{ start: 0, end: 1.4 }]);
+  });
+
+  it("skips cuts shorter than the minimum", () => {
+    const words = [word("hello", 0, 0.5), word("world", 1.15, 1.5)];
+
+    expect(buildEditDecisionList(words, 0, 1.5).ranges).toHaveLength(2);
+    expect(buildEditDecisionList(words, 0, 1.5, { ...DEFAULT_TIGHTEN_OPTIONS, minCutSeconds: 0.5 }).ranges).toEqual([{ start: 0, end: 1.5 }]);
+  });
+
+  it("trims silence at the clip edges without padding past them", () => {
+    const edl = buildEditDecisionList([word("hello", 1, 1.5)], 0, 3);
+
+    expect(rounded(edl.ranges)).toEqual([{ start: 0.875, end: 1.625 }]);
+  });
+
+  it("only considers words whose midpoint falls inside the window", () => {
+    const words = [word("before", 4.2, 5.2), word("inside", 5.5, 6), word("after", 6.9, 7.5)];
+
+    // Had "after" counted, the clip would end on it rather than on trimmed silence
+    expect(rounded(buildEditDecisionList(words, 5, 7).ranges)).toEqual([{ start: 0, end: 1.125 }]);
+  });
+
+  it("keeps the whole clip when there are no words to anchor cuts to", () => {
+    expect(buildEditDecisionList([], 0, 5)).toEqual({ ranges: [{ start: 0, end: 5 }], duration: 5, removedSeconds: 0 });
+  });
+});
+
+describe("remapTime", () => {
+  const edl = { ranges: [{ start: 0, end: 0.625 }, { start: 1.875, end: 3 }], duration: 1.75, removedSeconds: 1.25 };
+
+  it("shifts times after a cut back by the removed length", () => {
+    expect(remapTime(edl, 0.3)).toBe(0.3);
+    expect(remapTime(edl, 2)).toBeCloseTo(0.75);
+  });
+
+  it("collapses times inside a cut, or past the end, onto the join", () => {
+    expect(remapTime(edl, 1)).toBe(0.625);
+    expect(remapTime(edl, 1.875)).toBe(0.625);
+    expect(remapTime(edl, 5)).toBe(1.75);
+  });
+});
+
+describe("remapWords", () => {
+  it("moves caption words onto the tightened timeline and drops the cut ones", () => {
+    const words = [word("so", 0, 0.4), word("um", 0.6, 0.9), word("right", 1, 1.4)];
+    const edl = buildEditDecisionList(words, 0, 1.4);
+
+    const remapped = remapWords(edl, words);
+
+    expect(remapped.map(w => w.word)).toEqual(["so", "right"]);
+    expect(remapped[1].start).toBeCloseTo(0.625);
+    expect(remapped[1].end).toBeCloseTo(1.025);
+    expect(remapped[1].end).toBeCloseTo(edl.duration);
+  });
+});
+
+describe("buildSelectExpression", () => {
+  it("keeps each range", () => {
+    const edl = { ranges: [{ start: 0, end: 0.625 }, { start: 1.875, end: 3 }], duration: 1.75, removedSeconds: 1.25 };
+    expect(buildSelectExpression(edl)).toBe("between(t,0.000,0.625)+between(t,1.875,3.000)");
+  });
+});
+
+describe("normalizeTightenOptions", () => {
+  it("takes true as the defaults and merges overrides", () => {
+    expect(normalizeTightenOptions(true)).toEqual(DEFAULT_TIGHTEN_OPTIONS);
+    expect(normalizeTightenOptions({ maxPauseSeconds: 1 })).toEqual({ ...DEFAULT_TIGHTEN_OPTIONS, maxPauseSeconds: 1 });
+  });
+
+  it("rejects malformed values and a kept pause longer than the limit", () => {
+    expect(normalizeTightenOptions({ removeFillers: "yes" })).toBeNull();
+    expect(normalizeTightenOptions({ minCutSeconds: -1 })).toBeNull();
+    expect(normalizeTightenOptions({ keepPauseSeconds: 1 })).toBeNull();
+    expect(normalizeTightenOptions("fast")).toBeNull();
+  });
+});
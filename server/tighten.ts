@@ -0,0 +1,152 @@
+import type { TranscriptWord } from './transcriptData';
+
+export interface TightenOptions {
+  removeFillers: boolean;
+  maxPauseSeconds: number; // Pauses longer than this are shortened
+  keepPauseSeconds: number; // Silence left in place of a shortened pause or filler
+  minCutSeconds: number; // Shorter cuts are not worth the jump
+}
+
+export const DEFAULT_TIGHTEN_OPTIONS: TightenOptions = {
+  removeFillers: true,
+  maxPauseSeconds: 0.6,
+  keepPauseSeconds: 0.25,
+  minCutSeconds: 0.1,
+};
+
+const FILLER_WORDS = new Set(['um', 'umm', 'uh', 'uhh', 'uhm', 'er', 'erm', 'ah', 'hmm', 'mm', 'mhm']);
+
+// Kept source ranges, in seconds from the start of the clip, in order
+export interface EditDecisionList {
+  ranges: Array<{ start: number; end: number }>;
+  duration: number; // Length after the cuts
+  removedSeconds: number;
+}
+
+export function isFillerWord(word: string): boolean {
+  return FILLER_WORDS.has(word.toLowerCase().replace(/[^a-z]/g, ''));
+}
+
+// Validates tighten options from a request: true for the defaults, or an
+// object overriding some of them. Returns null when malformed.
+export function normalizeTightenOptions(input: unknown): TightenOptions | null {
+  if (input === true) return { ...DEFAULT_TIGHTEN_OPTIONS };
+  if (!input || typeof input !== 'object') return null;
+
+  const options = { ...DEFAULT_TIGHTEN_OPTIONS };
+  const values = input as Record<string, unknown>;
+
+  if (values.removeFillers !== undefined) {
+    if (typeof values.removeFillers !== 'boolean') return null;
+    options.removeFillers = values.removeFillers;
+  }
+  for (const key of ['maxPauseSeconds', 'keepPauseSeconds', 'minCutSeconds'] as const) {
+    if (values[key] === undefined) continue;
+    const value = values[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 10) return null;
+    options[key] = value;
+  }
+
+  return options.keepPauseSeconds <= options.maxPauseSeconds ? options : null;
+}
+
+// Finds the parts of [windowStart, windowEnd) worth keeping. Every gap
+// between spoken words that is longer than the pause limit, or that holds
+// filler words, is cut down to a short pause. The pause is split around the
+// cut so the audio joins in silence rather than mid-word.
+export function buildEditDecisionList(
+  words: TranscriptWord[],
+  windowStart: number,
+  windowEnd: number,
+  options: TightenOptions = DEFAULT_TIGHTEN_OPTIONS
+): EditDecisionList {
+  const clipDuration = windowEnd - windowStart;
+  const clipWords = words
+    .filter(word => {
+      const midpoint = (word.start + word.end) / 2;
+      return midpoint >= windowStart && midpoint < windowEnd;
+    })
+    .map(word => ({
+      word: word.word,
+      start: Math.max(0, word.start - windowStart),
+      end: Math.min(clipDuration, word.end - windowStart),
+    }));
+
+  const cuts: Array<{ start: number; end: number }> = [];
+  const halfPause = options.keepPauseSeconds / 2;
+  // The clip edges act as spoken boundaries, with only the inner side kept
+  let previousEnd: number | null = null;
+  let fillers: typeof clipWords = [];
+
+  const closeGap = (nextStart: number | null) => {
+    const gapStart = previousEnd ?? 0;
+    const gapEnd = nextStart ?? clipDuration;
+    const silence = fillers.length
+      ? Math.max(0, fillers[0].start - gapStart) + Math.max(0, gapEnd - fillers[fillers.length - 1].end)
+      : gapEnd - gapStart;
+
+    if (fillers.length || silence > options.maxPauseSeconds) {
+      // Pad from the spoken side only, and never into a filler
+      const lead = previousEnd === null ? 0 : Math.min(halfPause, fillers.length ? Math.max(0, fillers[0].start - gapStart) : halfPause);
+      const tail = nextStart === null ? 0 : Math.min(halfPause, fillers.length ? Math.max(0, gapEnd - fillers[fillers.length - 1].end) : halfPause);
+      const cut = { start: gapStart + lead, end: gapEnd - tail };
+      if (cut.end - cut.start >= options.minCutSeconds) {
+        cuts.push(cut);
+      }
+    }
+    fillers = [];
+  };
+
+  for (const word of clipWords) {
+    if (options.removeFillers && isFillerWord(word.word)) {
+      fillers.push(word);
+      continue;
+    }
+    closeGap(word.start);
+    previousEnd = word.end;
+  }
+  // Without any words there is nothing to anchor cuts to
+  if (previousEnd !== null) {
+    closeGap(null);
+  }
+
+  const ranges: EditDecisionList['ranges'] = [];
+  let cursor = 0;
+  for (const cut of cuts) {
+    if (cut.start > cursor) ranges.push({ start: cursor, end: cut.start });
+    cursor = Math.max(cursor, cut.end);
+  }
+  if (cursor < clipDuration) ranges.push({ start: cursor, end: clipDuration });
+
+  const duration = ranges.reduce((sum, range) => sum + range.end - range.start, 0);
+  return { ranges, duration, removedSeconds: clipDuration - duration };
+}
+
+// Where a clip-relative source time lands after the cuts. Times inside a
+// cut collapse onto the join.
+export function remapTime(edl: EditDecisionList, time: number): number {
+  let elapsed = 0;
+  for (const range of edl.ranges) {
+    if (time < range.start) return elapsed;
+    if (time <= range.end) return elapsed + time - range.start;
+    elapsed += range.end - range.start;
+  }
+  return elapsed;
+}
+
+// Moves clip-relative word timings onto the tightened timeline, dropping
+// words that were cut out
+export function remapWords(edl: EditDecisionList, words: TranscriptWord[]): TranscriptWord[] {
+  return words
+    .filter(word => {
+      const midpoint = (word.start + word.end) / 2;
+      return edl.ranges.some(range => midpoint >= range.start && midpoint <= range.end);
+    })
+    .map(word => ({ ...word, start: remapTime(edl, word.start), end: remapTime(edl, word.end) }));
+}
+
+// select/aselect expression keeping only the listed ranges. Paired with
+// setpts/asetpts the frames that survive are packed back to back.
+export function buildSelectExpression(edl: EditDecisionList): string {
+  return edl.ranges.map(range => `between(t,${range.start.toFixed(3)},${range.end.toFixed(3)})`).join('+');
+}
@@ -0,0 +1,175 @@
+import type { Transcript } from "@shared/schema";
+import type { SpeakerTurn, TranscriptionResult } from "./openai";
+
+export type TranscriptWord = NonNullable<TranscriptionResult['words']>[number];
+
+// jsonb columns are written as JSON strings by the processors, so accept both
+export function parseJsonColumn<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return null;
+    }
+  }
+  return value as T;
+}
+
+export function getTranscriptWords(transcript: Transcript): TranscriptWord[] {
+  return parseJsonColumn<TranscriptWord[]>(transcript.wordTimestamps) || [];
+}
+
+export function getSpeakerTurns(transcript: Transcript): SpeakerTurn[] {
+  return parseJsonColumn<SpeakerTurn[]>(transcript.speakerTurns) || [];
+}
+
+export function getSpeakerNames(transcript: Transcript): Record<string, string> {
+  return parseJsonColumn<Record<string, string>>(transcript.speakerNames) || {};
+}
+
+// Merges consecutive words from the same speaker into turns
+export function buildSpeakerTurns(words: TranscriptWord[]): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+
+  for (const word of words) {
+    if (!word.speaker) continue;
+
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === word.speaker) {
+      last.end = word.end;
+    } else {
+      turns.push({ speaker: word.speaker, start: word.start, end: word.end });
+    }
+  }
+
+  return turns;
+}
+
+// Label of the speaker with the most talk time inside the range
+export function getDominantSpeaker(turns: SpeakerTurn[], start: number, end: number): string | undefined {
+  const overlap: Record<string, number> = {};
+
+  for (const turn of turns) {
+    const seconds = Math.min(turn.end, end) - Math.max(turn.start, start);
+    if (seconds > 0) {
+      overlap[turn.speaker] = (overlap[turn.speaker] || 0) + seconds;
+    }
+  }
+
+  const ranked = Object.entries(overlap).sort((a, b) => b[1] - a[1]);
+  return ranked[0]?.[0];
+}
+
+export function getSpeakerDisplayName(transcript: Transcript, label: string): string {
+  return getSpeakerNames(transcript)[label] || `Speaker ${label}`;
+}
+
+function normalizeToken(token: string): string {
+  return token.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+// Locates a phrase in the word timeline, optionally limited to a time window.
+// Matching ignores case and punctuation so paraphrase-free quotes line up.
+export function findPhraseTimeRange(
+  words: TranscriptWord[],
+  phrase: string,
+  windowStart: number = 0,
+  windowEnd: number = Infinity
+): { start: number; end: number } | null {
+  const target = phrase.split(/\s+/).map(normalizeToken).filter(Boolean);
+  if (!target.length) return null;
+
+  const candidates = words
+    .filter(word => word.start >= windowStart && word.end <= windowEnd)
+    .map(word => ({ ...word, token: normalizeToken(word.word) }))
+    .filter(word => word.token);
+
+  for (let i = 0; i + target.length <= candidates.length; i++) {
+    let matches = true;
+    for (let j = 0; j < target.length; j++) {
+      if (candidates[i + j].token !== target[j]) {
+        matches = false;
+        break;
+      }
+    }
+    if (matches) {
+      return { start: candidates[i].start, end: candidates[i + target.length - 1].end };
+    }
+  }
+
+  return null;
+}
+
+export interface TranscriptSentence {
+  index: number;
+  text: string;
+  start: number;
+  end: number;
+  firstWord: number; // Index into the word timeline
+  lastWord: number;
+}
+
+const SENTENCE_END = /[.!?]["')\]]*$/;
+const SENTENCE_BREAK_SILENCE = 1.0; // Seconds of silence that end a sentence without punctuation
+const MAX_SENTENCE_WORDS = 60;
+
+// Groups the word timeline into sentences on terminal punctuation, long
+// pauses, or a length cap for unpunctuated provider output
+export function buildSentences(words: TranscriptWord[]): TranscriptSentence[] {
+  const sentences: TranscriptSentence[] = [];
+  let firstWord = 0;
+
+  for (let i = 0; i < words.length; i++) {
+    const next = words[i + 1];
+    const isLast = !next;
+    const endsSentence =
+      isLast ||
+      SENTENCE_END.test(words[i].word.trim()) ||
+      next.start - words[i].end >= SENTENCE_BREAK_SILENCE ||
+      i - firstWord + 1 >= MAX_SENTENCE_WORDS;
+
+    if (endsSentence) {
+      sentences.push({
+        index: sentences.length,
+        text: words.slice(firstWord, i + 1).map(word => word.word.trim()).join(' '),
+        start: words[firstWord].start,
+        end: words[i].end,
+        firstWord,
+        lastWord: i,
+      });
+      firstWord = i + 1;
+    }
+  }
+
+  return sentences;
+}
+
+// Text of the words whose midpoint falls inside the range
+export function getTextInRange(words: TranscriptWord[], start: number, end: number): string {
+  return words
+    .filter(word => {
+      const midpoint = (word.start + word.end) / 2;
+      return midpoint >= start && midpoint < end;
+    })
+    .map(word => word.word.trim())
+    .join(' ');
+}
+
+// Moves a cut to the middle of the nearest gap between two words so it
+// never lands inside a word
+export function snapToWordGap(words: TranscriptWord[], time: number): number {
+  let best = time;
+  let bestDistance = Infinity;
+
+  for (let i = 0; i + 1 < words.length; i++) {
+    const gapMiddle = (words[i].end + words[i + 1].start) / 2;
+    const distance = Math.abs(gapMiddle - time);
+    if (distance < bestDistance) {
+      best = gapMiddle;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
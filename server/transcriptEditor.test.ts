@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Segment, Transcript, Upload } from "@shared/schema";
+
+const state = vi.hoisted(() => ({
+  segments: [] as any[],
+  transcriptUpdates: [] as any[],
+  segmentUpdates: new Map<string, any>(),
+  regenerated: [] as string[],
+}));
+
+vi.mock("./storage", () => ({
+  storage: {
+    getSegmentsByUploadId: vi.fn(async () => state.segments),
+    updateTranscript: vi.fn(async (id: string, data: any) => {
+      state.transcriptUpdates.push(data);
+      return { id, ...data };
+    }),
+    updateSegment: vi.fn(async (id: string, data: any) => {
+      state.segmentUpdates.set(id, data);
+      return { id, ...data };
+    }),
+  },
+}));
+vi.mock("./segmentEditor", () => ({
+  segmentEditor: { queueRegeneration: vi.fn(async (id: string) => { state.regenerated.push(id); }) },
+}));
+
+const { applyWordCorrections, replaceTranscriptText } = await import("./transcriptEditor");
+
+const upload = { id: "upload-1" } as Upload;
+
+function segment(id: string, transcript: string): Segment {
+  return { id, uploadId: upload.id, transcript, startTime: "0", endTime: "1" } as Segment;
+}
+
+function timedTranscript(text: string, words: string[]): Transcript {
+  return {
+    id: "t1",
+    text,
+    wordTimestamps: JSON.stringify(words.map((word, i) => ({ word, start: i, end: i + 0.9 }))),
+  } as unknown as Transcript;
+}
+
+beforeEach(() => {
+  state.segments = [];
+  state.transcriptUpdates = [];
+  state.segmentUpdates = new Map();
+  state.regenerated = [];
+});
+
+describe("applyWordCorrections", () => {
+  const transcript = timedTranscript("Welcome to the show.", ["Welcome", "to", "the", "show."]);
+
+  it("rewrites the word and the text", async () => {
+    const result = await applyWordCorrections(upload, transcript, [{ index: 3, word: "podcast." }]);
+
+    expect(result.success).toBe(true);
+    expect(state.transcriptUpdates[0].text).toBe("Welcome to the podcast.");
+  });
+
+  it.each([null, "3", [3, "x"]])("rejects a %o entry without applying the others", async entry => {
+    const result = await applyWordCorrections(upload, transcript, [{ index: 0, word: "Hello" }, entry as any]);
+
+    expect(result).toEqual({ success: false, error: "Each correction must be an object with index and word" });
+    expect(state.transcriptUpdates).toEqual([]);
+  });
+
+  it("rejects a correction whose word is missing from the text", async () => {
+    const drifted = timedTranscript("Welcome to the podcast.", ["Welcome", "to", "the", "show."]);
+    const result = await applyWordCorrections(upload, drifted, [{ index: 3, word: "episode." }]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Word 3 ("show.") could not be found in the transcript text');
+    expect(state.transcriptUpdates).toEqual([]);
+  });
+});
+
+describe("replaceTranscriptText", () => {
+  const transcript = {
+    id: "t1",
+    text: "First we cover pricing. Then we talk about hiring. Finally some questions.",
+    wordTimestamps: null,
+  } as unknown as Transcript;
+
+  it("carries edits over to the segments they fall in", async () => {
+    state.segments = [
+      segment("a", "First we cover pricing."),
+      segment("b", "Then we talk about hiring."),
+      segment("c", "Finally some questions."),
+    ];
+
+    const result = await replaceTranscriptText(
+      upload,
+      transcript,
+      "First we cover our pricing. Then we talk about remote hiring. Finally some questions."
+    );
+
+    expect(result.updatedSegments).toBe(2);
+    expect(state.segmentUpdates.get("a")).toEqual({ transcript: "First we cover our pricing." });
+    expect(state.segmentUpdates.get("b")).toEqual({ transcript: "Then we talk about remote hiring." });
+    expect(state.segmentUpdates.has("c")).toBe(false);
+    expect(state.regenerated).toEqual(["a", "b"]);
+  });
+
+  it("leaves segments that are not excerpts of the text alone", async () => {
+    state.segments = [segment("a", "A summary the model wrote")];
+
+    const result = await replaceTranscriptText(upload, transcript, "Something else entirely.");
+
+    expect(result.updatedSegments).toBe(0);
+    expect(state.segmentUpdates.size).toBe(0);
+  });
+
+  it("refuses transcripts with word timing", async () => {
+    const result = await replaceTranscriptText(upload, timedTranscript("Hi.", ["Hi."]), "Hello.");
+    expect(result.success).toBe(false);
+  });
+});
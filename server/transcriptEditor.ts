@@ -0,0 +1,235 @@
+import type { Transcript, Upload } from '@shared/schema';
+import { storage } from './storage';
+import { segmentEditor } from './segmentEditor';
+import { getTextInRange, getTranscriptWords, type TranscriptWord } from './transcriptData';
+
+export interface WordCorrection {
+  index: number; // Position in wordTimestamps
+  word: string; // Replacement text; empty removes the word
+}
+
+export interface TranscriptEditResult {
+  success: boolean;
+  transcript?: Transcript;
+  updatedSegments?: number;
+  error?: string;
+}
+
+// Replaces words in place so every correction keeps the timing of the word
+// it replaces, then pushes the new text into segments and their captions
+export async function applyWordCorrections(
+  upload: Upload,
+  transcript: Transcript,
+  corrections: WordCorrection[]
+): Promise<TranscriptEditResult> {
+  const words = getTranscriptWords(transcript);
+  if (!words.length) {
+    return { success: false, error: 'Transcript has no word timestamps; edit the text instead' };
+  }
+
+  // Check every entry before applying any, so a bad one changes nothing
+  for (const correction of corrections as unknown[]) {
+    if (!correction || typeof correction !== 'object' || Array.isArray(correction)) {
+      return { success: false, error: 'Each correction must be an object with index and word' };
+    }
+  }
+  for (const correction of corrections) {
+    if (!Number.isInteger(correction.index) || correction.index < 0 || correction.index >= words.length) {
+      return { success: false, error: `Word index ${correction.index} is out of range` };
+    }
+    if (typeof correction.word !== 'string') {
+      return { success: false, error: `Correction for word ${correction.index} must be a string` };
+    }
+  }
+
+  const offsets = locateWordsInText(transcript.text, words);
+  const byIndex = new Map(corrections.map(c => [c.index, c.word.trim()]));
+  let text = transcript.text;
+
+  // The words and the text would disagree if a correction were skipped
+  const unmatched = Array.from(byIndex.keys()).find(index => offsets[index] === null);
+  if (unmatched !== undefined) {
+    return { success: false, error: `Word ${unmatched} ("${words[unmatched].word.trim()}") could not be found in the transcript text` };
+  }
+
+  // Rewrite the text from the end so earlier offsets stay valid
+  for (const index of Array.from(byIndex.keys()).sort((a, b) => b - a)) {
+    const offset = offsets[index]!;
+    const replacement = byIndex.get(index)!;
+    const end = offset + words[index].word.trim().length;
+    text = replacement
+      ? text.slice(0, offset) + replacement + text.slice(end)
+      : text.slice(0, offset).trimEnd() + text.slice(end);
+  }
+
+  const correctedWords = words
+    .map((word, index) => byIndex.has(index) ? { ...word, word: byIndex.get(index)! } : word)
+    .filter(word => word.word);
+
+  const updated = await storage.updateTranscript(transcript.id, {
+    text: text.trim(),
+    wordTimestamps: JSON.stringify(correctedWords),
+  });
+
+  const updatedSegments = await propagateToSegments(upload, correctedWords);
+  return { success: true, transcript: updated, updatedSegments };
+}
+
+// Free-text edit for transcripts without word timing. Segments keep their
+// place in the text: each is found in the old text and carried over to the
+// matching words of the new one.
+export async function replaceTranscriptText(
+  upload: Upload,
+  transcript: Transcript,
+  text: string
+): Promise<TranscriptEditResult> {
+  if (getTranscriptWords(transcript).length) {
+    return { success: false, error: 'Transcript has word timestamps; submit word corrections instead' };
+  }
+  if (!text.trim()) {
+    return { success: false, error: 'Transcript text cannot be empty' };
+  }
+
+  const updated = await storage.updateTranscript(transcript.id, { text: text.trim() });
+  const updatedSegments = await propagateTextToSegments(upload, transcript.text, updated.text);
+  return { success: true, transcript: updated, updatedSegments };
+}
+
+// Refreshes segment transcripts from the corrected words and regenerates
+// the clips and captions of any segment whose text changed
+async function propagateToSegments(upload: Upload, words: TranscriptWord[]): Promise<number> {
+  const segments = await storage.getSegmentsByUploadId(upload.id);
+  let changed = 0;
+
+  for (const segment of segments) {
+    const text = getTextInRange(words, parseFloat(segment.startTime), parseFloat(segment.endTime));
+    if (text === segment.transcript) continue;
+
+    await storage.updateSegment(segment.id, { transcript: text });
+    await segmentEditor.queueRegeneration(segment.id);
+    changed++;
+  }
+
+  return changed;
+}
+
+async function propagateTextToSegments(upload: Upload, oldText: string, newText: string): Promise<number> {
+  const oldTokens = tokenize(oldText);
+  const newTokens = tokenize(newText);
+  const boundary = mapTokenBoundaries(oldTokens, newTokens);
+  const segments = await storage.getSegmentsByUploadId(upload.id);
+  let changed = 0;
+
+  for (const segment of segments) {
+    const range = segment.transcript ? findTokens(oldTokens, tokenize(segment.transcript)) : null;
+    if (!range) continue; // Not an excerpt of the text, so there is nothing to carry over
+
+    const text = newTokens.slice(boundary(range.start), boundary(range.end)).join(' ');
+    if (!text || text === segment.transcript) continue;
+
+    await storage.updateSegment(segment.id, { transcript: text });
+    await segmentEditor.queueRegeneration(segment.id);
+    changed++;
+  }
+
+  return changed;
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+// First run of `needle` in `haystack`, ignoring case
+function findTokens(haystack: string[], needle: string[]): { start: number; end: number } | null {
+  if (!needle.length) return null;
+  const lower = haystack.map(token => token.toLowerCase());
+  const target = needle.map(token => token.toLowerCase());
+
+  for (let start = 0; start + target.length <= lower.length; start++) {
+    if (target.every((token, i) => lower[start + i] === token)) {
+      return { start, end: start + target.length };
+    }
+  }
+  return null;
+}
+
+// Largest middle section compared word by word; beyond it boundaries are
+// placed proportionally
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Maps a position between old tokens to the matching position between new
+// tokens, from the longest common subsequence of the two texts. Words added
+// at a boundary go to the section that follows it.
+function mapTokenBoundaries(oldTokens: string[], newTokens: string[]): (position: number) => number {
+  let prefix = 0;
+  while (prefix < oldTokens.length && prefix < newTokens.length && oldTokens[prefix] === newTokens[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldTokens.length - prefix &&
+    suffix < newTokens.length - prefix &&
+    oldTokens[oldTokens.length - 1 - suffix] === newTokens[newTokens.length - 1 - suffix]
+  ) suffix++;
+
+  const oldMiddle = oldTokens.slice(prefix, oldTokens.length - suffix);
+  const newMiddle = newTokens.slice(prefix, newTokens.length - suffix);
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+
+  // matchBefore[i]: one past the new index of the last old middle token before i that survived
+  let matchBefore: Int32Array | null = null;
+  if (n && m && n * m <= MAX_DIFF_CELLS) {
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    matchBefore = new Int32Array(n + 1);
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        matchBefore[i + 1] = j + 1;
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+        matchBefore[i + 1] = matchBefore[i];
+        i++;
+      } else {
+        j++;
+      }
+    }
+    for (; i < n; i++) matchBefore[i + 1] = matchBefore[i];
+  }
+
+  return (position: number) => {
+    if (position <= prefix) return position;
+    if (position >= oldTokens.length - suffix) return position - oldTokens.length + newTokens.length;
+    const offset = position - prefix;
+    return prefix + (matchBefore ? matchBefore[offset] : Math.round(offset * m / n));
+  };
+}
+
+// Character offset of each word in the transcript text, found by scanning
+// forward so repeated words map to the right occurrence
+function locateWordsInText(text: string, words: TranscriptWord[]): Array<number | null> {
+  const lowerText = text.toLowerCase();
+  const offsets: Array<number | null> = [];
+  let cursor = 0;
+
+  for (const word of words) {
+    const token = word.word.trim().toLowerCase();
+    const offset = token ? lowerText.indexOf(token, cursor) : -1;
+    if (offset === -1) {
+      offsets.push(null);
+      continue;
+    }
+    offsets.push(offset);
+    cursor = offset + token.length;
+  }
+
+  return offsets;
+}
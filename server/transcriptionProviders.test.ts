@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { TranscriptionResult } from "./openai";
+
+const workspaces = new Map<string, { settings: { transcriptionProvider?: string } }>();
+vi.mock("./userManagementService", () => ({
+  userManagementService: {
+    getWorkspace: async (id: string) => workspaces.get(id) ?? null,
+  },
+}));
+
+const { transcriptionProviders } = await import("./transcriptionProviders");
+
+describe("provider selection", () => {
+  afterEach(() => {
+    workspaces.clear();
+    delete process.env.TRANSCRIPTION_PROVIDER;
+  });
+
+  it("uses the workspace's configured provider", async () => {
+    workspaces.set("ws1", { settings: { transcriptionProvider: "fixture" } });
+    expect(await transcriptionProviders.resolveForWorkspace("ws1")).toBe("fixture");
+  });
+
+  it("falls back to the server default for unknown providers or workspaces", async () => {
+    process.env.TRANSCRIPTION_PROVIDER = "fixture";
+    workspaces.set("ws1", { settings: { transcriptionProvider: "no-such-provider" } });
+
+    expect(await transcriptionProviders.resolveForWorkspace("ws1")).toBe("fixture");
+    expect(await transcriptionProviders.resolveForWorkspace("missing")).toBe("fixture");
+    expect(await transcriptionProviders.resolveForWorkspace(null)).toBe("fixture");
+  });
+
+  it("defaults to openai without TRANSCRIPTION_PROVIDER", async () => {
+    expect(await transcriptionProviders.resolveForWorkspace()).toBe("openai");
+  });
+
+  it("rejects unknown provider names", () => {
+    expect(() => transcriptionProviders.get("no-such-provider")).toThrow("Unknown transcription provider");
+  });
+});
+
+describe("fixture provider", () => {
+  it("returns the built-in transcript with alternating speakers", async () => {
+    const result = await transcriptionProviders.get("fixture").transcribe("/nonexistent/audio.wav");
+
+    expect(result.text).toMatch(/^Welcome to the show\./);
+    expect(result.words?.[0]).toEqual({ word: "Welcome", start: 0, end: 0.4, speaker: "A" });
+    expect(new Set(result.words?.map(word => word.speaker))).toEqual(new Set(["A", "B"]));
+    expect(result.duration).toBe(result.words?.at(-1)?.end);
+  });
+
+  it("reads a fixture file next to the audio", async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "fixture-provider-"));
+    const audioPath = path.join(dir, "clip.wav");
+    const fixture = { text: "Hello there", words: [{ word: "Hello", start: 0, end: 0.5 }], duration: 0.5 };
+    await fs.promises.writeFile(`${audioPath}.fixture.json`, JSON.stringify(fixture));
+
+    try {
+      expect(await transcriptionProviders.get("fixture").transcribe(audioPath)).toEqual(fixture);
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("AssemblyAI polling", () => {
+  let audioDir: string;
+  let audioPath: string;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout"] });
+    process.env.ASSEMBLYAI_API_KEY = "test-key";
+    audioDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "assemblyai-"));
+    audioPath = path.join(audioDir, "audio.wav");
+    await fs.promises.writeFile(audioPath, "audio");
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    delete process.env.ASSEMBLYAI_API_KEY;
+    await fs.promises.rm(audioDir, { recursive: true, force: true });
+  });
+
+  // Upload and create succeed; each poll returns the next response
+  function stubFetch(polls: Array<{ status: number; body: unknown }>) {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith("/upload")) return Response.json({ upload_url: "https://cdn.example/audio" });
+      if (url.endsWith("/transcript")) return Response.json({ id: "t1" });
+      const next = polls.length > 1 ? polls.shift()! : polls[0];
+      return Response.json(next.body, { status: next.status });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  }
+
+  // Steps through the poll interval until the request settles; the upload
+  // reads a real file, so I/O gets a turn between steps
+  async function transcribe(): Promise<{ value?: TranscriptionResult; error?: Error }> {
+    let settled: { value?: TranscriptionResult; error?: Error } | null = null;
+    transcriptionProviders.get("assemblyai").transcribe(audioPath).then(
+      value => (settled = { value }),
+      error => (settled = { error })
+    );
+    while (!settled) {
+      await new Promise(resolve => setImmediate(resolve));
+      await vi.advanceTimersByTimeAsync(3000);
+    }
+    return settled;
+  }
+
+  it("converts a completed transcript", async () => {
+    stubFetch([
+      { status: 200, body: { id: "t1", status: "processing" } },
+      {
+        status: 200,
+        body: {
+          id: "t1",
+          status: "completed",
+          text: "Hi there",
+          words: [{ text: "Hi", start: 0, end: 400, speaker: "A" }, { text: "there", start: 400, end: 900, speaker: "A" }],
+          utterances: [{ speaker: "A", start: 0, end: 900 }],
+          language_code: "en",
+          audio_duration: 1,
+        },
+      },
+    ]);
+
+    const { value } = await transcribe();
+    expect(value!.text).toBe("Hi there");
+    expect(value!.words).toEqual([
+      { word: "Hi", start: 0, end: 0.4, speaker: "A" },
+      { word: "there", start: 0.4, end: 0.9, speaker: "A" },
+    ]);
+    expect(value!.speakers).toEqual([{ speaker: "A", start: 0, end: 0.9 }]);
+  });
+
+  it("throws when a status request fails", async () => {
+    stubFetch([{ status: 500, body: { error: "boom" } }]);
+    const { error } = await transcribe();
+    expect(error?.message).toMatch(/status request failed: 500/);
+  });
+
+  it("throws on statuses other than completed and error", async () => {
+    stubFetch([{ status: 200, body: { id: "t1", status: "archived" } }]);
+    const { error } = await transcribe();
+    expect(error?.message).toMatch(/unexpected status archived/);
+  });
+
+  it("reports transcription errors", async () => {
+    stubFetch([{ status: 200, body: { id: "t1", status: "error", error: "Audio too short" } }]);
+    const { error } = await transcribe();
+    expect(error?.message).toMatch(/Audio too short/);
+  });
+
+  it("gives up when the transcript never finishes", async () => {
+    const fetchMock = stubFetch([{ status: 200, body: { id: "t1", status: "queued" } }]);
+    const { error } = await transcribe();
+
+    expect(error?.message).toMatch(/not ready after 60 minutes/);
+    expect(fetchMock).toHaveBeenCalledTimes(2 + 1200);
+  });
+});
@@ -0,0 +1,405 @@
+import OpenAI from 'openai';
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { TranscriptionResult } from './openai';
+import { buildSpeakerTurns } from './transcriptData';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+const execFileAsync = promisify(execFile);
+
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key"
+});
+
+export interface TranscriptionOptions {
+  language?: string;
+  prompt?: string; // Free-text hint, e.g. a glossary of names to spell correctly
+  vocabulary?: string[]; // Terms to boost for providers that take a word list
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  description: string;
+  maxFileSize?: number; // Larger files are split and transcribed in chunks
+  diarization: boolean; // Whether results include speaker labels
+  isConfigured(): boolean;
+  transcribe(audioFilePath: string, options?: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+// Hosted Whisper API, the default backend
+class OpenAIWhisperProvider implements TranscriptionProvider {
+  name = 'openai';
+  description = 'OpenAI whisper-1 API';
+  diarization = false;
+  maxFileSize = 24 * 1024 * 1024; // API rejects uploads over 25MB
+
+  isConfigured(): boolean {
+    return !!(process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR);
+  }
+
+  async transcribe(audioFilePath: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    const transcription = await openai.audio.transcriptions.create({
+      file: fs.createReadStream(audioFilePath),
+      model: "whisper-1",
+      response_format: "verbose_json",
+      timestamp_granularities: ["word"],
+      language: options.language,
+      prompt: options.prompt,
+    });
+
+    return {
+      text: transcription.text,
+      words: transcription.words?.map(word => ({
+        word: word.word,
+        start: word.start,
+        end: word.end,
+      })),
+      language: transcription.language,
+      duration: transcription.duration,
+    };
+  }
+}
+
+// whisper.cpp CLI for offline or private transcription. Needs WHISPER_CPP_MODEL
+// pointing at a ggml model; the binary defaults to `whisper-cli` on PATH.
+class WhisperCppProvider implements TranscriptionProvider {
+  name = 'whisper-cpp';
+  description = 'Local whisper.cpp CLI';
+  diarization = false;
+
+  isConfigured(): boolean {
+    return !!process.env.WHISPER_CPP_MODEL;
+  }
+
+  async transcribe(audioFilePath: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    if (!this.isConfigured()) {
+      throw new Error('WHISPER_CPP_MODEL is not configured');
+    }
+
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'whisper-cpp-'));
+
+    try {
+      // whisper.cpp only reads 16kHz mono WAV
+      const wavPath = path.join(workDir, 'input.wav');
+      await convertToWav(audioFilePath, wavPath);
+
+      const outputBase = path.join(workDir, 'output');
+      await execFileAsync(process.env.WHISPER_CPP_PATH || 'whisper-cli', [
+        '-m', process.env.WHISPER_CPP_MODEL!,
+        '-f', wavPath,
+        '-l', options.language || 'auto',
+        '-ml', '1', // One word per entry gives word-level timestamps
+        '-sow',
+        '-oj',
+        '-of', outputBase,
+        ...(options.prompt ? ['--prompt', options.prompt] : []),
+      ], { maxBuffer: 64 * 1024 * 1024 });
+
+      const output = JSON.parse(await fs.promises.readFile(`${outputBase}.json`, 'utf-8'));
+      const entries: Array<{ offsets: { from: number; to: number }; text: string }> = output.transcription || [];
+
+      const words = entries
+        .filter(entry => entry.text.trim())
+        .map(entry => ({
+          word: entry.text.trim(),
+          start: entry.offsets.from / 1000,
+          end: entry.offsets.to / 1000,
+        }));
+
+      return {
+        text: words.map(w => w.word).join(' '),
+        words,
+        language: output.result?.language,
+        duration: words.length ? words[words.length - 1].end : 0,
+      };
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+// faster-whisper through the whisper-ctranslate2 CLI. The model name or path
+// comes from FASTER_WHISPER_MODEL and defaults to `small`.
+class FasterWhisperProvider implements TranscriptionProvider {
+  name = 'faster-whisper';
+  description = 'Local faster-whisper CLI (whisper-ctranslate2)';
+  diarization = false;
+
+  isConfigured(): boolean {
+    return !!(process.env.FASTER_WHISPER_PATH || process.env.FASTER_WHISPER_MODEL);
+  }
+
+  async transcribe(audioFilePath: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'faster-whisper-'));
+
+    try {
+      const args = [
+        audioFilePath,
+        '--model', process.env.FASTER_WHISPER_MODEL || 'small',
+        '--output_format', 'json',
+        '--output_dir', workDir,
+        '--word_timestamps', 'True',
+      ];
+      if (options.language) {
+        args.push('--language', options.language);
+      }
+      if (options.prompt) {
+        args.push('--initial_prompt', options.prompt);
+      }
+
+      await execFileAsync(process.env.FASTER_WHISPER_PATH || 'whisper-ctranslate2', args, {
+        maxBuffer: 64 * 1024 * 1024,
+      });
+
+      const outputName = `${path.basename(audioFilePath, path.extname(audioFilePath))}.json`;
+      const output = JSON.parse(await fs.promises.readFile(path.join(workDir, outputName), 'utf-8'));
+      const segments: Array<{ end: number; words?: Array<{ word: string; start: number; end: number }> }> =
+        output.segments || [];
+
+      const words = segments.flatMap(segment => segment.words || []).map(word => ({
+        word: word.word.trim(),
+        start: word.start,
+        end: word.end,
+      }));
+
+      return {
+        text: (output.text || '').trim(),
+        words,
+        language: output.language,
+        duration: segments.length ? segments[segments.length - 1].end : 0,
+      };
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+// Fields of AssemblyAI's transcript resource that we read
+interface AssemblyAITranscript {
+  id: string;
+  status: 'queued' | 'processing' | 'completed' | 'error';
+  text?: string | null;
+  error?: string;
+  words?: Array<{ text: string; start: number; end: number; speaker?: string | null }> | null;
+  utterances?: Array<{ speaker: string; start: number; end: number }> | null;
+  language_code?: string;
+  audio_duration?: number | null;
+}
+
+// AssemblyAI with speaker labels, used when diarization is needed
+class AssemblyAIProvider implements TranscriptionProvider {
+  name = 'assemblyai';
+  description = 'AssemblyAI with speaker diarization';
+  diarization = true;
+
+  private static readonly API_BASE = 'https://api.assemblyai.com/v2';
+  private static readonly POLL_INTERVAL_MS = 3000;
+  private static readonly MAX_POLL_ATTEMPTS = 1200; // One hour at the poll interval
+
+  isConfigured(): boolean {
+    return !!process.env.ASSEMBLYAI_API_KEY;
+  }
+
+  async transcribe(audioFilePath: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    if (!this.isConfigured()) {
+      throw new Error('ASSEMBLYAI_API_KEY is not configured');
+    }
+
+    const headers = { 'Authorization': process.env.ASSEMBLYAI_API_KEY! };
+
+    const uploadResponse = await fetch(`${AssemblyAIProvider.API_BASE}/upload`, {
+      method: 'POST',
+      headers,
+      body: await fs.promises.readFile(audioFilePath),
+    });
+    if (!uploadResponse.ok) {
+      throw new Error(`AssemblyAI upload failed: ${uploadResponse.statusText}`);
+    }
+    const { upload_url } = await uploadResponse.json() as { upload_url: string };
+
+    const createResponse = await fetch(`${AssemblyAIProvider.API_BASE}/transcript`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        audio_url: upload_url,
+        speaker_labels: true,
+        ...(options.vocabulary?.length ? { word_boost: options.vocabulary } : {}),
+        ...(options.language ? { language_code: options.language } : { language_detection: true }),
+      }),
+    });
+    if (!createResponse.ok) {
+      throw new Error(`AssemblyAI transcript request failed: ${createResponse.statusText}`);
+    }
+    const { id } = await createResponse.json() as Pick<AssemblyAITranscript, 'id'>;
+    const transcript = await this.waitForTranscript(id, headers);
+
+    // AssemblyAI reports times in milliseconds
+    const words = (transcript.words || []).map(word => ({
+      word: word.text,
+      start: word.start / 1000,
+      end: word.end / 1000,
+      speaker: word.speaker || undefined,
+    }));
+
+    return {
+      text: transcript.text || '',
+      words,
+      speakers: (transcript.utterances || []).map(utterance => ({
+        speaker: utterance.speaker,
+        start: utterance.start / 1000,
+        end: utterance.end / 1000,
+      })),
+      language: transcript.language_code,
+      duration: transcript.audio_duration ?? undefined,
+    };
+  }
+
+  // Polls until the transcript completes, giving up after MAX_POLL_ATTEMPTS
+  private async waitForTranscript(id: string, headers: Record<string, string>): Promise<AssemblyAITranscript> {
+    for (let attempt = 0; attempt < AssemblyAIProvider.MAX_POLL_ATTEMPTS; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, AssemblyAIProvider.POLL_INTERVAL_MS));
+
+      const pollResponse = await fetch(`${AssemblyAIProvider.API_BASE}/transcript/${id}`, { headers });
+      if (!pollResponse.ok) {
+        throw new Error(`AssemblyAI status request failed: ${pollResponse.status} ${pollResponse.statusText}`);
+      }
+
+      const transcript = await pollResponse.json() as AssemblyAITranscript;
+      switch (transcript.status) {
+        case 'completed':
+          return transcript;
+        case 'error':
+          throw new Error(`AssemblyAI transcription failed: ${transcript.error}`);
+        case 'queued':
+        case 'processing':
+          continue;
+        default:
+          throw new Error(`AssemblyAI returned unexpected status ${(transcript as { status?: unknown }).status}`);
+      }
+    }
+
+    const minutes = (AssemblyAIProvider.MAX_POLL_ATTEMPTS * AssemblyAIProvider.POLL_INTERVAL_MS) / 60000;
+    throw new Error(`AssemblyAI transcript ${id} was not ready after ${minutes} minutes`);
+  }
+}
+
+// Deterministic output for tests and local development. Reads
+// `<file>.fixture.json` when present, otherwise returns a fixed transcript.
+class FixtureTranscriptionProvider implements TranscriptionProvider {
+  name = 'fixture';
+  description = 'Deterministic fixture transcripts for tests';
+  diarization = true;
+
+  private static readonly FIXTURE_TEXT =
+    'Welcome to the show. Today we talk about building a content engine that turns one recording into a week of posts. ' +
+    'The first lesson is to start with the audience. The second lesson is to publish consistently and measure what works.';
+  private static readonly SECONDS_PER_WORD = 0.4;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async transcribe(audioFilePath: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    const fixturePath = `${audioFilePath}.fixture.json`;
+    if (fs.existsSync(fixturePath)) {
+      return JSON.parse(await fs.promises.readFile(fixturePath, 'utf-8'));
+    }
+
+    // Two speakers alternate sentence by sentence
+    let sentence = 0;
+    const words = FixtureTranscriptionProvider.FIXTURE_TEXT.split(' ').map((word, index) => {
+      const entry = {
+        word,
+        start: index * FixtureTranscriptionProvider.SECONDS_PER_WORD,
+        end: (index + 1) * FixtureTranscriptionProvider.SECONDS_PER_WORD,
+        speaker: sentence % 2 === 0 ? 'A' : 'B',
+      };
+      if (word.endsWith('.')) sentence++;
+      return entry;
+    });
+
+    return {
+      text: FixtureTranscriptionProvider.FIXTURE_TEXT,
+      words,
+      speakers: buildSpeakerTurns(words),
+      language: options.language || 'en',
+      duration: words[words.length - 1].end,
+    };
+  }
+}
+
+function convertToWav(inputPath: string, outputPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(inputPath)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(16000)
+      .audioCodec('pcm_s16le')
+      .format('wav')
+      .on('end', () => resolve())
+      .on('error', (error: Error) => reject(error))
+      .save(outputPath);
+  });
+}
+
+export class TranscriptionProviderRegistry {
+  private providers: Map<string, TranscriptionProvider> = new Map();
+
+  register(provider: TranscriptionProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  get(name: string = this.getDefaultName()): TranscriptionProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Unknown transcription provider: ${name}`);
+    }
+    return provider;
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  list(): Array<{ name: string; description: string; diarization: boolean; configured: boolean }> {
+    return Array.from(this.providers.values()).map(provider => ({
+      name: provider.name,
+      description: provider.description,
+      diarization: provider.diarization,
+      configured: provider.isConfigured(),
+    }));
+  }
+
+  getDefaultName(): string {
+    return process.env.TRANSCRIPTION_PROVIDER || 'openai';
+  }
+
+  // Picks the provider configured on the upload's workspace, falling back
+  // to the server-wide default
+  async resolveForWorkspace(workspaceId?: string | null): Promise<string> {
+    if (workspaceId) {
+      const { userManagementService } = await import('./userManagementService');
+      const workspace = await userManagementService.getWorkspace(workspaceId);
+      const configured = workspace?.settings.transcriptionProvider;
+
+      if (configured && this.has(configured)) {
+        return configured;
+      }
+    }
+
+    return this.getDefaultName();
+  }
+}
+
+export const transcriptionProviders = new TranscriptionProviderRegistry();
+transcriptionProviders.register(new OpenAIWhisperProvider());
+transcriptionProviders.register(new WhisperCppProvider());
+transcriptionProviders.register(new FasterWhisperProvider());
+transcriptionProviders.register(new AssemblyAIProvider());
+transcriptionProviders.register(new FixtureTranscriptionProvider());
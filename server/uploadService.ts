@@ -4,6 +4,9 @@ import path from 'path';
 import fs from 'fs/promises';
 import { v4 as uuidv4 } from 'uuid';
 import { storage } from './storage';
+import { inspectUploadFile } from './mediaProbe';
+import { storeFile } from './blobStore';
+import { checkStorageQuota } from './storageQuota';
 
 interface ChunkInfo {
   uploadId: string;
@@ -106,6 +109,14 @@ class UploadService {
         return res.status(400).json({ error: sizeValidation.error });
       }
 
+      const userId = (req as any).user?.claims?.sub;
+      if (userId) {
+        const quota = await checkStorageQuota({ userId, workspaceId: req.body.workspaceId || null }, parseInt(totalSize));
+        if (!quota.allowed) {
+          return res.status(413).json({ error: quota.error });
+        }
+      }
+
       const uploadId = uuidv4();
       const chunkInfo: ChunkInfo = {
         uploadId,
@@ -226,14 +237,30 @@ class UploadService {
       
       await writeStream.close();
 
+      const mimeType = this.getMimeType(chunkInfo.filename);
+      const inspection = await inspectUploadFile(finalPath, { mimeType, originalName: chunkInfo.filename });
+      if (!inspection.success) {
+        await fs.rm(uploadDir, { recursive: true, force: true });
+        this.activeUploads.delete(uploadId);
+        progress.status = 'error';
+        progress.error = inspection.error;
+        console.warn(`[UploadService] Upload rejected: ${uploadId} - ${inspection.error}`);
+        return;
+      }
+
+      const stored = await storeFile(finalPath, { contentType: mimeType, extension: path.extname(chunkInfo.filename) });
+      await fs.rm(uploadDir, { recursive: true, force: true });
+
       // Create upload record in storage
       await storage.createUpload({
         userId: 'current_user', // Would get from auth context
         filename: chunkInfo.filename,
         originalName: chunkInfo.filename,
-        filePath: finalPath,
+        filePath: stored.ref,
+        contentHash: stored.sha256,
         fileSize: chunkInfo.totalSize,
-        mimeType: this.getMimeType(chunkInfo.filename),
+        mimeType,
+        ...inspection.fields,
         status: 'uploaded'
       });
 
@@ -270,7 +297,8 @@ class UploadService {
       '.flac': 'audio/flac',
       '.txt': 'text/plain',
       '.rtf': 'application/rtf',
-      '.md': 'text/markdown'
+      '.md': 'text/markdown',
+      '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
     };
     return mimeTypes[ext] || 'application/octet-stream';
   }
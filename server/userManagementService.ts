@@ -1,22 +1,27 @@
 import { storage } from "./storage";
 import { User } from "@shared/schema";
+import type { GlossaryTerm } from "./glossary";
+import type { CaptionPreset } from "./captionStyles";
+import type { AudioPreprocessingSettings } from "./audioPreprocessing";
+import type { RetentionSettings } from "./retentionService";
+import { DEFAULT_BRANDING, type BrandingConfig } from "./branding";
 
 interface Workspace {
   id: string;
   name: string;
   description?: string;
   ownerId: string;
-  brandingConfig: {
-    logo?: string;
-    primaryColor: string;
-    secondaryColor: string;
-    fontFamily: string;
-  };
+  brandingConfig: BrandingConfig;
   settings: {
     timezone: string;
     currency: string;
     defaultPlatforms: string[];
     contentGuidelines?: string;
+    transcriptionProvider?: string;
+    glossary?: GlossaryTerm[];
+    captionPresets?: CaptionPreset[];
+    audioPreprocessing?: AudioPreprocessingSettings;
+    retention?: RetentionSettings;
   };
   createdAt: Date;
   updatedAt: Date;
@@ -220,9 +225,7 @@ export class UserManagementService {
       description: data.description,
       ownerId,
       brandingConfig: {
-        primaryColor: '#3B82F6',
-        secondaryColor: '#1F2937',
-        fontFamily: 'Inter, sans-serif',
+        ...DEFAULT_BRANDING,
         ...data.brandingConfig
       },
       settings: {
@@ -260,6 +263,10 @@ export class UserManagementService {
     return userWorkspaces.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
   }
 
+  async getAllWorkspaces(): Promise<Workspace[]> {
+    return Array.from(this.workspaces.values());
+  }
+
   async getWorkspace(workspaceId: string): Promise<Workspace | undefined> {
     return this.workspaces.get(workspaceId);
   }
@@ -280,6 +287,23 @@ export class UserManagementService {
     console.log(`[UserManagement] Updated workspace: ${workspaceId}`);
   }
 
+  async updateWorkspaceSettings(workspaceId: string, settings: Partial<Workspace['settings']>): Promise<Workspace> {
+    const workspace = this.workspaces.get(workspaceId);
+    if (!workspace) {
+      throw new Error('Workspace not found');
+    }
+
+    const updatedWorkspace = {
+      ...workspace,
+      settings: { ...workspace.settings, ...settings },
+      updatedAt: new Date()
+    };
+
+    this.workspaces.set(workspaceId, updatedWorkspace);
+    console.log(`[UserManagement] Updated settings for workspace: ${workspaceId}`);
+    return updatedWorkspace;
+  }
+
   async deleteWorkspace(workspaceId: string, userId: string): Promise<void> {
     const workspace = this.workspaces.get(workspaceId);
     if (!workspace) {
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+
+const state = vi.hoisted(() => ({ assets: new Map<string, any>(), removed: [] as string[] }));
+
+vi.mock("./storage", () => ({
+  storage: {
+    getDerivedAsset: vi.fn(async (uploadId: string, kind: string) => state.assets.get(`${uploadId}:${kind}`)),
+    deleteDerivedAsset: vi.fn(async (uploadId: string, kind: string) => { state.assets.delete(`${uploadId}:${kind}`); }),
+  },
+}));
+vi.mock("./blobStore", () => ({
+  blobStore: { putBuffer: vi.fn() },
+  resolveLocalPath: vi.fn(async (ref: string) => ref.replace("blob:", "")),
+  removeStoredFile: vi.fn(async (ref: string) => {
+    state.removed.push(ref);
+    return true;
+  }),
+}));
+
+const { downsample, getWaveform, removeWaveform, WAVEFORM } = await import("./waveform");
+
+beforeEach(() => {
+  state.assets = new Map();
+  state.removed = [];
+});
+
+describe("downsample", () => {
+  const waveform = { sampleRate: 8000, duration: 1, peaks: [0.1, 0.5, 0.2, 0.9, 0.3] };
+
+  it("keeps the loudest peak of each group", () => {
+    expect(downsample(waveform, 3).peaks).toEqual([0.5, 0.9, 0.3]);
+  });
+
+  it("leaves waveforms with no more peaks than asked for alone", () => {
+    expect(downsample(waveform, 5)).toBe(waveform);
+    expect(downsample(waveform, 100)).toBe(waveform);
+  });
+});
+
+describe("getWaveform", () => {
+  it("serves the cached waveform of the upload without decoding", async () => {
+    const cachePath = path.join(os.tmpdir(), `waveform-test-${process.pid}.json`);
+    await fs.writeFile(cachePath, JSON.stringify({ sampleRate: 8000, duration: 2, peaks: [0.2, 0.4, 0.6, 0.8] }));
+    state.assets.set(`u1:${WAVEFORM}`, { filePath: `blob:${cachePath}` });
+
+    try {
+      const waveform = await getWaveform({ id: "u1", filePath: "blob:source.mp4" } as any, 2);
+      expect(waveform).toEqual({ sampleRate: 8000, duration: 2, peaks: [0.4, 0.8] });
+    } finally {
+      await fs.unlink(cachePath);
+    }
+  });
+});
+
+describe("removeWaveform", () => {
+  it("deletes the derived asset and its file", async () => {
+    state.assets.set(`u1:${WAVEFORM}`, { filePath: "blob:peaks.json" });
+
+    await removeWaveform("u1");
+
+    expect(state.assets.size).toBe(0);
+    expect(state.removed).toEqual(["blob:peaks.json"]);
+  });
+});
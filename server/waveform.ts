@@ -0,0 +1,124 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import fs from 'fs/promises';
+import type { Upload } from '@shared/schema';
+import { storage } from './storage';
+import { blobStore, removeStoredFile, resolveLocalPath } from './blobStore';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+export const WAVEFORM = 'waveform';
+
+export interface Waveform {
+  sampleRate: number;
+  duration: number;
+  peaks: number[]; // Normalised 0-1 peak per bucket
+}
+
+const WAVEFORM_SAMPLE_RATE = 8000;
+const DEFAULT_POINTS = 1000;
+export const MAX_WAVEFORM_POINTS = 5000;
+
+// Peaks for drawing an upload's waveform. Decoding a long upload takes
+// several seconds, so peaks at the highest resolution are kept as a
+// derived asset of the upload and narrower requests are taken from them.
+export async function getWaveform(upload: Upload, points: number = DEFAULT_POINTS): Promise<Waveform> {
+  const cached = await storage.getDerivedAsset(upload.id, WAVEFORM);
+  if (cached) {
+    try {
+      return downsample(JSON.parse(await fs.readFile(await resolveLocalPath(cached.filePath), 'utf8')), points);
+    } catch (error) {
+      console.warn(`[Waveform] Cached waveform for upload ${upload.id} is unreadable, decoding again:`, (error as Error).message);
+    }
+  }
+
+  const samples = await decodeSamples(await resolveLocalPath(upload.filePath));
+  const waveform: Waveform = {
+    sampleRate: WAVEFORM_SAMPLE_RATE,
+    duration: samples.length / WAVEFORM_SAMPLE_RATE,
+    peaks: bucketPeaks(samples, MAX_WAVEFORM_POINTS),
+  };
+
+  try {
+    const stored = await blobStore.putBuffer(Buffer.from(JSON.stringify(waveform)), {
+      contentType: 'application/json',
+      extension: '.json',
+    });
+    await storage.upsertDerivedAsset({
+      uploadId: upload.id,
+      kind: WAVEFORM,
+      filePath: stored.ref,
+      fileSize: stored.size,
+      mimeType: 'application/json',
+    });
+    if (cached && cached.filePath !== stored.ref) {
+      await removeStoredFile(cached.filePath);
+    }
+  } catch (error) {
+    console.warn(`[Waveform] Failed to cache waveform for upload ${upload.id}:`, (error as Error).message);
+  }
+
+  return downsample(waveform, points);
+}
+
+// Drops the cached waveform, e.g. once the source it was drawn from is gone
+export async function removeWaveform(uploadId: string): Promise<void> {
+  const cached = await storage.getDerivedAsset(uploadId, WAVEFORM);
+  if (!cached) return;
+  await storage.deleteDerivedAsset(uploadId, WAVEFORM);
+  await removeStoredFile(cached.filePath);
+}
+
+function bucketPeaks(samples: Int16Array, points: number): number[] {
+  const bucketSize = Math.max(1, Math.ceil(samples.length / points));
+  const peaks: number[] = [];
+
+  for (let offset = 0; offset < samples.length; offset += bucketSize) {
+    let peak = 0;
+    const end = Math.min(samples.length, offset + bucketSize);
+    for (let i = offset; i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks.push(Math.round((peak / 32768) * 1000) / 1000);
+  }
+  return peaks;
+}
+
+// Merges neighbouring peaks, keeping the loudest of each group
+export function downsample(waveform: Waveform, points: number): Waveform {
+  const groupSize = Math.max(1, Math.ceil(waveform.peaks.length / points));
+  if (groupSize === 1) return waveform;
+
+  const peaks: number[] = [];
+  for (let offset = 0; offset < waveform.peaks.length; offset += groupSize) {
+    peaks.push(Math.max(...waveform.peaks.slice(offset, offset + groupSize)));
+  }
+  return { ...waveform, peaks };
+}
+
+// Decodes to 8kHz mono signed 16-bit PCM
+function decodeSamples(filePath: string): Promise<Int16Array> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+
+    const stream = ffmpeg(filePath)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(WAVEFORM_SAMPLE_RATE)
+      .format('s16le')
+      .on('error', (error: Error) => reject(error))
+      .pipe();
+
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => {
+      const buffer = Buffer.concat(chunks);
+      const aligned = new Int16Array(buffer.length >> 1);
+      for (let i = 0; i < aligned.length; i++) {
+        aligned[i] = buffer.readInt16LE(i * 2);
+      }
+      resolve(aligned);
+    });
+    stream.on('error', (error: Error) => reject(error));
+  });
+}
@@ -1,8 +1,8 @@
 import PDFDocument from 'pdfkit';
-import fs from 'fs';
-import path from 'path';
 import OpenAI from 'openai';
 import { storage } from './storage';
+import { saveGeneratedFile } from './blobStore';
+import { parseJsonColumn } from './transcriptData';
 import { analyticsService } from './analyticsService';
 import { revenueTrackingService } from './revenueTracking';
 import { funnelAnalyticsService } from './funnelAnalytics';
@@ -49,31 +49,43 @@ interface WeeklyReportData {
   };
 }
 
-export class WeeklyReportGenerator {
-  private readonly REPORTS_DIR = './reports';
+export const WEEKLY_REPORT_KIND = 'weekly_report';
 
-  constructor() {
-    // Ensure reports directory exists
-    if (!fs.existsSync(this.REPORTS_DIR)) {
-      fs.mkdirSync(this.REPORTS_DIR, { recursive: true });
-    }
-  }
+export interface WeeklyReportMetadata {
+  weekNumber: number;
+  startDate?: string; // Not known for reports imported from the old reports directory
+  endDate?: string;
+}
 
+export class WeeklyReportGenerator {
   async generateWeeklyReport(userId: string, weekOffset: number = 0): Promise<{
-    filePath: string;
+    fileName: string;
+    filePath: string; // Blob ref of the PDF
     reportData: WeeklyReportData;
     emailSubject: string;
     emailBody: string;
   }> {
     try {
       const reportData = await this.collectReportData(userId, weekOffset);
-      const filePath = await this.generatePDF(reportData);
+      const pdf = await this.generatePDF(reportData);
+      const file = await saveGeneratedFile(pdf, {
+        userId,
+        kind: WEEKLY_REPORT_KIND,
+        fileName: `weekly-report-${userId}-week-${reportData.period.weekNumber}-${Date.now()}.pdf`,
+        mimeType: 'application/pdf',
+        metadata: JSON.stringify({
+          weekNumber: reportData.period.weekNumber,
+          startDate: reportData.period.startDate.toISOString(),
+          endDate: reportData.period.endDate.toISOString(),
+        } satisfies WeeklyReportMetadata),
+      });
       const { emailSubject, emailBody } = await this.generateEmailContent(reportData);
 
-      console.log(`[WeeklyReport] Generated report for user ${userId}: ${filePath}`);
+      console.log(`[WeeklyReport] Generated report for user ${userId}: ${file.filePath}`);
 
       return {
-        filePath,
+        fileName: file.fileName,
+        filePath: file.filePath,
         reportData,
         emailSubject,
         emailBody
@@ -374,15 +386,14 @@ export class WeeklyReportGenerator {
     }
   }
 
-  private async generatePDF(reportData: WeeklyReportData): Promise<string> {
-    const fileName = `weekly-report-${reportData.user.id}-week-${reportData.period.weekNumber}-${Date.now()}.pdf`;
-    const filePath = path.join(this.REPORTS_DIR, fileName);
-
+  private async generatePDF(reportData: WeeklyReportData): Promise<Buffer> {
     return new Promise((resolve, reject) => {
       try {
         const doc = new PDFDocument({ margin: 50 });
-        const stream = fs.createWriteStream(filePath);
-        doc.pipe(stream);
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
 
         // Header
         doc.fontSize(24).fillColor('#2563eb').text('AutoStage Weekly Report', 50, 50);
@@ -503,12 +514,6 @@ export class WeeklyReportGenerator {
         );
 
         doc.end();
-
-        stream.on('finish', () => {
-          resolve(filePath);
-        });
-
-        stream.on('error', reject);
       } catch (error) {
         reject(error);
       }
@@ -616,25 +621,13 @@ This report was automatically generated by AutoStage Analytics Engine.
     weekNumber: number;
   }>> {
     try {
-      const files = fs.readdirSync(this.REPORTS_DIR);
-      const userReports = files
-        .filter(file => file.includes(`-${userId}-week-`) && file.endsWith('.pdf'))
-        .map(file => {
-          const stats = fs.statSync(path.join(this.REPORTS_DIR, file));
-          const weekMatch = file.match(/-week-(\d+)-/);
-          const weekNumber = weekMatch ? parseInt(weekMatch[1]) : 0;
-          
-          return {
-            fileName: file,
-            filePath: path.join(this.REPORTS_DIR, file),
-            generatedAt: stats.birthtime,
-            weekNumber
-          };
-        })
-        .sort((a, b) => b.generatedAt.getTime() - a.generatedAt.getTime())
-        .slice(0, limit);
-
-      return userReports;
+      const reports = await storage.getGeneratedFiles(userId, WEEKLY_REPORT_KIND, limit);
+      return reports.map(report => ({
+        fileName: report.fileName,
+        filePath: report.filePath,
+        generatedAt: report.createdAt ?? new Date(0),
+        weekNumber: parseJsonColumn<WeeklyReportMetadata>(report.metadata)?.weekNumber ?? 0,
+      }));
     } catch (error) {
       console.error('[WeeklyReport] Error getting report history:', error);
       return [];
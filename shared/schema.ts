@@ -5,6 +5,7 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   uuid,
   numeric,
   integer,
@@ -41,25 +42,61 @@ export const users = pgTable("users", {
 });
 
 // Core AutoStage tables
+// Podcast RSS feeds polled for new episodes, which are imported as uploads
+export const podcastFeeds = pgTable(
+  "podcast_feeds",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: varchar("user_id").references(() => users.id).notNull(),
+    workspaceId: varchar("workspace_id"),
+    feedUrl: varchar("feed_url").notNull(),
+    title: varchar("title"),
+    pollIntervalMinutes: integer("poll_interval_minutes").default(60).notNull(),
+    active: boolean("active").default(true).notNull(),
+    etag: varchar("etag"), // Conditional request headers from the last fetch
+    lastModified: varchar("last_modified"),
+    latestEpisodeAt: timestamp("latest_episode_at"), // Episodes published after this are new
+    lastPolledAt: timestamp("last_polled_at"),
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_podcast_feed_user_url").on(table.userId, table.feedUrl)],
+);
+
 export const uploads = pgTable("uploads", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: varchar("user_id").references(() => users.id).notNull(),
+  workspaceId: varchar("workspace_id"),
   filename: varchar("filename").notNull(),
   originalName: varchar("original_name").notNull(),
   filePath: varchar("file_path").notNull(),
   fileSize: integer("file_size").notNull(),
   mimeType: varchar("mime_type").notNull(),
   duration: numeric("duration"),
-  status: varchar("status").default("uploaded").notNull(), // uploaded, transcribing, segmenting, processing, completed, failed
+  mediaInfo: jsonb("media_info"), // ffprobe results: container, codecs, resolution, frame rate, channels, bitrates
+  status: varchar("status").default("uploaded").notNull(), // uploaded, preprocessing, transcribing, segmenting, processing, completed, failed
+  source: varchar("source").default("upload").notNull(), // upload, url, rss
+  sourceUrl: varchar("source_url"), // Where an imported file was downloaded from
+  feedId: uuid("feed_id").references(() => podcastFeeds.id, { onDelete: "set null" }),
+  sourceGuid: varchar("source_guid"), // RSS item GUID
+  sourceMetadata: jsonb("source_metadata"), // Episode title, publish date and similar
+  contentHash: varchar("content_hash"), // SHA-256 of the file, for deduplication
+  sourceDeletedAt: timestamp("source_deleted_at"), // Set when a retention rule removed the original file
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_upload_content_hash").on(table.userId, table.contentHash),
+  index("IDX_upload_feed_guid").on(table.feedId, table.sourceGuid),
+]);
 
 export const transcripts = pgTable("transcripts", {
   id: uuid("id").primaryKey().defaultRandom(),
   uploadId: uuid("upload_id").references(() => uploads.id, { onDelete: "cascade" }).notNull(),
   text: text("text").notNull(),
   wordTimestamps: jsonb("word_timestamps"), // Whisper word-level timestamps
+  speakerTurns: jsonb("speaker_turns"), // Diarized turns: speaker label, start, end
+  speakerNames: jsonb("speaker_names"), // Display names keyed by speaker label
   language: varchar("language"),
   confidence: numeric("confidence"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -74,20 +111,103 @@ export const segments = pgTable("segments", {
   endTime: numeric("end_time").notNull(),
   transcript: text("transcript"),
   order: integer("order").notNull(),
+  thumbnailFrames: jsonb("thumbnail_frames"), // Scored candidate frames for thumbnails, best first
+  thumbnailFramePath: varchar("thumbnail_frame_path"), // Chosen candidate, used as the thumbnail background
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const clips = pgTable("clips", {
   id: uuid("id").primaryKey().defaultRandom(),
   segmentId: uuid("segment_id").references(() => segments.id, { onDelete: "cascade" }).notNull(),
-  type: varchar("type").notNull(), // vertical_short, quote_graphic, social_post
+  type: varchar("type").notNull(), // vertical_short, square_video, portrait_video, landscape_video, quote_graphic, social_post
   filePath: varchar("file_path"),
+  fileSize: integer("file_size"), // Bytes of the rendered file
   content: text("content"), // For text-based content like social posts
   metadata: jsonb("metadata"), // Additional clip-specific data
-  status: varchar("status").default("pending").notNull(), // pending, processing, completed, failed
+  status: varchar("status").default("pending").notNull(), // pending, processing, completed, failed, expired
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Persisted state for each step of the upload processing pipeline
+export const processingStages = pgTable(
+  "processing_stages",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    uploadId: uuid("upload_id").references(() => uploads.id, { onDelete: "cascade" }).notNull(),
+    stage: varchar("stage").notNull(), // audio_preprocessing, transcription, segmentation, clips, social_content
+    status: varchar("status").default("pending").notNull(), // pending, running, completed, failed, stale
+    attempts: integer("attempts").default(0).notNull(),
+    error: text("error"),
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_processing_stage_upload").on(table.uploadId, table.stage)],
+);
+
+// Files derived from an upload, e.g. its loudness-normalized audio
+export const derivedAssets = pgTable(
+  "derived_assets",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    uploadId: uuid("upload_id").references(() => uploads.id, { onDelete: "cascade" }).notNull(),
+    kind: varchar("kind").notNull(), // normalized_media, waveform
+    filePath: varchar("file_path").notNull(),
+    fileSize: integer("file_size").notNull(),
+    mimeType: varchar("mime_type").notNull(),
+    metadata: jsonb("metadata"), // Processing settings and measurements
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_derived_asset_upload_kind").on(table.uploadId, table.kind)],
+);
+
+// Files generated for a user rather than from an upload's media: quote
+// graphics, thumbnails and weekly reports. filePath holds a blob ref.
+export const generatedFiles = pgTable(
+  "generated_files",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+    segmentId: uuid("segment_id").references(() => segments.id, { onDelete: "set null" }),
+    kind: varchar("kind").notNull(), // quote_graphic, thumbnail, weekly_report, brand_asset
+    fileName: varchar("file_name").notNull(), // Name to download it under
+    filePath: varchar("file_path").notNull(),
+    fileSize: integer("file_size").notNull(),
+    mimeType: varchar("mime_type").notNull(),
+    metadata: jsonb("metadata"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_generated_file_user_kind").on(table.userId, table.kind)],
+);
+
+// What became of each feed item, so polls skip episodes already imported
+// or found to match another upload, and retry failed imports with backoff
+export const feedItems = pgTable(
+  "feed_items",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    feedId: uuid("feed_id").references(() => podcastFeeds.id, { onDelete: "cascade" }).notNull(),
+    guid: varchar("guid").notNull(),
+    status: varchar("status").notNull(), // queued, imported, duplicate, failed
+    uploadId: uuid("upload_id").references(() => uploads.id, { onDelete: "set null" }), // The import, or the upload it duplicates
+    attempts: integer("attempts").default(0).notNull(), // Failed imports so far
+    lastError: text("last_error"),
+    nextAttemptAt: timestamp("next_attempt_at"), // When a queued or failed import is tried again; null once given up
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_feed_item_feed_guid").on(table.feedId, table.guid)],
+);
+
+// The last scheduled retention run per workspace, so a restart neither
+// skips a day nor repeats one. Workspaces are not database rows, so there
+// is no foreign key.
+export const retentionRuns = pgTable("retention_runs", {
+  workspaceId: varchar("workspace_id").primaryKey(),
+  lastRunAt: timestamp("last_run_at").notNull(),
+  dryRun: boolean("dry_run").notNull(),
+  filesSelected: integer("files_selected").notNull(),
+});
+
 export const socialAccounts = pgTable("social_accounts", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
@@ -133,6 +253,46 @@ export const uploadsRelations = relations(uploads, ({ one, many }) => ({
   }),
   transcript: one(transcripts),
   segments: many(segments),
+  processingStages: many(processingStages),
+  derivedAssets: many(derivedAssets),
+  feed: one(podcastFeeds, {
+    fields: [uploads.feedId],
+    references: [podcastFeeds.id],
+  }),
+}));
+
+export const podcastFeedsRelations = relations(podcastFeeds, ({ one, many }) => ({
+  user: one(users, {
+    fields: [podcastFeeds.userId],
+    references: [users.id],
+  }),
+  episodes: many(uploads),
+  items: many(feedItems),
+}));
+
+export const feedItemsRelations = relations(feedItems, ({ one }) => ({
+  feed: one(podcastFeeds, {
+    fields: [feedItems.feedId],
+    references: [podcastFeeds.id],
+  }),
+  upload: one(uploads, {
+    fields: [feedItems.uploadId],
+    references: [uploads.id],
+  }),
+}));
+
+export const derivedAssetsRelations = relations(derivedAssets, ({ one }) => ({
+  upload: one(uploads, {
+    fields: [derivedAssets.uploadId],
+    references: [uploads.id],
+  }),
+}));
+
+export const processingStagesRelations = relations(processingStages, ({ one }) => ({
+  upload: one(uploads, {
+    fields: [processingStages.uploadId],
+    references: [uploads.id],
+  }),
 }));
 
 export const transcriptsRelations = relations(transcripts, ({ one }) => ({
@@ -186,6 +346,32 @@ export const insertClipSchema = createInsertSchema(clips).omit({
   createdAt: true,
 });
 
+export const insertProcessingStageSchema = createInsertSchema(processingStages).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertPodcastFeedSchema = createInsertSchema(podcastFeeds).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertFeedItemSchema = createInsertSchema(feedItems).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertDerivedAssetSchema = createInsertSchema(derivedAssets).omit({
+  id: true,
+  createdAt: true,
+});
+
+// createdAt stays settable so imported files keep their original date
+export const insertGeneratedFileSchema = createInsertSchema(generatedFiles).omit({
+  id: true,
+});
+
 export const insertSocialPostSchema = createInsertSchema(socialPosts).omit({
   id: true,
   createdAt: true,
@@ -203,6 +389,17 @@ export type Segment = typeof segments.$inferSelect;
 export type InsertSegment = z.infer<typeof insertSegmentSchema>;
 export type Clip = typeof clips.$inferSelect;
 export type InsertClip = z.infer<typeof insertClipSchema>;
+export type ProcessingStage = typeof processingStages.$inferSelect;
+export type InsertProcessingStage = z.infer<typeof insertProcessingStageSchema>;
+export type PodcastFeed = typeof podcastFeeds.$inferSelect;
+export type InsertPodcastFeed = z.infer<typeof insertPodcastFeedSchema>;
+export type FeedItem = typeof feedItems.$inferSelect;
+export type InsertFeedItem = z.infer<typeof insertFeedItemSchema>;
+export type DerivedAsset = typeof derivedAssets.$inferSelect;
+export type InsertDerivedAsset = z.infer<typeof insertDerivedAssetSchema>;
+export type GeneratedFile = typeof generatedFiles.$inferSelect;
+export type InsertGeneratedFile = z.infer<typeof insertGeneratedFileSchema>;
+export type RetentionRun = typeof retentionRuns.$inferSelect;
 export type SocialPost = typeof socialPosts.$inferSelect;
 export type InsertSocialPost = z.infer<typeof insertSocialPostSchema>;
 export type SocialAccount = typeof socialAccounts.$inferSelect;